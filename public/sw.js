@@ -0,0 +1,160 @@
+// Grandma Todo 서비스 워커.
+// - 서버가 보낸 Web Push를 알림으로 띄운다(가족 기기).
+// - /elder가 넘긴 오늘의 알림 일정을 보관했다가, 탭이 가려지거나 닫혀 있어도 시스템 알림으로 띄운다.
+//   Notification Triggers를 지원하면 예약해 두고, 아니면 서비스 워커가 깨어날 때마다 밀린 알림을 확인한다.
+// - 알림의 "완료했어요"는 열린 /elder 페이지에 넘기고, 페이지가 없으면 다음에 열 때 처리하도록 남겨 둔다.
+
+const ALERTS_CACHE = "grandma-todo-alerts";
+const ALERTS_URL = "/__alerts";
+const PENDING_DONE_CACHE = "grandma-todo-pending-done";
+const PENDING_DONE_URL = "/__pending-done";
+const ELDER_TAG_PREFIX = "elder:";
+
+const readJson = async (cacheName, url, fallback) => {
+  const cache = await caches.open(cacheName);
+  const response = await cache.match(url);
+  if (!response) {
+    return fallback;
+  }
+  try {
+    return await response.json();
+  } catch {
+    return fallback;
+  }
+};
+
+const writeJson = async (cacheName, url, value) => {
+  const cache = await caches.open(cacheName);
+  await cache.put(
+    url,
+    new Response(JSON.stringify(value), { headers: { "Content-Type": "application/json" } })
+  );
+};
+
+const supportsTriggers = () =>
+  typeof self.TimestampTrigger === "function" && "showTrigger" in Notification.prototype;
+
+const showElderAlert = (alert, trigger) =>
+  self.registration.showNotification(alert.title, {
+    body: alert.body,
+    tag: alert.tag,
+    requireInteraction: true,
+    data: { taskId: alert.taskId, dateKey: alert.dateKey, url: "/elder" },
+    actions: [{ action: "done", title: "완료했어요" }],
+    ...(trigger ? { showTrigger: trigger } : {})
+  });
+
+// 시각이 된 알림 중 아직 띄우지 않은 것을 띄운다.
+const showDueAlerts = async () => {
+  const state = await readJson(ALERTS_CACHE, ALERTS_URL, { alerts: [], shown: [] });
+  const now = Date.now();
+  const shown = new Set(state.shown);
+  const due = state.alerts.filter(
+    (alert) => alert.at <= now && now < alert.until && !shown.has(alert.tag)
+  );
+  if (due.length === 0) {
+    return;
+  }
+  await Promise.all(due.map((alert) => showElderAlert(alert)));
+  due.forEach((alert) => shown.add(alert.tag));
+  await writeJson(ALERTS_CACHE, ALERTS_URL, { ...state, shown: Array.from(shown) });
+};
+
+// 페이지가 새 일정을 넘기면 목록에 없는(완료했거나 지워진) 알림은 닫고, 새 일정으로 바꾼다.
+const scheduleAlerts = async (alerts) => {
+  const previous = await readJson(ALERTS_CACHE, ALERTS_URL, { alerts: [], shown: [] });
+  const tags = new Set(alerts.map((alert) => alert.tag));
+  const notifications = await self.registration.getNotifications(
+    supportsTriggers() ? { includeTriggered: true } : undefined
+  );
+  notifications
+    .filter((item) => item.tag.startsWith(ELDER_TAG_PREFIX) && !tags.has(item.tag))
+    .forEach((item) => item.close());
+
+  const shown = previous.shown.filter((tag) => tags.has(tag));
+  await writeJson(ALERTS_CACHE, ALERTS_URL, { alerts, shown });
+
+  if (supportsTriggers()) {
+    const now = Date.now();
+    const pending = new Set(notifications.map((item) => item.tag));
+    await Promise.all(
+      alerts
+        .filter((alert) => alert.at > now && !pending.has(alert.tag))
+        .map((alert) => showElderAlert(alert, new self.TimestampTrigger(alert.at)))
+    );
+  }
+  await showDueAlerts();
+};
+
+const requestDone = async (data) => {
+  const clients = await self.clients.matchAll({ type: "window", includeUncontrolled: true });
+  const elderClients = clients.filter((client) => new URL(client.url).pathname === "/elder");
+  if (elderClients.length > 0) {
+    elderClients.forEach((client) =>
+      client.postMessage({ type: "mark-done", taskId: data.taskId, dateKey: data.dateKey })
+    );
+    return;
+  }
+  const pending = await readJson(PENDING_DONE_CACHE, PENDING_DONE_URL, []);
+  pending.push({ taskId: data.taskId, dateKey: data.dateKey });
+  await writeJson(PENDING_DONE_CACHE, PENDING_DONE_URL, pending);
+};
+
+self.addEventListener("install", () => {
+  self.skipWaiting();
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(self.clients.claim());
+});
+
+self.addEventListener("message", (event) => {
+  if (event.data?.type === "schedule-alerts") {
+    event.waitUntil(scheduleAlerts(Array.isArray(event.data.alerts) ? event.data.alerts : []));
+  }
+});
+
+self.addEventListener("periodicsync", (event) => {
+  if (event.tag === "elder-alerts") {
+    event.waitUntil(showDueAlerts());
+  }
+});
+
+self.addEventListener("push", (event) => {
+  let payload = {};
+  try {
+    payload = event.data ? event.data.json() : {};
+  } catch {
+    payload = { body: event.data ? event.data.text() : "" };
+  }
+  const title = payload.title || "Grandma Todo";
+  event.waitUntil(
+    Promise.all([
+      self.registration.showNotification(title, {
+        body: payload.body || "",
+        tag: payload.tag,
+        data: { url: payload.url || "/mypage" }
+      }),
+      showDueAlerts()
+    ])
+  );
+});
+
+self.addEventListener("notificationclick", (event) => {
+  event.notification.close();
+  const data = event.notification.data || {};
+  if (event.action === "done" && data.taskId) {
+    event.waitUntil(requestDone(data));
+    return;
+  }
+  const url = new URL(data.url || "/mypage", self.location.origin).href;
+  event.waitUntil(
+    self.clients.matchAll({ type: "window", includeUncontrolled: true }).then((clients) => {
+      const existing = clients.find((client) => client.url === url);
+      if (existing) {
+        return existing.focus();
+      }
+      return self.clients.openWindow(url);
+    })
+  );
+});
@@ -0,0 +1,33 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { loadCalendarFeed } from "@/lib/calendar-feed";
+import { buildIcsCalendar } from "@/lib/ics";
+import { createSupabaseAdminClient } from "@/lib/supabase/admin";
+
+export const dynamic = "force-dynamic";
+
+// 캘린더 앱(Google, Apple)이 구독하는 가족 일정. 로그인 대신 `/mypage`에서 만든
+// 사람별 토큰(`?token=`)으로 확인한다.
+export async function GET(request: NextRequest) {
+  const token = request.nextUrl.searchParams.get("token")?.trim();
+  if (!token) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const feed = await loadCalendarFeed(createSupabaseAdminClient(), token);
+    if (!feed) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    return new NextResponse(buildIcsCalendar(feed.events, { name: feed.name }), {
+      headers: {
+        "Content-Type": "text/calendar; charset=utf-8",
+        "Content-Disposition": 'inline; filename="grandma-todo.ics"',
+        "Cache-Control": "private, max-age=300"
+      }
+    });
+  } catch (error) {
+    // 자세한 오류는 서버 로그에만 남기고 응답에는 싣지 않는다.
+    console.error("calendar feed failed", error);
+    return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,22 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { runMissedTaskAlerts } from "@/lib/missed-tasks";
+import { createSupabaseAdminClient } from "@/lib/supabase/admin";
+
+export const dynamic = "force-dynamic";
+
+// 스케줄러(Vercel Cron, Supabase pg_cron 등)가 5분마다 부른다.
+// `Authorization: Bearer <CRON_SECRET>` 헤더가 있어야 한다.
+export async function GET(request: NextRequest) {
+  const cronSecret = process.env.CRON_SECRET;
+  if (!cronSecret || request.headers.get("authorization") !== `Bearer ${cronSecret}`) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const result = await runMissedTaskAlerts(createSupabaseAdminClient());
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error("missed-task alerts failed", error);
+    return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,24 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { createMailerFromEnv } from "@/lib/mailer";
+import { createSupabaseAdminClient } from "@/lib/supabase/admin";
+import { runWeeklyDigest } from "@/lib/weekly-digest";
+
+export const dynamic = "force-dynamic";
+
+// 스케줄러가 매주 월요일 아침(한국 시간)에 한 번 부른다.
+// `Authorization: Bearer <CRON_SECRET>` 헤더가 있어야 한다.
+export async function GET(request: NextRequest) {
+  const cronSecret = process.env.CRON_SECRET;
+  if (!cronSecret || request.headers.get("authorization") !== `Bearer ${cronSecret}`) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const mailer = createMailerFromEnv();
+    const result = await runWeeklyDigest(createSupabaseAdminClient(), mailer);
+    return NextResponse.json({ mailer: mailer.name, ...result });
+  } catch (error) {
+    console.error("weekly digest failed", error);
+    return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
+  }
+}
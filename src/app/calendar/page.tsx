@@ -1,15 +1,42 @@
 "use client";
 
 import { useEffect, useMemo, useRef, useState, type FormEvent, type WheelEvent } from "react";
-import KoreanLunarCalendar from "korean-lunar-calendar";
 import AuthGate from "@/components/auth-gate";
-import type { CalendarEvent } from "@/lib/types";
-import { getDateKey, pad2, toMinutes } from "@/lib/time";
+import IcsImportDialog from "@/components/ics-import-dialog";
+import RecurrenceEditor, { buildRuleForFrequency } from "@/components/recurrence-editor";
+import SyncStatus from "@/components/sync-status";
+import type { CalendarEvent, EventOccurrence } from "@/lib/types";
+import { getDateKey, parseDateKey, toMinutes } from "@/lib/time";
 import { loadEvents, saveEvents } from "@/lib/storage";
+import { useActiveElder } from "@/lib/elders";
+import { fetchEvents } from "@/lib/event-sync";
+import { submitMutation, type OutboxMutation, type SubmitResult } from "@/lib/outbox";
+import { useGroupAccess } from "@/lib/permissions";
+import { notifyLocalChange } from "@/lib/realtime";
+import {
+  describeEventRepeat,
+  expandEventsOnDate,
+  formatRRule,
+  isRepeatingEvent,
+  overrideOccurrence,
+  parseRRule,
+  skipOccurrence,
+  truncateSeries
+} from "@/lib/recurrence";
+import {
+  findSolarDateForLunar,
+  formatLunarDate,
+  getLunarOccurrenceKey,
+  toLunarDate,
+  type LunarDate
+} from "@/lib/lunar";
 import { createSupabaseBrowserClient } from "@/lib/supabase/client";
 
 type Notice = { type: "success" | "error"; text: string } | null;
-type RepeatOption = "none" | "daily" | "weekly" | "yearly";
+type RepeatOption = NonNullable<CalendarEvent["repeat"]>;
+// 반복 일정을 고칠 때 "이 일정만"인지 "이후 모든 일정"인지
+type EditScope = "single" | "following";
+type EditingTarget = { eventId: string; occurrenceDate: string };
 type UserProfile = {
   name: string;
   relation: string;
@@ -20,12 +47,13 @@ const REPEAT_OPTIONS: { value: RepeatOption; label: string }[] = [
   { value: "none", label: "반복 안 함" },
   { value: "daily", label: "매일 반복" },
   { value: "weekly", label: "매주 반복" },
-  { value: "yearly", label: "매년 반복" }
+  { value: "yearly", label: "매년 반복" },
+  { value: "lunarYearly", label: "매년 음력 반복" },
+  { value: "custom", label: "직접 설정" }
 ];
-const GRANDMA_LUNAR_MONTH = 8;
-const GRANDMA_LUNAR_DAY = 18;
 
 const weekLabels = ["일", "월", "화", "수", "목", "금", "토"];
+const LUNAR_DAYS = Array.from({ length: 30 }, (_, index) => index + 1);
 
 const buildDefaultForm = (date: string) => ({
   startDate: date,
@@ -34,9 +62,29 @@ const buildDefaultForm = (date: string) => ({
   end: "10:00",
   label: "",
   allDay: false,
-  repeat: "none" as RepeatOption
+  repeat: "none" as RepeatOption,
+  recurrence: buildRuleForFrequency("WEEKLY", date)
 });
 
+// 고를 회차의 내용으로 폼을 채운다. 반복 일정은 그 회차 날짜를 시작 날짜로 둔다.
+const buildFormFromOccurrence = (series: CalendarEvent, occurrence: EventOccurrence) => {
+  const repeating = isRepeatingEvent(series);
+  const rule = series.repeat === "custom" && series.rrule ? parseRRule(series.rrule) : null;
+  return {
+    startDate: repeating ? occurrence.startDate : series.startDate,
+    endDate: repeating ? occurrence.startDate : series.endDate,
+    start: occurrence.start,
+    end: occurrence.end,
+    label: occurrence.label,
+    allDay: occurrence.allDay === true,
+    repeat: (series.repeat ?? "none") as RepeatOption,
+    recurrence: rule ?? buildRuleForFrequency("WEEKLY", occurrence.startDate)
+  };
+};
+
+const getOccurrenceKey = (occurrence: EventOccurrence) =>
+  `${occurrence.id}-${occurrence.occurrenceDate}`;
+
 const createEventId = () => {
   if (typeof crypto !== "undefined" && typeof crypto.randomUUID === "function") {
     return crypto.randomUUID();
@@ -68,39 +116,6 @@ const sortEvents = (list: CalendarEvent[]) =>
     return toMinutes(a.start) - toMinutes(b.start);
   });
 
-const parseDateKey = (value: string) => {
-  const [year, month, day] = value.split("-").map((part) => Number(part));
-  if (!year || !month || !day) {
-    return null;
-  }
-  return new Date(year, month - 1, day);
-};
-
-const eventOccursOnDate = (event: CalendarEvent, dateKey: string) => {
-  const repeat = event.repeat ?? "none";
-  if (repeat === "none") {
-    return dateKey >= event.startDate && dateKey <= event.endDate;
-  }
-  if (dateKey < event.startDate) {
-    return false;
-  }
-  const date = parseDateKey(dateKey);
-  const base = parseDateKey(event.startDate);
-  if (!date || !base) {
-    return false;
-  }
-  if (repeat === "daily") {
-    return true;
-  }
-  if (repeat === "weekly") {
-    return date.getDay() === base.getDay();
-  }
-  if (repeat === "yearly") {
-    return date.getMonth() === base.getMonth() && date.getDate() === base.getDate();
-  }
-  return false;
-};
-
 const formatBirthdayLabel = (profile: UserProfile) => {
   if (!profile.relation) {
     return `${profile.name} 생일`;
@@ -108,23 +123,6 @@ const formatBirthdayLabel = (profile: UserProfile) => {
   return `${profile.name}(${profile.relation}) 생일`;
 };
 
-const getGrandmaBirthdayKey = (year: number) => {
-  try {
-    const calendar = new KoreanLunarCalendar();
-    const ok = calendar.setLunarDate(year, GRANDMA_LUNAR_MONTH, GRANDMA_LUNAR_DAY, false);
-    if (!ok) {
-      return null;
-    }
-    const solar = calendar.getSolarCalendar();
-    if (!solar || !solar.year || !solar.month || !solar.day) {
-      return null;
-    }
-    return `${solar.year}-${pad2(solar.month)}-${pad2(solar.day)}`;
-  } catch {
-    return null;
-  }
-};
-
 function CalendarPageContent() {
   const today = new Date();
   const supabaseAvailable = useMemo(() => {
@@ -143,7 +141,15 @@ function CalendarPageContent() {
   const [events, setEvents] = useState<CalendarEvent[]>([]);
   const [profile, setProfile] = useState<UserProfile | null>(null);
   const [notice, setNotice] = useState<Notice>(null);
+  const [syncRevision, setSyncRevision] = useState(0);
   const [addModalOpen, setAddModalOpen] = useState(false);
+  const [importOpen, setImportOpen] = useState(false);
+  const [editing, setEditing] = useState<EditingTarget | null>(null);
+  const [pendingDeleteKey, setPendingDeleteKey] = useState<string | null>(null);
+  const access = useGroupAccess(supabase);
+  const canEdit = access.can("editEvents");
+  // 캘린더는 가족 전체가 함께 쓰므로 어르신을 고르지 않고, 모든 어르신의 생신만 보여준다.
+  const { elders } = useActiveElder(supabase);
   const [yearMode, setYearMode] = useState<"display" | "select" | "input">("display");
   const [monthMode, setMonthMode] = useState<"display" | "select" | "input">("display");
   const [yearDraft, setYearDraft] = useState(String(cursor.getFullYear()));
@@ -159,7 +165,19 @@ function CalendarPageContent() {
 
   useEffect(() => {
     setEvents(loadEvents());
-  }, []);
+    if (!supabase) {
+      return;
+    }
+    let cancelled = false;
+    void fetchEvents(supabase).then((remoteEvents) => {
+      if (!cancelled) {
+        setEvents(sortEvents(remoteEvents));
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [supabase, syncRevision]);
 
   useEffect(() => {
     if (!supabase) {
@@ -269,48 +287,46 @@ function CalendarPageContent() {
     };
   }, [profile]);
 
-  const grandmaBirthdayEvents = useMemo<CalendarEvent[]>(() => {
-    const yearsInView = Array.from(
-      new Set(monthDays.map((day) => day.date.getFullYear()))
-    );
-    const items: CalendarEvent[] = [];
-    yearsInView.forEach((year) => {
-      const key = getGrandmaBirthdayKey(year);
-      if (!key) {
-        return;
-      }
-      items.push({
-        id: `grandma-birthday-${year}`,
-        startDate: key,
-        endDate: key,
-        start: "00:00",
-        end: "23:59",
-        label: "할머니 생신(음력)",
-        allDay: true,
-        source: "system"
-      });
-    });
-    return items;
-  }, [monthDays]);
+  // 어르신 프로필에 음력 생신을 넣어 두면 매년 음력 반복 일정으로 보여준다.
+  const elderBirthdayEvents = useMemo<CalendarEvent[]>(
+    () =>
+      elders.flatMap((elder) => {
+        const startDate = elder.lunarBirthday
+          ? getLunarOccurrenceKey({ ...elder.lunarBirthday, leap: false }, years[0])
+          : null;
+        if (!startDate) {
+          return [];
+        }
+        return [
+          {
+            id: `elder-birthday-${elder.id}`,
+            startDate,
+            endDate: startDate,
+            start: "00:00",
+            end: "23:59",
+            label: `${elder.displayName}님 생신(음력)`,
+            allDay: true,
+            repeat: "lunarYearly",
+            source: "system"
+          }
+        ];
+      }),
+    [elders, years]
+  );
 
   const displayEvents = useMemo(() => {
     const list = [...events];
     if (userBirthdayEvent) {
       list.push(userBirthdayEvent);
     }
-    list.push(...grandmaBirthdayEvents);
+    list.push(...elderBirthdayEvents);
     return list;
-  }, [events, userBirthdayEvent, grandmaBirthdayEvents]);
+  }, [events, userBirthdayEvent, elderBirthdayEvents]);
 
   const eventsByDate = useMemo(() => {
-    const map = new Map<string, CalendarEvent[]>();
+    const map = new Map<string, EventOccurrence[]>();
     for (const day of monthDays) {
-      const list: CalendarEvent[] = [];
-      for (const event of displayEvents) {
-        if (eventOccursOnDate(event, day.key)) {
-          list.push(event);
-        }
-      }
+      const list = expandEventsOnDate(displayEvents, day.key);
       if (list.length > 0) {
         map.set(day.key, list);
       }
@@ -333,7 +349,9 @@ function CalendarPageContent() {
 
   const handleSelectDate = (dateKey: string, openModal = false) => {
     setSelectedDate(dateKey);
-    if (openModal) {
+    setPendingDeleteKey(null);
+    if (openModal || editing) {
+      setEditing(null);
       setForm(buildDefaultForm(dateKey));
     } else {
       setForm((prev) => ({ ...prev, startDate: dateKey, endDate: dateKey }));
@@ -351,6 +369,9 @@ function CalendarPageContent() {
         if (prev.repeat && prev.repeat !== "none") {
           next.endDate = value;
         }
+        if (prev.repeat === "custom") {
+          next.recurrence = buildRuleForFrequency(prev.recurrence.freq, value, prev.recurrence);
+        }
       }
       return next;
     });
@@ -367,7 +388,11 @@ function CalendarPageContent() {
     setForm((prev) => ({
       ...prev,
       repeat: value,
-      endDate: value === "none" ? prev.endDate : prev.startDate
+      endDate: value === "none" ? prev.endDate : prev.startDate,
+      recurrence:
+        value === "custom" && prev.repeat !== "custom"
+          ? buildRuleForFrequency("WEEKLY", prev.startDate)
+          : prev.recurrence
     }));
   };
 
@@ -383,6 +408,9 @@ function CalendarPageContent() {
     if (effectiveEndDate < form.startDate) {
       return "종료 날짜는 시작 날짜보다 빠를 수 없습니다.";
     }
+    if (repeat === "custom" && form.recurrence.until && form.recurrence.until < form.startDate) {
+      return "반복 마지막 날짜는 시작 날짜보다 빠를 수 없습니다.";
+    }
     if (form.allDay) {
       return null;
     }
@@ -397,38 +425,223 @@ function CalendarPageContent() {
     return null;
   };
 
-  const handleSubmit = (event: FormEvent<HTMLFormElement>) => {
-    event.preventDefault();
-    const error = validateForm();
-    if (error) {
-      setNotice({ type: "error", text: error });
-      return;
-    }
+  const buildEventFromForm = (id: string): CalendarEvent => {
     const repeat = form.repeat ?? "none";
-    const effectiveEndDate = repeat === "none" ? form.endDate : form.startDate;
-    const nextEvent: CalendarEvent = {
-      id: createEventId(),
+    return {
+      id,
       startDate: form.startDate,
-      endDate: effectiveEndDate,
+      endDate: repeat === "none" ? form.endDate : form.startDate,
       start: form.allDay ? "00:00" : form.start,
       end: form.allDay ? "23:59" : form.end,
       label: form.label.trim(),
       allDay: form.allDay,
       repeat,
+      ...(repeat === "custom" ? { rrule: formatRRule(form.recurrence) } : {}),
       source: "user"
     };
-    const nextEvents = sortEvents([...events, nextEvent]);
-    setEvents(nextEvents);
-    saveEvents(nextEvents);
+  };
+
+  // 화면과 localStorage에 먼저 반영하고, 바뀐 일정은 순서대로 아웃박스에 넣는다.
+  const applyEventChanges = (
+    nextEvents: CalendarEvent[],
+    mutations: OutboxMutation[],
+    text: string
+  ) => {
+    const sorted = sortEvents(nextEvents);
+    setEvents(sorted);
+    saveEvents(sorted);
+    setNotice({ type: "success", text });
+    notifyLocalChange("events");
+    if (!supabase) {
+      return;
+    }
+    void (async () => {
+      for (const mutation of mutations) {
+        handleSyncResult(await submitMutation(supabase, mutation));
+      }
+    })();
+  };
+
+  const replaceEvent = (list: CalendarEvent[], next: CalendarEvent) =>
+    list.map((item) => (item.id === next.id ? next : item));
+
+  const handleSubmit = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!canEdit) {
+      setNotice({ type: "error", text: "일정을 바꿀 권한이 없어요." });
+      return;
+    }
+    const error = validateForm();
+    if (error) {
+      setNotice({ type: "error", text: error });
+      return;
+    }
+    if (editing) {
+      const submitter = (event.nativeEvent as SubmitEvent).submitter;
+      const scope: EditScope =
+        submitter instanceof HTMLButtonElement && submitter.value === "following"
+          ? "following"
+          : "single";
+      handleEditSubmit(editing, scope);
+      return;
+    }
+    const nextEvent = buildEventFromForm(createEventId());
+    applyEventChanges(
+      [...events, nextEvent],
+      [{ kind: "event.upsert", event: nextEvent }],
+      "일정을 추가했습니다."
+    );
     setForm(buildDefaultForm(form.startDate));
-    setNotice({ type: "success", text: "일정을 추가했습니다." });
   };
 
-  const handleDelete = (id: string) => {
-    const nextEvents = events.filter((event) => event.id !== id);
-    setEvents(nextEvents);
-    saveEvents(nextEvents);
-    setNotice({ type: "success", text: "일정을 삭제했습니다." });
+  const handleEditStart = (occurrence: EventOccurrence) => {
+    const series = events.find((item) => item.id === occurrence.id);
+    if (!series || !canEdit) {
+      return;
+    }
+    setEditing({ eventId: series.id, occurrenceDate: occurrence.occurrenceDate });
+    setPendingDeleteKey(null);
+    setForm(buildFormFromOccurrence(series, occurrence));
+    setNotice(null);
+  };
+
+  const cancelEdit = () => {
+    setEditing(null);
+    setForm(buildDefaultForm(selectedDate));
+    setNotice(null);
+  };
+
+  // "이 일정만 수정"은 그 회차만 바꿔 두고, "이후 모든 일정 수정"은 반복을 그 전날까지로 끊고 새 반복을 만든다.
+  const handleEditSubmit = (target: EditingTarget, scope: EditScope) => {
+    const series = events.find((item) => item.id === target.eventId);
+    setEditing(null);
+    setForm(buildDefaultForm(selectedDate));
+    if (!series) {
+      setNotice({ type: "error", text: "수정할 일정을 찾지 못했습니다." });
+      return;
+    }
+
+    if (!isRepeatingEvent(series)) {
+      const updated = buildEventFromForm(series.id);
+      applyEventChanges(
+        replaceEvent(events, updated),
+        [{ kind: "event.upsert", event: updated }],
+        "일정을 수정했습니다."
+      );
+      return;
+    }
+
+    if (scope === "single") {
+      const updated = overrideOccurrence(series, target.occurrenceDate, {
+        date: form.startDate,
+        start: form.allDay ? "00:00" : form.start,
+        end: form.allDay ? "23:59" : form.end,
+        label: form.label.trim(),
+        allDay: form.allDay
+      });
+      applyEventChanges(
+        replaceEvent(events, updated),
+        [{ kind: "event.upsert", event: updated }],
+        "이 일정만 수정했습니다."
+      );
+      return;
+    }
+
+    const truncated = truncateSeries(series, target.occurrenceDate);
+    if (!truncated) {
+      // 첫 회차부터 바꾸면 반복 전체를 고친다. 앞서 만든 예외는 그대로 둔다.
+      const updated: CalendarEvent = {
+        ...buildEventFromForm(series.id),
+        repeatUntil: series.repeatUntil,
+        exdates: series.exdates,
+        overrides: series.overrides
+      };
+      applyEventChanges(
+        replaceEvent(events, updated),
+        [{ kind: "event.upsert", event: updated }],
+        "모든 반복 일정을 수정했습니다."
+      );
+      return;
+    }
+    const nextSeries = buildEventFromForm(createEventId());
+    if (series.repeatUntil && series.repeatUntil >= nextSeries.startDate) {
+      nextSeries.repeatUntil = series.repeatUntil;
+    }
+    applyEventChanges(
+      [...replaceEvent(events, truncated), nextSeries],
+      [
+        { kind: "event.upsert", event: truncated },
+        { kind: "event.upsert", event: nextSeries }
+      ],
+      "이후 모든 일정을 수정했습니다."
+    );
+  };
+
+  const handleDelete = (occurrence: EventOccurrence, scope: EditScope) => {
+    const series = events.find((item) => item.id === occurrence.id);
+    setPendingDeleteKey(null);
+    if (!series || !canEdit) {
+      return;
+    }
+    if (editing?.eventId === series.id) {
+      cancelEdit();
+    }
+    const updated = !isRepeatingEvent(series)
+      ? null
+      : scope === "single"
+        ? skipOccurrence(series, occurrence.occurrenceDate)
+        : truncateSeries(series, occurrence.occurrenceDate);
+    if (!updated) {
+      applyEventChanges(
+        events.filter((item) => item.id !== series.id),
+        [{ kind: "event.delete", eventId: series.id }],
+        "일정을 삭제했습니다."
+      );
+      return;
+    }
+    applyEventChanges(
+      replaceEvent(events, updated),
+      [{ kind: "event.upsert", event: updated }],
+      scope === "single" ? "이 일정만 삭제했습니다." : "이후 모든 일정을 삭제했습니다."
+    );
+  };
+
+  // 가져온 일정은 새 일정처럼 하나씩 올리고, 첫 일정 날짜를 열어 결과를 보여준다.
+  const handleImport = (imported: CalendarEvent[]) => {
+    setImportOpen(false);
+    const first = sortEvents(imported)[0];
+    const firstDate = first ? parseDateKey(first.startDate) : null;
+    if (!first || !firstDate || !canEdit) {
+      return;
+    }
+    setCursor(new Date(firstDate.getFullYear(), firstDate.getMonth(), 1));
+    handleSelectDate(first.startDate, true);
+    applyEventChanges(
+      [...events, ...imported],
+      imported.map((event) => ({ kind: "event.upsert", event })),
+      `일정 ${imported.length}개를 가져왔습니다.`
+    );
+  };
+
+  const handleSyncResult = (result: SubmitResult) => {
+    if (result === "queued") {
+      setNotice({
+        type: "success",
+        text: "이 기기에 반영했습니다. 연결되면 가족 그룹에 올릴게요. (동기화 대기 중)"
+      });
+    }
+    if (result === "conflict") {
+      setNotice({
+        type: "error",
+        text: "그 사이 다른 가족이 이 일정을 바꿨어요. 화면 위에서 어느 쪽을 남길지 골라 주세요."
+      });
+    }
+    if (result === "failed") {
+      setNotice({
+        type: "error",
+        text: "이 기기에만 반영했어요. 가족 그룹에 올리지 못했으니 연결을 확인한 뒤 다시 저장해 주세요."
+      });
+    }
   };
 
   const handleAllDayChange = (checked: boolean) => {
@@ -442,6 +655,8 @@ function CalendarPageContent() {
 
   const closeAddModal = () => {
     setAddModalOpen(false);
+    setEditing(null);
+    setPendingDeleteKey(null);
     setNotice(null);
   };
 
@@ -540,6 +755,27 @@ function CalendarPageContent() {
   };
 
   const repeatLocked = (form.repeat ?? "none") !== "none";
+  const editingSeries = editing ? events.find((item) => item.id === editing.eventId) : null;
+  const editingRepeat = Boolean(editingSeries && isRepeatingEvent(editingSeries));
+  const formLunar = form.repeat === "lunarYearly" ? toLunarDate(form.startDate) : null;
+
+  // 음력 월/일을 고르면 그 음력 날짜에 해당하는 양력 날짜를 시작일로 맞춘다.
+  const handleLunarChange = (patch: Partial<Pick<LunarDate, "month" | "day" | "leap">>) => {
+    if (!formLunar) {
+      return;
+    }
+    const next = { ...formLunar, ...patch };
+    const startDate = findSolarDateForLunar(next, formLunar.year);
+    if (!startDate) {
+      setNotice({
+        type: "error",
+        text: `${formatLunarDate(next)}은 양력으로 바꿀 수 없는 날짜예요.`
+      });
+      return;
+    }
+    setNotice(null);
+    handleChange("startDate", startDate);
+  };
 
   return (
     <div className="page calendar-page">
@@ -548,6 +784,13 @@ function CalendarPageContent() {
         <p className="page-subtitle">기본 일정 외의 일정을 간편하게 관리하세요.</p>
       </header>
 
+      {supabase && (
+        <SyncStatus
+          supabase={supabase}
+          onResolved={() => setSyncRevision((prev) => prev + 1)}
+        />
+      )}
+
       <div className="calendar-layout">
         <section className="card" onWheel={handleCalendarWheel}>
           <div className="calendar-header">
@@ -691,6 +934,15 @@ function CalendarPageContent() {
               >
                 오늘
               </button>
+              {canEdit && (
+                <button
+                  type="button"
+                  className="calendar-today"
+                  onClick={() => setImportOpen(true)}
+                >
+                  가져오기
+                </button>
+              )}
             </div>
           </div>
           <div className="calendar-jump">
@@ -755,6 +1007,14 @@ function CalendarPageContent() {
         </section>
       </div>
 
+      {importOpen && (
+        <IcsImportDialog
+          existingEvents={displayEvents}
+          onImport={handleImport}
+          onClose={() => setImportOpen(false)}
+        />
+      )}
+
       {addModalOpen && (
         <div className="calendar-modal" role="dialog" aria-modal="true">
           <div
@@ -766,7 +1026,11 @@ function CalendarPageContent() {
             <div className="calendar-modal-section">
               <div className="calendar-modal-head">
                 <div className="calendar-section-title">선택한 날짜 일정</div>
-                <p className="calendar-section-subtitle">일정을 확인하고 추가할 수 있어요.</p>
+                <p className="calendar-section-subtitle">
+                  {canEdit
+                    ? "일정을 확인하고 추가할 수 있어요."
+                    : "보기 전용이에요. 일정을 확인할 수 있어요."}
+                </p>
               </div>
               <div className="calendar-day-header">
                 <button
@@ -796,140 +1060,276 @@ function CalendarPageContent() {
                 </p>
               ) : (
                 <ul className="calendar-events">
-                  {selectedEvents.map((event) => (
-                    <li key={event.id} className="calendar-event-item">
-                      <div>
-                        <div className="calendar-event-title">{event.label}</div>
-                        <div className="calendar-event-time">
-                          {(event.repeat ?? "none") !== "none"
-                            ? selectedDate
-                            : event.startDate === event.endDate
-                              ? event.startDate
-                              : `${event.startDate} ~ ${event.endDate}`}
-                          {" · "}
-                          {event.allDay ? "종일" : `${event.start} ~ ${event.end}`}
+                  {selectedEvents.map((event) => {
+                    const repeating = isRepeatingEvent(event);
+                    const occurrenceKey = getOccurrenceKey(event);
+                    const changed = repeating && Boolean(event.overrides?.[event.occurrenceDate]);
+                    return (
+                      <li key={occurrenceKey} className="calendar-event-item">
+                        <div>
+                          <div className="calendar-event-title">{event.label}</div>
+                          <div className="calendar-event-time">
+                            {repeating
+                              ? `${selectedDate} · ${describeEventRepeat(event)}`
+                              : event.startDate === event.endDate
+                                ? event.startDate
+                                : `${event.startDate} ~ ${event.endDate}`}
+                            {" · "}
+                            {event.allDay ? "종일" : `${event.start} ~ ${event.end}`}
+                            {changed && " · 이 날만 변경됨"}
+                          </div>
                         </div>
-                      </div>
-                      {event.source !== "system" && (
-                        <button
-                          type="button"
-                          className="btn ghost"
-                          onClick={() => handleDelete(event.id)}
-                        >
-                          삭제
-                        </button>
-                      )}
-                    </li>
-                  ))}
+                        {event.source !== "system" &&
+                          canEdit &&
+                          (pendingDeleteKey === occurrenceKey ? (
+                            <div className="block-actions">
+                              <button
+                                type="button"
+                                className="btn secondary"
+                                onClick={() => handleDelete(event, "single")}
+                              >
+                                이 일정만 삭제
+                              </button>
+                              <button
+                                type="button"
+                                className="btn secondary"
+                                onClick={() => handleDelete(event, "following")}
+                              >
+                                이후 모든 일정 삭제
+                              </button>
+                              <button
+                                type="button"
+                                className="btn ghost"
+                                onClick={() => setPendingDeleteKey(null)}
+                              >
+                                취소
+                              </button>
+                            </div>
+                          ) : (
+                            <div className="block-actions">
+                              <button
+                                type="button"
+                                className="btn ghost"
+                                onClick={() => handleEditStart(event)}
+                              >
+                                수정
+                              </button>
+                              <button
+                                type="button"
+                                className="btn ghost"
+                                onClick={() =>
+                                  repeating
+                                    ? setPendingDeleteKey(occurrenceKey)
+                                    : handleDelete(event, "single")
+                                }
+                              >
+                                삭제
+                              </button>
+                            </div>
+                          ))}
+                      </li>
+                    );
+                  })}
                 </ul>
               )}
             </div>
 
-            <div className="calendar-modal-divider" />
+            {canEdit ? (
+              <>
+                <div className="calendar-modal-divider" />
 
-            <div className="calendar-modal-section">
-              <div className="calendar-modal-head">
-                <div className="calendar-section-title">일정 추가</div>
-                <p className="calendar-section-subtitle">
-                  기간과 시간을 설정해 새로운 일정을 등록하세요.
-                </p>
-              </div>
-              <form className="calendar-form" onSubmit={handleSubmit}>
-                <label className="field">
-                  <span>일정 제목</span>
-                  <input
-                    className="input"
-                    value={form.label}
-                    onChange={(event) => handleChange("label", event.target.value)}
-                    placeholder="예: 병원 입원"
-                    required
-                  />
-                </label>
-                <div className="calendar-range-grid">
-                  <label className="field">
-                    <span>시작 날짜</span>
-                    <input
-                      className="input"
-                      type="date"
-                      value={form.startDate}
-                      onChange={(event) => handleChange("startDate", event.target.value)}
-                      required
-                    />
-                  </label>
-                  <label className="field">
-                    <span>종료 날짜</span>
-                    <input
-                      className="input"
-                      type="date"
-                      value={repeatLocked ? form.startDate : form.endDate}
-                      onChange={(event) => handleChange("endDate", event.target.value)}
-                      disabled={repeatLocked}
-                      required={!repeatLocked}
-                    />
-                  </label>
-                </div>
-                <label className="field">
-                  <span>반복</span>
-                  <select
-                    className="input"
-                    value={form.repeat}
-                    onChange={(event) =>
-                      handleRepeatChange(event.target.value as RepeatOption)
-                    }
-                  >
-                    {REPEAT_OPTIONS.map((option) => (
-                      <option key={option.value} value={option.value}>
-                        {option.label}
-                      </option>
-                    ))}
-                  </select>
-                </label>
-                <label className="calendar-toggle">
-                  <input
-                    type="checkbox"
-                    checked={form.allDay}
-                    onChange={(event) => handleAllDayChange(event.target.checked)}
-                  />
-                  <span>하루 종일</span>
-                </label>
-                <div
-                  className="calendar-time-grid"
-                  data-disabled={form.allDay ? "true" : undefined}
-                >
-                  <label className="field">
-                    <span>시작 시간</span>
-                    <input
-                      className="input"
-                      type="time"
-                      value={form.start}
-                      onChange={(event) => handleChange("start", event.target.value)}
-                      disabled={form.allDay}
-                      required={!form.allDay}
-                    />
-                  </label>
-                  <label className="field">
-                    <span>종료 시간</span>
-                    <input
-                      className="input"
-                      type="time"
-                      value={form.end}
-                      onChange={(event) => handleChange("end", event.target.value)}
-                      disabled={form.allDay}
-                      required={!form.allDay}
-                    />
-                  </label>
+                <div className="calendar-modal-section">
+                  <div className="calendar-modal-head">
+                    <div className="calendar-section-title">
+                      {editing ? "일정 수정" : "일정 추가"}
+                    </div>
+                    <p className="calendar-section-subtitle">
+                      {editingRepeat
+                        ? "이 일정만 바꾸면 날짜·시간·제목만 반영되고 반복 설정은 그대로예요."
+                        : editing
+                          ? "바꿀 내용을 고친 뒤 저장하세요."
+                          : "기간과 시간을 설정해 새로운 일정을 등록하세요."}
+                    </p>
+                  </div>
+                  <form className="calendar-form" onSubmit={handleSubmit}>
+                    <label className="field">
+                      <span>일정 제목</span>
+                      <input
+                        className="input"
+                        value={form.label}
+                        onChange={(event) => handleChange("label", event.target.value)}
+                        placeholder="예: 병원 입원"
+                        required
+                      />
+                    </label>
+                    <div className="calendar-range-grid">
+                      <label className="field">
+                        <span>시작 날짜</span>
+                        <input
+                          className="input"
+                          type="date"
+                          value={form.startDate}
+                          onChange={(event) => handleChange("startDate", event.target.value)}
+                          required
+                        />
+                      </label>
+                      <label className="field">
+                        <span>종료 날짜</span>
+                        <input
+                          className="input"
+                          type="date"
+                          value={repeatLocked ? form.startDate : form.endDate}
+                          onChange={(event) => handleChange("endDate", event.target.value)}
+                          disabled={repeatLocked}
+                          required={!repeatLocked}
+                        />
+                      </label>
+                    </div>
+                    <label className="field">
+                      <span>반복</span>
+                      <select
+                        className="input"
+                        value={form.repeat}
+                        onChange={(event) =>
+                          handleRepeatChange(event.target.value as RepeatOption)
+                        }
+                      >
+                        {REPEAT_OPTIONS.map((option) => (
+                          <option key={option.value} value={option.value}>
+                            {option.label}
+                          </option>
+                        ))}
+                      </select>
+                    </label>
+                    {form.repeat === "lunarYearly" && formLunar && (
+                      <div className="grid gap-3">
+                        <div className="calendar-range-grid">
+                          <label className="field">
+                            <span>음력 월</span>
+                            <select
+                              className="input"
+                              value={formLunar.month}
+                              onChange={(event) =>
+                                handleLunarChange({ month: Number(event.target.value) })
+                              }
+                            >
+                              {months.map((month) => (
+                                <option key={month} value={month}>
+                                  {month}월
+                                </option>
+                              ))}
+                            </select>
+                          </label>
+                          <label className="field">
+                            <span>음력 일</span>
+                            <select
+                              className="input"
+                              value={formLunar.day}
+                              onChange={(event) =>
+                                handleLunarChange({ day: Number(event.target.value) })
+                              }
+                            >
+                              {LUNAR_DAYS.map((day) => (
+                                <option key={day} value={day}>
+                                  {day}일
+                                </option>
+                              ))}
+                            </select>
+                          </label>
+                        </div>
+                        <label className="calendar-toggle">
+                          <input
+                            type="checkbox"
+                            checked={formLunar.leap}
+                            onChange={(event) => handleLunarChange({ leap: event.target.checked })}
+                          />
+                          <span>윤달</span>
+                        </label>
+                        <p className="calendar-section-subtitle">
+                          윤달이 없는 해에는 같은 달(평달)에, 30일이 없는 달에는 29일에 표시됩니다.
+                        </p>
+                      </div>
+                    )}
+                    {form.repeat === "custom" && (
+                      <RecurrenceEditor
+                        startDate={form.startDate}
+                        value={form.recurrence}
+                        onChange={(recurrence) => setForm((prev) => ({ ...prev, recurrence }))}
+                      />
+                    )}
+                    <label className="calendar-toggle">
+                      <input
+                        type="checkbox"
+                        checked={form.allDay}
+                        onChange={(event) => handleAllDayChange(event.target.checked)}
+                      />
+                      <span>하루 종일</span>
+                    </label>
+                    <div
+                      className="calendar-time-grid"
+                      data-disabled={form.allDay ? "true" : undefined}
+                    >
+                      <label className="field">
+                        <span>시작 시간</span>
+                        <input
+                          className="input"
+                          type="time"
+                          value={form.start}
+                          onChange={(event) => handleChange("start", event.target.value)}
+                          disabled={form.allDay}
+                          required={!form.allDay}
+                        />
+                      </label>
+                      <label className="field">
+                        <span>종료 시간</span>
+                        <input
+                          className="input"
+                          type="time"
+                          value={form.end}
+                          onChange={(event) => handleChange("end", event.target.value)}
+                          disabled={form.allDay}
+                          required={!form.allDay}
+                        />
+                      </label>
+                    </div>
+                    <div className="block-actions">
+                      {editingRepeat ? (
+                        <>
+                          <button type="submit" className="btn" value="single">
+                            이 일정만 수정
+                          </button>
+                          <button type="submit" className="btn secondary" value="following">
+                            이후 모든 일정 수정
+                          </button>
+                        </>
+                      ) : (
+                        <button type="submit" className="btn">
+                          {editing ? "수정 저장" : "일정 추가"}
+                        </button>
+                      )}
+                      {editing ? (
+                        <button type="button" className="btn ghost" onClick={cancelEdit}>
+                          수정 취소
+                        </button>
+                      ) : (
+                        <button type="button" className="btn ghost" onClick={closeAddModal}>
+                          닫기
+                        </button>
+                      )}
+                    </div>
+                  </form>
+                  {notice && <div className={`notice ${notice.type}`}>{notice.text}</div>}
                 </div>
+              </>
+            ) : (
+              <div className="calendar-modal-section">
                 <div className="block-actions">
-                  <button type="submit" className="btn">
-                    일정 추가
-                  </button>
                   <button type="button" className="btn ghost" onClick={closeAddModal}>
                     닫기
                   </button>
                 </div>
-              </form>
-              {notice && <div className={`notice ${notice.type}`}>{notice.text}</div>}
-            </div>
+              </div>
+            )}
           </div>
         </div>
       )}
@@ -9,7 +9,11 @@ import WeekGrid from "@/components/ui/week-grid";
 import { WEEKDAY_THEMES } from "@/lib/constants";
 import type { CalendarEvent } from "@/lib/types";
 import { addDays, getDateKey, pad2, toMinutes } from "@/lib/time";
+import { expandEventsOnDate } from "@/lib/recurrence";
 import { loadEvents } from "@/lib/storage";
+import { fetchEvents } from "@/lib/event-sync";
+import { subscribeGroupChanges } from "@/lib/realtime";
+import { createSupabaseBrowserClient } from "@/lib/supabase/client";
 
 const WEEK_LABELS = ["일", "월", "화", "수", "목", "금", "토"];
 const MAX_EVENTS_PER_DAY = 4;
@@ -17,7 +21,7 @@ const MAX_EVENTS_PER_DAY = 4;
 const formatShortDate = (date: Date) =>
   `${pad2(date.getMonth() + 1)}.${pad2(date.getDate())}`;
 
-const sortEvents = (list: CalendarEvent[]) =>
+const sortEvents = <T extends CalendarEvent>(list: T[]) =>
   [...list].sort((a, b) => {
     if (a.allDay && !b.allDay) {
       return -1;
@@ -31,39 +35,6 @@ const sortEvents = (list: CalendarEvent[]) =>
 const formatEventTime = (event: CalendarEvent) =>
   event.allDay ? "종일" : `${event.start} ~ ${event.end}`;
 
-const parseDateKey = (value: string) => {
-  const [year, month, day] = value.split("-").map((part) => Number(part));
-  if (!year || !month || !day) {
-    return null;
-  }
-  return new Date(year, month - 1, day);
-};
-
-const eventMatchesDate = (event: CalendarEvent, dateKey: string) => {
-  const repeat = event.repeat ?? "none";
-  if (repeat === "none") {
-    return dateKey >= event.startDate && dateKey <= event.endDate;
-  }
-  if (dateKey < event.startDate) {
-    return false;
-  }
-  const date = parseDateKey(dateKey);
-  const base = parseDateKey(event.startDate);
-  if (!date || !base) {
-    return false;
-  }
-  if (repeat === "daily") {
-    return true;
-  }
-  if (repeat === "weekly") {
-    return date.getDay() === base.getDay();
-  }
-  if (repeat === "yearly") {
-    return date.getMonth() === base.getMonth() && date.getDate() === base.getDate();
-  }
-  return false;
-};
-
 const getWeekStart = (date: Date) => {
   const day = date.getDay();
   const diffFromMonday = (day + 6) % 7;
@@ -71,6 +42,16 @@ const getWeekStart = (date: Date) => {
 };
 
 function ElderCalendarContent() {
+  const supabaseAvailable = useMemo(() => {
+    return Boolean(
+      process.env.NEXT_PUBLIC_SUPABASE_URL &&
+        process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY
+    );
+  }, []);
+  const supabase = useMemo(
+    () => (supabaseAvailable ? createSupabaseBrowserClient() : null),
+    [supabaseAvailable]
+  );
   const [events, setEvents] = useState<CalendarEvent[]>([]);
   const [weekOffset, setWeekOffset] = useState(0);
   const today = useMemo(() => new Date(), []);
@@ -82,17 +63,24 @@ function ElderCalendarContent() {
 
   useEffect(() => {
     setEvents(loadEvents());
-  }, []);
-
-  useEffect(() => {
-    const handleStorage = (event: StorageEvent) => {
-      if (event.key === "events_v1") {
-        setEvents(loadEvents());
+    let cancelled = false;
+    const refreshEvents = async () => {
+      const nextEvents = supabase ? await fetchEvents(supabase) : loadEvents();
+      if (!cancelled) {
+        setEvents(nextEvents);
       }
     };
-    window.addEventListener("storage", handleStorage);
-    return () => window.removeEventListener("storage", handleStorage);
-  }, []);
+    if (supabase) {
+      void refreshEvents();
+    }
+    const unsubscribe = subscribeGroupChanges(supabase, ["events"], () => {
+      void refreshEvents();
+    });
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [supabase]);
 
   useEffect(() => {
     if (!themeDefaultsRef.current) {
@@ -141,9 +129,7 @@ function ElderCalendarContent() {
   const viewDays = useMemo(() => {
     return weekDates.map((date) => {
       const dateKey = getDateKey(date);
-      const dayEvents = sortEvents(
-        events.filter((event) => eventMatchesDate(event, dateKey))
-      );
+      const dayEvents = sortEvents(expandEventsOnDate(events, dateKey));
       const visibleEvents = dayEvents.slice(0, MAX_EVENTS_PER_DAY);
       return {
         dateKey,
@@ -151,7 +137,7 @@ function ElderCalendarContent() {
         dateLabel: formatShortDate(date),
         isToday: dateKey === todayKey,
         events: visibleEvents.map((event) => ({
-          id: event.id,
+          id: `${event.id}-${event.occurrenceDate}`,
           label: event.label,
           timeText: formatEventTime(event),
           noteText:
@@ -234,7 +220,7 @@ function ElderCalendarContent() {
 
 export default function ElderCalendarPage() {
   return (
-    <AuthGate>
+    <AuthGate allowPairing>
       <ElderCalendarContent />
     </AuthGate>
   );
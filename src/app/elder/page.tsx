@@ -3,14 +3,10 @@
 import { useEffect, useMemo, useRef, useState } from "react";
 import AuthGate from "@/components/auth-gate";
 import PrimaryButton from "@/components/ui/primary-button";
+import VoiceSettingsDialog from "@/components/voice-settings-dialog";
 import IconButton from "@/components/ui/icon-button";
-import {
-  DEFAULT_ALERT_MINUTES,
-  DEFAULT_ALERT_TARGET,
-  TIME_BLOCKS,
-  WEEKDAY_THEMES
-} from "@/lib/constants";
-import type { AlertTarget, CalendarEvent, TimeBlock } from "@/lib/types";
+import { TIME_BLOCKS, WEEKDAY_THEMES } from "@/lib/constants";
+import type { BuiltBlock, CalendarEvent, ScheduleSet } from "@/lib/types";
 import {
   buildBlocks,
   addDays,
@@ -18,115 +14,157 @@ import {
   formatKoreanTime,
   getDateKey,
   pad2,
+  parseDateKey,
   toMinutes
 } from "@/lib/time";
 import {
   appendDoneActivity,
+  createEmptyScheduleVariants,
   loadDoneSet,
   loadEvents,
-  loadSchedule,
-  saveDoneSet,
-  EVENTS_STORAGE_KEY,
-  SCHEDULE_STORAGE_KEY
+  saveDoneSet
 } from "@/lib/storage";
+import {
+  fetchCompletionsForDate,
+  getTaskId,
+  isCompletionForTask
+} from "@/lib/completions";
+import type { AlertResponseAction } from "@/lib/alert-responses";
+import { checkPairedDevice } from "@/lib/device-pairing";
+import { useDeviceElder } from "@/lib/elders";
+import {
+  SNOOZE_MINUTES,
+  buildScheduledAlerts,
+  enableSystemNotifications,
+  getAlertKey,
+  isAlertDue,
+  isSystemNotificationSupported,
+  listBlockAlerts,
+  loadSnoozedAlerts,
+  scheduleSystemAlerts,
+  showSystemAlert,
+  snoozeAlert,
+  snoozedToScheduledAlert,
+  subscribeDoneRequests,
+  takeDueSnoozedAlert,
+  type AlertType
+} from "@/lib/elder-alerts";
+import { fetchEvents } from "@/lib/event-sync";
+import {
+  fetchMedicationPhotoUrls,
+  fetchMedications,
+  fetchTakenDoses,
+  getDoseKey,
+  loadCachedMedications,
+  loadTakenDoses,
+  saveTakenDoses,
+  type Medication
+} from "@/lib/medications";
+import { expandEventsOnDate } from "@/lib/recurrence";
+import { startOutboxSync, submitMutation } from "@/lib/outbox";
+import { subscribeGroupChanges } from "@/lib/realtime";
+import { fetchSchedule } from "@/lib/schedule-sync";
+import { loadScheduleSet, resolveScheduleForDate } from "@/lib/schedule-templates";
+import { completionResource, listPendingResources } from "@/lib/sync-state";
+import { createSupabaseBrowserClient } from "@/lib/supabase/client";
+import {
+  DEFAULT_VOICE_SETTINGS,
+  fetchVoiceClipUrls,
+  loadVoiceSettings,
+  playVoiceClip,
+  saveVoiceSettings,
+  speak,
+  stopSpeaking,
+  toSpokenText,
+  type VoiceSettings
+} from "@/lib/voice";
 
-type AlertType = `${AlertTarget}${number}`;
 type AlertInfo = {
   type: AlertType;
   message: string;
+  block: BuiltBlock | null;
+  dateKey: string;
 };
 
 const DAY_MINUTES = 24 * 60;
 
-function getAlertMinutesForBlock(block: { alertMinutes?: number[] }): number[] {
-  const raw =
-    Array.isArray(block.alertMinutes) && block.alertMinutes.length > 0
-      ? block.alertMinutes
-      : DEFAULT_ALERT_MINUTES;
-  const seen = new Set<number>();
-  const result: number[] = [];
-  for (const value of raw) {
-    const minute = Math.round(value);
-    if (!Number.isFinite(minute) || minute <= 0 || minute >= DAY_MINUTES) {
-      continue;
-    }
-    if (seen.has(minute)) {
-      continue;
-    }
-    seen.add(minute);
-    result.push(minute);
-  }
-  return result;
-}
-
-const parseDateKey = (value: string) => {
-  const [year, month, day] = value.split("-").map((part) => Number(part));
-  if (!year || !month || !day) {
-    return null;
-  }
-  return new Date(year, month - 1, day);
+type ElderPageContentProps = {
+  elderId: string | null;
 };
 
-const eventOccursOnDate = (event: CalendarEvent, dateKey: string) => {
-  const repeat = event.repeat ?? "none";
-  if (repeat === "none") {
-    return dateKey >= event.startDate && dateKey <= event.endDate;
-  }
-  if (dateKey < event.startDate) {
-    return false;
-  }
-  const date = parseDateKey(dateKey);
-  const base = parseDateKey(event.startDate);
-  if (!date || !base) {
-    return false;
-  }
-  if (repeat === "daily") {
-    return true;
-  }
-  if (repeat === "weekly") {
-    return date.getDay() === base.getDay();
-  }
-  if (repeat === "yearly") {
-    return date.getMonth() === base.getMonth() && date.getDate() === base.getDate();
-  }
-  return false;
-};
-
-function ElderPageContent() {
-  const [timeBlocks, setTimeBlocks] = useState<TimeBlock[]>(TIME_BLOCKS);
+function ElderPageContent({ elderId }: ElderPageContentProps) {
+  const supabaseAvailable = useMemo(() => {
+    return Boolean(
+      process.env.NEXT_PUBLIC_SUPABASE_URL &&
+        process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY
+    );
+  }, []);
+  const supabase = useMemo(
+    () => (supabaseAvailable ? createSupabaseBrowserClient() : null),
+    [supabaseAvailable]
+  );
+  const [schedule, setSchedule] = useState<ScheduleSet>(() => ({
+    blocks: TIME_BLOCKS,
+    variants: createEmptyScheduleVariants()
+  }));
   const [now, setNow] = useState(() => new Date());
   const [currentIndex, setCurrentIndex] = useState(0);
   const [previewIndex, setPreviewIndex] = useState<number | null>(null);
   const [previewOffset, setPreviewOffset] = useState(0);
   const [previewDayOffset, setPreviewDayOffset] = useState(0);
-  const [doneSet, setDoneSet] = useState<Set<number>>(new Set());
+  const [doneSet, setDoneSet] = useState<Set<string>>(new Set());
   const [currentDateKey, setCurrentDateKey] = useState("");
   const [events, setEvents] = useState<CalendarEvent[]>([]);
   const [audioEnabled, setAudioEnabled] = useState(false);
+  // 시스템 알림 권한을 아직 받지 못했으면 "알림 켜기" 버튼을 보여 준다.
+  const [systemAlertsNeeded, setSystemAlertsNeeded] = useState(false);
+  const [voiceSettings, setVoiceSettings] = useState<VoiceSettings>(DEFAULT_VOICE_SETTINGS);
+  const [voiceSettingsOpen, setVoiceSettingsOpen] = useState(false);
+  // 미룬 알림은 localStorage에 있으므로, 바뀔 때 서비스 워커 일정을 다시 넘기도록 센다.
+  const [snoozeRevision, setSnoozeRevision] = useState(0);
+  const [medications, setMedications] = useState<Medication[]>([]);
+  const [medicationPhotoUrls, setMedicationPhotoUrls] = useState<Record<string, string>>({});
+  // 오늘 복용을 확인한 약(getDoseKey). 블록을 할 일 여럿으로 나눠도 한 번만 먹는다.
+  const [takenDoses, setTakenDoses] = useState<Set<string>>(new Set());
   const [alertInfo, setAlertInfo] = useState<AlertInfo | null>(null);
   const [flashOn, setFlashOn] = useState(false);
   const [doneModalOpen, setDoneModalOpen] = useState(false);
   const doneModalTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   const pendingAutoSlideRef = useRef(false);
   const previewTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
-  const alertTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   const flashIntervalRef = useRef<ReturnType<typeof setInterval> | null>(null);
   const audioContextRef = useRef<AudioContext | null>(null);
   const audioEnabledRef = useRef(false);
+  const voiceSettingsRef = useRef<VoiceSettings>(DEFAULT_VOICE_SETTINGS);
+  // 녹음 경로 → 재생 주소. 스케줄이 바뀔 때마다 새로 받는다.
+  const voiceClipUrlsRef = useRef<Record<string, string>>({});
+  const announcedBlockIdRef = useRef<string | null>(null);
+  const completeTaskRef = useRef<(block: BuiltBlock, title: string) => void>(() => undefined);
   const themeDefaultsRef = useRef<{
     theme: string;
     themeTint: string;
     pageBg: string;
   } | null>(null);
 
-  const blocks = useMemo(() => buildBlocks(timeBlocks), [timeBlocks]);
+  // 오늘 날짜에 맞는 템플릿(날짜 지정 > 요일 지정 > 기본 일정)으로 블록을 만든다.
+  const todayKey = getDateKey(now);
+  const blocks = useMemo(
+    () => buildBlocks(resolveScheduleForDate(schedule, parseDateKey(todayKey) ?? new Date())),
+    [schedule, todayKey]
+  );
+  const getBlocksForDayOffset = (dayOffset: number): BuiltBlock[] =>
+    dayOffset === 0
+      ? blocks
+      : buildBlocks(resolveScheduleForDate(schedule, addDays(now, dayOffset)));
   const displayIndex = previewIndex ?? currentIndex;
-  const displayBlock = blocks[displayIndex] ?? blocks[0];
   const isPreview = previewIndex !== null;
-  const hideDone = isPreview && previewOffset > 0;
-  const doneChecked = !hideDone && doneSet.has(displayIndex);
-
   const displayDate = isPreview ? addDays(now, previewDayOffset) : now;
+  const displayBlocks = isPreview ? getBlocksForDayOffset(previewDayOffset) : blocks;
+  const displayBlock = displayBlocks[displayIndex] ?? displayBlocks[0];
+  // 완료 체크는 오늘 것만 다루므로 다른 날짜를 미리 볼 때는 숨긴다.
+  const hideDone = isPreview && (previewOffset > 0 || previewDayOffset !== 0);
+  const doneChecked = !hideDone && Boolean(displayBlock) && doneSet.has(displayBlock.id);
+
   const theme = WEEKDAY_THEMES[displayDate.getDay()] ?? WEEKDAY_THEMES[0];
   const dateLine = `${displayDate.getFullYear()}년 ${pad2(
     displayDate.getMonth() + 1
@@ -156,7 +194,7 @@ function ElderPageContent() {
       return null;
     }
     const dateKey = getDateKey(displayDate);
-    const candidates = events.filter((event) => eventOccursOnDate(event, dateKey));
+    const candidates = expandEventsOnDate(events, dateKey);
     if (candidates.length === 0) {
       return null;
     }
@@ -210,6 +248,30 @@ function ElderPageContent() {
     audioEnabledRef.current = audioEnabled;
   }, [audioEnabled]);
 
+  useEffect(() => {
+    const stored = loadVoiceSettings();
+    setVoiceSettings(stored);
+    voiceSettingsRef.current = stored;
+  }, []);
+
+  useEffect(() => {
+    if (!supabase) {
+      return;
+    }
+    let cancelled = false;
+    const paths = Array.from(
+      new Set(blocks.map((block) => block.voiceClip).filter((path): path is string => Boolean(path)))
+    );
+    void fetchVoiceClipUrls(supabase, paths).then((urls) => {
+      if (!cancelled) {
+        voiceClipUrlsRef.current = urls;
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [supabase, blocks]);
+
   useEffect(() => {
     if (!audioEnabled) {
       return;
@@ -223,28 +285,95 @@ function ElderPageContent() {
     return () => window.removeEventListener("pointerdown", unlock);
   }, [audioEnabled]);
   useEffect(() => {
-    const stored = loadSchedule();
-    if (stored && stored.length > 0) {
-      setTimeBlocks(stored);
-    }
+    setSchedule(loadScheduleSet());
     setEvents(loadEvents());
   }, []);
 
+  // 가족이 다른 기기에서 저장하면 Realtime(또는 같은 브라우저의 로컬 채널)으로 받아 다시 그린다.
   useEffect(() => {
-    const handleStorage = (event: StorageEvent) => {
-      if (event.key === SCHEDULE_STORAGE_KEY) {
-        const stored = loadSchedule();
-        if (stored && stored.length > 0) {
-          setTimeBlocks(stored);
-        }
+    let cancelled = false;
+    const refreshSchedule = async () => {
+      const stored = supabase ? await fetchSchedule(supabase, elderId) : loadScheduleSet();
+      if (!cancelled) {
+        setSchedule(stored);
       }
-      if (event.key === EVENTS_STORAGE_KEY) {
-        setEvents(loadEvents());
+    };
+    const refreshEvents = async () => {
+      const nextEvents = supabase ? await fetchEvents(supabase) : loadEvents();
+      if (!cancelled) {
+        setEvents(nextEvents);
+      }
+    };
+
+    if (supabase) {
+      void refreshSchedule();
+      void refreshEvents();
+    }
+    const unsubscribe = subscribeGroupChanges(
+      supabase,
+      ["schedule", "events"],
+      (topic) => {
+        void (topic === "schedule" ? refreshSchedule() : refreshEvents());
+      }
+    );
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [supabase, elderId]);
+
+  // 약 목록(남은 양 포함)과 오늘 복용 기록. 다른 기기에서 확인한 것도 반영한다.
+  useEffect(() => {
+    let cancelled = false;
+    setMedications(loadCachedMedications(elderId));
+    if (!currentDateKey) {
+      return;
+    }
+    setTakenDoses(loadTakenDoses(currentDateKey));
+    if (!supabase) {
+      return;
+    }
+    const refresh = async () => {
+      const [nextMedications, serverDoses] = await Promise.all([
+        fetchMedications(supabase, elderId),
+        fetchTakenDoses(supabase, elderId, currentDateKey)
+      ]);
+      const urls = await fetchMedicationPhotoUrls(
+        supabase,
+        nextMedications
+          .map((item) => item.photoPath)
+          .filter((path): path is string => Boolean(path))
+      );
+      if (cancelled) {
+        return;
+      }
+      setMedications(nextMedications);
+      setMedicationPhotoUrls(urls);
+      if (serverDoses) {
+        // 아직 올리지 못한 이 기기의 확인도 남겨 둔다. 복용 기록은 지우지 않으므로 합치면 된다.
+        const merged = new Set([...loadTakenDoses(currentDateKey), ...serverDoses]);
+        setTakenDoses(merged);
+        saveTakenDoses(currentDateKey, merged);
       }
     };
-    window.addEventListener("storage", handleStorage);
-    return () => window.removeEventListener("storage", handleStorage);
-  }, []);
+
+    void refresh();
+    const unsubscribe = subscribeGroupChanges(supabase, ["completions"], () => {
+      void refresh();
+    });
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [supabase, elderId, currentDateKey]);
+
+  // 오프라인일 때 체크한 완료 기록은 연결이 돌아오면 올린다.
+  useEffect(() => {
+    if (!supabase) {
+      return;
+    }
+    return startOutboxSync(supabase);
+  }, [supabase]);
 
   useEffect(() => {
     const timerId = setInterval(() => setNow(new Date()), 1000);
@@ -270,9 +399,51 @@ function ElderPageContent() {
     const dateKey = getDateKey(now);
     if (dateKey !== currentDateKey) {
       setCurrentDateKey(dateKey);
-      setDoneSet(loadDoneSet(dateKey));
+      setDoneSet(loadDoneSet(dateKey, blocks));
     }
-  }, [now, currentDateKey]);
+  }, [now, currentDateKey, blocks]);
+
+  // 다른 가족 기기에서 체크/해제한 기록도 반영하도록 서버 완료 기록으로 오늘의 완료 상태를 맞춘다.
+  // 아직 올리지 못한 이 기기의 체크는 로컬 상태를 그대로 둔다.
+  useEffect(() => {
+    if (!supabase || !currentDateKey || blocks.length === 0) {
+      return;
+    }
+    let cancelled = false;
+    const syncDoneSet = async () => {
+      const completions = await fetchCompletionsForDate(supabase, elderId, currentDateKey);
+      if (cancelled || !elderId || !completions) {
+        return;
+      }
+      const pendingPrefix = completionResource(elderId, currentDateKey, "");
+      const pendingTaskIds = new Set(
+        listPendingResources(pendingPrefix).map((resource) =>
+          resource.slice(pendingPrefix.length)
+        )
+      );
+      const localSet = loadDoneSet(currentDateKey, blocks);
+      const nextSet = new Set<string>();
+      blocks.forEach((block) => {
+        const done = pendingTaskIds.has(block.id)
+          ? localSet.has(block.id)
+          : completions.some((item) => isCompletionForTask(item, block));
+        if (done) {
+          nextSet.add(getTaskId(block));
+        }
+      });
+      setDoneSet(nextSet);
+      saveDoneSet(currentDateKey, nextSet);
+    };
+
+    void syncDoneSet();
+    const unsubscribe = subscribeGroupChanges(supabase, ["completions"], () => {
+      void syncDoneSet();
+    });
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [supabase, elderId, currentDateKey, blocks]);
 
   useEffect(() => {
     if (!themeDefaultsRef.current) {
@@ -324,9 +495,6 @@ function ElderPageContent() {
 
   useEffect(() => {
     return () => {
-      if (alertTimeoutRef.current) {
-        window.clearTimeout(alertTimeoutRef.current);
-      }
       if (flashIntervalRef.current) {
         window.clearInterval(flashIntervalRef.current);
       }
@@ -337,10 +505,6 @@ function ElderPageContent() {
   }, []);
 
   const clearAlertTimers = () => {
-    if (alertTimeoutRef.current) {
-      window.clearTimeout(alertTimeoutRef.current);
-      alertTimeoutRef.current = null;
-    }
     if (flashIntervalRef.current) {
       window.clearInterval(flashIntervalRef.current);
       flashIntervalRef.current = null;
@@ -349,6 +513,7 @@ function ElderPageContent() {
 
   const stopAlert = () => {
     clearAlertTimers();
+    stopSpeaking();
     setFlashOn(false);
     setAlertInfo(null);
   };
@@ -411,14 +576,75 @@ function ElderPageContent() {
     })();
   };
 
-  const triggerAlert = (type: AlertType, message: string, beepTimes: number) => {
+  // 삐 소리 뒤에 가족이 녹음한 안내를 들려주고, 없거나 재생하지 못하면 기기 음성으로 읽는다.
+  const announce = (message: string, block: BuiltBlock | null, delayMs: number) => {
+    const settings = voiceSettingsRef.current;
+    if (!audioEnabledRef.current || !settings.enabled) {
+      return;
+    }
+    setTimeout(() => {
+      void (async () => {
+        const clipUrl = block?.voiceClip ? voiceClipUrlsRef.current[block.voiceClip] : undefined;
+        if (clipUrl && (await playVoiceClip(clipUrl, settings.volume))) {
+          return;
+        }
+        await speak(toSpokenText(message), settings);
+      })();
+    }, delayMs);
+  };
+
+  const triggerAlert = (
+    type: AlertType,
+    message: string,
+    beepTimes: number,
+    block: BuiltBlock | null = null
+  ) => {
     clearAlertTimers();
-    setAlertInfo({ type, message });
+    // 어르신이 "확인했어요"나 "나중에"를 누를 때까지 알림 창을 띄워 둔다.
+    setAlertInfo({ type, message, block, dateKey: getDateKey(new Date()) });
     startFlash();
     playBeep(beepTimes);
-    alertTimeoutRef.current = setTimeout(() => {
-      stopAlert();
-    }, 8000);
+    announce(message, block, beepTimes * 220 + 300);
+  };
+
+  // 알림에 답한 것도 최근 활동에 남긴다. "나중에"는 SNOOZE_MINUTES 뒤에 같은 알림을 다시 울린다.
+  const respondToAlert = (action: AlertResponseAction) => {
+    const info = alertInfo;
+    stopAlert();
+    if (!info?.block) {
+      return;
+    }
+    const respondedAt = new Date();
+    if (action === "snoozed") {
+      snoozeAlert(
+        info.dateKey,
+        { blockId: info.block.id, type: info.type, message: info.message },
+        respondedAt
+      );
+      setSnoozeRevision((prev) => prev + 1);
+    }
+    const activity = appendDoneActivity({
+      taskId: info.block.id,
+      kind: action,
+      title: info.block.label.trim() || "일정",
+      completedAt: respondedAt.toISOString(),
+      dateKey: info.dateKey
+    });
+    if (supabase && elderId) {
+      void submitMutation(supabase, {
+        kind: "alert.respond",
+        elderId,
+        input: {
+          dateKey: info.dateKey,
+          taskId: getTaskId(info.block),
+          title: activity.title,
+          alertType: info.type,
+          action,
+          snoozeMinutes: action === "snoozed" ? SNOOZE_MINUTES : null,
+          respondedAt: activity.completedAt
+        }
+      });
+    }
   };
 
   const handleAudioToggle = async () => {
@@ -461,14 +687,18 @@ function ElderPageContent() {
     }
     const nextOffset = previewIndex === null ? delta : previewOffset + delta;
     const baseIndex = previewIndex === null ? currentIndex : previewIndex;
-    const lastIndex = blocks.length - 1;
-    if (delta > 0 && baseIndex === lastIndex) {
-      setPreviewDayOffset((prev) => prev + 1);
-    }
-    if (delta < 0 && baseIndex === 0) {
-      setPreviewDayOffset((prev) => prev - 1);
+    const baseDayOffset = previewIndex === null ? 0 : previewDayOffset;
+    // 날짜를 넘기면 그날의 템플릿으로 바뀌므로 블록 개수도 그날 기준으로 다시 센다.
+    let nextDayOffset = baseDayOffset;
+    let nextIndex = baseIndex + delta;
+    if (nextIndex >= getBlocksForDayOffset(baseDayOffset).length) {
+      nextDayOffset += 1;
+      nextIndex = 0;
+    } else if (nextIndex < 0) {
+      nextDayOffset -= 1;
+      nextIndex = Math.max(0, getBlocksForDayOffset(nextDayOffset).length - 1);
     }
-    const nextIndex = (baseIndex + delta + blocks.length) % blocks.length;
+    setPreviewDayOffset(nextDayOffset);
     setPreviewOffset(nextOffset);
     showPreview(nextIndex);
   };
@@ -495,47 +725,49 @@ function ElderPageContent() {
       const nowDate = new Date();
       const dateKey = getDateKey(nowDate);
       const nowMinutes = nowDate.getHours() * 60 + nowDate.getMinutes();
-      let triggered = false;
 
-      for (let index = 0; index < blocks.length; index += 1) {
-        if (triggered) {
-          break;
+      const snoozed = takeDueSnoozedAlert(dateKey, nowDate, doneSet);
+      if (snoozed) {
+        setSnoozeRevision((prev) => prev + 1);
+        const block = blocks.find((item) => item.id === snoozed.blockId) ?? null;
+        triggerAlert(snoozed.type, snoozed.message, 2, block);
+        if (document.hidden) {
+          void showSystemAlert(snoozedToScheduledAlert(snoozed, dateKey));
         }
-        if (doneSet.has(index)) {
+        return;
+      }
+
+      // 시작/종료 전 알림과, 끝났는데 체크하지 않은 할 일의 재알림을 함께 본다. 시각이 지난 뒤
+      // 새로고침해도 알림 창 안이면 울리고, 이미 울린 회차는 같은 키로 건너뛴다.
+      for (const block of blocks) {
+        if (doneSet.has(block.id)) {
           continue;
         }
-        const block = blocks[index];
-        const alertTarget = block.alertTarget ?? DEFAULT_ALERT_TARGET;
-        const baseMin =
-          alertTarget === "end" ? toMinutes(block.end) : toMinutes(block.start);
-        if (Number.isNaN(baseMin)) {
+        const alert = listBlockAlerts(block).find(
+          (item) =>
+            isAlertDue(item, nowMinutes) &&
+            localStorage.getItem(getAlertKey(dateKey, block.id, item.type)) !== "1"
+        );
+        if (!alert) {
           continue;
         }
-
-        const alertMinutes = getAlertMinutesForBlock(block);
-        for (const minuteBefore of alertMinutes) {
-          const targetMinute = baseMin - minuteBefore;
-          if (targetMinute < 0 || targetMinute >= DAY_MINUTES) {
-            continue;
+        localStorage.setItem(getAlertKey(dateKey, block.id, alert.type), "1");
+        triggerAlert(
+          alert.type,
+          alert.message,
+          alert.type.startsWith("remind") ? 3 : 2,
+          block
+        );
+        // 탭이 가려져 있으면 화면 알림을 못 보므로 시스템 알림으로도 띄운다.
+        if (document.hidden) {
+          const scheduled = buildScheduledAlerts([block], doneSet, dateKey, nowDate).find(
+            (item) => item.tag.endsWith(`:${alert.type}`)
+          );
+          if (scheduled) {
+            void showSystemAlert(scheduled);
           }
-          if (targetMinute !== nowMinutes) {
-            continue;
-          }
-          const type = `${alertTarget}${minuteBefore}` as AlertType;
-          const blockKey = `${block.start}-${block.end}`;
-          const key = `alert_${dateKey}_${blockKey}_${type}`;
-          if (localStorage.getItem(key) === "1") {
-            continue;
-          }
-          localStorage.setItem(key, "1");
-          const message =
-            alertTarget === "end"
-              ? `${minuteBefore}분 남았어요\n${block.label}`
-              : `${minuteBefore}분 전이에요\n${block.label}`;
-          triggerAlert(type, message, 2);
-          triggered = true;
-          break;
         }
+        break;
       }
     };
 
@@ -544,29 +776,108 @@ function ElderPageContent() {
     return () => window.clearInterval(timerId);
   }, [blocks, doneSet]);
 
-  // 다음 방향 프리뷰 중이면 완료 토글을 막는다.
-  const handleDoneClick = () => {
-    if (doneDisabled) {
+  // 다음 할 일로 넘어가면 무엇을 할 시간인지 읽어 준다. 화면을 처음 열 때는 읽지 않는다.
+  useEffect(() => {
+    const block = blocks[currentIndex];
+    if (!block || announcedBlockIdRef.current === block.id) {
       return;
     }
-    const targetIndex = previewIndex !== null ? previewIndex : currentIndex;
-    const nextSet = new Set(doneSet);
-    const wasDone = nextSet.has(targetIndex);
-    if (wasDone) {
-      nextSet.delete(targetIndex);
-    } else {
-      nextSet.add(targetIndex);
+    const isFirst = announcedBlockIdRef.current === null;
+    announcedBlockIdRef.current = block.id;
+    if (isFirst || doneSet.has(block.id) || !block.label) {
+      return;
+    }
+    announce(`지금은 ${block.label} 시간이에요`, block, 0);
+  }, [blocks, currentIndex]);
+
+  // 남은 알림 일정을 서비스 워커에 넘겨, 탭이 가려지거나 닫혀 있어도 시스템 알림으로 울리게 한다.
+  // 완료 체크가 바뀌면 다시 넘겨서 끝난 할 일의 알림을 지운다.
+  useEffect(() => {
+    if (!currentDateKey || systemAlertsNeeded) {
+      return;
     }
+    void scheduleSystemAlerts(
+      buildScheduledAlerts(
+        blocks,
+        doneSet,
+        currentDateKey,
+        new Date(),
+        loadSnoozedAlerts(currentDateKey)
+      )
+    );
+  }, [blocks, doneSet, currentDateKey, systemAlertsNeeded, snoozeRevision]);
+
+  useEffect(() => {
+    setSystemAlertsNeeded(
+      isSystemNotificationSupported() && Notification.permission !== "granted"
+    );
+  }, []);
+
+  // 시스템 알림에서 "완료했어요"를 누르면 화면에서 체크한 것과 똑같이 기록한다.
+  useEffect(() => {
+    return subscribeDoneRequests(({ taskId, dateKey }) => {
+      if (dateKey !== currentDateKey || doneSet.has(taskId)) {
+        return;
+      }
+      const block = blocks.find((item) => item.id === taskId);
+      if (block) {
+        completeTaskRef.current(block, block.label);
+      }
+    });
+  }, [blocks, doneSet, currentDateKey]);
+
+  const handleVoiceSettingsChange = (next: VoiceSettings) => {
+    setVoiceSettings(next);
+    voiceSettingsRef.current = next;
+    saveVoiceSettings(next);
+  };
+
+  const handleSystemAlertsEnable = async () => {
+    if (await enableSystemNotifications()) {
+      setSystemAlertsNeeded(false);
+    }
+  };
+
+  // 완료 체크를 저장하고 활동 기록을 남긴다. 시스템 알림의 "완료했어요"도 여기로 온다.
+  const completeTask = (block: BuiltBlock, title: string) => {
+    const nextSet = new Set(doneSet);
+    nextSet.add(block.id);
     setDoneSet(nextSet);
     const key = currentDateKey || getDateKey(new Date());
     saveDoneSet(key, nextSet);
-    if (!wasDone) {
-      const titleSource = activeEvent ? activeEvent.label : displayBlock?.label ?? "";
-      appendDoneActivity({
-        title: titleSource.trim() || "일정",
-        completedAt: new Date().toISOString(),
-        dateKey: key
+    const activity = appendDoneActivity({
+      taskId: block.id,
+      title: title.trim() || "일정",
+      completedAt: new Date().toISOString(),
+      dateKey: key
+    });
+    if (supabase && elderId) {
+      void submitMutation(supabase, {
+        kind: "completion.record",
+        elderId,
+        input: {
+          dateKey: key,
+          taskId: getTaskId(block),
+          title: activity.title,
+          completedAt: activity.completedAt
+        }
       });
+    }
+  };
+  completeTaskRef.current = completeTask;
+
+  // 다음 방향 프리뷰 중이면 완료 토글을 막는다.
+  const handleDoneClick = () => {
+    if (doneDisabled) {
+      return;
+    }
+    const targetIndex = previewIndex !== null ? previewIndex : currentIndex;
+    const targetBlock = blocks[targetIndex];
+    if (!targetBlock) {
+      return;
+    }
+    if (!doneSet.has(targetBlock.id)) {
+      completeTask(targetBlock, activeEvent ? activeEvent.label : displayBlock?.label ?? "");
       setDoneModalOpen(true);
       pendingAutoSlideRef.current = true;
       if (doneModalTimerRef.current) {
@@ -575,9 +886,61 @@ function ElderPageContent() {
       doneModalTimerRef.current = setTimeout(() => {
         closeDoneModal();
       }, 2000);
+      return;
+    }
+    const nextSet = new Set(doneSet);
+    nextSet.delete(targetBlock.id);
+    setDoneSet(nextSet);
+    const key = currentDateKey || getDateKey(new Date());
+    saveDoneSet(key, nextSet);
+    if (supabase && elderId) {
+      void submitMutation(supabase, {
+        kind: "completion.remove",
+        elderId,
+        dateKey: key,
+        block: {
+          id: targetBlock.id,
+          start: targetBlock.start,
+          end: targetBlock.end,
+          label: targetBlock.label
+        }
+      });
+    }
+  };
+
+  const handleDoseClick = (medication: Medication) => {
+    if (!displayBlock || doneDisabled) {
+      return;
+    }
+    const key = currentDateKey || getDateKey(new Date());
+    const doseKey = getDoseKey(medication.id, displayBlock.blockId);
+    if (takenDoses.has(doseKey)) {
+      return;
+    }
+    const nextDoses = new Set(takenDoses);
+    nextDoses.add(doseKey);
+    setTakenDoses(nextDoses);
+    saveTakenDoses(key, nextDoses);
+    setMedications((prev) =>
+      prev.map((item) =>
+        item.id === medication.id
+          ? { ...item, stock: Math.max(0, item.stock - item.pillsPerDose) }
+          : item
+      )
+    );
+    if (supabase) {
+      void submitMutation(supabase, {
+        kind: "dose.record",
+        input: { medicationId: medication.id, dateKey: key, blockId: displayBlock.blockId }
+      });
     }
   };
 
+  const displayMedications =
+    displayBlock && !activeEvent
+      ? medications.filter((medication) => displayBlock.medicationIds?.includes(medication.id))
+      : [];
+
   const taskLabel = (activeEvent ? activeEvent.label : displayBlock?.label ?? "").trim();
   const displayTaskLabel = taskLabel || "일정이 없어요";
   const taskMeta = activeEvent
@@ -625,7 +988,7 @@ function ElderPageContent() {
             >
               {timeLine}
             </div>
-            <div className="mt-2 flex justify-center">
+            <div className="mt-2 flex justify-center gap-2">
               <button
                 type="button"
                 className="inline-flex min-h-12 items-center justify-center rounded-lg border border-gray-200 bg-white px-4 text-base font-semibold text-gray-700 transition hover:bg-gray-100 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-gray-400 focus-visible:ring-offset-2"
@@ -634,6 +997,22 @@ function ElderPageContent() {
               >
                 {audioEnabled ? "소리 켜짐" : "소리 켜기"}
               </button>
+              <button
+                type="button"
+                className="inline-flex min-h-12 items-center justify-center rounded-lg border border-gray-200 bg-white px-4 text-base font-semibold text-gray-700 transition hover:bg-gray-100 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-gray-400 focus-visible:ring-offset-2"
+                onClick={() => setVoiceSettingsOpen(true)}
+              >
+                음성
+              </button>
+              {systemAlertsNeeded && (
+                <button
+                  type="button"
+                  className="inline-flex min-h-12 items-center justify-center rounded-lg border border-gray-200 bg-white px-4 text-base font-semibold text-gray-700 transition hover:bg-gray-100 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-gray-400 focus-visible:ring-offset-2"
+                  onClick={handleSystemAlertsEnable}
+                >
+                  알림 켜기
+                </button>
+              )}
             </div>
           </div>
         </header>
@@ -676,6 +1055,50 @@ function ElderPageContent() {
                 </div>
               </article>
 
+              {displayMedications.length > 0 && (
+                <ul className="flex flex-col gap-2" aria-label="이 시간에 드실 약">
+                  {displayMedications.map((medication) => {
+                    const taken =
+                      !hideDone &&
+                      takenDoses.has(getDoseKey(medication.id, displayBlock.blockId));
+                    const photoUrl = medication.photoPath
+                      ? medicationPhotoUrls[medication.photoPath]
+                      : undefined;
+                    return (
+                      <li
+                        key={medication.id}
+                        className="flex items-center gap-3 rounded-xl border border-gray-200 bg-white px-4 py-3"
+                      >
+                        {photoUrl && (
+                          <img
+                            src={photoUrl}
+                            alt={medication.name}
+                            className="h-16 w-16 shrink-0 rounded-lg object-cover"
+                          />
+                        )}
+                        <div className="flex-1 text-left">
+                          <div className="text-2xl font-bold text-gray-900">{medication.name}</div>
+                          <div className="text-lg text-gray-600">
+                            {[medication.dose, `${medication.pillsPerDose}알`]
+                              .filter(Boolean)
+                              .join(" · ")}
+                          </div>
+                        </div>
+                        <button
+                          type="button"
+                          className="inline-flex min-h-14 shrink-0 items-center justify-center rounded-lg border border-gray-300 bg-white px-4 text-xl font-semibold text-gray-700 transition hover:bg-gray-100 disabled:opacity-60"
+                          aria-pressed={taken}
+                          disabled={taken || doneDisabled}
+                          onClick={() => handleDoseClick(medication)}
+                        >
+                          {taken ? "먹었어요 ✓" : "먹었어요"}
+                        </button>
+                      </li>
+                    );
+                  })}
+                </ul>
+              )}
+
               <PrimaryButton
                 id="doneBtn"
                 variant="primary"
@@ -744,13 +1167,34 @@ function ElderPageContent() {
             <div className="mt-4 whitespace-pre-line text-3xl font-bold text-slate-900">
               {alertInfo.message}
             </div>
-            <PrimaryButton type="button" className="mt-6 w-full rounded-lg py-3 text-xl" onClick={stopAlert}>
-              확인
+            <PrimaryButton
+              type="button"
+              className="mt-6 w-full rounded-lg py-4 text-2xl"
+              onClick={() => respondToAlert("acknowledged")}
+            >
+              확인했어요
             </PrimaryButton>
+            {alertInfo.block && (
+              <button
+                type="button"
+                className="mt-3 inline-flex min-h-14 w-full items-center justify-center rounded-lg border border-gray-300 bg-white px-4 text-2xl font-semibold text-gray-700 transition hover:bg-gray-100 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-gray-400 focus-visible:ring-offset-2"
+                onClick={() => respondToAlert("snoozed")}
+              >
+                나중에 ({SNOOZE_MINUTES}분 뒤)
+              </button>
+            )}
           </div>
         </div>
       )}
 
+      {voiceSettingsOpen && (
+        <VoiceSettingsDialog
+          settings={voiceSettings}
+          onChange={handleVoiceSettingsChange}
+          onClose={() => setVoiceSettingsOpen(false)}
+        />
+      )}
+
       {doneModalOpen && (
         <div
           className="fixed inset-0 z-50 flex items-center justify-center px-4"
@@ -771,10 +1215,69 @@ function ElderPageContent() {
   );
 }
 
+// 어르신이 여러 분인 가족은 이 기기를 누구의 화면으로 쓸지 처음 한 번 고른다.
+function ElderDeviceSetup() {
+  const supabaseAvailable = useMemo(() => {
+    return Boolean(
+      process.env.NEXT_PUBLIC_SUPABASE_URL &&
+        process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY
+    );
+  }, []);
+  const supabase = useMemo(
+    () => (supabaseAvailable ? createSupabaseBrowserClient() : null),
+    [supabaseAvailable]
+  );
+  const { elders, elder, loading, bind } = useDeviceElder(supabase);
+
+  // 연결 코드로 들어온 기기는 가족이 연결을 끊었는지 열 때마다, 다시 온라인이 될 때마다 확인한다.
+  useEffect(() => {
+    if (!supabase) {
+      return;
+    }
+    const check = () => {
+      void checkPairedDevice(supabase);
+    };
+    check();
+    window.addEventListener("online", check);
+    return () => {
+      window.removeEventListener("online", check);
+    };
+  }, [supabase]);
+
+  if (loading) {
+    return null;
+  }
+  if (!elder && elders.length > 1) {
+    return (
+      <div className="min-h-[100dvh] bg-gray-50">
+        <main className="mx-auto flex min-h-[100dvh] w-full max-w-xl flex-col justify-center gap-4 px-4 pt-[calc(env(safe-area-inset-top)+56px)]">
+          <h1 className="text-center text-3xl font-bold text-gray-900">
+            이 기기는 누구의 화면인가요?
+          </h1>
+          <p className="text-center text-base text-gray-600">
+            한 번 고르면 이 기기에서는 그분의 일정만 보여드려요.
+          </p>
+          {elders.map((item) => (
+            <PrimaryButton
+              key={item.id}
+              type="button"
+              className="w-full rounded-lg py-4 text-2xl"
+              onClick={() => bind(item.id)}
+            >
+              {item.displayName}
+            </PrimaryButton>
+          ))}
+        </main>
+      </div>
+    );
+  }
+  return <ElderPageContent key={elder?.id ?? "local"} elderId={elder?.id ?? null} />;
+}
+
 export default function ElderPage() {
   return (
-    <AuthGate>
-      <ElderPageContent />
+    <AuthGate allowPairing>
+      <ElderDeviceSetup />
     </AuthGate>
   );
 }
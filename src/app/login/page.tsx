@@ -16,6 +16,13 @@ import {
 import { useRouter, useSearchParams } from "next/navigation";
 import Link from "next/link";
 import { createSupabaseBrowserClient } from "@/lib/supabase/client";
+import { loadDeviceElderId } from "@/lib/elders";
+import {
+  acceptGroupInvite,
+  buildInviteMetadata,
+  normalizeInviteCode,
+  savePendingInvite
+} from "@/lib/group-invites";
 import { registerMemberFromSignup } from "@/lib/registered-members";
 
 type Notice = { type: "success" | "error"; text: string } | null;
@@ -29,7 +36,6 @@ type SignupForm = {
   password: string;
   phone: string;
   birthdate: string;
-  grandmaBirthcode: string;
 };
 type SignupTouched = Record<keyof SignupForm, boolean>;
 type BirthdateParts = {
@@ -55,8 +61,7 @@ const initialSignupForm: SignupForm = {
   email: "",
   password: "",
   phone: "",
-  birthdate: "",
-  grandmaBirthcode: ""
+  birthdate: ""
 };
 const initialSignupTouched: SignupTouched = {
   name: false,
@@ -64,16 +69,13 @@ const initialSignupTouched: SignupTouched = {
   email: false,
   password: false,
   phone: false,
-  birthdate: false,
-  grandmaBirthcode: false
+  birthdate: false
 };
 const initialBirthdateParts: BirthdateParts = {
   year: "",
   month: "",
   day: ""
 };
-const GRANDMA_BIRTHCODE = "490818";
-const GRANDMA_EMAIL = "sook490818@gmail.com";
 const RELATION_OPTIONS = [
   "큰 딸",
   "작은 딸",
@@ -84,12 +86,6 @@ const RELATION_OPTIONS = [
   "손녀"
 ];
 
-const normalizeEmail = (value: string | null | undefined) =>
-  (value ?? "").trim().toLowerCase();
-
-const isGrandmaEmail = (email: string | null | undefined) =>
-  normalizeEmail(email) === GRANDMA_EMAIL;
-
 const parseDateInput = (value: string) => {
   const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
   if (!match) {
@@ -165,14 +161,14 @@ const SIGNUP_STEPS: SignupStep[] = [
   },
   {
     key: "relation",
-    label: "할머니와의 관계",
+    label: "어르신과의 관계",
     placeholder: "관계를 선택해 주세요",
     type: "text",
     autoComplete: "off",
     options: RELATION_OPTIONS,
     validate: (value) => {
       if (!value.trim()) {
-        return "할머니와의 관계를 선택해 주세요.";
+        return "어르신과의 관계를 선택해 주세요.";
       }
       return null;
     }
@@ -215,25 +211,6 @@ const SIGNUP_STEPS: SignupStep[] = [
       }
       return null;
     }
-  },
-  {
-    key: "grandmaBirthcode",
-    label: "할머니 생년월일 6자리",
-    placeholder: "6자리 입력",
-    type: "tel",
-    autoComplete: "off",
-    inputMode: "numeric",
-    maxLength: 6,
-    validate: (value) => {
-      const digits = value.replace(/\D/g, "");
-      if (digits.length !== 6) {
-        return "할머니 생년월일 6자리를 입력해 주세요.";
-      }
-      if (digits !== GRANDMA_BIRTHCODE) {
-        return "할머니 생년월일이 일치하지 않습니다.";
-      }
-      return null;
-    }
   }
 ];
 
@@ -268,6 +245,8 @@ function LoginPageContent() {
   const router = useRouter();
   const searchParams = useSearchParams();
   const isSignup = searchParams.get("mode") === "signup";
+  // /mypage에서 만든 초대 링크(/login?mode=signup&invite=코드)로 들어오면 가입 후 그 그룹에 참여시킨다.
+  const inviteCode = normalizeInviteCode(searchParams.get("invite") ?? "");
   const rawRedirect = searchParams.get("redirectedFrom") || "/";
   const redirectTo = rawRedirect.startsWith("/") ? rawRedirect : "/";
   const supabaseAvailable = useMemo(() => {
@@ -297,9 +276,9 @@ function LoginPageContent() {
   const birthdateRefs = useRef<Array<HTMLInputElement | null>>([]);
   const loginRevealHandlers = createRevealHandlers(setLoginPasswordVisible);
   const signupRevealHandlers = createRevealHandlers(setSignupPasswordVisible);
+  // 어르신 화면으로 설정한 기기는 로그인하면 바로 /elder로 보낸다.
   const resolveRedirect = useCallback(
-    (targetEmail: string | null | undefined) =>
-      isGrandmaEmail(targetEmail) ? "/elder" : redirectTo,
+    () => (loadDeviceElderId() ? "/elder" : redirectTo),
     [redirectTo]
   );
   useEffect(() => {
@@ -318,13 +297,20 @@ function LoginPageContent() {
     if (!supabase) {
       return;
     }
-    supabase.auth.getSession().then(({ data }: { data: AuthSessionData }) => {
+    supabase.auth.getSession().then(async ({ data }: { data: AuthSessionData }) => {
       const session = data.session;
-      if (session) {
-        router.replace(resolveRedirect(session.user.email));
+      if (!session) {
+        return;
+      }
+      // 이미 로그인한 가족이 초대 링크를 열면 바로 참여시키고 마이페이지로 보낸다.
+      if (inviteCode) {
+        await acceptGroupInvite(supabase, inviteCode);
+        router.replace("/mypage");
+        return;
       }
+      router.replace(resolveRedirect());
     });
-  }, [supabase, router, redirectTo, resolveRedirect]);
+  }, [supabase, router, redirectTo, resolveRedirect, inviteCode]);
 
   const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
     event.preventDefault();
@@ -347,7 +333,7 @@ function LoginPageContent() {
     }
     setLoading(true);
     try {
-      const { data, error } = await supabase.auth.signInWithPassword({
+      const { error } = await supabase.auth.signInWithPassword({
         email: trimmed,
         password
       });
@@ -355,8 +341,16 @@ function LoginPageContent() {
         setNotice({ type: "error", text: error.message });
         return;
       }
-      const targetEmail = data.user?.email ?? data.session?.user?.email ?? trimmed;
-      router.replace(resolveRedirect(targetEmail));
+      if (inviteCode) {
+        const joined = await acceptGroupInvite(supabase, inviteCode);
+        if (!joined.ok) {
+          setNotice({ type: "error", text: joined.message });
+          return;
+        }
+        router.replace("/mypage");
+        return;
+      }
+      router.replace(resolveRedirect());
     } catch {
       setNotice({ type: "error", text: "로그인에 실패했습니다." });
     } finally {
@@ -371,14 +365,6 @@ function LoginPageContent() {
     }
   };
 
-  const handleSignupChange = (key: keyof SignupForm, value: string) => {
-    let nextValue = value;
-    if (key === "grandmaBirthcode") {
-      nextValue = value.replace(/\D/g, "").slice(0, 6);
-    }
-    updateSignupField(key, nextValue);
-  };
-
   const handleSignupBlur = (key: keyof SignupForm) => {
     setSignupTouched((prev) => (prev[key] ? prev : { ...prev, [key]: true }));
   };
@@ -475,7 +461,8 @@ function LoginPageContent() {
             name: trimmedName,
             relation: trimmedRelation,
             phone: phoneDigits,
-            birthdate: signupForm.birthdate
+            birthdate: signupForm.birthdate,
+            ...(inviteCode ? buildInviteMetadata(inviteCode) : {})
           }
         }
       });
@@ -489,9 +476,19 @@ function LoginPageContent() {
         relation: trimmedRelation,
         email: trimmedEmail
       });
-      const successMessage = data.session
+      let successMessage = data.session
         ? "회원가입이 완료되었습니다."
         : "회원가입이 완료되었습니다. 이메일 인증 후 로그인해 주세요.";
+      if (inviteCode && data.session) {
+        const joined = await acceptGroupInvite(supabase, inviteCode);
+        successMessage = joined.ok
+          ? "회원가입과 가족 그룹 참여가 완료되었습니다."
+          : `회원가입은 완료되었지만 가족 그룹에 참여하지 못했습니다. (${joined.message})`;
+      } else if (inviteCode) {
+        // 이메일 인증 뒤 처음 로그인할 때 참여시킨다.
+        savePendingInvite(inviteCode);
+        successMessage = `${successMessage} 로그인하면 초대받은 가족 그룹에 참여합니다.`;
+      }
       setSignupNotice({ type: "success", text: successMessage });
       setSignupComplete(true);
     } catch {
@@ -512,6 +509,7 @@ function LoginPageContent() {
     visibleCount = index + 2;
   }
   const visibleSignupSteps = SIGNUP_STEPS.slice(0, visibleCount);
+  const loginHref = inviteCode ? `/login?invite=${inviteCode}` : "/login";
   const allSignupValid = signupErrors.every((error) => !error);
 
   return (
@@ -523,6 +521,11 @@ function LoginPageContent() {
             가족 일정 관리 기능은 로그인 후 이용할 수 있어요.
           </p>
         )}
+        {inviteCode && (
+          <p className="page-subtitle">
+            초대 코드 {inviteCode}로 가족 그룹에 참여합니다.
+          </p>
+        )}
       </header>
 
       <section>
@@ -533,7 +536,7 @@ function LoginPageContent() {
                 {signupNotice?.text ||
                   "회원가입이 완료되었습니다. 로그인 페이지에서 계속 진행해 주세요."}
               </div>
-              <Link className="btn" href="/login">
+              <Link className="btn" href={loginHref}>
                 로그인으로 이동
               </Link>
             </div>
@@ -563,7 +566,7 @@ function LoginPageContent() {
                           className="input"
                           value={value}
                           onChange={(event) =>
-                            handleSignupChange(step.key, event.target.value)
+                            updateSignupField(step.key, event.target.value)
                           }
                           onBlur={() => handleSignupBlur(step.key)}
                           disabled={signupLoading}
@@ -592,7 +595,7 @@ function LoginPageContent() {
                             type={signupPasswordVisible ? "text" : "password"}
                             value={value}
                             onChange={(event) =>
-                              handleSignupChange(step.key, event.target.value)
+                              updateSignupField(step.key, event.target.value)
                             }
                             onBlur={() => handleSignupBlur(step.key)}
                             placeholder={step.placeholder}
@@ -691,7 +694,7 @@ function LoginPageContent() {
                         type={step.type}
                         value={value}
                         onChange={(event) =>
-                          handleSignupChange(step.key, event.target.value)
+                          updateSignupField(step.key, event.target.value)
                         }
                         onBlur={() => handleSignupBlur(step.key)}
                         placeholder={step.placeholder}
@@ -717,7 +720,7 @@ function LoginPageContent() {
                   </button>
                 </div>
               )}
-              <Link className="text-link" href="/login">
+              <Link className="text-link" href={loginHref}>
                 이미 계정이 있나요? 로그인하기
               </Link>
             </form>
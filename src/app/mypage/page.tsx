@@ -3,34 +3,30 @@
 import { useEffect, useMemo, useState } from "react";
 import Link from "next/link";
 import AuthGate from "@/components/auth-gate";
+import CalendarFeedPanel from "@/components/calendar-feed-panel";
+import ElderProfilesPanel from "@/components/elder-profiles-panel";
+import ElderSwitcher from "@/components/elder-switcher";
+import FamilyGroupPanel from "@/components/family-group-panel";
+import FamilyTreePanel from "@/components/family-tree-panel";
+import MedicationsPanel from "@/components/medications-panel";
+import NotificationSettingsPanel from "@/components/notification-settings-panel";
+import PairedDevicesPanel from "@/components/paired-devices-panel";
 import { createSupabaseBrowserClient } from "@/lib/supabase/client";
+import { DEFAULT_ALERT_MINUTES } from "@/lib/constants";
 import {
-  addRegisteredMember,
-  loadRegisteredMembers,
-  normalizeRegisteredMemberName,
-  subscribeRegisteredMembers,
-  syncAuthenticatedRegisteredMember
-} from "@/lib/registered-members";
-import { DEFAULT_ALERT_MINUTES, TIME_BLOCKS } from "@/lib/constants";
-import {
-  DONE_ACTIVITY_STORAGE_KEY,
   loadDoneActivities,
-  loadSchedule,
   SCHEDULE_STORAGE_KEY,
+  SCHEDULE_VARIANTS_STORAGE_KEY,
+  type ActivityKind,
   type DoneActivityItem
 } from "@/lib/storage";
-import { buildBlocks } from "@/lib/time";
-
-type FamilyMember = {
-  name: string;
-  role: string;
-};
-
-type FamilyGroup = {
-  id: string;
-  title: string;
-  members: FamilyMember[];
-};
+import { fetchRecentAlertResponses } from "@/lib/alert-responses";
+import { fetchRecentActivities } from "@/lib/completions";
+import { useActiveElder } from "@/lib/elders";
+import { subscribeGroupChanges } from "@/lib/realtime";
+import { fetchSchedule } from "@/lib/schedule-sync";
+import { loadScheduleSet, resolveScheduleForDate } from "@/lib/schedule-templates";
+import { addDays, buildBlocks } from "@/lib/time";
 
 type ProfileMeta = {
   relation: string;
@@ -45,6 +41,12 @@ type NextSchedule = {
   meta: string;
 };
 
+const RECENT_ACTIVITY_LIMIT = 3;
+const ACTIVITY_KIND_LABELS: Record<ActivityKind, string> = {
+  done: "완료 체크",
+  acknowledged: "알림 확인",
+  snoozed: "나중에로 미룸"
+};
 const HANGUL_BASE = 0xac00;
 const HANGUL_END = 0xd7a3;
 const CHOSUNG_LATIN = [
@@ -153,35 +155,6 @@ const formatRecentActivityTime = (value: string) => {
   return `${month}.${day} ${hh}:${mm}`;
 };
 
-const FAMILY_GROUPS: FamilyGroup[] = [
-  {
-    id: "park-hyunju",
-    title: "첫째 딸 가족",
-    members: [
-      { name: "박현주", role: "첫째 딸" },
-      { name: "정길호", role: "첫째 사위" },
-      { name: "정다미", role: "손녀" },
-      { name: "정다훈", role: "손자" },
-      { name: "정진욱", role: "손자" },
-      { name: "정유경", role: "손녀" }
-    ]
-  },
-  {
-    id: "park-hyunjung",
-    title: "둘째 딸 가족",
-    members: [
-      { name: "박현정", role: "둘째 딸" },
-      { name: "홍지석", role: "둘째 사위" },
-      { name: "홍성우", role: "손자" }
-    ]
-  },
-  {
-    id: "park-suwon",
-    title: "아들 가족",
-    members: [{ name: "박수원", role: "아들" }]
-  }
-];
-
 export default function MyPage() {
   const supabaseAvailable = useMemo(() => {
     return Boolean(
@@ -201,8 +174,9 @@ export default function MyPage() {
     birthdate: ""
   });
   const [nextSchedule, setNextSchedule] = useState<NextSchedule | null>(null);
-  const [registeredMembers, setRegisteredMembers] = useState<string[]>([]);
   const [recentActivities, setRecentActivities] = useState<DoneActivityItem[]>([]);
+  const { elders, elder, selectElder } = useActiveElder(supabase);
+  const elderId = elder?.id ?? null;
 
   useEffect(() => {
     if (!supabase) {
@@ -247,64 +221,32 @@ export default function MyPage() {
   }, [supabase]);
 
   useEffect(() => {
-    setRegisteredMembers(loadRegisteredMembers());
-    return subscribeRegisteredMembers(setRegisteredMembers);
-  }, []);
-
-  useEffect(() => {
-    if (!supabase) {
-      return;
-    }
     let cancelled = false;
-
-    const loadRegisteredState = async () => {
-      const members = await syncAuthenticatedRegisteredMember(supabase);
-      if (!cancelled) {
-        setRegisteredMembers(members);
-      }
-    };
-
-    void loadRegisteredState();
-    const { data } = supabase.auth.onAuthStateChange(() => {
-      void loadRegisteredState();
-    });
-
-    return () => {
-      cancelled = true;
-      data.subscription.unsubscribe();
-    };
-  }, [supabase]);
-
-  useEffect(() => {
-    const name = profileName.trim();
-    if (!name) {
-      return;
-    }
-    setRegisteredMembers(addRegisteredMember(name));
-  }, [profileName]);
-
-  useEffect(() => {
     const updateNextSchedule = () => {
-      const stored = loadSchedule();
-      const baseBlocks = stored && stored.length > 0 ? stored : TIME_BLOCKS;
-      const builtBlocks = buildBlocks(baseBlocks);
-
-      if (builtBlocks.length === 0) {
-        setNextSchedule(null);
+      if (cancelled) {
         return;
       }
-
-      const sorted = [...builtBlocks].sort((a, b) => a.startMin - b.startMin);
+      // 오늘과 내일은 요일/날짜별 템플릿이 다를 수 있어 각각 그날의 일정으로 찾는다.
+      const schedule = loadScheduleSet();
       const now = new Date();
+      const sortByStart = (date: Date) =>
+        buildBlocks(resolveScheduleForDate(schedule, date)).sort(
+          (a, b) => a.startMin - b.startMin
+        );
       const nowMinutes = now.getHours() * 60 + now.getMinutes();
-      let nextBlock = sorted.find((block) => block.startMin > nowMinutes);
+      let nextBlock = sortByStart(now).find((block) => block.startMin > nowMinutes);
       let dayOffset = 0;
 
       if (!nextBlock) {
-        nextBlock = sorted[0];
+        nextBlock = sortByStart(addDays(now, 1))[0];
         dayOffset = 1;
       }
 
+      if (!nextBlock) {
+        setNextSchedule(null);
+        return;
+      }
+
       const alertCount =
         Array.isArray(nextBlock.alertMinutes) && nextBlock.alertMinutes.length > 0
           ? nextBlock.alertMinutes.length
@@ -317,63 +259,62 @@ export default function MyPage() {
     };
 
     updateNextSchedule();
+    if (supabase) {
+      // fetchSchedule이 localStorage 캐시를 갱신하므로 다시 계산만 하면 된다.
+      void fetchSchedule(supabase, elderId).then(updateNextSchedule);
+    }
     const timerId = window.setInterval(updateNextSchedule, 60000);
     const handleStorage = (event: StorageEvent) => {
-      if (event.key === SCHEDULE_STORAGE_KEY) {
+      if (
+        event.key === SCHEDULE_STORAGE_KEY ||
+        event.key === SCHEDULE_VARIANTS_STORAGE_KEY
+      ) {
         updateNextSchedule();
       }
     };
     window.addEventListener("storage", handleStorage);
     return () => {
+      cancelled = true;
       window.clearInterval(timerId);
       window.removeEventListener("storage", handleStorage);
     };
-  }, []);
+  }, [supabase, elderId]);
 
+  // 어느 가족 기기에서 체크했든 서버 완료 기록에서 최근 활동을 보여준다.
   useEffect(() => {
-    const updateRecentActivities = () => {
-      const next = [...loadDoneActivities()].sort((a, b) => {
+    let cancelled = false;
+    const updateRecentActivities = async () => {
+      const source = supabase
+        ? (
+            await Promise.all([
+              fetchRecentActivities(supabase, elderId, RECENT_ACTIVITY_LIMIT),
+              fetchRecentAlertResponses(supabase, elderId, RECENT_ACTIVITY_LIMIT)
+            ])
+          ).flat()
+        : loadDoneActivities();
+      if (cancelled) {
+        return;
+      }
+      const next = [...source].sort((a, b) => {
         return new Date(b.completedAt).getTime() - new Date(a.completedAt).getTime();
       });
-      setRecentActivities(next.slice(0, 3));
+      setRecentActivities(next.slice(0, RECENT_ACTIVITY_LIMIT));
     };
 
-    updateRecentActivities();
-    const handleStorage = (event: StorageEvent) => {
-      if (event.key === DONE_ACTIVITY_STORAGE_KEY) {
-        updateRecentActivities();
-      }
-    };
-    window.addEventListener("storage", handleStorage);
+    void updateRecentActivities();
+    const unsubscribe = subscribeGroupChanges(supabase, ["completions"], () => {
+      void updateRecentActivities();
+    });
     return () => {
-      window.removeEventListener("storage", handleStorage);
+      cancelled = true;
+      unsubscribe();
     };
-  }, []);
-
-  const registeredNameSet = useMemo(() => {
-    const set = new Set(
-      registeredMembers.map((member) => normalizeRegisteredMemberName(member))
-    );
-    if (profileName.trim()) {
-      set.add(normalizeRegisteredMemberName(profileName));
-    }
-    return set;
-  }, [registeredMembers, profileName]);
+  }, [supabase, elderId]);
 
   const profileInitials = useMemo(() => {
     return getAvatarInitials(profileName) || "NA";
   }, [profileName]);
 
-  const visibleGroups = useMemo(() => {
-    const targetName = profileName.trim();
-    if (!targetName) {
-      return [];
-    }
-    return FAMILY_GROUPS.filter((group) =>
-      group.members.some((member) => member.name === targetName)
-    );
-  }, [profileName]);
-
   const nextScheduleDisplay =
     nextSchedule ?? {
       time: "--:--",
@@ -403,6 +344,7 @@ export default function MyPage() {
                 캘린더 보기
               </Link>
             </div>
+            <ElderSwitcher elders={elders} elder={elder} onSelect={selectElder} />
           </div>
         </header>
 
@@ -462,12 +404,19 @@ export default function MyPage() {
                           {formatRecentActivityTime(activity.completedAt)}
                         </span>
                       </div>
-                      <div className="profile-activity-meta">완료 체크 · {activity.dateKey}</div>
+                      <div className="profile-activity-meta">
+                        {ACTIVITY_KIND_LABELS[activity.kind ?? "done"]} · {activity.dateKey}
+                      </div>
                     </li>
                   ))
                 )}
               </ul>
+              <Link className="profile-link" href="/mypage/stats">
+                완료 통계 보기
+              </Link>
             </section>
+
+            {supabase && <MedicationsPanel supabase={supabase} elder={elder} />}
           </div>
 
           <div className="profile-grid-side">
@@ -485,38 +434,17 @@ export default function MyPage() {
               </Link>
             </section>
 
-            <section className="card profile-card">
-              <h2 className="profile-section-title">가족 그룹</h2>
-              <div className="profile-family-groups">
-                {visibleGroups.map((group) => (
-                  <div key={group.id} className="profile-family-group">
-                    <h3 className="profile-family-title">{group.title}</h3>
-                    <ul className="profile-member-list">
-                      {group.members.map((member) => {
-                        const isRegistered = registeredNameSet.has(
-                          normalizeRegisteredMemberName(member.name)
-                        );
-                        return (
-                          <li
-                            key={`${group.id}-${member.name}`}
-                            className="profile-member"
-                            data-registered={isRegistered ? "true" : "false"}
-                          >
-                            <div className="profile-member-info">
-                              <span className="profile-member-name">{member.name}</span>
-                              <span className="profile-member-role">{member.role}</span>
-                            </div>
-                            <span className="profile-member-dot">
-                              {isRegistered ? "가입 완료" : "미가입"}
-                            </span>
-                          </li>
-                        );
-                      })}
-                    </ul>
-                  </div>
-                ))}
-              </div>
-            </section>
+            {supabase && <ElderProfilesPanel supabase={supabase} elders={elders} />}
+
+            {supabase && <PairedDevicesPanel supabase={supabase} elders={elders} />}
+
+            {supabase && <NotificationSettingsPanel supabase={supabase} />}
+
+            {supabase && <CalendarFeedPanel supabase={supabase} />}
+
+            {supabase && <FamilyGroupPanel supabase={supabase} />}
+
+            {supabase && <FamilyTreePanel supabase={supabase} />}
           </div>
         </div>
       </div>
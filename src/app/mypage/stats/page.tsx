@@ -0,0 +1,304 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import Link from "next/link";
+import AuthGate from "@/components/auth-gate";
+import ElderSwitcher from "@/components/elder-switcher";
+import { createSupabaseBrowserClient } from "@/lib/supabase/client";
+import {
+  buildAdherenceRecords,
+  getStreaks,
+  groupByDay,
+  groupByMonth,
+  groupByWeek,
+  listDateKeys,
+  listTaskLabels,
+  summarizeAdherence,
+  type AdherenceBucket,
+  type AdherenceRecord
+} from "@/lib/adherence";
+import { fetchCompletionsInRange } from "@/lib/completions";
+import { useActiveElder } from "@/lib/elders";
+import { subscribeGroupChanges } from "@/lib/realtime";
+import { fetchScheduleRevisions } from "@/lib/schedule-sync";
+import { loadScheduleSet } from "@/lib/schedule-templates";
+import { addDays, getDateKey } from "@/lib/time";
+
+// Supabase는 한 번에 1000행까지 돌려주므로 하루 할 일이 10개 남짓이면 3개월이 한계다.
+const RANGE_OPTIONS = [
+  { days: 28, label: "최근 4주" },
+  { days: 90, label: "최근 3개월" }
+];
+const GRID_DAYS = 14;
+const ALL_TASKS = "";
+
+const formatRate = (rate: number | null) => (rate === null ? "-" : `${rate}%`);
+
+const formatDelay = (minutes: number | null) => {
+  if (minutes === null) {
+    return "-";
+  }
+  if (minutes === 0) {
+    return "제시간";
+  }
+  const abs = Math.abs(minutes);
+  const text =
+    abs >= 60 ? `${Math.floor(abs / 60)}시간${abs % 60 ? ` ${abs % 60}분` : ""}` : `${abs}분`;
+  return minutes > 0 ? `${text} 늦게` : `${text} 일찍`;
+};
+
+function RateBars({ buckets }: { buckets: AdherenceBucket[] }) {
+  if (buckets.length === 0) {
+    return <p className="profile-section-text">아직 셀 할 일이 없어요.</p>;
+  }
+  return (
+    <div className="profile-progress-list">
+      {buckets.map((bucket) => (
+        <div key={bucket.key} className="profile-progress">
+          <div className="profile-progress-head">
+            <span>{bucket.label}</span>
+            <span className="profile-progress-count">
+              {formatRate(bucket.summary.rate)} · {bucket.summary.done}/{bucket.summary.total} ·
+              평균 {formatDelay(bucket.summary.averageDelay)}
+            </span>
+          </div>
+          <div className="profile-progress-bar">
+            <span
+              className="profile-progress-fill"
+              style={{ width: `${bucket.summary.rate ?? 0}%` }}
+            />
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+// 가족이 보는 완료 통계. 날마다 그날 쓰던 스케줄(schedule_revisions)과 완료 기록을 맞춰 본다.
+export default function StatsPage() {
+  const supabaseAvailable = useMemo(() => {
+    return Boolean(
+      process.env.NEXT_PUBLIC_SUPABASE_URL &&
+        process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY
+    );
+  }, []);
+  const supabase = useMemo(
+    () => (supabaseAvailable ? createSupabaseBrowserClient() : null),
+    [supabaseAvailable]
+  );
+  const { elders, elder, selectElder } = useActiveElder(supabase);
+  const elderId = elder?.id ?? null;
+  const [rangeDays, setRangeDays] = useState(RANGE_OPTIONS[0].days);
+  const [taskFilter, setTaskFilter] = useState(ALL_TASKS);
+  const [records, setRecords] = useState<AdherenceRecord[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState("");
+
+  const today = getDateKey(new Date());
+  const fromKey = getDateKey(addDays(new Date(), -(rangeDays - 1)));
+
+  useEffect(() => {
+    if (!supabase || !elderId) {
+      setRecords([]);
+      setLoading(false);
+      return;
+    }
+    let cancelled = false;
+    const load = async () => {
+      setLoading(true);
+      const [revisions, completions] = await Promise.all([
+        fetchScheduleRevisions(supabase, elderId, fromKey, today),
+        fetchCompletionsInRange(supabase, elderId, fromKey, today)
+      ]);
+      if (cancelled) {
+        return;
+      }
+      setLoading(false);
+      if (!completions) {
+        setError("완료 기록을 불러오지 못했어요. 잠시 뒤 다시 시도해 주세요.");
+        return;
+      }
+      setError("");
+      // 스케줄 사본을 읽지 못하면 지금 스케줄로 모든 날을 센다.
+      setRecords(
+        buildAdherenceRecords({
+          revisions: revisions ?? [],
+          fallback: loadScheduleSet(),
+          completions,
+          fromKey,
+          toKey: today,
+          now: new Date()
+        })
+      );
+    };
+
+    void load();
+    const unsubscribe = subscribeGroupChanges(supabase, ["schedule", "completions"], () => {
+      void load();
+    });
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [supabase, elderId, fromKey, today]);
+
+  const taskLabels = useMemo(() => listTaskLabels(records), [records]);
+  const filtered = useMemo(
+    () =>
+      taskFilter === ALL_TASKS
+        ? records
+        : records.filter((record) => record.label === taskFilter),
+    [records, taskFilter]
+  );
+  const summary = useMemo(() => summarizeAdherence(filtered), [filtered]);
+  const streaks = useMemo(() => getStreaks(filtered), [filtered]);
+  const days = useMemo(() => groupByDay(filtered), [filtered]);
+  const weeks = useMemo(() => groupByWeek(filtered), [filtered]);
+  const months = useMemo(() => groupByMonth(filtered), [filtered]);
+
+  const gridKeys = listDateKeys(getDateKey(addDays(new Date(), -(GRID_DAYS - 1))), today);
+  const gridLabels = taskFilter === ALL_TASKS ? taskLabels : [taskFilter];
+  const getGridCell = (label: string, dateKey: string) => {
+    const list = filtered.filter(
+      (record) => record.label === label && record.dateKey === dateKey
+    );
+    if (list.length === 0) {
+      return { mark: "", title: "할 일 없음" };
+    }
+    const done = list.filter((record) => record.done).length;
+    return done === list.length
+      ? { mark: "✓", title: "완료" }
+      : { mark: done > 0 ? "△" : "✕", title: `${done}/${list.length} 완료` };
+  };
+
+  return (
+    <AuthGate>
+      <div className="page profile-page">
+        <header className="page-header">
+          <h1 className="page-title">완료 통계</h1>
+          <p className="page-subtitle">
+            끝난 할 일을 얼마나 체크했는지 날짜별, 주별, 달별로 봅니다.
+          </p>
+          <ElderSwitcher elders={elders} elder={elder} onSelect={selectElder} />
+        </header>
+
+        <section className="card profile-card">
+          <div className="flex flex-wrap items-end gap-2">
+            <label className="field">
+              <span>기간</span>
+              <select
+                className="input"
+                value={rangeDays}
+                onChange={(event) => setRangeDays(Number(event.target.value))}
+              >
+                {RANGE_OPTIONS.map((option) => (
+                  <option key={option.days} value={option.days}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="field">
+              <span>할 일</span>
+              <select
+                className="input"
+                value={taskFilter}
+                onChange={(event) => setTaskFilter(event.target.value)}
+              >
+                <option value={ALL_TASKS}>모든 할 일</option>
+                {taskLabels.map((label) => (
+                  <option key={label} value={label}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <Link className="profile-link" href="/mypage">
+              마이페이지로
+            </Link>
+          </div>
+          {error && <div className="notice error">{error}</div>}
+          {loading && <p className="profile-section-text">불러오는 중...</p>}
+          <div className="stats-summary">
+            <div className="stats-summary-item">
+              <span className="profile-meta-label">완료율</span>
+              <strong>{formatRate(summary.rate)}</strong>
+              <span className="profile-progress-count">
+                {summary.done}/{summary.total}
+              </span>
+            </div>
+            <div className="stats-summary-item">
+              <span className="profile-meta-label">평균 체크 시각</span>
+              <strong>{formatDelay(summary.averageDelay)}</strong>
+              <span className="profile-progress-count">시작 시각 기준</span>
+            </div>
+            <div className="stats-summary-item">
+              <span className="profile-meta-label">연속 달성</span>
+              <strong>{streaks.current}일</strong>
+              <span className="profile-progress-count">최고 {streaks.best}일</span>
+            </div>
+          </div>
+        </section>
+
+        <section className="card profile-card">
+          <h2 className="profile-section-title">날짜별 완료율</h2>
+          <div className="stats-day-chart" role="img" aria-label="날짜별 완료율 막대 그래프">
+            {days.map((day) => (
+              <span
+                key={day.key}
+                className="stats-day-bar"
+                data-empty={day.summary.rate === 0}
+                style={{ height: `${Math.max(day.summary.rate ?? 0, 2)}%` }}
+                title={`${day.label} ${formatRate(day.summary.rate)}`}
+              />
+            ))}
+          </div>
+        </section>
+
+        <div className="profile-grid">
+          <section className="card profile-card">
+            <h2 className="profile-section-title">주별</h2>
+            <RateBars buckets={weeks} />
+          </section>
+          <section className="card profile-card">
+            <h2 className="profile-section-title">달별</h2>
+            <RateBars buckets={months} />
+          </section>
+        </div>
+
+        <section className="card profile-card">
+          <h2 className="profile-section-title">할 일별 최근 {GRID_DAYS}일</h2>
+          <div className="stats-grid-wrap">
+            <table className="stats-grid">
+              <thead>
+                <tr>
+                  <th scope="col">할 일</th>
+                  {gridKeys.map((dateKey) => (
+                    <th key={dateKey} scope="col">
+                      {Number(dateKey.slice(8, 10))}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {gridLabels.map((label) => (
+                  <tr key={label}>
+                    <th scope="row">{label}</th>
+                    {gridKeys.map((dateKey) => {
+                      const cell = getGridCell(label, dateKey);
+                      return (
+                        <td key={dateKey} title={`${dateKey} ${cell.title}`} data-mark={cell.mark}>
+                          {cell.mark}
+                        </td>
+                      );
+                    })}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </section>
+      </div>
+    </AuthGate>
+  );
+}
@@ -1,16 +1,56 @@
 ﻿"use client";
 
-import { useEffect, useState, type FormEvent } from "react";
+import { useEffect, useMemo, useState, type FormEvent } from "react";
 import Link from "next/link";
 import AuthGate from "@/components/auth-gate";
+import ElderSwitcher from "@/components/elder-switcher";
+import SyncStatus from "@/components/sync-status";
+import VoiceClipRecorder from "@/components/voice-clip-recorder";
 import {
   DEFAULT_ALERT_MINUTES,
   DEFAULT_ALERT_TARGET,
   TIME_BLOCKS,
+  WEEKDAY_THEMES,
   getDefaultAlertMinutes
 } from "@/lib/constants";
-import type { AlertTarget, TimeBlock } from "@/lib/types";
-import { loadSchedule, saveSchedule } from "@/lib/storage";
+import type {
+  AlertTarget,
+  BlockTask,
+  EscalationPolicy,
+  ScheduleSet,
+  ScheduleVariants,
+  TimeBlock
+} from "@/lib/types";
+import {
+  createBlockId,
+  createEmptyScheduleVariants,
+  saveSchedule,
+  saveScheduleVariants
+} from "@/lib/storage";
+import { useActiveElder } from "@/lib/elders";
+import {
+  DEFAULT_ESCALATION_POLICY,
+  ESCALATION_EVERYONE_OPTIONS,
+  ESCALATION_INTERVAL_OPTIONS,
+  ESCALATION_MAX_REMINDERS,
+  describeEscalationPolicy
+} from "@/lib/escalation";
+import {
+  fetchMedications,
+  loadCachedMedications,
+  type Medication
+} from "@/lib/medications";
+import { submitMutation } from "@/lib/outbox";
+import { useGroupAccess } from "@/lib/permissions";
+import { notifyLocalChange } from "@/lib/realtime";
+import { fetchSchedule } from "@/lib/schedule-sync";
+import {
+  cloneBlocks,
+  createTemplateId,
+  loadScheduleSet,
+  removeTemplate
+} from "@/lib/schedule-templates";
+import { createSupabaseBrowserClient } from "@/lib/supabase/client";
 import { toMinutes, validateSchedule } from "@/lib/time";
 
 type Notice = { type: "success" | "error"; text: string } | null;
@@ -21,17 +61,37 @@ const emptyForm = {
   label: ""
 };
 
+const TASK_SEPARATOR = " / ";
+
 function normalizeLabel(block: TimeBlock): string {
-  if (Array.isArray(block.label)) {
-    return block.label.join(" / ");
-  }
-  if (typeof block.label === "string") {
-    return block.label;
+  if (block.tasks && block.tasks.length > 0) {
+    return block.tasks.map((task) => task.label).join(TASK_SEPARATOR);
   }
-  if (Array.isArray(block.tasks)) {
-    return block.tasks.join(" / ");
+  return block.label ?? "";
+}
+
+// " / "로 나눈 할 일마다 id를 붙인다. 이름이 같은 할 일은 예전 id를 다시 써서
+// 순서를 바꾸거나 할 일을 더하고 빼도 완료 체크가 다른 할 일로 옮겨 가지 않게 한다.
+function toBlockTasks(label: string, previous: TimeBlock | null): BlockTask[] | undefined {
+  const parts = label
+    .split(TASK_SEPARATOR)
+    .map((part) => part.trim())
+    .filter((part) => part.length > 0);
+  const available: BlockTask[] = previous
+    ? previous.tasks && previous.tasks.length > 0
+      ? [...previous.tasks]
+      : [{ id: previous.id, label: normalizeLabel(previous).trim() }]
+    : [];
+  const tasks = parts.map((part) => {
+    const index = available.findIndex((task) => task.label === part);
+    const reused = index >= 0 ? available.splice(index, 1)[0] : null;
+    return { id: reused?.id ?? createBlockId(), label: part };
+  });
+  // 할 일이 하나뿐이면 예전 할 일을 그대로 이어 쓸 때만 따로 둔다. 나머지는 블록 id를 쓴다.
+  if (tasks.length <= 1 && !(previous?.tasks ?? []).some((task) => task.id === tasks[0]?.id)) {
+    return undefined;
   }
-  return "";
+  return tasks;
 }
 
 const MAX_ALERT_COUNT = 5;
@@ -87,8 +147,56 @@ function buildAlertInputs(values: number[], count: number): string[] {
   return fillAlertMinutes(values, count).map((value) => String(value));
 }
 
+function normalizeBlock(block: TimeBlock): TimeBlock {
+  return {
+    id: block.id,
+    start: block.start,
+    end: block.end,
+    label: normalizeLabel(block),
+    ...(block.tasks?.length ? { tasks: block.tasks } : {}),
+    alertTarget: block.alertTarget ?? DEFAULT_ALERT_TARGET,
+    alertMinutes:
+      block.alertMinutes && block.alertMinutes.length > 0
+        ? block.alertMinutes
+        : getDefaultAlertMinutes(DEFAULT_ALERT_MINUTES.length),
+    ...(block.escalation ? { escalation: block.escalation } : {}),
+    ...(block.voiceClip ? { voiceClip: block.voiceClip } : {}),
+    ...(block.medicationIds?.length ? { medicationIds: block.medicationIds } : {})
+  };
+}
+
+function normalizeScheduleSet(schedule: ScheduleSet): ScheduleSet {
+  return {
+    blocks: schedule.blocks.map(normalizeBlock),
+    variants: {
+      ...schedule.variants,
+      templates: schedule.variants.templates.map((template) => ({
+        ...template,
+        blocks: template.blocks.map(normalizeBlock)
+      }))
+    }
+  };
+}
+
 function FamilyPageContent() {
-  const [blocks, setBlocks] = useState<TimeBlock[]>(TIME_BLOCKS);
+  const supabaseAvailable = useMemo(() => {
+    return Boolean(
+      process.env.NEXT_PUBLIC_SUPABASE_URL &&
+        process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY
+    );
+  }, []);
+  const supabase = useMemo(
+    () => (supabaseAvailable ? createSupabaseBrowserClient() : null),
+    [supabaseAvailable]
+  );
+  const [schedule, setSchedule] = useState<ScheduleSet>(() => ({
+    blocks: TIME_BLOCKS,
+    variants: createEmptyScheduleVariants()
+  }));
+  // 편집 중인 템플릿. null이면 기본 일정
+  const [selectedTemplateId, setSelectedTemplateId] = useState<string | null>(null);
+  const [templateNameDraft, setTemplateNameDraft] = useState("");
+  const [overrideDraft, setOverrideDraft] = useState({ date: "", templateId: "" });
   const [form, setForm] = useState(emptyForm);
   const [editingIndex, setEditingIndex] = useState<number | null>(null);
   const [activeIndex, setActiveIndex] = useState<number | null>(null);
@@ -98,27 +206,65 @@ function FamilyPageContent() {
     buildAlertInputs(DEFAULT_ALERT_MINUTES, DEFAULT_ALERT_MINUTES.length)
   );
   const [alertTarget, setAlertTarget] = useState<AlertTarget>(DEFAULT_ALERT_TARGET);
+  // 놓쳤을 때의 단계별 알림 규칙. null이면 놓치는 즉시 가족 모두에게 알린다.
+  const [escalation, setEscalation] = useState<EscalationPolicy | null>(null);
+  const [voiceClip, setVoiceClip] = useState<string | null>(null);
+  const [medications, setMedications] = useState<Medication[]>([]);
+  const [medicationIds, setMedicationIds] = useState<string[]>([]);
   const [notice, setNotice] = useState<Notice>(null);
+  const [syncRevision, setSyncRevision] = useState(0);
+  const access = useGroupAccess(supabase);
+  // viewer는 일정을 보기만 한다. 서버에서도 RLS로 막는다.
+  const canEdit = access.can("editSchedule");
+  const { elders, elder, selectElder } = useActiveElder(supabase);
+  const elderId = elder?.id ?? null;
+
+  const { variants } = schedule;
+  const selectedTemplate =
+    selectedTemplateId !== null
+      ? variants.templates.find((template) => template.id === selectedTemplateId) ?? null
+      : null;
+  const blocks = selectedTemplate ? selectedTemplate.blocks : schedule.blocks;
+  const selectedName = selectedTemplate ? selectedTemplate.name : "기본 일정";
+  const dateOverrides = Object.entries(variants.dateTemplates).sort(([a], [b]) =>
+    a.localeCompare(b)
+  );
 
   const activeBlock = activeIndex !== null ? blocks[activeIndex] : null;
   const activeLabel = activeBlock ? normalizeLabel(activeBlock) : "";
 
   useEffect(() => {
-    const stored = loadSchedule();
-    if (stored && stored.length > 0) {
-      const normalized = stored.map((block) => ({
-        start: block.start,
-        end: block.end,
-        label: normalizeLabel(block),
-        alertTarget: block.alertTarget ?? DEFAULT_ALERT_TARGET,
-        alertMinutes:
-          block.alertMinutes && block.alertMinutes.length > 0
-            ? block.alertMinutes
-            : getDefaultAlertMinutes(DEFAULT_ALERT_MINUTES.length)
-      }));
-      setBlocks(normalized);
+    let cancelled = false;
+    const applyStored = (stored: ScheduleSet) => {
+      if (cancelled) {
+        return;
+      }
+      setSchedule(normalizeScheduleSet(stored));
+    };
+
+    applyStored(loadScheduleSet());
+    if (supabase) {
+      void fetchSchedule(supabase, elderId).then(applyStored);
     }
-  }, []);
+    return () => {
+      cancelled = true;
+    };
+  }, [supabase, elderId, syncRevision]);
+
+  useEffect(() => {
+    let cancelled = false;
+    setMedications(loadCachedMedications(elderId));
+    if (supabase) {
+      void fetchMedications(supabase, elderId).then((next) => {
+        if (!cancelled) {
+          setMedications(next);
+        }
+      });
+    }
+    return () => {
+      cancelled = true;
+    };
+  }, [supabase, elderId]);
 
   const handleChange = (field: keyof typeof form, value: string) => {
     setForm((prev) => ({ ...prev, [field]: value }));
@@ -135,6 +281,9 @@ function FamilyPageContent() {
   };
 
   const openAddModal = () => {
+    if (!canEdit) {
+      return;
+    }
     resetForm();
     setEditingIndex(null);
     setActiveIndex(null);
@@ -142,11 +291,17 @@ function FamilyPageContent() {
     setAlertCount(defaults.length);
     setAlertMinuteInputs(defaults);
     setAlertTarget(DEFAULT_ALERT_TARGET);
+    setEscalation(null);
+    setVoiceClip(null);
+    setMedicationIds([]);
     setNotice(null);
     setModalMode("form");
   };
 
   const openMenuModal = (index: number) => {
+    if (!canEdit) {
+      return;
+    }
     setActiveIndex(index);
     setModalMode("menu");
     setNotice(null);
@@ -175,6 +330,9 @@ function FamilyPageContent() {
     setAlertCount(nextCount);
     setAlertMinuteInputs(filledInputs);
     setAlertTarget(target.alertTarget ?? DEFAULT_ALERT_TARGET);
+    setEscalation(target.escalation ?? null);
+    setVoiceClip(target.voiceClip ?? null);
+    setMedicationIds(target.medicationIds ?? []);
     setNotice(null);
     setModalMode("form");
   };
@@ -196,6 +354,10 @@ function FamilyPageContent() {
     });
   };
 
+  const updateEscalation = (patch: Partial<EscalationPolicy>) => {
+    setEscalation((prev) => (prev ? { ...prev, ...patch } : prev));
+  };
+
   const handleAlertInputChange = (index: number, value: string) => {
     setAlertMinuteInputs((prev) => {
       const next = [...prev];
@@ -204,21 +366,155 @@ function FamilyPageContent() {
     });
   };
 
-  // localStorage에 저장해 /elder에 즉시 반영되도록 한다.
-  const persistBlocks = (nextBlocks: TimeBlock[], successMessage: string) => {
-    const normalizedBlocks = nextBlocks.map((block) => ({
-      ...block,
-      alertTarget: block.alertTarget ?? DEFAULT_ALERT_TARGET,
-      alertMinutes:
-        block.alertMinutes && block.alertMinutes.length > 0
-          ? block.alertMinutes
-          : getDefaultAlertMinutes(DEFAULT_ALERT_MINUTES.length)
-    }));
-    setBlocks(normalizedBlocks);
-    saveSchedule(normalizedBlocks);
+  // localStorage에 먼저 저장하고, 아웃박스를 거쳐 고른 어르신의 Supabase 스케줄에 올려 다른 기기의 /elder에 반영되도록 한다.
+  const persistSchedule = (nextSchedule: ScheduleSet, successMessage: string) => {
+    if (!canEdit) {
+      setNotice({ type: "error", text: "반복 일정을 바꿀 권한이 없어요." });
+      return;
+    }
+    const normalized = normalizeScheduleSet(nextSchedule);
+    setSchedule(normalized);
     setNotice({ type: "success", text: successMessage });
+    saveSchedule(normalized.blocks);
+    saveScheduleVariants(normalized.variants);
+    notifyLocalChange("schedule");
+    if (!supabase || !elderId) {
+      return;
+    }
+    void submitMutation(supabase, {
+      kind: "schedule.save",
+      elderId,
+      schedule: normalized
+    }).then((result) => {
+      if (result === "queued") {
+        setNotice({
+          type: "success",
+          text: `${successMessage} 연결되면 가족 그룹에 올릴게요. (동기화 대기 중)`
+        });
+      }
+      if (result === "conflict") {
+        setNotice({
+          type: "error",
+          text: "그 사이 다른 가족이 반복 일정을 바꿨어요. 아래에서 어느 쪽을 남길지 골라 주세요."
+        });
+      }
+      if (result === "failed") {
+        setNotice({
+          type: "error",
+          text: `${successMessage} 다만 가족 그룹에 올리지 못했으니 연결을 확인한 뒤 다시 저장해 주세요.`
+        });
+      }
+    });
+  };
+
+  // 편집 중인 템플릿의 블록만 바꾼다.
+  const persistBlocks = (nextBlocks: TimeBlock[], successMessage: string) => {
+    if (!selectedTemplate) {
+      persistSchedule({ ...schedule, blocks: nextBlocks }, successMessage);
+      return;
+    }
+    persistSchedule(
+      {
+        ...schedule,
+        variants: {
+          ...variants,
+          templates: variants.templates.map((template) =>
+            template.id === selectedTemplate.id ? { ...template, blocks: nextBlocks } : template
+          )
+        }
+      },
+      successMessage
+    );
+  };
+
+  const persistVariants = (nextVariants: ScheduleVariants, successMessage: string) => {
+    persistSchedule({ ...schedule, variants: nextVariants }, successMessage);
+  };
+
+  const handleSelectTemplate = (templateId: string | null) => {
+    setSelectedTemplateId(templateId);
+    resetForm();
+    closeModal();
+    setNotice(null);
+  };
+
+  // 지금 보고 있는 일정을 복사해 새 템플릿을 만든다.
+  const handleCreateTemplate = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const name = templateNameDraft.trim();
+    if (!name) {
+      setNotice({ type: "error", text: "템플릿 이름을 입력해 주세요." });
+      return;
+    }
+    const duplicated = variants.templates.some((template) => template.name === name);
+    if (name === "기본 일정" || duplicated) {
+      setNotice({ type: "error", text: "이미 있는 이름입니다." });
+      return;
+    }
+    const template = { id: createTemplateId(), name, blocks: cloneBlocks(blocks) };
+    persistVariants(
+      { ...variants, templates: [...variants.templates, template] },
+      `"${name}" 템플릿을 만들었습니다. 요일이나 날짜에 지정해 주세요.`
+    );
+    setSelectedTemplateId(template.id);
+    setTemplateNameDraft("");
+  };
+
+  const handleDeleteTemplate = () => {
+    if (!selectedTemplate) {
+      return;
+    }
+    persistVariants(
+      removeTemplate(variants, selectedTemplate.id),
+      `"${selectedTemplate.name}" 템플릿을 삭제했습니다. 지정된 요일과 날짜는 기본 일정으로 돌아갑니다.`
+    );
+    setSelectedTemplateId(null);
+  };
+
+  const handleWeekdayTemplateChange = (day: number, templateId: string) => {
+    const weekdayTemplates = [...variants.weekdayTemplates];
+    weekdayTemplates[day] = templateId || null;
+    persistVariants(
+      { ...variants, weekdayTemplates },
+      `${WEEKDAY_THEMES[day].name}요일 일정을 바꿨습니다.`
+    );
+  };
+
+  const handleAddDateOverride = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!overrideDraft.date || !overrideDraft.templateId) {
+      setNotice({ type: "error", text: "날짜와 템플릿을 골라 주세요." });
+      return;
+    }
+    persistVariants(
+      {
+        ...variants,
+        dateTemplates: {
+          ...variants.dateTemplates,
+          [overrideDraft.date]: overrideDraft.templateId
+        }
+      },
+      `${overrideDraft.date} 일정을 지정했습니다.`
+    );
+    setOverrideDraft({ date: "", templateId: "" });
+  };
+
+  const handleRemoveDateOverride = (dateKey: string) => {
+    const dateTemplates = { ...variants.dateTemplates };
+    delete dateTemplates[dateKey];
+    persistVariants({ ...variants, dateTemplates }, `${dateKey} 지정을 해제했습니다.`);
   };
 
+  // 지운 약은 블록에 id가 남아 있어도 보이지 않는다.
+  const getMedicationNames = (block: TimeBlock) =>
+    medications
+      .filter((medication) => block.medicationIds?.includes(medication.id))
+      .map((medication) => medication.name)
+      .join(", ");
+
+  const getTemplateName = (templateId: string) =>
+    variants.templates.find((template) => template.id === templateId)?.name ?? "기본 일정";
+
   const handleSubmit = (event: FormEvent<HTMLFormElement>) => {
     event.preventDefault();
     setNotice(null);
@@ -227,12 +523,19 @@ function FamilyPageContent() {
       parseAlertMinuteInputs(alertMinuteInputs),
       alertCount
     );
+    const previous = editingIndex === null ? null : blocks[editingIndex];
+    const tasks = toBlockTasks(form.label, previous);
     const candidate: TimeBlock = {
+      id: previous ? previous.id : createBlockId(),
       start: form.start.trim(),
       end: form.end.trim(),
       label: form.label.trim(),
+      ...(tasks ? { tasks } : {}),
       alertTarget,
-      alertMinutes: finalAlertMinutes
+      alertMinutes: finalAlertMinutes,
+      ...(escalation ? { escalation } : {}),
+      ...(voiceClip ? { voiceClip } : {}),
+      ...(medicationIds.length > 0 ? { medicationIds } : {})
     };
 
     const nextBlocks =
@@ -291,40 +594,205 @@ function FamilyPageContent() {
     <div className="page recurring-page">
       <header className="page-header">
         <h1 className="page-title">반복 일정</h1>
-        <p className="page-subtitle">시간 블록을 추가하거나 수정해 주세요.</p>
+        <p className="page-subtitle">
+          {canEdit || access.loading
+            ? "시간 블록을 추가하거나 수정해 주세요."
+            : "보기 전용이에요. 일정은 편집 권한이 있는 가족만 바꿀 수 있어요."}
+        </p>
+        <ElderSwitcher elders={elders} elder={elder} onSelect={selectElder} />
       </header>
 
+      <section className="card grid gap-4">
+        <div className="flex flex-wrap gap-2" role="tablist" aria-label="편집할 일정">
+          <button
+            className={selectedTemplate ? "btn ghost" : "btn"}
+            type="button"
+            role="tab"
+            aria-selected={!selectedTemplate}
+            onClick={() => handleSelectTemplate(null)}
+          >
+            기본 일정
+          </button>
+          {variants.templates.map((template) => (
+            <button
+              key={template.id}
+              className={selectedTemplate?.id === template.id ? "btn" : "btn ghost"}
+              type="button"
+              role="tab"
+              aria-selected={selectedTemplate?.id === template.id}
+              onClick={() => handleSelectTemplate(template.id)}
+            >
+              {template.name}
+            </button>
+          ))}
+        </div>
+        {canEdit && (
+          <form className="flex flex-wrap items-end gap-3" onSubmit={handleCreateTemplate}>
+            <label className="field">
+              <span>새 템플릿 ({selectedName} 복사)</span>
+              <input
+                className="input"
+                value={templateNameDraft}
+                onChange={(event) => setTemplateNameDraft(event.target.value)}
+                placeholder="예: 일요일 교회, 병원 가는 날"
+              />
+            </label>
+            <button className="btn secondary" type="submit">
+              템플릿 만들기
+            </button>
+          </form>
+        )}
+      </section>
+
       <section className="card">
         <div className="flex flex-wrap items-center justify-between gap-3">
           <h2 className="page-title" style={{ fontSize: "clamp(22px, 3vw, 32px)" }}>
-            현재 스케줄
+            {selectedName}
           </h2>
-          <button className="btn" type="button" onClick={openAddModal}>
-            +추가
-          </button>
+          {canEdit && (
+            <button className="btn" type="button" onClick={openAddModal}>
+              +추가
+            </button>
+          )}
         </div>
         <div className="block-scroll" role="region" aria-label="현재 스케줄 목록">
           <ul className="block-list">
             {blocks.map((block, index) => (
-              <li key={`${block.start}-${block.end}-${index}`}>
+              <li key={block.id}>
                 <button
                   type="button"
                   className="block-item block-item-button"
                   onClick={() => openMenuModal(index)}
+                  disabled={!canEdit}
                 >
                   <div className="block-meta">
                     <span className="block-time">{block.start} ~ {block.end}</span>
                     <span>{normalizeLabel(block)}</span>
+                    {block.escalation && (
+                      <span className="block-hint">
+                        놓치면: {describeEscalationPolicy(block.escalation)}
+                      </span>
+                    )}
+                    {block.voiceClip && <span className="block-hint">가족 목소리 안내</span>}
+                    {getMedicationNames(block) && (
+                      <span className="block-hint">약: {getMedicationNames(block)}</span>
+                    )}
                   </div>
-                  <div className="block-hint">클릭해서 수정/삭제</div>
+                  {canEdit && <div className="block-hint">클릭해서 수정/삭제</div>}
                 </button>
               </li>
             ))}
           </ul>
         </div>
+        {selectedTemplate && canEdit && (
+          <div className="block-actions">
+            <button className="btn ghost" type="button" onClick={handleDeleteTemplate}>
+              이 템플릿 삭제
+            </button>
+          </div>
+        )}
+      </section>
+
+      <section className="card grid gap-4">
+        <h2 className="page-title" style={{ fontSize: "clamp(22px, 3vw, 32px)" }}>
+          요일별 일정
+        </h2>
+        <div className="grid grid-cols-2 gap-3 sm:grid-cols-4">
+          {WEEKDAY_THEMES.map((weekday, day) => (
+            <label key={weekday.name} className="field">
+              <span style={{ color: weekday.color }}>{weekday.name}요일</span>
+              <select
+                className="input"
+                value={variants.weekdayTemplates[day] ?? ""}
+                onChange={(event) => handleWeekdayTemplateChange(day, event.target.value)}
+                disabled={!canEdit}
+              >
+                <option value="">기본 일정</option>
+                {variants.templates.map((template) => (
+                  <option key={template.id} value={template.id}>
+                    {template.name}
+                  </option>
+                ))}
+              </select>
+            </label>
+          ))}
+        </div>
+
+        <h2 className="page-title" style={{ fontSize: "clamp(22px, 3vw, 32px)" }}>
+          특정 날짜 일정
+        </h2>
+        <p className="page-subtitle">
+          병원 가는 날처럼 하루만 다른 일정은 요일 설정보다 먼저 적용됩니다.
+        </p>
+        {canEdit && (
+          <form className="flex flex-wrap items-end gap-3" onSubmit={handleAddDateOverride}>
+            <label className="field">
+              <span>날짜</span>
+              <input
+                className="input"
+                type="date"
+                value={overrideDraft.date}
+                onChange={(event) =>
+                  setOverrideDraft((prev) => ({ ...prev, date: event.target.value }))
+                }
+              />
+            </label>
+            <label className="field">
+              <span>템플릿</span>
+              <select
+                className="input"
+                value={overrideDraft.templateId}
+                onChange={(event) =>
+                  setOverrideDraft((prev) => ({ ...prev, templateId: event.target.value }))
+                }
+              >
+                <option value="">선택</option>
+                {variants.templates.map((template) => (
+                  <option key={template.id} value={template.id}>
+                    {template.name}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <button
+              className="btn secondary"
+              type="submit"
+              disabled={variants.templates.length === 0}
+            >
+              지정
+            </button>
+          </form>
+        )}
+        {dateOverrides.length > 0 && (
+          <ul className="block-list">
+            {dateOverrides.map(([dateKey, templateId]) => (
+              <li key={dateKey} className="block-item">
+                <div className="block-meta">
+                  <span className="block-time">{dateKey}</span>
+                  <span>{getTemplateName(templateId)}</span>
+                </div>
+                {canEdit && (
+                  <button
+                    className="btn ghost"
+                    type="button"
+                    onClick={() => handleRemoveDateOverride(dateKey)}
+                  >
+                    해제
+                  </button>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
       </section>
 
       {notice && <div className={`notice ${notice.type}`}>{notice.text}</div>}
+      {supabase && (
+        <SyncStatus
+          supabase={supabase}
+          onResolved={() => setSyncRevision((prev) => prev + 1)}
+        />
+      )}
 
       {modalMode !== "none" && (
         <div
@@ -446,6 +914,107 @@ function FamilyPageContent() {
                       ))}
                     </div>
                   </label>
+                  <label className="field">
+                    <span>놓쳤을 때</span>
+                    <select
+                      className="input"
+                      value={escalation ? "steps" : "everyone"}
+                      onChange={(event) =>
+                        setEscalation(
+                          event.target.value === "steps" ? DEFAULT_ESCALATION_POLICY : null
+                        )
+                      }
+                    >
+                      <option value="everyone">가족 모두에게 바로 알림</option>
+                      <option value="steps">어르신께 다시 알린 뒤 단계별로 알림</option>
+                    </select>
+                  </label>
+                  {escalation && (
+                    <>
+                      <label className="field">
+                        <span>다시 알림 간격</span>
+                        <select
+                          className="input"
+                          value={escalation.remindEvery}
+                          onChange={(event) =>
+                            updateEscalation({ remindEvery: Number(event.target.value) })
+                          }
+                        >
+                          {ESCALATION_INTERVAL_OPTIONS.map((minutes) => (
+                            <option key={minutes} value={minutes}>
+                              {minutes}분마다
+                            </option>
+                          ))}
+                        </select>
+                      </label>
+                      <label className="field">
+                        <span>다시 알림 횟수</span>
+                        <select
+                          className="input"
+                          value={escalation.remindCount}
+                          onChange={(event) =>
+                            updateEscalation({ remindCount: Number(event.target.value) })
+                          }
+                        >
+                          {Array.from({ length: ESCALATION_MAX_REMINDERS + 1 }, (_, count) => (
+                            <option key={count} value={count}>
+                              {count === 0 ? "다시 알리지 않음" : `${count}회`}
+                            </option>
+                          ))}
+                        </select>
+                      </label>
+                      <label className="field">
+                        <span>대표 보호자 다음</span>
+                        <select
+                          className="input"
+                          value={escalation.everyoneAfter ?? ""}
+                          onChange={(event) =>
+                            updateEscalation({
+                              everyoneAfter: event.target.value ? Number(event.target.value) : null
+                            })
+                          }
+                        >
+                          <option value="">대표 보호자에게만 알림</option>
+                          {ESCALATION_EVERYONE_OPTIONS.map((minutes) => (
+                            <option key={minutes} value={minutes}>
+                              {minutes}분 뒤 가족 모두에게
+                            </option>
+                          ))}
+                        </select>
+                      </label>
+                    </>
+                  )}
+                  {medications.length > 0 && (
+                    <div className="field">
+                      <span>이 시간에 드실 약</span>
+                      <div className="flex flex-wrap gap-3">
+                        {medications.map((medication) => (
+                          <label key={medication.id} className="flex items-center gap-2">
+                            <input
+                              type="checkbox"
+                              checked={medicationIds.includes(medication.id)}
+                              onChange={(event) =>
+                                setMedicationIds((prev) =>
+                                  event.target.checked
+                                    ? [...prev, medication.id]
+                                    : prev.filter((id) => id !== medication.id)
+                                )
+                              }
+                            />
+                            <span>{medication.name}</span>
+                          </label>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+                  {supabase && elderId && (
+                    <VoiceClipRecorder
+                      supabase={supabase}
+                      elderId={elderId}
+                      value={voiceClip}
+                      onChange={setVoiceClip}
+                    />
+                  )}
                   <div className="block-actions">
                     <button className="btn" type="submit">
                       {editingIndex === null ? "추가" : "저장"}
@@ -3,6 +3,7 @@
 import {
   useEffect,
   useMemo,
+  useRef,
   useState,
   type FormEvent,
   type ReactNode,
@@ -11,9 +12,12 @@ import {
   type TouchEvent
 } from "react";
 import { createSupabaseBrowserClient } from "@/lib/supabase/client";
+import { pairThisDevice } from "@/lib/device-pairing";
 
 type AuthGateProps = {
   children: ReactNode;
+  // 어르신 화면처럼 태블릿에서 여는 곳은 계정 대신 연결 코드로도 들어올 수 있다.
+  allowPairing?: boolean;
 };
 
 type AuthStatus = "loading" | "signedOut" | "signedIn";
@@ -48,13 +52,17 @@ const createRevealHandlers = (setVisible: (next: boolean) => void) => ({
   onBlur: () => setVisible(false)
 });
 
-export default function AuthGate({ children }: AuthGateProps) {
+export default function AuthGate({ children, allowPairing = false }: AuthGateProps) {
   const [status, setStatus] = useState<AuthStatus>("loading");
+  const [pairingCode, setPairingCode] = useState("");
   const [email, setEmail] = useState("");
   const [password, setPassword] = useState("");
   const [passwordVisible, setPasswordVisible] = useState(false);
   const [notice, setNotice] = useState<Notice>(null);
   const [loading, setLoading] = useState(false);
+  // 연결 코드를 쓰는 동안에는 익명 세션이 먼저 생겨도 화면을 넘기지 않는다. 그룹 참여와
+  // 어르신 고정이 끝나기 전에 어르신 화면이 열리면 연결 해제된 기기로 보고 로그아웃시킨다.
+  const pairingRef = useRef(false);
   const supabaseAvailable = useMemo(() => {
     return Boolean(
       process.env.NEXT_PUBLIC_SUPABASE_URL &&
@@ -67,6 +75,17 @@ export default function AuthGate({ children }: AuthGateProps) {
   );
   const passwordRevealHandlers = createRevealHandlers(setPasswordVisible);
 
+  // 가족이 보낸 연결 링크(/elder?pair=코드)로 열면 코드를 미리 채워 둔다.
+  useEffect(() => {
+    if (!allowPairing) {
+      return;
+    }
+    const code = new URLSearchParams(window.location.search).get("pair");
+    if (code) {
+      setPairingCode(code);
+    }
+  }, [allowPairing]);
+
   useEffect(() => {
     if (!supabaseAvailable) {
       setStatus("signedOut");
@@ -78,7 +97,7 @@ export default function AuthGate({ children }: AuthGateProps) {
     let cancelled = false;
 
     const updateStatus = (session: Session) => {
-      if (cancelled) {
+      if (cancelled || pairingRef.current) {
         return;
       }
       setStatus(session ? "signedIn" : "signedOut");
@@ -137,6 +156,40 @@ export default function AuthGate({ children }: AuthGateProps) {
     }
   };
 
+  const handlePairingSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setNotice(null);
+    if (!pairingCode.trim()) {
+      setNotice({ type: "error", text: "연결 코드를 입력해 주세요." });
+      return;
+    }
+    if (!supabase) {
+      setNotice({
+        type: "error",
+        text: "Supabase 환경변수를 먼저 설정해 주세요."
+      });
+      return;
+    }
+    setLoading(true);
+    pairingRef.current = true;
+    try {
+      const result = await pairThisDevice(supabase, pairingCode);
+      if (!result.ok) {
+        setNotice({ type: "error", text: result.message });
+        return;
+      }
+      setPairingCode("");
+      setNotice({ type: "success", text: "이 기기가 연결되었습니다." });
+    } catch {
+      setNotice({ type: "error", text: "기기 연결에 실패했습니다." });
+    } finally {
+      pairingRef.current = false;
+      const { data } = await supabase.auth.getSession();
+      setStatus(data.session ? "signedIn" : "signedOut");
+      setLoading(false);
+    }
+  };
+
   if (status === "signedIn") {
     return <>{children}</>;
   }
@@ -152,6 +205,33 @@ export default function AuthGate({ children }: AuthGateProps) {
         <p className="page-subtitle">계정을 입력하면 계속 이용할 수 있어요.</p>
       </header>
 
+      {allowPairing && (
+        <form className="signup-form" onSubmit={handlePairingSubmit}>
+          <div className="signup-field">
+            <label className="field">
+              <span>연결 코드</span>
+              <input
+                className="input"
+                value={pairingCode}
+                onChange={(event) => setPairingCode(event.target.value)}
+                placeholder="가족에게 받은 8자리 코드"
+                autoComplete="off"
+                autoCapitalize="characters"
+                disabled={loading}
+              />
+            </label>
+            <p className="profile-activity-meta">
+              가족이 마이페이지에서 만든 코드를 한 번만 입력하면 이 기기에서 계속 볼 수 있어요.
+            </p>
+          </div>
+          <div className="block-actions">
+            <button className="btn" type="submit" disabled={loading || !supabaseAvailable}>
+              {loading ? "연결 중..." : "이 기기 연결"}
+            </button>
+          </div>
+        </form>
+      )}
+
       <form className="signup-form" onSubmit={handleSubmit}>
         <div className="signup-field">
           <label className="field">
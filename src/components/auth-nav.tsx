@@ -3,6 +3,8 @@
 import { useEffect, useId, useMemo, useRef, useState } from "react";
 import Link from "next/link";
 import { usePathname } from "next/navigation";
+import { acceptPendingInvite } from "@/lib/group-invites";
+import { fetchActiveMembership } from "@/lib/group-membership";
 import { createSupabaseBrowserClient } from "@/lib/supabase/client";
 import { syncAuthenticatedRegisteredMember } from "@/lib/registered-members";
 
@@ -58,21 +60,13 @@ export default function AuthNav() {
         return;
       }
       void syncAuthenticatedRegisteredMember(supabase);
-      const { data: members, error } = await supabase
-        .from("group_members")
-        .select("role")
-        .eq("user_id", session.user.id);
+      await acceptPendingInvite(supabase);
+      const membership = await fetchActiveMembership(supabase);
       if (cancelled) {
         return;
       }
-      if (error) {
-        setIsGrandma(false);
-        return;
-      }
-      const grandma = (members ?? []).some(
-        (member: { role?: string | null }) => member.role === "viewer"
-      );
-      setIsGrandma(grandma);
+      // 보기 전용(viewer) 구성원은 할머니 기기로 보고 /elder 화면에서 메뉴를 숨긴다.
+      setIsGrandma(membership?.role === "viewer");
     };
 
     supabase.auth.getSession().then(({ data }: { data: AuthSessionData }) => {
@@ -0,0 +1,148 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import {
+  buildCalendarFeedUrl,
+  fetchCalendarFeedToken,
+  issueCalendarFeedToken,
+  revokeCalendarFeedToken
+} from "@/lib/calendar-feed";
+import { fetchActiveMembership, type GroupMembership } from "@/lib/group-membership";
+
+type CalendarFeedPanelProps = {
+  supabase: SupabaseClient;
+};
+
+type Notice = { type: "success" | "error"; text: string } | null;
+
+// 마이페이지의 캘린더 구독. 가족 일정과 생신을 휴대폰 캘린더(Google, Apple)에서 보도록
+// 사람마다 비밀 주소를 만든다. 주소가 새어 나가면 바꿔서 이전 주소를 막는다.
+export default function CalendarFeedPanel({ supabase }: CalendarFeedPanelProps) {
+  const [membership, setMembership] = useState<GroupMembership | null>(null);
+  const [token, setToken] = useState<string | null>(null);
+  const [notice, setNotice] = useState<Notice>(null);
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    const load = async () => {
+      const active = await fetchActiveMembership(supabase);
+      const current = active ? await fetchCalendarFeedToken(supabase, active.userId) : null;
+      if (!cancelled) {
+        setMembership(active);
+        setToken(current);
+      }
+    };
+
+    void load();
+    return () => {
+      cancelled = true;
+    };
+  }, [supabase]);
+
+  const runAction = async (action: () => Promise<Notice>) => {
+    setBusy(true);
+    setNotice(null);
+    try {
+      setNotice(await action());
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleIssue = () => {
+    if (
+      token &&
+      !window.confirm("주소를 바꾸면 이미 구독한 캘린더에서는 더 이상 일정이 보이지 않습니다.")
+    ) {
+      return;
+    }
+    void runAction(async () => {
+      const result = await issueCalendarFeedToken(supabase);
+      if (!result.ok) {
+        return { type: "error", text: result.message };
+      }
+      setToken(result.value);
+      return { type: "success", text: "구독 주소를 만들었습니다. 캘린더 앱에 추가해 주세요." };
+    });
+  };
+
+  const handleRevoke = () => {
+    if (!membership || !window.confirm("구독을 끊을까요? 캘린더 앱에서 가족 일정이 사라집니다.")) {
+      return;
+    }
+    void runAction(async () => {
+      const error = await revokeCalendarFeedToken(supabase, membership.userId);
+      if (error) {
+        return { type: "error", text: error };
+      }
+      setToken(null);
+      return { type: "success", text: "구독 주소를 지웠습니다." };
+    });
+  };
+
+  const handleCopy = async (url: string) => {
+    try {
+      await navigator.clipboard.writeText(url);
+      setNotice({ type: "success", text: "구독 주소를 복사했습니다." });
+    } catch {
+      setNotice({ type: "error", text: "주소를 복사하지 못했습니다. 직접 선택해 복사해 주세요." });
+    }
+  };
+
+  if (!membership) {
+    return null;
+  }
+
+  const feedUrl = token ? buildCalendarFeedUrl(token) : "";
+
+  return (
+    <section className="card profile-card">
+      <h2 className="profile-section-title">캘린더 구독</h2>
+      <p className="profile-section-text">
+        가족 일정과 생신을 휴대폰 캘린더에서 함께 봅니다. Google 캘린더는 &quot;URL로 추가&quot;에
+        주소를 붙여 넣고, 아이폰은 &quot;캘린더 앱에서 열기&quot;를 누르세요.
+      </p>
+      {token && (
+        <label className="field">
+          <span>구독 주소 (다른 사람과 나누지 마세요)</span>
+          <input
+            className="input"
+            value={feedUrl}
+            readOnly
+            onFocus={(event) => event.target.select()}
+          />
+        </label>
+      )}
+      <div className="flex flex-wrap items-center gap-2">
+        {token ? (
+          <>
+            <button
+              className="btn"
+              type="button"
+              onClick={() => void handleCopy(feedUrl)}
+              disabled={busy}
+            >
+              복사
+            </button>
+            <a className="btn secondary" href={buildCalendarFeedUrl(token, "webcal")}>
+              캘린더 앱에서 열기
+            </a>
+            <button className="btn ghost" type="button" onClick={handleIssue} disabled={busy}>
+              주소 바꾸기
+            </button>
+            <button className="btn ghost" type="button" onClick={handleRevoke} disabled={busy}>
+              구독 끊기
+            </button>
+          </>
+        ) : (
+          <button className="btn" type="button" onClick={handleIssue} disabled={busy}>
+            구독 주소 만들기
+          </button>
+        )}
+      </div>
+      {notice && <div className={`notice ${notice.type}`}>{notice.text}</div>}
+    </section>
+  );
+}
@@ -0,0 +1,265 @@
+"use client";
+
+import { useEffect, useState, type FormEvent } from "react";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { fetchActiveMembership } from "@/lib/group-membership";
+import {
+  addElderProfile,
+  bindDeviceElder,
+  fetchElders,
+  loadDeviceElderId,
+  removeElderProfile,
+  updateElderProfile,
+  type ElderProfile
+} from "@/lib/elders";
+import { useGroupAccess } from "@/lib/permissions";
+
+type ElderProfilesPanelProps = {
+  supabase: SupabaseClient;
+  elders: ElderProfile[];
+};
+
+type Notice = { type: "success" | "error"; text: string } | null;
+
+type ElderDraft = {
+  displayName: string;
+  lunarMonth: string; // ""이면 생신 모름
+  lunarDay: string;
+};
+
+const EMPTY_DRAFT: ElderDraft = { displayName: "", lunarMonth: "", lunarDay: "" };
+const LUNAR_MONTHS = Array.from({ length: 12 }, (_, index) => index + 1);
+const LUNAR_DAYS = Array.from({ length: 30 }, (_, index) => index + 1);
+
+const toDraft = (elder: ElderProfile): ElderDraft => ({
+  displayName: elder.displayName,
+  lunarMonth: elder.lunarBirthday ? String(elder.lunarBirthday.month) : "",
+  lunarDay: elder.lunarBirthday ? String(elder.lunarBirthday.day) : ""
+});
+
+const toLunarBirthday = (draft: ElderDraft): ElderProfile["lunarBirthday"] =>
+  draft.lunarMonth && draft.lunarDay
+    ? { month: Number(draft.lunarMonth), day: Number(draft.lunarDay) }
+    : null;
+
+const formatLunarBirthday = (elder: ElderProfile) =>
+  elder.lunarBirthday
+    ? `음력 ${elder.lunarBirthday.month}월 ${elder.lunarBirthday.day}일 생신`
+    : "생신 미입력";
+
+// 마이페이지의 어르신 관리. 편집 권한이 있으면 어르신을 추가하고 고칠 수 있고(지우기는 관리자만),
+// 누구나 이 기기의 /elder 화면 연결을 풀어 다시 고르게 할 수 있다.
+export default function ElderProfilesPanel({ supabase, elders }: ElderProfilesPanelProps) {
+  const access = useGroupAccess(supabase);
+  const canManage = access.can("manageElders");
+  const canRemove = access.can("removeElders");
+  const [groupId, setGroupId] = useState<string | null>(null);
+  const [deviceElderId, setDeviceElderId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<ElderDraft>(EMPTY_DRAFT);
+  // 수정 중인 어르신 id. null이면 새로 추가한다.
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [notice, setNotice] = useState<Notice>(null);
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    setDeviceElderId(loadDeviceElderId());
+    void fetchActiveMembership(supabase).then((membership) => {
+      setGroupId(membership?.groupId ?? null);
+    });
+  }, [supabase]);
+
+  const runAction = async (action: () => Promise<Notice>) => {
+    setBusy(true);
+    setNotice(null);
+    try {
+      const result = await action();
+      setNotice(result);
+      // 목록을 다시 읽으면 마이페이지의 어르신 선택도 함께 바뀐다.
+      await fetchElders(supabase);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const resetDraft = () => {
+    setDraft(EMPTY_DRAFT);
+    setEditingId(null);
+  };
+
+  const handleSubmit = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!groupId) {
+      return;
+    }
+    const displayName = draft.displayName.trim();
+    if (!displayName) {
+      setNotice({ type: "error", text: "어르신 이름을 입력해 주세요." });
+      return;
+    }
+    if (Boolean(draft.lunarMonth) !== Boolean(draft.lunarDay)) {
+      setNotice({ type: "error", text: "음력 생신은 월과 일을 함께 골라 주세요." });
+      return;
+    }
+    const input = { displayName, lunarBirthday: toLunarBirthday(draft) };
+    void runAction(async () => {
+      const error = editingId
+        ? await updateElderProfile(supabase, editingId, input)
+        : await addElderProfile(supabase, { groupId, ...input });
+      if (error) {
+        return { type: "error", text: error };
+      }
+      resetDraft();
+      return {
+        type: "success",
+        text: editingId
+          ? `${displayName}님 정보를 고쳤습니다.`
+          : `${displayName}님을 추가했습니다.`
+      };
+    });
+  };
+
+  const handleRemove = (elder: ElderProfile) => {
+    if (
+      !window.confirm(`${elder.displayName}님과 그분의 반복 일정, 완료 기록을 모두 지울까요?`)
+    ) {
+      return;
+    }
+    void runAction(async () => {
+      const error = await removeElderProfile(supabase, elder.id);
+      if (error) {
+        return { type: "error", text: error };
+      }
+      if (editingId === elder.id) {
+        resetDraft();
+      }
+      return { type: "success", text: `${elder.displayName}님을 지웠습니다.` };
+    });
+  };
+
+  const handleUnbindDevice = () => {
+    bindDeviceElder(null);
+    setDeviceElderId(null);
+    setNotice({
+      type: "success",
+      text: "이 기기의 어르신 화면 연결을 풀었습니다. 다음에 /elder를 열면 다시 고릅니다."
+    });
+  };
+
+  if (!groupId) {
+    return null;
+  }
+
+  const deviceElder = elders.find((elder) => elder.id === deviceElderId) ?? null;
+
+  return (
+    <section className="card profile-card">
+      <h2 className="profile-section-title">어르신</h2>
+      <ul className="profile-member-list">
+        {elders.map((elder) => (
+          <li key={elder.id} className="profile-member">
+            <div className="profile-member-info">
+              <span className="profile-member-name">{elder.displayName}</span>
+              <span className="profile-member-role">{formatLunarBirthday(elder)}</span>
+            </div>
+            {canManage && (
+              <div className="flex items-center gap-2">
+                <button
+                  className="btn ghost"
+                  type="button"
+                  onClick={() => {
+                    setEditingId(elder.id);
+                    setDraft(toDraft(elder));
+                    setNotice(null);
+                  }}
+                  disabled={busy}
+                >
+                  수정
+                </button>
+                {canRemove && elders.length > 1 && (
+                  <button
+                    className="btn ghost"
+                    type="button"
+                    onClick={() => handleRemove(elder)}
+                    disabled={busy}
+                  >
+                    삭제
+                  </button>
+                )}
+              </div>
+            )}
+          </li>
+        ))}
+      </ul>
+
+      {canManage && (
+        <form className="flex flex-wrap items-end gap-2" onSubmit={handleSubmit}>
+          <label className="field">
+            <span>어르신 이름</span>
+            <input
+              className="input"
+              value={draft.displayName}
+              onChange={(event) =>
+                setDraft((prev) => ({ ...prev, displayName: event.target.value }))
+              }
+              placeholder="예: 김순자"
+              disabled={busy}
+            />
+          </label>
+          <label className="field">
+            <span>음력 생신 (월)</span>
+            <select
+              className="input"
+              value={draft.lunarMonth}
+              onChange={(event) =>
+                setDraft((prev) => ({ ...prev, lunarMonth: event.target.value }))
+              }
+              disabled={busy}
+            >
+              <option value="">모름</option>
+              {LUNAR_MONTHS.map((month) => (
+                <option key={month} value={month}>
+                  {month}월
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="field">
+            <span>음력 생신 (일)</span>
+            <select
+              className="input"
+              value={draft.lunarDay}
+              onChange={(event) => setDraft((prev) => ({ ...prev, lunarDay: event.target.value }))}
+              disabled={busy}
+            >
+              <option value="">모름</option>
+              {LUNAR_DAYS.map((day) => (
+                <option key={day} value={day}>
+                  {day}일
+                </option>
+              ))}
+            </select>
+          </label>
+          <button className="btn" type="submit" disabled={busy}>
+            {editingId ? "저장" : "어르신 추가"}
+          </button>
+          {editingId && (
+            <button className="btn ghost" type="button" onClick={resetDraft} disabled={busy}>
+              취소
+            </button>
+          )}
+        </form>
+      )}
+
+      <p className="profile-activity-meta">
+        이 기기의 어르신 화면: {deviceElder ? deviceElder.displayName : "정하지 않음"}
+      </p>
+      {deviceElder && (
+        <button className="btn secondary" type="button" onClick={handleUnbindDevice}>
+          어르신 화면 연결 풀기
+        </button>
+      )}
+
+      {notice && <div className={`notice ${notice.type}`}>{notice.text}</div>}
+    </section>
+  );
+}
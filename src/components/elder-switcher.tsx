@@ -0,0 +1,32 @@
+"use client";
+
+import type { ElderProfile } from "@/lib/elders";
+
+type ElderSwitcherProps = {
+  elders: ElderProfile[];
+  elder: ElderProfile | null;
+  onSelect: (elderId: string) => void;
+};
+
+// 가족 화면 위쪽의 어르신 선택. 어르신이 한 분뿐이면 보여주지 않는다.
+export default function ElderSwitcher({ elders, elder, onSelect }: ElderSwitcherProps) {
+  if (elders.length < 2) {
+    return null;
+  }
+  return (
+    <label className="field">
+      <span>어르신</span>
+      <select
+        className="input"
+        value={elder?.id ?? ""}
+        onChange={(event) => onSelect(event.target.value)}
+      >
+        {elders.map((item) => (
+          <option key={item.id} value={item.id}>
+            {item.displayName}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+}
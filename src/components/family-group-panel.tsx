@@ -0,0 +1,439 @@
+"use client";
+
+import { useEffect, useState, type FormEvent } from "react";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import {
+  fetchActiveMembership,
+  type GroupMembership,
+  type GroupRole
+} from "@/lib/group-membership";
+import {
+  fetchGroupMembers,
+  fetchPrimaryCaregiver,
+  removeGroupMember,
+  updateMemberRole,
+  updatePrimaryCaregiver,
+  type GroupMember
+} from "@/lib/group-members";
+import {
+  INVITE_EXPIRY_OPTIONS,
+  acceptGroupInvite,
+  buildInviteLink,
+  createFamilyGroup,
+  createGroupInvite,
+  fetchGroupInvites,
+  revokeGroupInvite,
+  type GroupInvite
+} from "@/lib/group-invites";
+import { ROLE_LABELS } from "@/lib/permissions";
+
+type FamilyGroupPanelProps = {
+  supabase: SupabaseClient;
+};
+
+type Notice = { type: "success" | "error"; text: string } | null;
+
+const GROUP_ROLE_OPTIONS: GroupRole[] = ["admin", "editor", "viewer"];
+
+const formatExpiry = (value: string) => {
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    return "";
+  }
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  const hh = String(date.getHours()).padStart(2, "0");
+  const mm = String(date.getMinutes()).padStart(2, "0");
+  return `${month}.${day} ${hh}:${mm}까지`;
+};
+
+// 마이페이지의 가족 그룹 관리. 그룹이 없으면 만들거나 초대 코드로 참여하고,
+// 관리자는 초대 코드를 만들고 구성원 권한을 바꾼다.
+export default function FamilyGroupPanel({ supabase }: FamilyGroupPanelProps) {
+  const [membership, setMembership] = useState<GroupMembership | null>(null);
+  const [loaded, setLoaded] = useState(false);
+  const [members, setMembers] = useState<GroupMember[]>([]);
+  const [invites, setInvites] = useState<GroupInvite[]>([]);
+  const [primaryCaregiverId, setPrimaryCaregiverId] = useState<string | null>(null);
+  const [groupDraft, setGroupDraft] = useState({ groupName: "", grandmaName: "" });
+  const [joinCode, setJoinCode] = useState("");
+  const [inviteDraft, setInviteDraft] = useState<{ role: GroupRole; days: number }>({
+    role: "editor",
+    days: INVITE_EXPIRY_OPTIONS[1].days
+  });
+  const [notice, setNotice] = useState<Notice>(null);
+  const [busy, setBusy] = useState(false);
+  const [revision, setRevision] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+    const load = async () => {
+      const active = await fetchActiveMembership(supabase);
+      if (cancelled) {
+        return;
+      }
+      setMembership(active);
+      setLoaded(true);
+      if (!active || active.role !== "admin") {
+        setMembers([]);
+        setInvites([]);
+        return;
+      }
+      const [nextMembers, nextInvites, nextCaregiver] = await Promise.all([
+        fetchGroupMembers(supabase, active.groupId),
+        fetchGroupInvites(supabase, active.groupId),
+        fetchPrimaryCaregiver(supabase, active.groupId)
+      ]);
+      if (cancelled) {
+        return;
+      }
+      if (nextMembers) {
+        setMembers(nextMembers);
+      }
+      if (nextInvites) {
+        setInvites(nextInvites);
+      }
+      setPrimaryCaregiverId(nextCaregiver);
+    };
+
+    void load();
+    const { data } = supabase.auth.onAuthStateChange(() => {
+      void load();
+    });
+    return () => {
+      cancelled = true;
+      data.subscription.unsubscribe();
+    };
+  }, [supabase, revision]);
+
+  const runAction = async (action: () => Promise<Notice>) => {
+    setBusy(true);
+    setNotice(null);
+    try {
+      const result = await action();
+      setNotice(result);
+      setRevision((prev) => prev + 1);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleCreateGroup = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!groupDraft.groupName.trim() || !groupDraft.grandmaName.trim()) {
+      setNotice({ type: "error", text: "그룹 이름과 어르신 이름을 입력해 주세요." });
+      return;
+    }
+    void runAction(async () => {
+      const result = await createFamilyGroup(supabase, groupDraft);
+      if (!result.ok) {
+        return { type: "error", text: result.message };
+      }
+      setGroupDraft({ groupName: "", grandmaName: "" });
+      return { type: "success", text: "가족 그룹을 만들었습니다. 이제 가족을 초대해 보세요." };
+    });
+  };
+
+  const handleJoin = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!joinCode.trim()) {
+      setNotice({ type: "error", text: "초대 코드를 입력해 주세요." });
+      return;
+    }
+    void runAction(async () => {
+      const result = await acceptGroupInvite(supabase, joinCode);
+      if (!result.ok) {
+        return { type: "error", text: result.message };
+      }
+      setJoinCode("");
+      return {
+        type: "success",
+        text: `가족 그룹에 참여했습니다. (${ROLE_LABELS[result.value]})`
+      };
+    });
+  };
+
+  const handleCreateInvite = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!membership) {
+      return;
+    }
+    void runAction(async () => {
+      const result = await createGroupInvite(supabase, {
+        groupId: membership.groupId,
+        userId: membership.userId,
+        role: inviteDraft.role,
+        expiresInDays: inviteDraft.days
+      });
+      if (!result.ok) {
+        return { type: "error", text: result.message };
+      }
+      return { type: "success", text: `초대 코드 ${result.value.code}를 만들었습니다.` };
+    });
+  };
+
+  const handleCopyInvite = async (invite: GroupInvite) => {
+    try {
+      await navigator.clipboard.writeText(buildInviteLink(invite.code));
+      setNotice({ type: "success", text: "초대 링크를 복사했습니다." });
+    } catch {
+      setNotice({
+        type: "error",
+        text: `초대 링크를 복사하지 못했습니다. 코드 ${invite.code}를 알려 주세요.`
+      });
+    }
+  };
+
+  const handleRevokeInvite = (invite: GroupInvite) => {
+    void runAction(async () => {
+      const error = await revokeGroupInvite(supabase, invite.code);
+      return error
+        ? { type: "error", text: error }
+        : { type: "success", text: `초대 코드 ${invite.code}를 취소했습니다.` };
+    });
+  };
+
+  const handleRoleChange = (member: GroupMember, role: GroupRole) => {
+    if (!membership || member.role === role) {
+      return;
+    }
+    void runAction(async () => {
+      const error = await updateMemberRole(supabase, membership.groupId, member.userId, role);
+      return error
+        ? { type: "error", text: error }
+        : {
+            type: "success",
+            text: `${member.name}님의 권한을 ${ROLE_LABELS[role]}(으)로 바꿨습니다.`
+          };
+    });
+  };
+
+  const handlePrimaryCaregiverChange = (userId: string) => {
+    if (!membership) {
+      return;
+    }
+    void runAction(async () => {
+      const error = await updatePrimaryCaregiver(supabase, membership.groupId, userId || null);
+      const member = members.find((item) => item.userId === userId);
+      return error
+        ? { type: "error", text: error }
+        : {
+            type: "success",
+            text: member
+              ? `${member.name}님을 대표 보호자로 정했습니다.`
+              : "대표 보호자를 비웠습니다. 놓친 할 일은 관리자에게 먼저 알립니다."
+          };
+    });
+  };
+
+  const handleRemove = (member: GroupMember) => {
+    if (!membership) {
+      return;
+    }
+    if (!window.confirm(`${member.name}님을 가족 그룹에서 내보낼까요?`)) {
+      return;
+    }
+    void runAction(async () => {
+      const error = await removeGroupMember(supabase, membership.groupId, member.userId);
+      return error
+        ? { type: "error", text: error }
+        : { type: "success", text: `${member.name}님을 그룹에서 내보냈습니다.` };
+    });
+  };
+
+  if (!loaded) {
+    return null;
+  }
+
+  return (
+    <section className="card profile-card">
+      <h2 className="profile-section-title">가족 그룹 관리</h2>
+      <p className="profile-activity-meta">
+        내 권한: {membership ? ROLE_LABELS[membership.role] : "가족 그룹 없음"}
+      </p>
+
+      {!membership && (
+        <div className="grid gap-4">
+          <form className="grid gap-2" onSubmit={handleCreateGroup}>
+            <label className="field">
+              <span>그룹 이름</span>
+              <input
+                className="input"
+                value={groupDraft.groupName}
+                onChange={(event) =>
+                  setGroupDraft((prev) => ({ ...prev, groupName: event.target.value }))
+                }
+                placeholder="예: 할머니네 가족"
+                disabled={busy}
+              />
+            </label>
+            <label className="field">
+              <span>어르신 이름</span>
+              <input
+                className="input"
+                value={groupDraft.grandmaName}
+                onChange={(event) =>
+                  setGroupDraft((prev) => ({ ...prev, grandmaName: event.target.value }))
+                }
+                placeholder="예: 김순자"
+                disabled={busy}
+              />
+            </label>
+            <button className="btn" type="submit" disabled={busy}>
+              새 가족 그룹 만들기
+            </button>
+          </form>
+          <form className="flex flex-wrap items-end gap-2" onSubmit={handleJoin}>
+            <label className="field">
+              <span>초대 코드</span>
+              <input
+                className="input"
+                value={joinCode}
+                onChange={(event) => setJoinCode(event.target.value)}
+                placeholder="예: 3FA9C21B"
+                autoComplete="off"
+                disabled={busy}
+              />
+            </label>
+            <button className="btn secondary" type="submit" disabled={busy}>
+              참여하기
+            </button>
+          </form>
+        </div>
+      )}
+
+      {membership?.role === "admin" && (
+        <div className="grid gap-4">
+          <form className="flex flex-wrap items-end gap-2" onSubmit={handleCreateInvite}>
+            <label className="field">
+              <span>초대할 권한</span>
+              <select
+                className="input"
+                value={inviteDraft.role}
+                onChange={(event) =>
+                  setInviteDraft((prev) => ({ ...prev, role: event.target.value as GroupRole }))
+                }
+                disabled={busy}
+              >
+                {GROUP_ROLE_OPTIONS.map((role) => (
+                  <option key={role} value={role}>
+                    {ROLE_LABELS[role]}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="field">
+              <span>유효 기간</span>
+              <select
+                className="input"
+                value={inviteDraft.days}
+                onChange={(event) =>
+                  setInviteDraft((prev) => ({ ...prev, days: Number(event.target.value) }))
+                }
+                disabled={busy}
+              >
+                {INVITE_EXPIRY_OPTIONS.map((option) => (
+                  <option key={option.days} value={option.days}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <button className="btn" type="submit" disabled={busy}>
+              초대 코드 만들기
+            </button>
+          </form>
+
+          {invites.length > 0 && (
+            <ul className="profile-member-list">
+              {invites.map((invite) => (
+                <li key={invite.code} className="profile-member">
+                  <div className="profile-member-info">
+                    <span className="profile-member-name">{invite.code}</span>
+                    <span className="profile-member-role">
+                      {ROLE_LABELS[invite.role]} · {formatExpiry(invite.expiresAt)}
+                    </span>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <button
+                      className="btn secondary"
+                      type="button"
+                      onClick={() => void handleCopyInvite(invite)}
+                    >
+                      링크 복사
+                    </button>
+                    <button
+                      className="btn ghost"
+                      type="button"
+                      onClick={() => handleRevokeInvite(invite)}
+                      disabled={busy}
+                    >
+                      취소
+                    </button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <label className="field">
+            <span>대표 보호자 (놓친 할 일을 가장 먼저 받는 가족)</span>
+            <select
+              className="input"
+              value={primaryCaregiverId ?? ""}
+              onChange={(event) => handlePrimaryCaregiverChange(event.target.value)}
+              disabled={busy}
+            >
+              <option value="">정하지 않음 (관리자)</option>
+              {members.map((member) => (
+                <option key={member.userId} value={member.userId}>
+                  {member.name}
+                </option>
+              ))}
+            </select>
+          </label>
+
+          <ul className="profile-member-list">
+            {members.map((member) => (
+              <li key={member.userId} className="profile-member">
+                <div className="profile-member-info">
+                  <span className="profile-member-name">{member.name}</span>
+                  <span className="profile-member-role">
+                    {member.userId === membership.userId ? "나" : member.relation}
+                  </span>
+                </div>
+                <div className="flex items-center gap-2">
+                  <select
+                    className="input"
+                    value={member.role}
+                    aria-label={`${member.name} 권한`}
+                    onChange={(event) => handleRoleChange(member, event.target.value as GroupRole)}
+                    disabled={busy}
+                  >
+                    {GROUP_ROLE_OPTIONS.map((role) => (
+                      <option key={role} value={role}>
+                        {ROLE_LABELS[role]}
+                      </option>
+                    ))}
+                  </select>
+                  {member.userId !== membership.userId && (
+                    <button
+                      className="btn ghost"
+                      type="button"
+                      onClick={() => handleRemove(member)}
+                      disabled={busy}
+                    >
+                      내보내기
+                    </button>
+                  )}
+                </div>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {notice && <div className={`notice ${notice.type}`}>{notice.text}</div>}
+    </section>
+  );
+}
@@ -0,0 +1,387 @@
+"use client";
+
+import { useEffect, useState, type FormEvent } from "react";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { fetchActiveMembership, type GroupMembership } from "@/lib/group-membership";
+import { fetchGroupMembers, type GroupMember } from "@/lib/group-members";
+import {
+  addFamilyBranch,
+  addFamilyTreeMember,
+  fetchFamilyTree,
+  linkFamilyTreeMember,
+  removeFamilyBranch,
+  removeFamilyTreeMember,
+  renameFamilyBranch,
+  type FamilyBranch,
+  type FamilyTreeMember
+} from "@/lib/family-tree";
+
+type FamilyTreePanelProps = {
+  supabase: SupabaseClient;
+};
+
+type Notice = { type: "success" | "error"; text: string } | null;
+
+type MemberDraft = {
+  name: string;
+  relation: string;
+  userId: string;
+};
+
+const EMPTY_MEMBER_DRAFT: MemberDraft = { name: "", relation: "", userId: "" };
+
+// 마이페이지의 가족 그룹 카드. 가족 구성은 그룹마다 DB에 저장하고,
+// 가입 여부는 이름이 아니라 연결된 계정으로 판단한다. 관리자만 고칠 수 있다.
+export default function FamilyTreePanel({ supabase }: FamilyTreePanelProps) {
+  const [membership, setMembership] = useState<GroupMembership | null>(null);
+  const [branches, setBranches] = useState<FamilyBranch[]>([]);
+  const [accounts, setAccounts] = useState<GroupMember[]>([]);
+  const [branchTitle, setBranchTitle] = useState("");
+  const [memberDrafts, setMemberDrafts] = useState<Record<string, MemberDraft>>({});
+  const [notice, setNotice] = useState<Notice>(null);
+  const [busy, setBusy] = useState(false);
+  const [revision, setRevision] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+    const load = async () => {
+      const active = await fetchActiveMembership(supabase);
+      if (cancelled) {
+        return;
+      }
+      setMembership(active);
+      if (!active) {
+        setBranches([]);
+        setAccounts([]);
+        return;
+      }
+      const [nextBranches, nextAccounts] = await Promise.all([
+        fetchFamilyTree(supabase, active.groupId),
+        active.role === "admin" ? fetchGroupMembers(supabase, active.groupId) : null
+      ]);
+      if (cancelled) {
+        return;
+      }
+      if (nextBranches) {
+        setBranches(nextBranches);
+      }
+      setAccounts(nextAccounts ?? []);
+    };
+
+    void load();
+    const { data } = supabase.auth.onAuthStateChange(() => {
+      void load();
+    });
+    return () => {
+      cancelled = true;
+      data.subscription.unsubscribe();
+    };
+  }, [supabase, revision]);
+
+  const isAdmin = membership?.role === "admin";
+
+  const runAction = async (action: () => Promise<Notice>) => {
+    setBusy(true);
+    setNotice(null);
+    try {
+      const result = await action();
+      setNotice(result);
+      setRevision((prev) => prev + 1);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const getMemberDraft = (branchId: string) => memberDrafts[branchId] ?? EMPTY_MEMBER_DRAFT;
+
+  const updateMemberDraft = (branchId: string, patch: Partial<MemberDraft>) => {
+    setMemberDrafts((prev) => ({
+      ...prev,
+      [branchId]: { ...(prev[branchId] ?? EMPTY_MEMBER_DRAFT), ...patch }
+    }));
+  };
+
+  // 한 계정은 가족 구성에서 한 사람에게만 연결할 수 있다.
+  const getLinkableAccounts = (current: string | null) => {
+    const linked = new Set(
+      branches.flatMap((branch) => branch.members.map((member) => member.userId))
+    );
+    return accounts.filter((account) => account.userId === current || !linked.has(account.userId));
+  };
+
+  const handleAddBranch = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!membership) {
+      return;
+    }
+    const title = branchTitle.trim();
+    if (!title) {
+      setNotice({ type: "error", text: "가족 이름을 입력해 주세요." });
+      return;
+    }
+    void runAction(async () => {
+      const error = await addFamilyBranch(supabase, {
+        groupId: membership.groupId,
+        title,
+        sortOrder: branches.length
+      });
+      if (error) {
+        return { type: "error", text: error };
+      }
+      setBranchTitle("");
+      return { type: "success", text: `${title}을(를) 추가했습니다.` };
+    });
+  };
+
+  const handleRenameBranch = (branch: FamilyBranch) => {
+    const title = window.prompt("새 가족 이름을 입력해 주세요.", branch.title)?.trim();
+    if (!title || title === branch.title) {
+      return;
+    }
+    void runAction(async () => {
+      const error = await renameFamilyBranch(supabase, branch.id, title);
+      return error
+        ? { type: "error", text: error }
+        : { type: "success", text: `가족 이름을 ${title}(으)로 바꿨습니다.` };
+    });
+  };
+
+  const handleRemoveBranch = (branch: FamilyBranch) => {
+    if (!window.confirm(`${branch.title}과(와) 구성원을 모두 지울까요?`)) {
+      return;
+    }
+    void runAction(async () => {
+      const error = await removeFamilyBranch(supabase, branch.id);
+      return error
+        ? { type: "error", text: error }
+        : { type: "success", text: `${branch.title}을(를) 지웠습니다.` };
+    });
+  };
+
+  const handleAddMember = (event: FormEvent<HTMLFormElement>, branch: FamilyBranch) => {
+    event.preventDefault();
+    if (!membership) {
+      return;
+    }
+    const draft = getMemberDraft(branch.id);
+    if (!draft.name.trim()) {
+      setNotice({ type: "error", text: "구성원 이름을 입력해 주세요." });
+      return;
+    }
+    void runAction(async () => {
+      const error = await addFamilyTreeMember(supabase, {
+        groupId: membership.groupId,
+        branchId: branch.id,
+        name: draft.name,
+        relation: draft.relation,
+        userId: draft.userId || null,
+        sortOrder: branch.members.length
+      });
+      if (error) {
+        return { type: "error", text: error };
+      }
+      updateMemberDraft(branch.id, EMPTY_MEMBER_DRAFT);
+      return { type: "success", text: `${draft.name.trim()}님을 추가했습니다.` };
+    });
+  };
+
+  const handleLinkMember = (member: FamilyTreeMember, userId: string) => {
+    if ((member.userId ?? "") === userId) {
+      return;
+    }
+    void runAction(async () => {
+      const error = await linkFamilyTreeMember(supabase, member.id, userId || null);
+      if (error) {
+        return { type: "error", text: error };
+      }
+      return {
+        type: "success",
+        text: userId
+          ? `${member.name}님을 가입한 계정과 연결했습니다.`
+          : `${member.name}님의 계정 연결을 끊었습니다.`
+      };
+    });
+  };
+
+  const handleRemoveMember = (member: FamilyTreeMember) => {
+    if (!window.confirm(`${member.name}님을 가족 구성에서 지울까요?`)) {
+      return;
+    }
+    void runAction(async () => {
+      const error = await removeFamilyTreeMember(supabase, member.id);
+      return error
+        ? { type: "error", text: error }
+        : { type: "success", text: `${member.name}님을 지웠습니다.` };
+    });
+  };
+
+  if (!membership) {
+    return null;
+  }
+
+  return (
+    <section className="card profile-card">
+      <h2 className="profile-section-title">가족 그룹</h2>
+      <div className="profile-family-groups">
+        {branches.length === 0 && (
+          <p className="profile-activity-meta">
+            {isAdmin
+              ? "아직 가족 구성이 없어요. 아래에서 가족을 추가해 주세요."
+              : "아직 가족 구성이 없어요. 관리자가 추가하면 여기에 보입니다."}
+          </p>
+        )}
+        {branches.map((branch) => {
+          const draft = getMemberDraft(branch.id);
+          return (
+            <div key={branch.id} className="profile-family-group">
+              <div className="flex items-center justify-between gap-2">
+                <h3 className="profile-family-title">{branch.title}</h3>
+                {isAdmin && (
+                  <div className="flex items-center gap-2">
+                    <button
+                      className="btn ghost"
+                      type="button"
+                      onClick={() => handleRenameBranch(branch)}
+                      disabled={busy}
+                    >
+                      이름 변경
+                    </button>
+                    <button
+                      className="btn ghost"
+                      type="button"
+                      onClick={() => handleRemoveBranch(branch)}
+                      disabled={busy}
+                    >
+                      삭제
+                    </button>
+                  </div>
+                )}
+              </div>
+              <ul className="profile-member-list">
+                {branch.members.map((member) => {
+                  const isRegistered = Boolean(member.userId);
+                  return (
+                    <li
+                      key={member.id}
+                      className="profile-member"
+                      data-registered={isRegistered ? "true" : "false"}
+                    >
+                      <div className="profile-member-info">
+                        <span className="profile-member-name">
+                          {member.name}
+                          {member.userId === membership.userId ? " (나)" : ""}
+                        </span>
+                        <span className="profile-member-role">{member.relation}</span>
+                      </div>
+                      {isAdmin ? (
+                        <div className="flex items-center gap-2">
+                          <select
+                            className="input"
+                            value={member.userId ?? ""}
+                            aria-label={`${member.name} 계정 연결`}
+                            onChange={(event) => handleLinkMember(member, event.target.value)}
+                            disabled={busy}
+                          >
+                            <option value="">미가입</option>
+                            {getLinkableAccounts(member.userId).map((account) => (
+                              <option key={account.userId} value={account.userId}>
+                                {account.name}
+                              </option>
+                            ))}
+                          </select>
+                          <button
+                            className="btn ghost"
+                            type="button"
+                            onClick={() => handleRemoveMember(member)}
+                            disabled={busy}
+                          >
+                            삭제
+                          </button>
+                        </div>
+                      ) : (
+                        <span className="profile-member-dot">
+                          {isRegistered ? "가입 완료" : "미가입"}
+                        </span>
+                      )}
+                    </li>
+                  );
+                })}
+              </ul>
+              {isAdmin && (
+                <form
+                  className="flex flex-wrap items-end gap-2"
+                  onSubmit={(event) => handleAddMember(event, branch)}
+                >
+                  <label className="field">
+                    <span>이름</span>
+                    <input
+                      className="input"
+                      value={draft.name}
+                      onChange={(event) =>
+                        updateMemberDraft(branch.id, { name: event.target.value })
+                      }
+                      disabled={busy}
+                    />
+                  </label>
+                  <label className="field">
+                    <span>관계</span>
+                    <input
+                      className="input"
+                      value={draft.relation}
+                      onChange={(event) =>
+                        updateMemberDraft(branch.id, { relation: event.target.value })
+                      }
+                      placeholder="예: 손녀"
+                      disabled={busy}
+                    />
+                  </label>
+                  <label className="field">
+                    <span>계정</span>
+                    <select
+                      className="input"
+                      value={draft.userId}
+                      onChange={(event) =>
+                        updateMemberDraft(branch.id, { userId: event.target.value })
+                      }
+                      disabled={busy}
+                    >
+                      <option value="">미가입</option>
+                      {getLinkableAccounts(null).map((account) => (
+                        <option key={account.userId} value={account.userId}>
+                          {account.name}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                  <button className="btn secondary" type="submit" disabled={busy}>
+                    구성원 추가
+                  </button>
+                </form>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {isAdmin && (
+        <form className="flex flex-wrap items-end gap-2" onSubmit={handleAddBranch}>
+          <label className="field">
+            <span>가족 이름</span>
+            <input
+              className="input"
+              value={branchTitle}
+              onChange={(event) => setBranchTitle(event.target.value)}
+              placeholder="예: 첫째 딸 가족"
+              disabled={busy}
+            />
+          </label>
+          <button className="btn" type="submit" disabled={busy}>
+            가족 추가
+          </button>
+        </form>
+      )}
+
+      {notice && <div className={`notice ${notice.type}`}>{notice.text}</div>}
+    </section>
+  );
+}
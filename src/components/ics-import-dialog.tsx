@@ -0,0 +1,184 @@
+"use client";
+
+import { useMemo, useState, type ChangeEvent } from "react";
+import type { CalendarEvent } from "@/lib/types";
+import { parseIcsCalendar, type IcsImportResult } from "@/lib/ics";
+import { describeEventRepeat, expandEventsOnDate, isRepeatingEvent } from "@/lib/recurrence";
+
+type IcsImportDialogProps = {
+  existingEvents: CalendarEvent[];
+  onImport: (events: CalendarEvent[]) => void;
+  onClose: () => void;
+};
+
+// 첫 회차 날짜에 이름과 시작 시각이 같은 일정이 이미 있으면 중복으로 본다.
+const isDuplicate = (existing: CalendarEvent[], event: CalendarEvent) =>
+  expandEventsOnDate(existing, event.startDate).some(
+    (item) =>
+      item.label === event.label &&
+      (item.allDay === true) === (event.allDay === true) &&
+      (event.allDay || item.start === event.start)
+  );
+
+// 파일 안에서 같은 일정이 두 번 나와도 뒤의 것을 중복으로 본다.
+const findDuplicateIds = (existing: CalendarEvent[], result: IcsImportResult | null) => {
+  const ids = new Set<string>();
+  const seen = [...existing];
+  (result?.items ?? []).forEach(({ event }) => {
+    if (isDuplicate(seen, event)) {
+      ids.add(event.id);
+    }
+    seen.push(event);
+  });
+  return ids;
+};
+
+const describeTiming = (event: CalendarEvent) => {
+  const date = isRepeatingEvent(event)
+    ? `${event.startDate}부터 · ${describeEventRepeat(event)}`
+    : event.startDate === event.endDate
+      ? event.startDate
+      : `${event.startDate} ~ ${event.endDate}`;
+  return `${date} · ${event.allDay ? "종일" : `${event.start} ~ ${event.end}`}`;
+};
+
+// /calendar의 일정 가져오기. 다른 캘린더에서 내보낸 .ics 파일을 미리 보고,
+// 고른 일정만 가족 일정에 더한다. 이미 있는 일정은 처음부터 빼 둔다.
+export default function IcsImportDialog({
+  existingEvents,
+  onImport,
+  onClose
+}: IcsImportDialogProps) {
+  const [result, setResult] = useState<IcsImportResult | null>(null);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [error, setError] = useState<string | null>(null);
+
+  const duplicateIds = useMemo(
+    () => findDuplicateIds(existingEvents, result),
+    [existingEvents, result]
+  );
+
+  const handleFile = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    setError(null);
+    setResult(null);
+    if (!file) {
+      return;
+    }
+    let text = "";
+    try {
+      text = await file.text();
+    } catch {
+      setError("파일을 읽지 못했습니다.");
+      return;
+    }
+    if (!/BEGIN:VCALENDAR/i.test(text)) {
+      setError(".ics 캘린더 파일이 아니에요. 캘린더 앱에서 내보낸 파일을 골라 주세요.");
+      return;
+    }
+    const parsed = parseIcsCalendar(text);
+    if (parsed.items.length === 0) {
+      setError("가져올 수 있는 일정이 없습니다.");
+      return;
+    }
+    const duplicates = findDuplicateIds(existingEvents, parsed);
+    setResult(parsed);
+    setSelected(
+      new Set(
+        parsed.items.map((item) => item.event.id).filter((id) => !duplicates.has(id))
+      )
+    );
+  };
+
+  const toggle = (id: string) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const handleImport = () => {
+    if (!result) {
+      return;
+    }
+    onImport(
+      result.items.map((item) => item.event).filter((event) => selected.has(event.id))
+    );
+  };
+
+  return (
+    <div className="calendar-modal" role="dialog" aria-modal="true">
+      <div className="calendar-modal-backdrop" onClick={onClose} aria-hidden="true" />
+      <div className="calendar-modal-card">
+        <div className="calendar-modal-section">
+          <div className="calendar-modal-head">
+            <div className="calendar-section-title">다른 캘린더에서 가져오기</div>
+            <p className="calendar-section-subtitle">
+              Google·네이버·아이폰 캘린더에서 내보낸 .ics 파일을 고르세요.
+            </p>
+          </div>
+          <label className="field">
+            <span>캘린더 파일</span>
+            <input
+              className="input"
+              type="file"
+              accept=".ics,text/calendar"
+              onChange={(event) => void handleFile(event)}
+            />
+          </label>
+          {error && <div className="notice error">{error}</div>}
+          {result && (
+            <>
+              <p className="calendar-section-subtitle">
+                일정 {result.items.length}개를 찾았어요.
+                {duplicateIds.size > 0 && ` 이미 있는 일정 ${duplicateIds.size}개는 빼 두었어요.`}
+                {result.skipped > 0 && ` 읽을 수 없는 일정 ${result.skipped}개는 건너뛰었어요.`}
+              </p>
+              <ul className="calendar-events">
+                {result.items.map(({ event, repeatDropped }) => (
+                  <li key={event.id} className="calendar-event-item">
+                    <label className="flex flex-1 items-center gap-3">
+                      <input
+                        type="checkbox"
+                        checked={selected.has(event.id)}
+                        onChange={() => toggle(event.id)}
+                      />
+                      <div>
+                        <div className="calendar-event-title">{event.label}</div>
+                        <div className="calendar-event-time">
+                          {describeTiming(event)}
+                          {duplicateIds.has(event.id) && " · 이미 있는 일정"}
+                          {repeatDropped && " · 반복 규칙을 읽지 못해 첫 회차만"}
+                        </div>
+                      </div>
+                    </label>
+                  </li>
+                ))}
+              </ul>
+            </>
+          )}
+          <div className="block-actions">
+            {result && (
+              <button
+                type="button"
+                className="btn"
+                onClick={handleImport}
+                disabled={selected.size === 0}
+              >
+                {selected.size}개 가져오기
+              </button>
+            )}
+            <button type="button" className="btn ghost" onClick={onClose}>
+              닫기
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
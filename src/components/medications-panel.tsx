@@ -0,0 +1,407 @@
+"use client";
+
+import { useEffect, useState, type ChangeEvent, type FormEvent } from "react";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { ElderProfile } from "@/lib/elders";
+import {
+  DEFAULT_REFILL_DAYS,
+  addMedication,
+  fetchMedicationPhotoUrls,
+  fetchMedications,
+  getDaysLeft,
+  needsRefill,
+  refillMedication,
+  removeMedication,
+  updateMedication,
+  uploadMedicationPhoto,
+  type Medication,
+  type MedicationInput
+} from "@/lib/medications";
+import { useGroupAccess } from "@/lib/permissions";
+import { subscribeGroupChanges } from "@/lib/realtime";
+
+type MedicationsPanelProps = {
+  supabase: SupabaseClient;
+  elder: ElderProfile | null;
+};
+
+type Notice = { type: "success" | "error"; text: string } | null;
+
+type MedicationDraft = {
+  name: string;
+  dose: string;
+  photoPath: string | null;
+  timesPerDay: string;
+  pillsPerDose: string;
+  stock: string;
+  refillDays: string;
+};
+
+const EMPTY_DRAFT: MedicationDraft = {
+  name: "",
+  dose: "",
+  photoPath: null,
+  timesPerDay: "1",
+  pillsPerDose: "1",
+  stock: "",
+  refillDays: String(DEFAULT_REFILL_DAYS)
+};
+const TIMES_PER_DAY_OPTIONS = [1, 2, 3, 4];
+
+const toDraft = (medication: Medication): MedicationDraft => ({
+  name: medication.name,
+  dose: medication.dose,
+  photoPath: medication.photoPath,
+  timesPerDay: String(medication.timesPerDay),
+  pillsPerDose: String(medication.pillsPerDose),
+  stock: String(medication.stock),
+  refillDays: String(medication.refillDays)
+});
+
+const toInput = (draft: MedicationDraft): MedicationInput | null => {
+  const timesPerDay = Number(draft.timesPerDay);
+  const pillsPerDose = Number(draft.pillsPerDose);
+  const stock = Number(draft.stock || 0);
+  const refillDays = Number(draft.refillDays || 0);
+  if (
+    !draft.name.trim() ||
+    !(pillsPerDose > 0) ||
+    !(stock >= 0) ||
+    !Number.isInteger(refillDays) ||
+    refillDays < 0
+  ) {
+    return null;
+  }
+  return {
+    name: draft.name,
+    dose: draft.dose,
+    photoPath: draft.photoPath,
+    timesPerDay,
+    pillsPerDose,
+    stock,
+    refillDays
+  };
+};
+
+// 마이페이지의 약 관리. 남은 양이 채울 날수 아래로 내려가면 맨 위에 알리고,
+// 편집 권한이 있으면 약을 추가하고 채운 양을 더한다. 약을 먹을 시간은 /recurring_sch의 블록에서 고른다.
+export default function MedicationsPanel({ supabase, elder }: MedicationsPanelProps) {
+  const access = useGroupAccess(supabase);
+  const canEdit = access.can("editSchedule");
+  const elderId = elder?.id ?? null;
+  const [medications, setMedications] = useState<Medication[]>([]);
+  const [photoUrls, setPhotoUrls] = useState<Record<string, string>>({});
+  const [draft, setDraft] = useState<MedicationDraft>(EMPTY_DRAFT);
+  // 수정 중인 약 id. null이면 새로 추가한다.
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [notice, setNotice] = useState<Notice>(null);
+  const [busy, setBusy] = useState(false);
+  const [revision, setRevision] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+    const load = async () => {
+      const next = await fetchMedications(supabase, elderId);
+      const urls = await fetchMedicationPhotoUrls(
+        supabase,
+        next.map((item) => item.photoPath).filter((path): path is string => Boolean(path))
+      );
+      if (!cancelled) {
+        setMedications(next);
+        setPhotoUrls(urls);
+      }
+    };
+
+    void load();
+    // 어르신 화면에서 복용을 확인하면 남은 양이 바뀐다.
+    const unsubscribe = subscribeGroupChanges(supabase, ["completions"], () => {
+      void load();
+    });
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [supabase, elderId, revision]);
+
+  const runAction = async (action: () => Promise<Notice>) => {
+    setBusy(true);
+    setNotice(null);
+    try {
+      setNotice(await action());
+      setRevision((prev) => prev + 1);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const resetDraft = () => {
+    setDraft(EMPTY_DRAFT);
+    setEditingId(null);
+  };
+
+  const handlePhotoChange = (event: ChangeEvent<HTMLInputElement>) => {
+    const photo = event.target.files?.[0];
+    event.target.value = "";
+    if (!photo || !elderId) {
+      return;
+    }
+    setBusy(true);
+    setNotice(null);
+    void uploadMedicationPhoto(supabase, { elderId, photo }).then((result) => {
+      setBusy(false);
+      if (!result.ok) {
+        setNotice({ type: "error", text: result.message });
+        return;
+      }
+      setDraft((prev) => ({ ...prev, photoPath: result.value }));
+      const previewUrl = URL.createObjectURL(photo);
+      setPhotoUrls((prev) => ({ ...prev, [result.value]: previewUrl }));
+    });
+  };
+
+  const handleSubmit = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!elderId) {
+      return;
+    }
+    const input = toInput(draft);
+    if (!input) {
+      setNotice({ type: "error", text: "약 이름과 한 번에 먹는 양, 남은 양을 확인해 주세요." });
+      return;
+    }
+    void runAction(async () => {
+      const error = editingId
+        ? await updateMedication(supabase, editingId, input)
+        : await addMedication(supabase, elderId, input);
+      if (error) {
+        return { type: "error", text: error };
+      }
+      resetDraft();
+      return {
+        type: "success",
+        text: editingId
+          ? `${input.name.trim()} 정보를 고쳤습니다.`
+          : `${input.name.trim()}을(를) 추가했습니다. 반복 일정에서 드실 시간을 골라 주세요.`
+      };
+    });
+  };
+
+  const handleRefill = (medication: Medication) => {
+    const raw = window.prompt(`${medication.name}을(를) 몇 알 채웠나요?`);
+    const amount = Number(raw);
+    if (raw === null) {
+      return;
+    }
+    if (!(amount > 0)) {
+      setNotice({ type: "error", text: "채운 양을 숫자로 입력해 주세요." });
+      return;
+    }
+    void runAction(async () => {
+      const error = await refillMedication(supabase, medication, amount);
+      return error
+        ? { type: "error", text: error }
+        : { type: "success", text: `${medication.name}을(를) ${amount}알 채웠습니다.` };
+    });
+  };
+
+  const handleRemove = (medication: Medication) => {
+    if (!window.confirm(`${medication.name}과(와) 복용 기록을 지울까요?`)) {
+      return;
+    }
+    void runAction(async () => {
+      const error = await removeMedication(supabase, medication.id);
+      if (error) {
+        return { type: "error", text: error };
+      }
+      if (editingId === medication.id) {
+        resetDraft();
+      }
+      return { type: "success", text: `${medication.name}을(를) 지웠습니다.` };
+    });
+  };
+
+  if (!elder) {
+    return null;
+  }
+
+  const lowStock = medications.filter(needsRefill);
+
+  return (
+    <section className="card profile-card">
+      <h2 className="profile-section-title">{elder.displayName}님의 약</h2>
+      {lowStock.length > 0 && (
+        <div className="notice error">
+          {lowStock
+            .map((medication) => `${medication.name} ${getDaysLeft(medication)}일치`)
+            .join(", ")}{" "}
+          남았어요. 약을 채워 주세요.
+        </div>
+      )}
+      <ul className="profile-member-list">
+        {medications.length === 0 && (
+          <li className="profile-member">
+            <span className="profile-member-role">등록한 약이 없어요.</span>
+          </li>
+        )}
+        {medications.map((medication) => (
+          <li key={medication.id} className="profile-member">
+            <div className="flex items-center gap-3">
+              {medication.photoPath && photoUrls[medication.photoPath] && (
+                <img
+                  src={photoUrls[medication.photoPath]}
+                  alt={medication.name}
+                  className="h-12 w-12 rounded-lg object-cover"
+                />
+              )}
+              <div className="profile-member-info">
+                <span className="profile-member-name">
+                  {medication.name}
+                  {medication.dose && ` · ${medication.dose}`}
+                </span>
+                <span className="profile-member-role">
+                  하루 {medication.timesPerDay}번 · 한 번에 {medication.pillsPerDose}알 · 남은 양{" "}
+                  {medication.stock}알 ({getDaysLeft(medication)}일치)
+                </span>
+              </div>
+            </div>
+            {canEdit && (
+              <div className="flex items-center gap-2">
+                <button
+                  className="btn secondary"
+                  type="button"
+                  onClick={() => handleRefill(medication)}
+                  disabled={busy}
+                >
+                  채움
+                </button>
+                <button
+                  className="btn ghost"
+                  type="button"
+                  onClick={() => {
+                    setEditingId(medication.id);
+                    setDraft(toDraft(medication));
+                    setNotice(null);
+                  }}
+                  disabled={busy}
+                >
+                  수정
+                </button>
+                <button
+                  className="btn ghost"
+                  type="button"
+                  onClick={() => handleRemove(medication)}
+                  disabled={busy}
+                >
+                  삭제
+                </button>
+              </div>
+            )}
+          </li>
+        ))}
+      </ul>
+
+      {canEdit && (
+        <form className="flex flex-wrap items-end gap-2" onSubmit={handleSubmit}>
+          <label className="field">
+            <span>약 이름</span>
+            <input
+              className="input"
+              value={draft.name}
+              onChange={(event) => setDraft((prev) => ({ ...prev, name: event.target.value }))}
+              placeholder="예: 혈압약"
+              disabled={busy}
+            />
+          </label>
+          <label className="field">
+            <span>용량</span>
+            <input
+              className="input"
+              value={draft.dose}
+              onChange={(event) => setDraft((prev) => ({ ...prev, dose: event.target.value }))}
+              placeholder="예: 5mg"
+              disabled={busy}
+            />
+          </label>
+          <label className="field">
+            <span>하루 횟수</span>
+            <select
+              className="input"
+              value={draft.timesPerDay}
+              onChange={(event) =>
+                setDraft((prev) => ({ ...prev, timesPerDay: event.target.value }))
+              }
+              disabled={busy}
+            >
+              {TIMES_PER_DAY_OPTIONS.map((times) => (
+                <option key={times} value={times}>
+                  {times}번
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="field">
+            <span>한 번에 (알)</span>
+            <input
+              className="input"
+              type="number"
+              min={0.5}
+              step={0.5}
+              value={draft.pillsPerDose}
+              onChange={(event) =>
+                setDraft((prev) => ({ ...prev, pillsPerDose: event.target.value }))
+              }
+              disabled={busy}
+            />
+          </label>
+          <label className="field">
+            <span>남은 양 (알)</span>
+            <input
+              className="input"
+              type="number"
+              min={0}
+              step={0.5}
+              value={draft.stock}
+              onChange={(event) => setDraft((prev) => ({ ...prev, stock: event.target.value }))}
+              disabled={busy}
+            />
+          </label>
+          <label className="field">
+            <span>채울 때 (일치 남으면)</span>
+            <input
+              className="input"
+              type="number"
+              min={0}
+              step={1}
+              value={draft.refillDays}
+              onChange={(event) =>
+                setDraft((prev) => ({ ...prev, refillDays: event.target.value }))
+              }
+              disabled={busy}
+            />
+          </label>
+          <label className="field">
+            <span>사진</span>
+            <input
+              className="input"
+              type="file"
+              accept="image/*"
+              capture="environment"
+              onChange={handlePhotoChange}
+              disabled={busy}
+            />
+          </label>
+          <button className="btn" type="submit" disabled={busy}>
+            {editingId ? "저장" : "약 추가"}
+          </button>
+          {editingId && (
+            <button className="btn ghost" type="button" onClick={resetDraft} disabled={busy}>
+              취소
+            </button>
+          )}
+        </form>
+      )}
+
+      {notice && <div className={`notice ${notice.type}`}>{notice.text}</div>}
+    </section>
+  );
+}
@@ -0,0 +1,222 @@
+"use client";
+
+import { useEffect, useState, type FormEvent } from "react";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { fetchActiveMembership, type GroupMembership } from "@/lib/group-membership";
+import {
+  DEFAULT_NOTIFICATION_PREFERENCES,
+  fetchNotificationPreferences,
+  hasPushSubscription,
+  isPushSupported,
+  saveNotificationPreferences,
+  subscribeThisDevice,
+  unsubscribeThisDevice,
+  type NotificationPreferences
+} from "@/lib/push-notifications";
+
+type NotificationSettingsPanelProps = {
+  supabase: SupabaseClient;
+};
+
+type Notice = { type: "success" | "error"; text: string } | null;
+
+const DEFAULT_QUIET_HOURS = { start: "22:00", end: "07:00" };
+
+// 마이페이지의 알림 설정. 어르신이 할 일을 놓치면 받을 푸시 알림을 가족마다 켜고,
+// 방해 금지 시간을 정한다. 구독은 기기마다 따로 한다.
+export default function NotificationSettingsPanel({ supabase }: NotificationSettingsPanelProps) {
+  const [membership, setMembership] = useState<GroupMembership | null>(null);
+  const [preferences, setPreferences] = useState<NotificationPreferences>(
+    DEFAULT_NOTIFICATION_PREFERENCES
+  );
+  const [subscribed, setSubscribed] = useState(false);
+  const [supported, setSupported] = useState(true);
+  const [notice, setNotice] = useState<Notice>(null);
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    const load = async () => {
+      setSupported(isPushSupported());
+      const active = await fetchActiveMembership(supabase);
+      if (cancelled) {
+        return;
+      }
+      setMembership(active);
+      if (!active) {
+        return;
+      }
+      const [stored, hasSubscription] = await Promise.all([
+        fetchNotificationPreferences(supabase, active.userId),
+        hasPushSubscription()
+      ]);
+      if (cancelled) {
+        return;
+      }
+      if (stored) {
+        setPreferences(stored);
+      }
+      setSubscribed(hasSubscription);
+    };
+
+    void load();
+    const { data } = supabase.auth.onAuthStateChange(() => {
+      void load();
+    });
+    return () => {
+      cancelled = true;
+      data.subscription.unsubscribe();
+    };
+  }, [supabase]);
+
+  const runAction = async (action: () => Promise<Notice>) => {
+    setBusy(true);
+    setNotice(null);
+    try {
+      setNotice(await action());
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleSubmit = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!membership) {
+      return;
+    }
+    void runAction(async () => {
+      // 알림을 켜면 이 기기도 함께 구독한다. 다른 기기는 그 기기에서 따로 켠다.
+      if (preferences.pushEnabled && !subscribed) {
+        const error = await subscribeThisDevice(supabase, membership.userId);
+        if (error) {
+          return { type: "error", text: error };
+        }
+        setSubscribed(true);
+      }
+      const error = await saveNotificationPreferences(supabase, membership.userId, preferences);
+      return error
+        ? { type: "error", text: error }
+        : { type: "success", text: "알림 설정을 저장했습니다." };
+    });
+  };
+
+  const handleUnsubscribe = () => {
+    void runAction(async () => {
+      const error = await unsubscribeThisDevice(supabase);
+      if (error) {
+        return { type: "error", text: error };
+      }
+      setSubscribed(false);
+      return { type: "success", text: "이 기기에서는 더 이상 푸시 알림을 받지 않습니다." };
+    });
+  };
+
+  if (!membership) {
+    return null;
+  }
+
+  return (
+    <section className="card profile-card">
+      <h2 className="profile-section-title">알림</h2>
+      <form className="flex flex-col gap-2" onSubmit={handleSubmit}>
+        <label className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={preferences.pushEnabled}
+            onChange={(event) =>
+              setPreferences((prev) => ({ ...prev, pushEnabled: event.target.checked }))
+            }
+            disabled={busy || !supported}
+          />
+          <span>어르신이 할 일을 놓치면 푸시 알림 받기</span>
+        </label>
+        <label className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={Boolean(preferences.quietHours)}
+            onChange={(event) =>
+              setPreferences((prev) => ({
+                ...prev,
+                quietHours: event.target.checked ? DEFAULT_QUIET_HOURS : null
+              }))
+            }
+            disabled={busy || !preferences.pushEnabled}
+          />
+          <span>방해 금지 시간</span>
+        </label>
+        {preferences.quietHours && (
+          <div className="flex flex-wrap items-end gap-2">
+            <label className="field">
+              <span>시작</span>
+              <input
+                className="input"
+                type="time"
+                value={preferences.quietHours.start}
+                onChange={(event) => {
+                  const start = event.target.value;
+                  setPreferences((prev) =>
+                    prev.quietHours && start
+                      ? { ...prev, quietHours: { ...prev.quietHours, start } }
+                      : prev
+                  );
+                }}
+                disabled={busy}
+              />
+            </label>
+            <label className="field">
+              <span>끝</span>
+              <input
+                className="input"
+                type="time"
+                value={preferences.quietHours.end}
+                onChange={(event) => {
+                  const end = event.target.value;
+                  setPreferences((prev) =>
+                    prev.quietHours && end
+                      ? { ...prev, quietHours: { ...prev.quietHours, end } }
+                      : prev
+                  );
+                }}
+                disabled={busy}
+              />
+            </label>
+          </div>
+        )}
+        <label className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={preferences.weeklyDigest}
+            onChange={(event) =>
+              setPreferences((prev) => ({ ...prev, weeklyDigest: event.target.checked }))
+            }
+            disabled={busy}
+          />
+          <span>매주 월요일 아침 요약 메일 받기</span>
+        </label>
+        <div className="flex flex-wrap items-center gap-2">
+          <button className="btn" type="submit" disabled={busy}>
+            저장
+          </button>
+          {subscribed && (
+            <button
+              className="btn ghost"
+              type="button"
+              onClick={handleUnsubscribe}
+              disabled={busy}
+            >
+              이 기기 알림 끄기
+            </button>
+          )}
+        </div>
+      </form>
+
+      <p className="profile-activity-meta">
+        {supported
+          ? `이 기기: ${subscribed ? "알림 받는 중" : "알림 꺼짐"} · 시간은 한국 시간 기준`
+          : "이 브라우저는 푸시 알림을 지원하지 않습니다. 홈 화면에 추가한 앱이나 다른 브라우저에서 켜 주세요."}
+      </p>
+
+      {notice && <div className={`notice ${notice.type}`}>{notice.text}</div>}
+    </section>
+  );
+}
@@ -0,0 +1,211 @@
+"use client";
+
+import { useEffect, useState, type FormEvent } from "react";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { fetchActiveMembership, type GroupMembership } from "@/lib/group-membership";
+import {
+  PAIRING_EXPIRY_MINUTES,
+  buildPairingLink,
+  createDevicePairing,
+  fetchPairedDevices,
+  revokePairedDevice,
+  type DevicePairing,
+  type PairedDevice
+} from "@/lib/device-pairing";
+import type { ElderProfile } from "@/lib/elders";
+
+type PairedDevicesPanelProps = {
+  supabase: SupabaseClient;
+  elders: ElderProfile[];
+};
+
+type Notice = { type: "success" | "error"; text: string } | null;
+
+const formatDate = (value: string) => {
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    return "";
+  }
+  return `${date.getFullYear()}.${String(date.getMonth() + 1).padStart(2, "0")}.${String(
+    date.getDate()
+  ).padStart(2, "0")} 연결`;
+};
+
+// 마이페이지의 어르신 기기 관리. 관리자가 연결 코드를 만들어 태블릿에 한 번 입력하면
+// 이메일/비밀번호 없이 보기 전용으로 /elder를 열 수 있고, 필요하면 연결을 끊는다.
+export default function PairedDevicesPanel({ supabase, elders }: PairedDevicesPanelProps) {
+  const [membership, setMembership] = useState<GroupMembership | null>(null);
+  const [devices, setDevices] = useState<PairedDevice[]>([]);
+  const [elderId, setElderId] = useState("");
+  const [pairing, setPairing] = useState<DevicePairing | null>(null);
+  const [notice, setNotice] = useState<Notice>(null);
+  const [busy, setBusy] = useState(false);
+  const [revision, setRevision] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+    const load = async () => {
+      const active = await fetchActiveMembership(supabase);
+      if (cancelled) {
+        return;
+      }
+      setMembership(active);
+      if (active?.role !== "admin") {
+        setDevices([]);
+        return;
+      }
+      const next = await fetchPairedDevices(supabase, active.groupId);
+      if (!cancelled && next) {
+        setDevices(next);
+      }
+    };
+
+    void load();
+    const { data } = supabase.auth.onAuthStateChange(() => {
+      void load();
+    });
+    return () => {
+      cancelled = true;
+      data.subscription.unsubscribe();
+    };
+  }, [supabase, revision]);
+
+  const runAction = async (action: () => Promise<Notice>) => {
+    setBusy(true);
+    setNotice(null);
+    try {
+      const result = await action();
+      setNotice(result);
+      setRevision((prev) => prev + 1);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const selectedElderId = elderId || elders[0]?.id || "";
+
+  const handleCreatePairing = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!membership || !selectedElderId) {
+      return;
+    }
+    void runAction(async () => {
+      const result = await createDevicePairing(supabase, {
+        groupId: membership.groupId,
+        userId: membership.userId,
+        elderId: selectedElderId
+      });
+      if (!result.ok) {
+        return { type: "error", text: result.message };
+      }
+      setPairing(result.value);
+      return {
+        type: "success",
+        text: `연결 코드를 만들었습니다. ${PAIRING_EXPIRY_MINUTES}분 안에 태블릿에서 입력해 주세요.`
+      };
+    });
+  };
+
+  const handleCopyLink = async (code: string) => {
+    try {
+      await navigator.clipboard.writeText(buildPairingLink(code));
+      setNotice({ type: "success", text: "연결 링크를 복사했습니다." });
+    } catch {
+      setNotice({
+        type: "error",
+        text: `연결 링크를 복사하지 못했습니다. 태블릿에 코드 ${code}를 입력해 주세요.`
+      });
+    }
+  };
+
+  const handleRevoke = (device: PairedDevice) => {
+    if (!window.confirm("이 기기의 연결을 끊을까요? 다시 쓰려면 새 연결 코드가 필요합니다.")) {
+      return;
+    }
+    void runAction(async () => {
+      const error = await revokePairedDevice(supabase, device.userId);
+      return error
+        ? { type: "error", text: error }
+        : { type: "success", text: "기기 연결을 끊었습니다." };
+    });
+  };
+
+  if (membership?.role !== "admin" || elders.length === 0) {
+    return null;
+  }
+
+  const elderName = (id: string) =>
+    elders.find((elder) => elder.id === id)?.displayName ?? "지워진 어르신";
+
+  return (
+    <section className="card profile-card">
+      <h2 className="profile-section-title">어르신 기기</h2>
+      <form className="flex flex-wrap items-end gap-2" onSubmit={handleCreatePairing}>
+        {elders.length > 1 && (
+          <label className="field">
+            <span>어르신</span>
+            <select
+              className="input"
+              value={selectedElderId}
+              onChange={(event) => setElderId(event.target.value)}
+              disabled={busy}
+            >
+              {elders.map((elder) => (
+                <option key={elder.id} value={elder.id}>
+                  {elder.displayName}
+                </option>
+              ))}
+            </select>
+          </label>
+        )}
+        <button className="btn" type="submit" disabled={busy}>
+          연결 코드 만들기
+        </button>
+      </form>
+
+      {pairing && (
+        <div className="profile-member">
+          <div className="profile-member-info">
+            <span className="profile-member-name">{pairing.code}</span>
+            <span className="profile-member-role">
+              {elderName(pairing.elderId)} · 태블릿의 /elder 화면에 입력
+            </span>
+          </div>
+          <button
+            className="btn secondary"
+            type="button"
+            onClick={() => void handleCopyLink(pairing.code)}
+          >
+            링크 복사
+          </button>
+        </div>
+      )}
+
+      <ul className="profile-member-list">
+        {devices.length === 0 && (
+          <p className="profile-activity-meta">아직 연결된 기기가 없어요.</p>
+        )}
+        {devices.map((device) => (
+          <li key={device.userId} className="profile-member">
+            <div className="profile-member-info">
+              <span className="profile-member-name">{device.label || "이름 없는 기기"}</span>
+              <span className="profile-member-role">
+                {elderName(device.elderId)} · {formatDate(device.createdAt)}
+              </span>
+            </div>
+            <button
+              className="btn ghost"
+              type="button"
+              onClick={() => handleRevoke(device)}
+              disabled={busy}
+            >
+              연결 해제
+            </button>
+          </li>
+        ))}
+      </ul>
+
+      {notice && <div className={`notice ${notice.type}`}>{notice.text}</div>}
+    </section>
+  );
+}
@@ -0,0 +1,223 @@
+"use client";
+
+import { WEEKDAY_THEMES } from "@/lib/constants";
+import {
+  describeRRule,
+  formatRRule,
+  getMonthlyPatterns,
+  type RecurrenceFrequency,
+  type RecurrenceRule
+} from "@/lib/recurrence";
+import { parseDateKey } from "@/lib/time";
+
+type RecurrenceEditorProps = {
+  startDate: string;
+  value: RecurrenceRule;
+  onChange: (rule: RecurrenceRule) => void;
+};
+
+type EndMode = "never" | "count" | "until";
+
+const FREQUENCY_OPTIONS: { value: RecurrenceFrequency; label: string }[] = [
+  { value: "DAILY", label: "일" },
+  { value: "WEEKLY", label: "주" },
+  { value: "MONTHLY", label: "개월" },
+  { value: "YEARLY", label: "년" }
+];
+
+const getEndMode = (rule: RecurrenceRule): EndMode =>
+  rule.count !== null ? "count" : rule.until ? "until" : "never";
+
+// 시작 날짜를 기준으로 주기를 바꿀 때의 기본값을 채운다. 예: 매주 → 시작 요일, 매월 → 시작 일자
+export const buildRuleForFrequency = (
+  freq: RecurrenceFrequency,
+  startDate: string,
+  base?: RecurrenceRule
+): RecurrenceRule => {
+  const start = parseDateKey(startDate);
+  const rule: RecurrenceRule = {
+    freq,
+    interval: base?.interval ?? 1,
+    byDay: [],
+    byMonthDay: [],
+    byMonth: [],
+    count: base?.count ?? null,
+    until: base?.until ?? null
+  };
+  if (!start) {
+    return rule;
+  }
+  if (freq === "WEEKLY") {
+    rule.byDay = [{ weekday: start.getDay(), nth: null }];
+  }
+  if (freq === "MONTHLY" || freq === "YEARLY") {
+    rule.byMonthDay = [start.getDate()];
+  }
+  if (freq === "YEARLY") {
+    rule.byMonth = [start.getMonth() + 1];
+  }
+  return rule;
+};
+
+export default function RecurrenceEditor({ startDate, value, onChange }: RecurrenceEditorProps) {
+  const endMode = getEndMode(value);
+  const monthlyPatterns = getMonthlyPatterns(startDate);
+  const activePattern =
+    monthlyPatterns.find(
+      (pattern) =>
+        formatRRule({ ...value, ...pattern.rule }) === formatRRule(value)
+    )?.key ?? "";
+
+  const update = (patch: Partial<RecurrenceRule>) => onChange({ ...value, ...patch });
+
+  const toggleWeekday = (weekday: number) => {
+    const selected = value.byDay.some((item) => item.weekday === weekday);
+    const byDay = selected
+      ? value.byDay.filter((item) => item.weekday !== weekday)
+      : [...value.byDay, { weekday, nth: null }].sort((a, b) => a.weekday - b.weekday);
+    if (byDay.length > 0) {
+      update({ byDay });
+    }
+  };
+
+  const handleEndModeChange = (mode: EndMode) => {
+    if (mode === "count") {
+      update({ count: value.count ?? 10, until: null });
+      return;
+    }
+    if (mode === "until") {
+      update({ count: null, until: value.until ?? startDate });
+      return;
+    }
+    update({ count: null, until: null });
+  };
+
+  return (
+    <div className="grid gap-3">
+      <div className="flex flex-wrap items-end gap-2">
+        <label className="field">
+          <span>간격</span>
+          <input
+            className="input"
+            type="number"
+            min={1}
+            max={99}
+            value={value.interval}
+            onChange={(event) =>
+              update({ interval: Math.max(1, Math.round(Number(event.target.value)) || 1) })
+            }
+          />
+        </label>
+        <label className="field">
+          <span>단위</span>
+          <select
+            className="input"
+            value={value.freq}
+            onChange={(event) =>
+              onChange(
+                buildRuleForFrequency(
+                  event.target.value as RecurrenceFrequency,
+                  startDate,
+                  value
+                )
+              )
+            }
+          >
+            {FREQUENCY_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}마다
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      {value.freq === "WEEKLY" && (
+        <div className="flex flex-wrap gap-2" role="group" aria-label="반복 요일">
+          {WEEKDAY_THEMES.map((weekday, index) => {
+            const selected = value.byDay.some((item) => item.weekday === index);
+            return (
+              <button
+                key={weekday.name}
+                type="button"
+                className={selected ? "btn" : "btn ghost"}
+                aria-pressed={selected}
+                onClick={() => toggleWeekday(index)}
+              >
+                {weekday.name}
+              </button>
+            );
+          })}
+        </div>
+      )}
+
+      {(value.freq === "MONTHLY" || value.freq === "YEARLY") && monthlyPatterns.length > 0 && (
+        <label className="field">
+          <span>{value.freq === "YEARLY" ? `매년 ${value.byMonth.join("·")}월의` : "매월"}</span>
+          <select
+            className="input"
+            value={activePattern}
+            onChange={(event) => {
+              const pattern = monthlyPatterns.find((item) => item.key === event.target.value);
+              if (pattern) {
+                update(pattern.rule);
+              }
+            }}
+          >
+            {activePattern === "" && <option value="">직접 입력한 규칙</option>}
+            {monthlyPatterns.map((pattern) => (
+              <option key={pattern.key} value={pattern.key}>
+                {pattern.label}
+              </option>
+            ))}
+          </select>
+        </label>
+      )}
+
+      <div className="flex flex-wrap items-end gap-2">
+        <label className="field">
+          <span>종료</span>
+          <select
+            className="input"
+            value={endMode}
+            onChange={(event) => handleEndModeChange(event.target.value as EndMode)}
+          >
+            <option value="never">계속 반복</option>
+            <option value="count">횟수 지정</option>
+            <option value="until">날짜까지</option>
+          </select>
+        </label>
+        {endMode === "count" && (
+          <label className="field">
+            <span>횟수</span>
+            <input
+              className="input"
+              type="number"
+              min={1}
+              value={value.count ?? 1}
+              onChange={(event) =>
+                update({ count: Math.max(1, Math.round(Number(event.target.value)) || 1) })
+              }
+            />
+          </label>
+        )}
+        {endMode === "until" && (
+          <label className="field">
+            <span>마지막 날짜</span>
+            <input
+              className="input"
+              type="date"
+              min={startDate}
+              value={value.until ?? ""}
+              onChange={(event) => update({ until: event.target.value || null })}
+            />
+          </label>
+        )}
+      </div>
+
+      <p className="calendar-section-subtitle">
+        {describeRRule(value)} · <code>{formatRRule(value)}</code>
+      </p>
+    </div>
+  );
+}
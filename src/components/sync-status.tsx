@@ -0,0 +1,139 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import {
+  discardRejected,
+  listOutbox,
+  resolveConflict,
+  startOutboxSync,
+  subscribeOutbox,
+  type OutboxEntry
+} from "@/lib/outbox";
+
+type SyncStatusProps = {
+  supabase: SupabaseClient;
+  onResolved?: () => void;
+};
+
+const describeEntry = (entry: OutboxEntry) => {
+  switch (entry.mutation.kind) {
+    case "schedule.save":
+      return "반복 일정";
+    case "event.upsert":
+      return `일정 "${entry.mutation.event.label}"`;
+    case "event.delete":
+      return "삭제한 일정";
+    case "alert.respond":
+      return "알림 응답";
+    case "dose.record":
+      return "약 복용 기록";
+    default:
+      return "완료 기록";
+  }
+};
+
+// 아직 서버에 올리지 못한 수정 건수와, 그 사이 가족이 바꾼 내용과 부딪힌 수정,
+// 권한이 없거나 그룹에서 빠져 다시 보내도 올라가지 않는 수정을 보여준다.
+export default function SyncStatus({ supabase, onResolved }: SyncStatusProps) {
+  const [entries, setEntries] = useState<OutboxEntry[]>([]);
+  const [resolving, setResolving] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    const refresh = () => {
+      void listOutbox().then((next) => {
+        if (!cancelled) {
+          setEntries(next);
+        }
+      });
+    };
+    refresh();
+    const unsubscribe = subscribeOutbox(refresh);
+    const stopSync = startOutboxSync(supabase);
+    return () => {
+      cancelled = true;
+      unsubscribe();
+      stopSync();
+    };
+  }, [supabase]);
+
+  const conflicts = entries.filter((entry) => entry.status === "conflict");
+  const rejected = entries.filter((entry) => entry.status === "rejected");
+  const pendingCount = entries.length - conflicts.length - rejected.length;
+
+  if (entries.length === 0) {
+    return null;
+  }
+
+  const handleResolve = async (entry: OutboxEntry, choice: "mine" | "theirs") => {
+    if (entry.seq === undefined) {
+      return;
+    }
+    setResolving(true);
+    await resolveConflict(supabase, entry.seq, choice);
+    setResolving(false);
+    onResolved?.();
+  };
+
+  const handleDiscard = async (entry: OutboxEntry) => {
+    if (entry.seq === undefined) {
+      return;
+    }
+    setResolving(true);
+    await discardRejected(entry.seq);
+    setResolving(false);
+    onResolved?.();
+  };
+
+  return (
+    <div className="grid gap-3" role="status">
+      {pendingCount > 0 && (
+        <div className="notice success">동기화 대기 중 · {pendingCount}건</div>
+      )}
+      {conflicts.map((entry) => (
+        <div key={entry.seq} className="notice error grid gap-3">
+          <span>
+            {describeEntry(entry)}을(를) 오프라인에서 고치는 동안 다른 가족이 먼저 바꿨어요.
+          </span>
+          <div className="flex flex-wrap gap-2">
+            <button
+              className="btn"
+              type="button"
+              disabled={resolving}
+              onClick={() => void handleResolve(entry, "mine")}
+            >
+              내 변경으로 덮어쓰기
+            </button>
+            <button
+              className="btn ghost"
+              type="button"
+              disabled={resolving}
+              onClick={() => void handleResolve(entry, "theirs")}
+            >
+              가족이 바꾼 내용 유지
+            </button>
+          </div>
+        </div>
+      ))}
+      {rejected.map((entry) => (
+        <div key={entry.seq} className="notice error grid gap-3">
+          <span>
+            {describeEntry(entry)}을(를) 가족 그룹에 올리지 못했어요.
+            {entry.error && ` (${entry.error})`}
+          </span>
+          <div className="flex flex-wrap gap-2">
+            <button
+              className="btn ghost"
+              type="button"
+              disabled={resolving}
+              onClick={() => void handleDiscard(entry)}
+            >
+              이 변경 버리기
+            </button>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,162 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import {
+  VOICE_CLIP_MAX_SECONDS,
+  fetchVoiceClipUrls,
+  isRecordingSupported,
+  playVoiceClip,
+  uploadVoiceClip
+} from "@/lib/voice";
+
+type VoiceClipRecorderProps = {
+  supabase: SupabaseClient;
+  elderId: string;
+  value: string | null;
+  onChange: (path: string | null) => void;
+};
+
+// 반복 일정 편집 창에서 가족이 할 일 안내를 직접 녹음한다. 올린 경로는 블록을 저장할 때 함께 남는다.
+export default function VoiceClipRecorder({
+  supabase,
+  elderId,
+  value,
+  onChange
+}: VoiceClipRecorderProps) {
+  const [recording, setRecording] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState("");
+  const [supported, setSupported] = useState(true);
+  const recorderRef = useRef<MediaRecorder | null>(null);
+  const stopTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  useEffect(() => {
+    setSupported(isRecordingSupported());
+    return () => {
+      if (stopTimerRef.current) {
+        window.clearTimeout(stopTimerRef.current);
+      }
+      recorderRef.current?.stream.getTracks().forEach((track) => track.stop());
+    };
+  }, []);
+
+  const handleRecord = async () => {
+    setError("");
+    let stream: MediaStream;
+    try {
+      stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+    } catch (err) {
+      setError("마이크를 쓸 수 없어요. 브라우저에서 마이크 권한을 허용해 주세요.");
+      return;
+    }
+    const recorder = new MediaRecorder(stream);
+    const chunks: Blob[] = [];
+    recorder.addEventListener("dataavailable", (event) => {
+      if (event.data.size > 0) {
+        chunks.push(event.data);
+      }
+    });
+    recorder.addEventListener("stop", () => {
+      stream.getTracks().forEach((track) => track.stop());
+      recorderRef.current = null;
+      setRecording(false);
+      const clip = new Blob(chunks, { type: recorder.mimeType || "audio/webm" });
+      if (clip.size === 0) {
+        return;
+      }
+      setBusy(true);
+      void uploadVoiceClip(supabase, { elderId, clip }).then((result) => {
+        setBusy(false);
+        if (result.ok) {
+          onChange(result.value);
+        } else {
+          setError(result.message);
+        }
+      });
+    });
+    recorderRef.current = recorder;
+    recorder.start();
+    setRecording(true);
+    stopTimerRef.current = setTimeout(() => {
+      handleStop();
+    }, VOICE_CLIP_MAX_SECONDS * 1000);
+  };
+
+  const handleStop = () => {
+    if (stopTimerRef.current) {
+      window.clearTimeout(stopTimerRef.current);
+      stopTimerRef.current = null;
+    }
+    if (recorderRef.current?.state === "recording") {
+      recorderRef.current.stop();
+    }
+  };
+
+  const handlePlay = async () => {
+    if (!value) {
+      return;
+    }
+    setError("");
+    const url = (await fetchVoiceClipUrls(supabase, [value]))[value];
+    if (!url || !(await playVoiceClip(url, 1))) {
+      setError("녹음을 재생하지 못했어요.");
+    }
+  };
+
+  if (!supported) {
+    return null;
+  }
+
+  return (
+    <div className="field">
+      <span>가족 목소리 안내</span>
+      <div className="flex flex-wrap items-center gap-2">
+        {recording ? (
+          <button className="btn" type="button" onClick={handleStop}>
+            녹음 멈추기
+          </button>
+        ) : (
+          <button
+            className="btn secondary"
+            type="button"
+            onClick={() => void handleRecord()}
+            disabled={busy}
+          >
+            {value ? "다시 녹음" : "녹음"}
+          </button>
+        )}
+        {value && !recording && (
+          <>
+            <button
+              className="btn ghost"
+              type="button"
+              onClick={() => void handlePlay()}
+              disabled={busy}
+            >
+              들어보기
+            </button>
+            <button
+              className="btn ghost"
+              type="button"
+              onClick={() => onChange(null)}
+              disabled={busy}
+            >
+              지우기
+            </button>
+          </>
+        )}
+      </div>
+      <span className="block-hint">
+        {busy
+          ? "올리는 중..."
+          : recording
+            ? `녹음 중이에요. 최대 ${VOICE_CLIP_MAX_SECONDS}초`
+            : value
+              ? "알림 때 음성 안내 대신 이 녹음을 들려드려요."
+              : "녹음하지 않으면 기기의 음성으로 읽어 드려요."}
+      </span>
+      {error && <span className="block-hint">{error}</span>}
+    </div>
+  );
+}
@@ -0,0 +1,128 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import PrimaryButton from "@/components/ui/primary-button";
+import {
+  VOICE_RATE_OPTIONS,
+  isSpeechSupported,
+  listKoreanVoices,
+  speak,
+  type VoiceSettings
+} from "@/lib/voice";
+
+type VoiceSettingsDialogProps = {
+  settings: VoiceSettings;
+  onChange: (settings: VoiceSettings) => void;
+  onClose: () => void;
+};
+
+const SAMPLE_TEXT = "10분 전이에요, 점심 식사";
+
+// /elder의 음성 안내 설정. 가족이 태블릿을 맞춰 줄 때 쓰며 이 기기에만 저장된다.
+export default function VoiceSettingsDialog({
+  settings,
+  onChange,
+  onClose
+}: VoiceSettingsDialogProps) {
+  const [voices, setVoices] = useState<SpeechSynthesisVoice[]>([]);
+  const supported = isSpeechSupported();
+
+  useEffect(() => {
+    let cancelled = false;
+    void listKoreanVoices().then((list) => {
+      if (!cancelled) {
+        setVoices(list);
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return (
+    <div
+      className="fixed inset-0 z-40 flex items-center justify-center px-4"
+      role="dialog"
+      aria-modal="true"
+    >
+      <div className="absolute inset-0 bg-black/30" aria-hidden="true" />
+      <div className="relative z-10 flex w-full max-w-md flex-col gap-4 rounded-xl border border-gray-200 bg-white p-6">
+        <div className="text-center text-2xl font-bold text-slate-900">음성 안내</div>
+        {supported ? (
+          <>
+            <label className="flex items-center gap-2 text-lg">
+              <input
+                type="checkbox"
+                checked={settings.enabled}
+                onChange={(event) => onChange({ ...settings, enabled: event.target.checked })}
+              />
+              <span>알림을 소리 내어 읽어 주기</span>
+            </label>
+            <label className="field">
+              <span>목소리</span>
+              <select
+                className="input"
+                value={settings.voiceURI ?? ""}
+                onChange={(event) =>
+                  onChange({ ...settings, voiceURI: event.target.value || null })
+                }
+                disabled={!settings.enabled}
+              >
+                <option value="">기본 한국어 음성</option>
+                {voices.map((voice) => (
+                  <option key={voice.voiceURI} value={voice.voiceURI}>
+                    {voice.name}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="field">
+              <span>빠르기</span>
+              <select
+                className="input"
+                value={settings.rate}
+                onChange={(event) => onChange({ ...settings, rate: Number(event.target.value) })}
+                disabled={!settings.enabled}
+              >
+                {VOICE_RATE_OPTIONS.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="field">
+              <span>크기 {Math.round(settings.volume * 100)}%</span>
+              <input
+                type="range"
+                min={0}
+                max={100}
+                step={10}
+                value={Math.round(settings.volume * 100)}
+                onChange={(event) =>
+                  onChange({ ...settings, volume: Number(event.target.value) / 100 })
+                }
+                disabled={!settings.enabled}
+              />
+            </label>
+            <button
+              className="btn secondary"
+              type="button"
+              onClick={() => void speak(SAMPLE_TEXT, settings)}
+              disabled={!settings.enabled}
+            >
+              들어보기
+            </button>
+          </>
+        ) : (
+          <p className="text-center text-lg text-slate-600">
+            이 브라우저는 음성 안내를 지원하지 않아요.
+          </p>
+        )}
+        <PrimaryButton type="button" className="w-full rounded-lg py-3 text-xl" onClick={onClose}>
+          닫기
+        </PrimaryButton>
+      </div>
+    </div>
+  );
+}
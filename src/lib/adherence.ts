@@ -0,0 +1,199 @@
+import type { ScheduleSet } from "./types";
+import { isCompletionForTask, type TaskCompletion } from "./completions";
+import type { ScheduleRevision } from "./schedule-sync";
+import { resolveScheduleForDate } from "./schedule-templates";
+import { addDays, buildBlocks, getDateKey, parseDateKey } from "./time";
+
+const MINUTE_MS = 60 * 1000;
+
+// 하루 한 할 일의 결과. 끝 시각이 지난 할 일만 만든다.
+export type AdherenceRecord = {
+  dateKey: string;
+  taskId: string;
+  label: string;
+  start: string;
+  done: boolean;
+  delayMinutes: number | null; // 시작 시각부터 체크까지(분). 시작 전에 체크하면 음수
+};
+
+export type AdherenceSummary = {
+  total: number;
+  done: number;
+  rate: number | null; // 0~100. 할 일이 없으면 null
+  averageDelay: number | null;
+};
+
+export type AdherenceBucket = {
+  key: string;
+  label: string;
+  summary: AdherenceSummary;
+};
+
+export type AdherenceStreaks = {
+  current: number;
+  best: number;
+};
+
+// 그날 끝까지 저장된 마지막 사본을 쓴다. 기록이 시작되기 전 날은 첫 사본으로 본다.
+export const getScheduleForDate = (
+  revisions: ScheduleRevision[],
+  dateKey: string,
+  fallback: ScheduleSet
+): ScheduleSet => {
+  const date = parseDateKey(dateKey);
+  if (!date || revisions.length === 0) {
+    return fallback;
+  }
+  const dayEnd = addDays(date, 1).getTime();
+  let current = revisions[0];
+  revisions.forEach((revision) => {
+    if (new Date(revision.savedAt).getTime() < dayEnd) {
+      current = revision;
+    }
+  });
+  return current.schedule;
+};
+
+export const listDateKeys = (fromKey: string, toKey: string): string[] => {
+  const from = parseDateKey(fromKey);
+  const to = parseDateKey(toKey);
+  if (!from || !to) {
+    return [];
+  }
+  const keys: string[] = [];
+  for (let date = from; date <= to; date = addDays(date, 1)) {
+    keys.push(getDateKey(date));
+  }
+  return keys;
+};
+
+export const buildAdherenceRecords = (input: {
+  revisions: ScheduleRevision[];
+  fallback: ScheduleSet;
+  completions: TaskCompletion[];
+  fromKey: string;
+  toKey: string;
+  now: Date;
+}): AdherenceRecord[] => {
+  const completionsByDate = new Map<string, TaskCompletion[]>();
+  input.completions.forEach((completion) => {
+    const list = completionsByDate.get(completion.dateKey) ?? [];
+    list.push(completion);
+    completionsByDate.set(completion.dateKey, list);
+  });
+
+  const records: AdherenceRecord[] = [];
+  listDateKeys(input.fromKey, input.toKey).forEach((dateKey) => {
+    const date = parseDateKey(dateKey);
+    if (!date) {
+      return;
+    }
+    const schedule = getScheduleForDate(input.revisions, dateKey, input.fallback);
+    const completions = completionsByDate.get(dateKey) ?? [];
+    buildBlocks(resolveScheduleForDate(schedule, date)).forEach((block) => {
+      // 아직 끝나지 않은 할 일은 놓친 것으로 세지 않는다.
+      if (date.getTime() + block.endMin * MINUTE_MS > input.now.getTime()) {
+        return;
+      }
+      const completion = completions.find((item) => isCompletionForTask(item, block));
+      const completedAt = completion ? new Date(completion.completedAt).getTime() : Number.NaN;
+      records.push({
+        dateKey,
+        taskId: block.id,
+        label: block.label.trim() || "일정",
+        start: block.start,
+        done: Boolean(completion),
+        delayMinutes: Number.isNaN(completedAt)
+          ? null
+          : Math.round((completedAt - (date.getTime() + block.startMin * MINUTE_MS)) / MINUTE_MS)
+      });
+    });
+  });
+  return records;
+};
+
+export const summarizeAdherence = (records: AdherenceRecord[]): AdherenceSummary => {
+  const done = records.filter((record) => record.done);
+  const delays = done
+    .map((record) => record.delayMinutes)
+    .filter((delay): delay is number => delay !== null);
+  return {
+    total: records.length,
+    done: done.length,
+    rate: records.length > 0 ? Math.round((done.length / records.length) * 100) : null,
+    averageDelay:
+      delays.length > 0
+        ? Math.round(delays.reduce((sum, delay) => sum + delay, 0) / delays.length)
+        : null
+  };
+};
+
+const groupRecords = (
+  records: AdherenceRecord[],
+  getKey: (dateKey: string) => string,
+  getLabel: (key: string) => string
+): AdherenceBucket[] => {
+  const groups = new Map<string, AdherenceRecord[]>();
+  records.forEach((record) => {
+    const key = getKey(record.dateKey);
+    groups.set(key, [...(groups.get(key) ?? []), record]);
+  });
+  return [...groups.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([key, list]) => ({ key, label: getLabel(key), summary: summarizeAdherence(list) }));
+};
+
+export const groupByDay = (records: AdherenceRecord[]) =>
+  groupRecords(
+    records,
+    (dateKey) => dateKey,
+    (key) => `${Number(key.slice(5, 7))}/${Number(key.slice(8, 10))}`
+  );
+
+// 주는 월요일부터 센다.
+export const getWeekStartKey = (dateKey: string) => {
+  const date = parseDateKey(dateKey);
+  if (!date) {
+    return dateKey;
+  }
+  return getDateKey(addDays(date, -((date.getDay() + 6) % 7)));
+};
+
+export const groupByWeek = (records: AdherenceRecord[]) =>
+  groupRecords(
+    records,
+    getWeekStartKey,
+    (key) => `${Number(key.slice(5, 7))}/${Number(key.slice(8, 10))} 주`
+  );
+
+export const groupByMonth = (records: AdherenceRecord[]) =>
+  groupRecords(
+    records,
+    (dateKey) => dateKey.slice(0, 7),
+    (key) => `${key.slice(0, 4)}년 ${Number(key.slice(5, 7))}월`
+  );
+
+// 모든 할 일을 체크한 날이 며칠 이어졌는지. 할 일이 없는 날은 건너뛰고 끊지 않는다.
+export const getStreaks = (records: AdherenceRecord[]): AdherenceStreaks => {
+  let current = 0;
+  let best = 0;
+  groupByDay(records).forEach((day) => {
+    if (day.summary.total === 0) {
+      return;
+    }
+    current = day.summary.done === day.summary.total ? current + 1 : 0;
+    best = Math.max(best, current);
+  });
+  return { current, best };
+};
+
+// 할 일 필터에 쓸 이름. 자주 나온 순서로 돌려준다.
+export const listTaskLabels = (records: AdherenceRecord[]): string[] => {
+  const counts = new Map<string, number>();
+  records.forEach((record) => {
+    counts.set(record.label, (counts.get(record.label) ?? 0) + 1);
+  });
+  return [...counts.entries()]
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .map(([label]) => label);
+};
@@ -0,0 +1,106 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { getDeviceId } from "./device";
+import { fetchActiveMembership } from "./group-membership";
+import type { DoneActivityItem } from "./storage";
+import { NO_MEMBERSHIP_SYNC_FAILURE, toSyncFailure, type SyncFailure } from "./sync-state";
+
+const ALERT_RESPONSES_TABLE = "alert_responses";
+const ALERT_RESPONSE_COLUMNS = "id, date_key, task_id, title, action, responded_at";
+
+export type AlertResponseAction = "acknowledged" | "snoozed";
+
+export type AlertResponseInput = {
+  dateKey: string;
+  taskId: string;
+  title: string;
+  alertType: string;
+  action: AlertResponseAction;
+  snoozeMinutes: number | null;
+  respondedAt: string;
+};
+
+type AlertResponseRow = {
+  id?: string | null;
+  date_key?: string | null;
+  task_id?: string | null;
+  title?: string | null;
+  action?: string | null;
+  responded_at?: string | null;
+};
+
+const rowToActivity = (row: AlertResponseRow): DoneActivityItem | null => {
+  if (
+    !row.id ||
+    !row.date_key ||
+    !row.task_id ||
+    !row.responded_at ||
+    (row.action !== "acknowledged" && row.action !== "snoozed")
+  ) {
+    return null;
+  }
+  return {
+    id: row.id,
+    taskId: row.task_id,
+    kind: row.action,
+    title: row.title?.trim() || "일정",
+    completedAt: row.responded_at,
+    dateKey: row.date_key
+  };
+};
+
+export const recordAlertResponse = async (
+  supabase: SupabaseClient,
+  elderId: string,
+  input: AlertResponseInput
+): Promise<SyncFailure | null> => {
+  const membership = await fetchActiveMembership(supabase);
+  if (!membership) {
+    return NO_MEMBERSHIP_SYNC_FAILURE;
+  }
+
+  // 아웃박스가 다시 보낸 응답은 응답 시각까지 같으므로 건너뛴다.
+  const { error } = await supabase.from(ALERT_RESPONSES_TABLE).upsert(
+    {
+      group_id: membership.groupId,
+      elder_id: elderId,
+      date_key: input.dateKey,
+      task_id: input.taskId,
+      title: input.title,
+      alert_type: input.alertType,
+      action: input.action,
+      snooze_minutes: input.snoozeMinutes,
+      responded_at: input.respondedAt,
+      responded_by: membership.userId,
+      device_id: getDeviceId()
+    },
+    { onConflict: "elder_id,date_key,task_id,action,responded_at", ignoreDuplicates: true }
+  );
+
+  return error ? toSyncFailure(error) : null;
+};
+
+// 최근 활동에 완료 체크와 함께 보여줄 알림 응답. 읽지 못하면 완료 체크만 보인다.
+export const fetchRecentAlertResponses = async (
+  supabase: SupabaseClient,
+  elderId: string | null,
+  limit: number
+): Promise<DoneActivityItem[]> => {
+  if (!elderId) {
+    return [];
+  }
+
+  const { data, error } = await supabase
+    .from(ALERT_RESPONSES_TABLE)
+    .select(ALERT_RESPONSE_COLUMNS)
+    .eq("elder_id", elderId)
+    .order("responded_at", { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    return [];
+  }
+
+  return (data ?? [])
+    .map((row: AlertResponseRow) => rowToActivity(row))
+    .filter((item): item is DoneActivityItem => Boolean(item));
+};
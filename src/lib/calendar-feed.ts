@@ -0,0 +1,146 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { CalendarEvent } from "./types";
+import { fetchEventsForGroups } from "./event-sync";
+import type { GroupActionResult } from "./group-invites";
+import { getLunarOccurrenceKey } from "./lunar";
+import { parseDateKey } from "./time";
+
+const CALENDAR_FEED_TOKENS_TABLE = "calendar_feed_tokens";
+export const CALENDAR_FEED_PATH = "/api/calendar.ics";
+
+export type CalendarFeed = {
+  name: string;
+  events: CalendarEvent[];
+};
+
+type ElderBirthdayRow = {
+  id: string;
+  display_name: string;
+  birth_lunar_month: number | null;
+  birth_lunar_day: number | null;
+};
+
+// webcal:// 주소는 휴대폰에서 누르면 캘린더 앱의 구독 화면이 바로 열린다.
+export const buildCalendarFeedUrl = (token: string, scheme: "https" | "webcal" = "https") => {
+  const origin = typeof window === "undefined" ? "" : window.location.origin;
+  const url = `${origin}${CALENDAR_FEED_PATH}?token=${encodeURIComponent(token)}`;
+  return scheme === "webcal" ? url.replace(/^https?:/, "webcal:") : url;
+};
+
+export const fetchCalendarFeedToken = async (
+  supabase: SupabaseClient,
+  userId: string
+): Promise<string | null> => {
+  const { data, error } = await supabase
+    .from(CALENDAR_FEED_TOKENS_TABLE)
+    .select("token")
+    .eq("user_id", userId)
+    .maybeSingle();
+  return error ? null : ((data as { token?: string } | null)?.token ?? null);
+};
+
+// 새 토큰을 만든다. 이미 있으면 바뀌어 이전 주소로는 더 이상 받을 수 없다.
+export const issueCalendarFeedToken = async (
+  supabase: SupabaseClient
+): Promise<GroupActionResult<string>> => {
+  const { data, error } = await supabase.rpc("issue_calendar_feed_token");
+  if (error || typeof data !== "string") {
+    return { ok: false, message: error?.message ?? "구독 주소를 만들지 못했습니다." };
+  }
+  return { ok: true, value: data };
+};
+
+export const revokeCalendarFeedToken = async (
+  supabase: SupabaseClient,
+  userId: string
+): Promise<string | null> => {
+  const { error } = await supabase
+    .from(CALENDAR_FEED_TOKENS_TABLE)
+    .delete()
+    .eq("user_id", userId);
+  return error ? error.message : null;
+};
+
+// 서버(/api/calendar.ics)용. 토큰 주인이 처음 들어간 그룹의 일정과, /calendar처럼
+// 어르신 음력 생신과 본인 생일을 모은다. 토큰이 없거나 그룹이 없으면 null.
+export const loadCalendarFeed = async (
+  admin: SupabaseClient,
+  token: string
+): Promise<CalendarFeed | null> => {
+  const { data: tokenRow } = await admin
+    .from(CALENDAR_FEED_TOKENS_TABLE)
+    .select("user_id")
+    .eq("token", token)
+    .maybeSingle();
+  const userId = (tokenRow as { user_id?: string } | null)?.user_id;
+  if (!userId) {
+    return null;
+  }
+
+  const { data: memberRows } = await admin
+    .from("group_members")
+    .select("group_id, groups(name)")
+    .eq("user_id", userId)
+    .order("created_at", { ascending: true })
+    .limit(1);
+  const member = (memberRows ?? [])[0] as
+    | { group_id: string; groups?: { name?: string | null } | null }
+    | undefined;
+  if (!member) {
+    return null;
+  }
+
+  const [eventsByGroup, { data: elders }, { data: userData }] = await Promise.all([
+    fetchEventsForGroups(admin, [member.group_id]),
+    admin
+      .from("grandma_profiles")
+      .select("id, display_name, birth_lunar_month, birth_lunar_day")
+      .eq("group_id", member.group_id),
+    admin.auth.admin.getUserById(userId)
+  ]);
+  const events = [...(eventsByGroup.get(member.group_id) ?? [])];
+
+  const thisYear = new Date().getFullYear();
+  ((elders ?? []) as ElderBirthdayRow[]).forEach((elder) => {
+    const startDate =
+      elder.birth_lunar_month && elder.birth_lunar_day
+        ? getLunarOccurrenceKey(
+            { month: elder.birth_lunar_month, day: elder.birth_lunar_day, leap: false },
+            thisYear - 1
+          )
+        : null;
+    if (startDate) {
+      events.push({
+        id: `elder-birthday-${elder.id}`,
+        startDate,
+        endDate: startDate,
+        start: "00:00",
+        end: "23:59",
+        label: `${elder.display_name}님 생신(음력)`,
+        allDay: true,
+        repeat: "lunarYearly",
+        source: "system"
+      });
+    }
+  });
+
+  const metadata = (userData.user?.user_metadata ?? {}) as Record<string, unknown>;
+  const name = typeof metadata.name === "string" ? metadata.name.trim() : "";
+  const relation = typeof metadata.relation === "string" ? metadata.relation.trim() : "";
+  const birthdate = typeof metadata.birthdate === "string" ? metadata.birthdate.trim() : "";
+  if (name && parseDateKey(birthdate)) {
+    events.push({
+      id: `birthday-${userId}`,
+      startDate: birthdate,
+      endDate: birthdate,
+      start: "00:00",
+      end: "23:59",
+      label: relation ? `${name}(${relation}) 생일` : `${name} 생일`,
+      allDay: true,
+      repeat: "yearly",
+      source: "system"
+    });
+  }
+
+  return { name: member.groups?.name?.trim() || "가족 일정", events };
+};
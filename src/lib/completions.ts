@@ -0,0 +1,193 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { BuiltBlock } from "./types";
+import { getDeviceId } from "./device";
+import { fetchActiveMembership } from "./group-membership";
+import { loadDoneActivities, type DoneActivityItem } from "./storage";
+import { NO_MEMBERSHIP_SYNC_FAILURE, toSyncFailure, type SyncFailure } from "./sync-state";
+
+const TASK_COMPLETIONS_TABLE = "task_completions";
+const COMPLETION_COLUMNS = "id, date_key, task_id, title, completed_at, device_id";
+
+export type TaskCompletion = {
+  id: string;
+  dateKey: string;
+  taskId: string;
+  title: string;
+  completedAt: string;
+  deviceId: string;
+};
+
+type TaskCompletionRow = {
+  id?: string | null;
+  date_key?: string | null;
+  task_id?: string | null;
+  title?: string | null;
+  completed_at?: string | null;
+  device_id?: string | null;
+};
+
+type RecordCompletionInput = {
+  dateKey: string;
+  taskId: string;
+  title: string;
+  completedAt: string;
+};
+
+type TaskRef = Pick<BuiltBlock, "id" | "start" | "end" | "label">;
+
+export const getTaskId = (block: Pick<BuiltBlock, "id">) => block.id;
+
+// 할 일 id를 도입하기 전에는 시간대와 할 일 내용으로 기록했으므로 그 기록도 같은 할 일로 본다.
+const getLegacyTaskId = (block: TaskRef) =>
+  `${block.start}-${block.end}|${block.label.trim()}`;
+
+export const isCompletionForTask = (
+  completion: Pick<TaskCompletion, "taskId">,
+  block: TaskRef
+) => completion.taskId === block.id || completion.taskId === getLegacyTaskId(block);
+
+const rowToCompletion = (row: TaskCompletionRow): TaskCompletion | null => {
+  const id = row.id ?? "";
+  const dateKey = row.date_key ?? "";
+  const taskId = row.task_id ?? "";
+  const completedAt = row.completed_at ?? "";
+  if (!id || !dateKey || !taskId || !completedAt) {
+    return null;
+  }
+  return {
+    id,
+    dateKey,
+    taskId,
+    title: row.title?.trim() || "일정",
+    completedAt,
+    deviceId: row.device_id ?? ""
+  };
+};
+
+export const completionToActivity = (
+  completion: TaskCompletion
+): DoneActivityItem => ({
+  id: completion.id,
+  taskId: completion.taskId,
+  title: completion.title,
+  completedAt: completion.completedAt,
+  dateKey: completion.dateKey
+});
+
+export const recordCompletion = async (
+  supabase: SupabaseClient,
+  elderId: string,
+  input: RecordCompletionInput
+): Promise<SyncFailure | null> => {
+  const membership = await fetchActiveMembership(supabase);
+  if (!membership) {
+    return NO_MEMBERSHIP_SYNC_FAILURE;
+  }
+
+  const { error } = await supabase.from(TASK_COMPLETIONS_TABLE).upsert(
+    {
+      group_id: membership.groupId,
+      elder_id: elderId,
+      date_key: input.dateKey,
+      task_id: input.taskId,
+      title: input.title,
+      completed_at: input.completedAt,
+      completed_by: membership.userId,
+      device_id: getDeviceId()
+    },
+    { onConflict: "elder_id,date_key,task_id" }
+  );
+
+  return error ? toSyncFailure(error) : null;
+};
+
+export const removeCompletion = async (
+  supabase: SupabaseClient,
+  elderId: string,
+  dateKey: string,
+  block: TaskRef
+): Promise<SyncFailure | null> => {
+  const { error } = await supabase
+    .from(TASK_COMPLETIONS_TABLE)
+    .delete()
+    .eq("elder_id", elderId)
+    .eq("date_key", dateKey)
+    .in("task_id", [block.id, getLegacyTaskId(block)]);
+
+  return error ? toSyncFailure(error) : null;
+};
+
+// 서버 기록을 확인할 수 없으면 null을 돌려 호출한 쪽이 로컬 상태를 유지하게 한다.
+export const fetchCompletionsForDate = async (
+  supabase: SupabaseClient,
+  elderId: string | null,
+  dateKey: string
+): Promise<TaskCompletion[] | null> => {
+  if (!elderId) {
+    return null;
+  }
+
+  const { data, error } = await supabase
+    .from(TASK_COMPLETIONS_TABLE)
+    .select(COMPLETION_COLUMNS)
+    .eq("elder_id", elderId)
+    .eq("date_key", dateKey);
+
+  if (error) {
+    return null;
+  }
+
+  return (data ?? [])
+    .map((row: TaskCompletionRow) => rowToCompletion(row))
+    .filter((item): item is TaskCompletion => Boolean(item));
+};
+
+// 통계용. 기간의 완료 기록을 날짜 순서로 읽는다. 읽지 못하면 null.
+export const fetchCompletionsInRange = async (
+  supabase: SupabaseClient,
+  elderId: string,
+  fromKey: string,
+  toKey: string
+): Promise<TaskCompletion[] | null> => {
+  const { data, error } = await supabase
+    .from(TASK_COMPLETIONS_TABLE)
+    .select(COMPLETION_COLUMNS)
+    .eq("elder_id", elderId)
+    .gte("date_key", fromKey)
+    .lte("date_key", toKey)
+    .order("date_key", { ascending: true });
+
+  if (error) {
+    return null;
+  }
+
+  return (data ?? [])
+    .map((row: TaskCompletionRow) => rowToCompletion(row))
+    .filter((item): item is TaskCompletion => Boolean(item));
+};
+
+export const fetchRecentActivities = async (
+  supabase: SupabaseClient,
+  elderId: string | null,
+  limit: number
+): Promise<DoneActivityItem[]> => {
+  if (!elderId) {
+    return loadDoneActivities().slice(0, limit);
+  }
+
+  const { data, error } = await supabase
+    .from(TASK_COMPLETIONS_TABLE)
+    .select(COMPLETION_COLUMNS)
+    .eq("elder_id", elderId)
+    .order("completed_at", { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    return loadDoneActivities().slice(0, limit);
+  }
+
+  return (data ?? [])
+    .map((row: TaskCompletionRow) => rowToCompletion(row))
+    .filter((item): item is TaskCompletion => Boolean(item))
+    .map(completionToActivity);
+};
@@ -1,14 +1,14 @@
 import type { AlertTarget, TimeBlock, WeekdayTheme } from "./types";
 
 export const TIME_BLOCKS: TimeBlock[] = [
-  { start: "00:00", end: "06:30", label: "편안히 쉬기" },
-  { start: "06:30", end: "09:00", label: "아침 식사 후 약 복용" },
-  { start: "09:00", end: "11:30", label: "물 한 컵 마시기" },
-  { start: "11:30", end: "13:30", label: "점심 식사" },
-  { start: "13:30", end: "16:30", label: "가벼운 스트레칭" },
-  { start: "16:30", end: "18:30", label: "휴식" },
-  { start: "18:30", end: "20:30", label: "저녁 식사" },
-  { start: "20:30", end: "24:00", label: "취침 준비" }
+  { id: "default-rest-night", start: "00:00", end: "06:30", label: "편안히 쉬기" },
+  { id: "default-breakfast", start: "06:30", end: "09:00", label: "아침 식사 후 약 복용" },
+  { id: "default-water", start: "09:00", end: "11:30", label: "물 한 컵 마시기" },
+  { id: "default-lunch", start: "11:30", end: "13:30", label: "점심 식사" },
+  { id: "default-stretching", start: "13:30", end: "16:30", label: "가벼운 스트레칭" },
+  { id: "default-rest", start: "16:30", end: "18:30", label: "휴식" },
+  { id: "default-dinner", start: "18:30", end: "20:30", label: "저녁 식사" },
+  { id: "default-bedtime", start: "20:30", end: "24:00", label: "취침 준비" }
 ];
 
 export const ALERT_MINUTE_PRESETS = {
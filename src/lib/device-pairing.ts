@@ -0,0 +1,189 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { bindDeviceElder, fetchElders } from "./elders";
+import { normalizeInviteCode, type GroupActionResult } from "./group-invites";
+import { fetchActiveMembership } from "./group-membership";
+
+const DEVICE_PAIRINGS_TABLE = "device_pairings";
+const PAIRED_DEVICES_TABLE = "paired_devices";
+// 연결 코드는 태블릿 옆에서 바로 입력하므로 짧게만 살려 둔다.
+export const PAIRING_EXPIRY_MINUTES = 10;
+const MINUTE_MS = 60 * 1000;
+
+export type DevicePairing = {
+  code: string;
+  elderId: string;
+  expiresAt: string;
+};
+
+export type PairedDevice = {
+  userId: string;
+  elderId: string;
+  label: string;
+  createdAt: string;
+};
+
+type DevicePairingRow = {
+  code?: string | null;
+  elder_id?: string | null;
+  expires_at?: string | null;
+};
+
+type PairedDeviceRow = {
+  user_id?: string | null;
+  elder_id?: string | null;
+  label?: string | null;
+  created_at?: string | null;
+};
+
+type ClaimedPairingRow = {
+  group_id?: string | null;
+  elder_id?: string | null;
+};
+
+export const normalizePairingCode = normalizeInviteCode;
+
+export const buildPairingLink = (code: string) => {
+  const origin = typeof window === "undefined" ? "" : window.location.origin;
+  return `${origin}/elder?pair=${encodeURIComponent(code)}`;
+};
+
+const rowToPairing = (row: DevicePairingRow): DevicePairing | null =>
+  row.code && row.elder_id && row.expires_at
+    ? { code: row.code, elderId: row.elder_id, expiresAt: row.expires_at }
+    : null;
+
+const rowToDevice = (row: PairedDeviceRow): PairedDevice | null =>
+  row.user_id && row.elder_id && row.created_at
+    ? {
+        userId: row.user_id,
+        elderId: row.elder_id,
+        label: row.label?.trim() ?? "",
+        createdAt: row.created_at
+      }
+    : null;
+
+// 기기 목록에서 알아보기 쉽도록 브라우저 정보로 기기 이름을 붙인다.
+const describeThisDevice = () => {
+  if (typeof navigator === "undefined") {
+    return "";
+  }
+  const agent = navigator.userAgent;
+  if (/iPad/i.test(agent)) {
+    return "iPad";
+  }
+  if (/Android/i.test(agent)) {
+    return /Mobile/i.test(agent) ? "Android 휴대폰" : "Android 태블릿";
+  }
+  if (/iPhone/i.test(agent)) {
+    return "iPhone";
+  }
+  return "브라우저";
+};
+
+export const createDevicePairing = async (
+  supabase: SupabaseClient,
+  input: { groupId: string; userId: string; elderId: string }
+): Promise<GroupActionResult<DevicePairing>> => {
+  const expiresAt = new Date(Date.now() + PAIRING_EXPIRY_MINUTES * MINUTE_MS).toISOString();
+  const { data, error } = await supabase
+    .from(DEVICE_PAIRINGS_TABLE)
+    .insert({
+      group_id: input.groupId,
+      elder_id: input.elderId,
+      expires_at: expiresAt,
+      created_by: input.userId
+    })
+    .select("code, elder_id, expires_at")
+    .single();
+
+  const pairing = data ? rowToPairing(data as DevicePairingRow) : null;
+  if (error || !pairing) {
+    return { ok: false, message: error?.message ?? "연결 코드를 만들지 못했습니다." };
+  }
+  return { ok: true, value: pairing };
+};
+
+export const fetchPairedDevices = async (
+  supabase: SupabaseClient,
+  groupId: string
+): Promise<PairedDevice[] | null> => {
+  const { data, error } = await supabase
+    .from(PAIRED_DEVICES_TABLE)
+    .select("user_id, elder_id, label, created_at")
+    .eq("group_id", groupId)
+    .order("created_at", { ascending: false });
+
+  if (error) {
+    return null;
+  }
+  return ((data ?? []) as PairedDeviceRow[])
+    .map(rowToDevice)
+    .filter((device): device is PairedDevice => Boolean(device));
+};
+
+export const revokePairedDevice = async (
+  supabase: SupabaseClient,
+  userId: string
+): Promise<string | null> => {
+  const { error } = await supabase.rpc("revoke_paired_device", { device_user: userId });
+  return error ? error.message : null;
+};
+
+// 태블릿에서 연결 코드를 쓴다. 로그인하지 않은 기기는 익명 계정을 만들어
+// 그 계정을 그룹의 보기 전용 구성원으로 넣고, /elder를 코드에 적힌 어르신으로 고정한다.
+// 가족 계정으로 로그인한 기기는 그 계정이 기기로 묶이지 않도록 연결하지 않는다.
+export const pairThisDevice = async (
+  supabase: SupabaseClient,
+  code: string
+): Promise<GroupActionResult<string>> => {
+  const { data: sessionData } = await supabase.auth.getSession();
+  if (sessionData.session && !sessionData.session.user.is_anonymous) {
+    return {
+      ok: false,
+      message: "가족 계정으로 로그인된 기기입니다. 로그아웃한 뒤 연결 코드를 입력해 주세요."
+    };
+  }
+  const createdSession = !sessionData.session;
+  if (createdSession) {
+    const { error } = await supabase.auth.signInAnonymously();
+    if (error) {
+      return { ok: false, message: error.message };
+    }
+  }
+
+  const { data, error } = await supabase.rpc("claim_device_pairing", {
+    pairing_code: normalizePairingCode(code),
+    device_label: describeThisDevice()
+  });
+  const row = ((data ?? []) as ClaimedPairingRow[])[0];
+  if (error || !row?.elder_id) {
+    // 연결에 실패한 익명 계정은 남겨 두지 않는다.
+    if (createdSession) {
+      await supabase.auth.signOut();
+    }
+    return { ok: false, message: error?.message ?? "연결 코드로 연결하지 못했습니다." };
+  }
+
+  await fetchActiveMembership(supabase);
+  await fetchElders(supabase);
+  bindDeviceElder(row.elder_id);
+  return { ok: true, value: row.elder_id };
+};
+
+// 가족이 기기 연결을 끊었는지 확인한다. 연결 코드로 들어온 기기 계정이 더 이상
+// 그룹에 없으면 로그아웃시켜 다시 연결 코드를 묻게 한다. 오프라인이면 확인하지 않는다.
+export const checkPairedDevice = async (supabase: SupabaseClient): Promise<boolean> => {
+  if (typeof navigator !== "undefined" && navigator.onLine === false) {
+    return true;
+  }
+  const { data } = await supabase.auth.getSession();
+  if (!data.session?.user.is_anonymous) {
+    return true;
+  }
+  if (await fetchActiveMembership(supabase)) {
+    return true;
+  }
+  bindDeviceElder(null);
+  await supabase.auth.signOut();
+  return false;
+};
@@ -0,0 +1,22 @@
+export const DEVICE_ID_STORAGE_KEY = "device_id_v1";
+
+const createDeviceId = () => {
+  if (typeof crypto !== "undefined" && typeof crypto.randomUUID === "function") {
+    return crypto.randomUUID();
+  }
+  return `device_${Date.now()}_${Math.random().toString(36).slice(2, 10)}`;
+};
+
+// 기기마다 한 번 만들어 localStorage에 보관하는 식별자. 완료 기록에 어느 기기에서 체크했는지 남긴다.
+export const getDeviceId = () => {
+  if (typeof window === "undefined") {
+    return "";
+  }
+  const stored = window.localStorage.getItem(DEVICE_ID_STORAGE_KEY);
+  if (stored) {
+    return stored;
+  }
+  const next = createDeviceId();
+  window.localStorage.setItem(DEVICE_ID_STORAGE_KEY, next);
+  return next;
+};
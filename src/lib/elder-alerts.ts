@@ -0,0 +1,314 @@
+import type { AlertTarget, BuiltBlock } from "./types";
+import { DEFAULT_ALERT_MINUTES, DEFAULT_ALERT_TARGET } from "./constants";
+import { getReminderOffsets } from "./escalation";
+import { SERVICE_WORKER_PATH } from "./push-notifications";
+import { parseDateKey } from "./time";
+
+const DAY_MINUTES = 24 * 60;
+// 탭이 가려지면 브라우저가 타이머를 1분 단위로 늦추므로, 알림 시각을 조금 지나도 울린다.
+const ALERT_GRACE_MINUTES = 2;
+// 서비스 워커가 알림을 띄운 뒤 페이지가 닫혀 있어 완료 기록을 맡기지 못한 할 일.
+const PENDING_DONE_CACHE = "grandma-todo-pending-done";
+const PENDING_DONE_URL = "/__pending-done";
+// "나중에"로 미룬 알림 목록. 날짜마다 따로 둔다.
+const SNOOZED_ALERTS_STORAGE_PREFIX = "alert_snoozed_";
+export const SNOOZE_MINUTES = 10;
+
+// remind: 할 일이 끝났는데 체크되지 않아 단계별 알림 규칙대로 다시 알리는 것
+export type AlertType = `${AlertTarget}${number}` | `remind${number}`;
+
+export type BlockAlert = {
+  type: AlertType;
+  minute: number; // 울릴 시각(자정부터 분)
+  window: number; // 이 시간(분) 안에 확인하면 늦게라도 울린다
+  message: string;
+};
+
+// 서비스 워커에 넘기는 알림. 탭이 가려져 있거나 닫혀 있어도 시스템 알림으로 띄운다.
+export type ScheduledAlert = {
+  tag: string;
+  at: number; // epoch ms
+  until: number; // 이 시각이 지나면 띄우지 않는다
+  title: string;
+  body: string;
+  taskId: string;
+  dateKey: string;
+};
+
+export type DoneRequest = { taskId: string; dateKey: string };
+
+// 미룬 알림. 시각이 되면 한 번 다시 울리고 목록에서 빠진다. 처음 울린 알림의 중복 방지 키는 그대로 둔다.
+export type SnoozedAlert = {
+  blockId: string;
+  type: AlertType;
+  message: string;
+  at: number; // epoch ms
+};
+
+// Periodic Background Sync는 아직 표준 타입에 없다(설치한 앱에서만 동작).
+type PeriodicSyncRegistration = ServiceWorkerRegistration & {
+  periodicSync?: { register: (tag: string, options: { minInterval: number }) => Promise<void> };
+};
+
+export function getAlertMinutesForBlock(block: { alertMinutes?: number[] }): number[] {
+  const raw =
+    Array.isArray(block.alertMinutes) && block.alertMinutes.length > 0
+      ? block.alertMinutes
+      : DEFAULT_ALERT_MINUTES;
+  const seen = new Set<number>();
+  const result: number[] = [];
+  for (const value of raw) {
+    const minute = Math.round(value);
+    if (!Number.isFinite(minute) || minute <= 0 || minute >= DAY_MINUTES) {
+      continue;
+    }
+    if (seen.has(minute)) {
+      continue;
+    }
+    seen.add(minute);
+    result.push(minute);
+  }
+  return result;
+}
+
+// 한 할 일의 하루 알림 목록. 시작/종료 전 알림과, 규칙이 있으면 끝난 뒤 재알림까지.
+export function listBlockAlerts(block: BuiltBlock): BlockAlert[] {
+  const alerts: BlockAlert[] = [];
+  const alertTarget = block.alertTarget ?? DEFAULT_ALERT_TARGET;
+  const baseMin = alertTarget === "end" ? block.endMin : block.startMin;
+  getAlertMinutesForBlock(block).forEach((minuteBefore) => {
+    alerts.push({
+      type: `${alertTarget}${minuteBefore}`,
+      minute: baseMin - minuteBefore,
+      window: ALERT_GRACE_MINUTES,
+      message:
+        alertTarget === "end"
+          ? `${minuteBefore}분 남았어요\n${block.label}`
+          : `${minuteBefore}분 전이에요\n${block.label}`
+    });
+  });
+  if (block.escalation && block.startMin < block.endMin) {
+    const { remindEvery } = block.escalation;
+    getReminderOffsets(block.escalation).forEach((offset, order) => {
+      alerts.push({
+        type: `remind${order + 1}`,
+        minute: block.endMin + offset,
+        window: remindEvery,
+        message: `아직 완료하지 않았어요\n${block.label}`
+      });
+    });
+  }
+  return alerts.filter((alert) => alert.minute >= 0 && alert.minute < DAY_MINUTES);
+}
+
+export const getAlertKey = (dateKey: string, blockId: string, type: AlertType) =>
+  `alert_${dateKey}_${blockId}_${type}`;
+
+export const isAlertDue = (alert: BlockAlert, nowMinutes: number) =>
+  alert.minute <= nowMinutes && nowMinutes < alert.minute + alert.window;
+
+const getAlertTag = (dateKey: string, blockId: string, type: AlertType) =>
+  `elder:${dateKey}:${blockId}:${type}`;
+
+const splitMessage = (message: string) => {
+  const [title, ...rest] = message.split("\n");
+  return { title, body: rest.join(" ") };
+};
+
+export const snoozedToScheduledAlert = (
+  snoozed: SnoozedAlert,
+  dateKey: string
+): ScheduledAlert => ({
+  tag: `${getAlertTag(dateKey, snoozed.blockId, snoozed.type)}:snoozed`,
+  at: snoozed.at,
+  until: snoozed.at + ALERT_GRACE_MINUTES * 60 * 1000,
+  ...splitMessage(snoozed.message),
+  taskId: snoozed.blockId,
+  dateKey
+});
+
+// 오늘 남은 알림을 서비스 워커용으로 만든다. 완료한 할 일은 뺀다.
+export function buildScheduledAlerts(
+  blocks: BuiltBlock[],
+  doneSet: Set<string>,
+  dateKey: string,
+  now: Date,
+  snoozed: SnoozedAlert[] = []
+): ScheduledAlert[] {
+  const day = parseDateKey(dateKey);
+  if (!day) {
+    return [];
+  }
+  const minuteMs = 60 * 1000;
+  const scheduled = blocks
+    .filter((block) => !doneSet.has(block.id))
+    .flatMap((block) =>
+      listBlockAlerts(block).map((alert) => {
+        const at = day.getTime() + alert.minute * minuteMs;
+        return {
+          tag: getAlertTag(dateKey, block.id, alert.type),
+          at,
+          until: at + alert.window * minuteMs,
+          ...splitMessage(alert.message),
+          taskId: block.id,
+          dateKey
+        };
+      })
+    );
+  return scheduled
+    .concat(
+      snoozed
+        .filter((item) => !doneSet.has(item.blockId))
+        .map((item) => snoozedToScheduledAlert(item, dateKey))
+    )
+    .filter((alert) => alert.until > now.getTime());
+}
+
+export const loadSnoozedAlerts = (dateKey: string): SnoozedAlert[] => {
+  if (typeof window === "undefined") {
+    return [];
+  }
+  try {
+    const raw = window.localStorage.getItem(`${SNOOZED_ALERTS_STORAGE_PREFIX}${dateKey}`);
+    const parsed = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed)
+      ? parsed.filter(
+          (item): item is SnoozedAlert =>
+            item &&
+            typeof item.blockId === "string" &&
+            typeof item.type === "string" &&
+            typeof item.message === "string" &&
+            typeof item.at === "number"
+        )
+      : [];
+  } catch {
+    return [];
+  }
+};
+
+const saveSnoozedAlerts = (dateKey: string, snoozed: SnoozedAlert[]) => {
+  const key = `${SNOOZED_ALERTS_STORAGE_PREFIX}${dateKey}`;
+  if (snoozed.length === 0) {
+    window.localStorage.removeItem(key);
+    return;
+  }
+  window.localStorage.setItem(key, JSON.stringify(snoozed));
+};
+
+// 같은 알림을 다시 미루면 시각만 뒤로 민다.
+export const snoozeAlert = (
+  dateKey: string,
+  alert: Omit<SnoozedAlert, "at">,
+  now: Date
+): SnoozedAlert => {
+  const snoozed = { ...alert, at: now.getTime() + SNOOZE_MINUTES * 60 * 1000 };
+  saveSnoozedAlerts(dateKey, [
+    ...loadSnoozedAlerts(dateKey).filter(
+      (item) => item.blockId !== alert.blockId || item.type !== alert.type
+    ),
+    snoozed
+  ]);
+  return snoozed;
+};
+
+// 시각이 된 미룬 알림 하나를 꺼낸다. 그 사이 완료한 할 일의 것은 버린다.
+export const takeDueSnoozedAlert = (
+  dateKey: string,
+  now: Date,
+  doneSet: Set<string>
+): SnoozedAlert | null => {
+  const stored = loadSnoozedAlerts(dateKey);
+  const pending = stored.filter((item) => !doneSet.has(item.blockId));
+  const due = pending.find((item) => item.at <= now.getTime()) ?? null;
+  if (due || pending.length !== stored.length) {
+    saveSnoozedAlerts(
+      dateKey,
+      pending.filter((item) => item !== due)
+    );
+  }
+  return due;
+};
+
+export const isSystemNotificationSupported = () =>
+  typeof window !== "undefined" && "serviceWorker" in navigator && "Notification" in window;
+
+const getRegistration = async () => {
+  if (!isSystemNotificationSupported() || Notification.permission !== "granted") {
+    return null;
+  }
+  return (
+    (await navigator.serviceWorker.getRegistration(SERVICE_WORKER_PATH)) ??
+    navigator.serviceWorker.register(SERVICE_WORKER_PATH)
+  );
+};
+
+// 어르신 화면에서 "알림 켜기"를 눌렀을 때. 알림 권한을 묻고 서비스 워커를 등록한다.
+export const enableSystemNotifications = async () => {
+  if (!isSystemNotificationSupported()) {
+    return false;
+  }
+  const permission = await Notification.requestPermission();
+  if (permission !== "granted") {
+    return false;
+  }
+  await navigator.serviceWorker.register(SERVICE_WORKER_PATH);
+  return true;
+};
+
+// 서비스 워커가 가진 알림 일정을 이 목록으로 바꾼다. 완료한 할 일의 알림은 닫힌다.
+export const scheduleSystemAlerts = async (alerts: ScheduledAlert[]) => {
+  const registration = await getRegistration();
+  if (!registration) {
+    return;
+  }
+  await navigator.serviceWorker.ready;
+  registration.active?.postMessage({ type: "schedule-alerts", alerts });
+  // 지원하면 서비스 워커가 주기적으로 깨어나 밀린 알림을 확인한다.
+  await (registration as PeriodicSyncRegistration).periodicSync
+    ?.register("elder-alerts", { minInterval: 15 * 60 * 1000 })
+    .catch(() => undefined);
+};
+
+// 탭이 가려진 동안 페이지가 울린 알림을 시스템 알림으로도 띄운다. 서비스 워커가
+// 같은 알림을 띄웠어도 태그가 같아 한 번만 보인다.
+export const showSystemAlert = async (alert: ScheduledAlert) => {
+  const registration = await getRegistration();
+  if (!registration) {
+    return;
+  }
+  await registration.showNotification(alert.title, {
+    body: alert.body,
+    tag: alert.tag,
+    requireInteraction: true,
+    data: { taskId: alert.taskId, dateKey: alert.dateKey, url: "/elder" },
+    actions: [{ action: "done", title: "완료했어요" }]
+  } as NotificationOptions);
+};
+
+// 알림의 "완료했어요"를 받는다. 페이지가 닫혀 있을 때 눌린 것은 다음에 열 때 한꺼번에 넘긴다.
+export const subscribeDoneRequests = (onDone: (request: DoneRequest) => void) => {
+  if (!isSystemNotificationSupported()) {
+    return () => undefined;
+  }
+  const handleMessage = (event: MessageEvent) => {
+    const data = event.data as { type?: string } & Partial<DoneRequest>;
+    if (data?.type === "mark-done" && data.taskId && data.dateKey) {
+      onDone({ taskId: data.taskId, dateKey: data.dateKey });
+    }
+  };
+  navigator.serviceWorker.addEventListener("message", handleMessage);
+  void (async () => {
+    if (typeof caches === "undefined") {
+      return;
+    }
+    const cache = await caches.open(PENDING_DONE_CACHE);
+    const response = await cache.match(PENDING_DONE_URL);
+    if (!response) {
+      return;
+    }
+    await cache.delete(PENDING_DONE_URL);
+    const pending = (await response.json().catch(() => [])) as DoneRequest[];
+    (Array.isArray(pending) ? pending : []).forEach(onDone);
+  })();
+  return () => navigator.serviceWorker.removeEventListener("message", handleMessage);
+};
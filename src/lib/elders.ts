@@ -0,0 +1,344 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { fetchActiveMembership } from "./group-membership";
+import { notifyLocalChange } from "./realtime";
+import { SCHEDULE_STORAGE_KEY, SCHEDULE_VARIANTS_STORAGE_KEY } from "./storage";
+
+export const ELDER_PROFILES_STORAGE_KEY = "elder_profiles_v1";
+// 이 기기가 지금 스케줄/완료 기록을 캐시하고 있는 어르신. 가족 화면의 어르신 선택이 바꾼다.
+export const ACTIVE_ELDER_STORAGE_KEY = "active_elder_v1";
+// 기기 설정에서 고른 /elder 화면의 어르신. 가족 화면에서 다른 분을 골라도 바뀌지 않는다.
+export const DEVICE_ELDER_STORAGE_KEY = "device_elder_v1";
+const ELDER_CHANGE_EVENT = "grandma-todo-elder";
+const GRANDMA_PROFILES_TABLE = "grandma_profiles";
+// 완료 기록 캐시(`done_<날짜>`, `done_activity_v1`, `done_doses_<날짜>`)는 어르신마다 다르다.
+const DONE_CACHE_PREFIX = "done_";
+
+export type ElderProfile = {
+  id: string;
+  displayName: string;
+  lunarBirthday: { month: number; day: number } | null;
+};
+
+type ElderProfileRow = {
+  id?: string | null;
+  display_name?: string | null;
+  birth_lunar_month?: number | null;
+  birth_lunar_day?: number | null;
+};
+
+const rowToElder = (row: ElderProfileRow): ElderProfile | null =>
+  row.id && row.display_name
+    ? {
+        id: row.id,
+        displayName: row.display_name,
+        lunarBirthday:
+          row.birth_lunar_month && row.birth_lunar_day
+            ? { month: row.birth_lunar_month, day: row.birth_lunar_day }
+            : null
+      }
+    : null;
+
+const normalizeElder = (value: unknown): ElderProfile | null => {
+  if (!value || typeof value !== "object") {
+    return null;
+  }
+  const record = value as Record<string, unknown>;
+  const id = typeof record.id === "string" ? record.id.trim() : "";
+  const displayName = typeof record.displayName === "string" ? record.displayName.trim() : "";
+  if (!id || !displayName) {
+    return null;
+  }
+  const birthday = record.lunarBirthday as Record<string, unknown> | null | undefined;
+  const month = Number(birthday?.month);
+  const day = Number(birthday?.day);
+  return {
+    id,
+    displayName,
+    lunarBirthday:
+      Number.isInteger(month) && Number.isInteger(day) && month >= 1 && day >= 1
+        ? { month, day }
+        : null
+  };
+};
+
+export const loadCachedElders = (): ElderProfile[] => {
+  if (typeof window === "undefined") {
+    return [];
+  }
+  const raw = window.localStorage.getItem(ELDER_PROFILES_STORAGE_KEY);
+  if (!raw) {
+    return [];
+  }
+  try {
+    const parsed = JSON.parse(raw);
+    return (Array.isArray(parsed) ? parsed : [])
+      .map(normalizeElder)
+      .filter((elder): elder is ElderProfile => Boolean(elder));
+  } catch {
+    return [];
+  }
+};
+
+const persistElders = (elders: ElderProfile[]) => {
+  if (typeof window === "undefined") {
+    return;
+  }
+  window.localStorage.setItem(ELDER_PROFILES_STORAGE_KEY, JSON.stringify(elders));
+  window.dispatchEvent(new CustomEvent(ELDER_CHANGE_EVENT));
+};
+
+// 그룹의 어르신 프로필을 등록한 순서대로 읽는다. 오프라인이면 마지막으로 확인한 목록을 쓴다.
+export const fetchElders = async (supabase: SupabaseClient): Promise<ElderProfile[]> => {
+  const membership = await fetchActiveMembership(supabase);
+  if (!membership) {
+    return loadCachedElders();
+  }
+  const { data, error } = await supabase
+    .from(GRANDMA_PROFILES_TABLE)
+    .select("id, display_name, birth_lunar_month, birth_lunar_day")
+    .eq("group_id", membership.groupId)
+    .order("created_at", { ascending: true });
+
+  if (error) {
+    return loadCachedElders();
+  }
+  const elders = ((data ?? []) as ElderProfileRow[])
+    .map(rowToElder)
+    .filter((elder): elder is ElderProfile => Boolean(elder));
+  persistElders(elders);
+  return elders;
+};
+
+export const loadActiveElderId = () =>
+  typeof window === "undefined" ? null : window.localStorage.getItem(ACTIVE_ELDER_STORAGE_KEY);
+
+export const loadDeviceElderId = () =>
+  typeof window === "undefined" ? null : window.localStorage.getItem(DEVICE_ELDER_STORAGE_KEY);
+
+// 다른 어르신으로 바꾸면 앞 어르신의 스케줄/완료 캐시를 비우고, 화면들이 새로 불러오게 알린다.
+// 처음 정할 때는 지금 캐시가 그룹의 (한 분뿐이던) 어르신 것이므로 그대로 둔다.
+export const setActiveElder = (elderId: string) => {
+  const previous = loadActiveElderId();
+  if (typeof window === "undefined" || previous === elderId) {
+    return;
+  }
+  const storage = window.localStorage;
+  if (previous) {
+    const staleKeys = [SCHEDULE_STORAGE_KEY, SCHEDULE_VARIANTS_STORAGE_KEY];
+    for (let index = 0; index < storage.length; index += 1) {
+      const key = storage.key(index);
+      if (key?.startsWith(DONE_CACHE_PREFIX)) {
+        staleKeys.push(key);
+      }
+    }
+    staleKeys.forEach((key) => storage.removeItem(key));
+  }
+  storage.setItem(ACTIVE_ELDER_STORAGE_KEY, elderId);
+  window.dispatchEvent(new CustomEvent(ELDER_CHANGE_EVENT));
+  notifyLocalChange("schedule");
+  notifyLocalChange("completions");
+};
+
+export const bindDeviceElder = (elderId: string | null) => {
+  if (typeof window === "undefined") {
+    return;
+  }
+  if (!elderId) {
+    window.localStorage.removeItem(DEVICE_ELDER_STORAGE_KEY);
+    return;
+  }
+  window.localStorage.setItem(DEVICE_ELDER_STORAGE_KEY, elderId);
+  setActiveElder(elderId);
+};
+
+// 목록에서 지금 고른 어르신을 찾는다. 고른 분이 없거나 지워졌으면 첫 번째 어르신으로 정한다.
+export const resolveActiveElder = (elders: ElderProfile[]): ElderProfile | null => {
+  const stored = loadActiveElderId();
+  const elder = elders.find((item) => item.id === stored) ?? elders[0] ?? null;
+  if (elder) {
+    setActiveElder(elder.id);
+  }
+  return elder;
+};
+
+// 스케줄/완료 기록을 읽고 쓸 어르신 id. Supabase 동기화 함수에 넘긴다.
+export const fetchActiveElderId = async (supabase: SupabaseClient) =>
+  resolveActiveElder(await fetchElders(supabase))?.id ?? null;
+
+export const subscribeActiveElder = (onChange: () => void) => {
+  if (typeof window === "undefined") {
+    return () => undefined;
+  }
+  const handleStorage = (event: StorageEvent) => {
+    if (event.key === ACTIVE_ELDER_STORAGE_KEY || event.key === ELDER_PROFILES_STORAGE_KEY) {
+      onChange();
+    }
+  };
+  window.addEventListener(ELDER_CHANGE_EVENT, onChange);
+  window.addEventListener("storage", handleStorage);
+  return () => {
+    window.removeEventListener(ELDER_CHANGE_EVENT, onChange);
+    window.removeEventListener("storage", handleStorage);
+  };
+};
+
+export type ActiveElderState = {
+  elders: ElderProfile[];
+  elder: ElderProfile | null;
+  selectElder: (elderId: string) => void;
+};
+
+// 가족 화면의 어르신 선택. 한 화면에서 바꾸면 같은 기기의 다른 화면도 따라 바뀐다.
+export const useActiveElder = (supabase: SupabaseClient | null): ActiveElderState => {
+  const [elders, setElders] = useState<ElderProfile[]>([]);
+  const [activeId, setActiveId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!supabase) {
+      return;
+    }
+    let cancelled = false;
+    const cached = loadCachedElders();
+    setElders(cached);
+    setActiveId(resolveActiveElder(cached)?.id ?? null);
+
+    const refresh = async () => {
+      const next = await fetchElders(supabase);
+      if (cancelled) {
+        return;
+      }
+      setElders(next);
+      setActiveId(resolveActiveElder(next)?.id ?? null);
+    };
+
+    void refresh();
+    // 어르신 목록을 고치거나 다른 화면에서 어르신을 바꾸면 따라간다.
+    const unsubscribe = subscribeActiveElder(() => {
+      const next = loadCachedElders();
+      setElders(next);
+      setActiveId(resolveActiveElder(next)?.id ?? null);
+    });
+    const { data } = supabase.auth.onAuthStateChange(() => {
+      void refresh();
+    });
+    return () => {
+      cancelled = true;
+      unsubscribe();
+      data.subscription.unsubscribe();
+    };
+  }, [supabase]);
+
+  return {
+    elders,
+    elder: elders.find((item) => item.id === activeId) ?? null,
+    selectElder: setActiveElder
+  };
+};
+
+export type DeviceElderState = {
+  elders: ElderProfile[];
+  elder: ElderProfile | null;
+  loading: boolean;
+  bind: (elderId: string) => void;
+};
+
+// /elder 화면의 어르신. 기기 설정에서 한 번 고르면 그 뒤로는 그분의 일정만 보여준다.
+// 어르신이 한 분뿐이면 묻지 않고 그분으로 정한다.
+export const useDeviceElder = (supabase: SupabaseClient | null): DeviceElderState => {
+  const [elders, setElders] = useState<ElderProfile[]>([]);
+  const [boundId, setBoundId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(Boolean(supabase));
+
+  useEffect(() => {
+    if (!supabase) {
+      setLoading(false);
+      return;
+    }
+    let cancelled = false;
+    const apply = (next: ElderProfile[]) => {
+      const stored = loadDeviceElderId();
+      const elder =
+        next.find((item) => item.id === stored) ?? (next.length === 1 ? next[0] : null);
+      if (elder) {
+        bindDeviceElder(elder.id);
+      }
+      setElders(next);
+      setBoundId(elder?.id ?? null);
+    };
+
+    const cached = loadCachedElders();
+    if (cached.length > 0) {
+      apply(cached);
+      setLoading(false);
+    }
+    void fetchElders(supabase).then((next) => {
+      if (cancelled) {
+        return;
+      }
+      apply(next);
+      setLoading(false);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [supabase]);
+
+  return {
+    elders,
+    elder: elders.find((item) => item.id === boundId) ?? null,
+    loading,
+    bind: (elderId) => {
+      bindDeviceElder(elderId);
+      setBoundId(elderId);
+    }
+  };
+};
+
+export const addElderProfile = async (
+  supabase: SupabaseClient,
+  input: { groupId: string; displayName: string; lunarBirthday: ElderProfile["lunarBirthday"] }
+): Promise<string | null> => {
+  const { error } = await supabase.from(GRANDMA_PROFILES_TABLE).insert({
+    group_id: input.groupId,
+    display_name: input.displayName.trim(),
+    birth_lunar_month: input.lunarBirthday?.month ?? null,
+    birth_lunar_day: input.lunarBirthday?.day ?? null
+  });
+  return error ? error.message : null;
+};
+
+export const updateElderProfile = async (
+  supabase: SupabaseClient,
+  elderId: string,
+  input: { displayName: string; lunarBirthday: ElderProfile["lunarBirthday"] }
+): Promise<string | null> => {
+  const { error } = await supabase
+    .from(GRANDMA_PROFILES_TABLE)
+    .update({
+      display_name: input.displayName.trim(),
+      birth_lunar_month: input.lunarBirthday?.month ?? null,
+      birth_lunar_day: input.lunarBirthday?.day ?? null
+    })
+    .eq("id", elderId);
+  return error ? error.message : null;
+};
+
+// 어르신을 지우면 그분의 스케줄과 완료 기록도 함께 지워진다(on delete cascade).
+// 관리자만 지울 수 있다. RLS에 막히면 오류 없이 아무 행도 지워지지 않는다.
+export const removeElderProfile = async (
+  supabase: SupabaseClient,
+  elderId: string
+): Promise<string | null> => {
+  const { data, error } = await supabase
+    .from(GRANDMA_PROFILES_TABLE)
+    .delete()
+    .eq("id", elderId)
+    .select("id");
+  if (error) {
+    return error.message;
+  }
+  return (data ?? []).length > 0 ? null : "어르신을 지울 권한이 없습니다.";
+};
@@ -0,0 +1,81 @@
+import type { EscalationPolicy } from "./types";
+
+// 놓친 할 일의 알림 단계. 서버 작업이 task_escalations에 기록하며 앞으로만 나아간다.
+// reminding: 어르신 화면이 다시 알리는 중, primary: 대표 보호자에게 알림,
+// everyone: 가족 모두에게 알림, resolved: 늦게라도 완료 체크됨
+export type EscalationStage = "reminding" | "primary" | "everyone" | "resolved";
+
+const STAGE_ORDER: EscalationStage[] = ["reminding", "primary", "everyone", "resolved"];
+
+export const ESCALATION_INTERVAL_OPTIONS = [5, 10, 15, 30];
+export const ESCALATION_MAX_REMINDERS = 5;
+export const ESCALATION_EVERYONE_OPTIONS = [10, 20, 30, 60];
+
+export const DEFAULT_ESCALATION_POLICY: EscalationPolicy = {
+  remindEvery: 10,
+  remindCount: 3,
+  everyoneAfter: 20
+};
+
+const toPositiveMinutes = (value: unknown) => {
+  const minutes = Math.round(Number(value));
+  return Number.isFinite(minutes) && minutes > 0 ? minutes : null;
+};
+
+export const parseEscalationPolicy = (value: unknown): EscalationPolicy | null => {
+  if (!value || typeof value !== "object") {
+    return null;
+  }
+  const record = value as Record<string, unknown>;
+  const remindEvery = toPositiveMinutes(record.remindEvery);
+  const remindCount = Math.round(Number(record.remindCount));
+  if (!remindEvery || !Number.isFinite(remindCount) || remindCount < 0) {
+    return null;
+  }
+  return {
+    remindEvery,
+    remindCount: Math.min(remindCount, ESCALATION_MAX_REMINDERS),
+    everyoneAfter: toPositiveMinutes(record.everyoneAfter)
+  };
+};
+
+export const isStageAfter = (stage: EscalationStage, other: EscalationStage | null) =>
+  other === null || STAGE_ORDER.indexOf(stage) > STAGE_ORDER.indexOf(other);
+
+// 끝 시각 기준으로 어르신 화면이 다시 알릴 시점(분). 마지막 재알림 뒤 한 간격이 더 지나면 대표 보호자 차례다.
+export const getReminderOffsets = (policy: EscalationPolicy) =>
+  Array.from({ length: policy.remindCount }, (_, index) => policy.remindEvery * (index + 1));
+
+export const getPrimaryOffset = (policy: EscalationPolicy) =>
+  policy.remindEvery * (policy.remindCount + 1);
+
+// 할 일이 끝난 뒤 elapsed분이 지났을 때 있어야 할 단계.
+// 규칙이 없는 할 일은 예전처럼 놓치는 즉시 가족 모두에게 알린다.
+export const getDueStage = (
+  policy: EscalationPolicy | null | undefined,
+  elapsed: number
+): EscalationStage => {
+  if (!policy) {
+    return "everyone";
+  }
+  const primaryAt = getPrimaryOffset(policy);
+  if (elapsed < primaryAt) {
+    return "reminding";
+  }
+  if (policy.everyoneAfter === null || elapsed < primaryAt + policy.everyoneAfter) {
+    return "primary";
+  }
+  return "everyone";
+};
+
+export const describeEscalationPolicy = (policy: EscalationPolicy) => {
+  const reminders =
+    policy.remindCount > 0
+      ? `${policy.remindEvery}분마다 ${policy.remindCount}번 다시 알림`
+      : "다시 알리지 않음";
+  const everyone =
+    policy.everyoneAfter === null
+      ? "대표 보호자까지"
+      : `${policy.everyoneAfter}분 뒤 가족 모두`;
+  return `${reminders} → 대표 보호자 → ${everyone}`;
+};
@@ -0,0 +1,236 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { CalendarEvent } from "./types";
+import { fetchActiveMembership } from "./group-membership";
+import type { RemoteVersion } from "./schedule-sync";
+import { loadEvents, normalizeEvent, saveEvents } from "./storage";
+import {
+  NO_MEMBERSHIP_SYNC_FAILURE,
+  RETRY_SYNC_FAILURE,
+  eventResource,
+  listPendingResources,
+  saveKnownVersion,
+  toSyncFailure,
+  type SyncFailure,
+  type SyncWriteResult
+} from "./sync-state";
+
+const EVENTS_TABLE = "events";
+const EVENTS_MIGRATED_STORAGE_KEY = "events_migrated_v1";
+const EVENT_COLUMNS =
+  "id, start_date, end_date, start_time, end_time, label, all_day, repeat, rrule, repeat_until, exdates, overrides, updated_at";
+
+type EventRow = {
+  id?: string | null;
+  start_date?: string | null;
+  end_date?: string | null;
+  start_time?: string | null;
+  end_time?: string | null;
+  label?: string | null;
+  all_day?: boolean | null;
+  repeat?: string | null;
+  rrule?: string | null;
+  repeat_until?: string | null;
+  exdates?: string[] | null;
+  overrides?: Record<string, unknown> | null;
+  updated_at?: string | null;
+};
+
+const rowToEvent = (row: EventRow): CalendarEvent | null => {
+  const event = normalizeEvent({
+    id: row.id ?? undefined,
+    startDate: row.start_date ?? undefined,
+    endDate: row.end_date ?? undefined,
+    start: row.start_time ?? undefined,
+    end: row.end_time ?? undefined,
+    label: row.label ?? undefined,
+    allDay: row.all_day === true,
+    repeat: row.repeat ?? undefined,
+    rrule: row.rrule ?? undefined,
+    repeatUntil: row.repeat_until ?? undefined,
+    exdates: row.exdates ?? undefined,
+    overrides: row.overrides ?? undefined
+  });
+  return event ? { ...event, source: "user" } : null;
+};
+
+const eventToRow = (event: CalendarEvent, groupId: string, userId: string) => ({
+  id: event.id,
+  group_id: groupId,
+  start_date: event.startDate,
+  end_date: event.endDate,
+  start_time: event.start,
+  end_time: event.end,
+  label: event.label,
+  all_day: event.allDay === true,
+  repeat: event.repeat ?? "none",
+  rrule: event.repeat === "custom" ? event.rrule ?? null : null,
+  repeat_until: event.repeatUntil ?? null,
+  exdates: event.exdates ?? [],
+  overrides: event.overrides ?? {},
+  created_by: userId
+});
+
+const hasMigratedLocalEvents = () =>
+  typeof window !== "undefined" &&
+  window.localStorage.getItem(EVENTS_MIGRATED_STORAGE_KEY) === "1";
+
+const markLocalEventsMigrated = () => {
+  if (typeof window === "undefined") {
+    return;
+  }
+  window.localStorage.setItem(EVENTS_MIGRATED_STORAGE_KEY, "1");
+};
+
+// 그룹 공유 일정을 불러와 localStorage(`events_v1`)에 캐시한다.
+// 이 기기에만 있던 예전 일정은 처음 한 번 그룹으로 올리고,
+// 아직 올리지 못한 수정이 있는 일정은 이 기기의 내용을 유지한다.
+export const fetchEvents = async (
+  supabase: SupabaseClient
+): Promise<CalendarEvent[]> => {
+  const membership = await fetchActiveMembership(supabase);
+  if (!membership) {
+    return loadEvents();
+  }
+
+  const { data, error } = await supabase
+    .from(EVENTS_TABLE)
+    .select(EVENT_COLUMNS)
+    .eq("group_id", membership.groupId)
+    .order("start_date", { ascending: true });
+
+  if (error) {
+    return loadEvents();
+  }
+
+  const rows = (data ?? []) as EventRow[];
+  rows.forEach((row) => {
+    if (row.id) {
+      saveKnownVersion(eventResource(row.id), row.updated_at ?? null);
+    }
+  });
+  const pendingIds = new Set(
+    listPendingResources(eventResource("")).map((resource) =>
+      resource.slice(eventResource("").length)
+    )
+  );
+  const remoteEvents = rows
+    .map((row) => rowToEvent(row))
+    .filter((event): event is CalendarEvent => Boolean(event))
+    .filter((event) => !pendingIds.has(event.id));
+  if (pendingIds.size > 0) {
+    remoteEvents.push(...loadEvents().filter((event) => pendingIds.has(event.id)));
+  }
+
+  if (!hasMigratedLocalEvents()) {
+    const remoteIds = new Set(remoteEvents.map((event) => event.id));
+    const localOnly = loadEvents().filter((event) => !remoteIds.has(event.id));
+    if (localOnly.length > 0) {
+      const { error: migrateError } = await supabase
+        .from(EVENTS_TABLE)
+        .upsert(
+          localOnly.map((event) =>
+            eventToRow(event, membership.groupId, membership.userId)
+          ),
+          { onConflict: "id" }
+        );
+      if (migrateError) {
+        return [...remoteEvents, ...localOnly];
+      }
+      remoteEvents.push(...localOnly);
+    }
+    markLocalEventsMigrated();
+  }
+
+  saveEvents(remoteEvents);
+  return remoteEvents;
+};
+
+// 서버 작업(주간 요약 메일)용. 캐시와 아웃박스를 거치지 않고 그룹별 일정을 읽는다.
+export const fetchEventsForGroups = async (
+  admin: SupabaseClient,
+  groupIds: string[]
+): Promise<Map<string, CalendarEvent[]>> => {
+  const byGroup = new Map<string, CalendarEvent[]>();
+  if (groupIds.length === 0) {
+    return byGroup;
+  }
+  const { data, error } = await admin
+    .from(EVENTS_TABLE)
+    .select(`group_id, ${EVENT_COLUMNS}`)
+    .in("group_id", groupIds);
+  if (error) {
+    throw new Error(error.message);
+  }
+  ((data ?? []) as (EventRow & { group_id: string })[]).forEach((row) => {
+    const event = rowToEvent(row);
+    if (event) {
+      byGroup.set(row.group_id, [...(byGroup.get(row.group_id) ?? []), event]);
+    }
+  });
+  return byGroup;
+};
+
+export const fetchEventVersion = async (
+  supabase: SupabaseClient,
+  id: string
+): Promise<RemoteVersion> => {
+  const membership = await fetchActiveMembership(supabase);
+  if (!membership) {
+    return { ok: false, failure: NO_MEMBERSHIP_SYNC_FAILURE };
+  }
+
+  const { data, error } = await supabase
+    .from(EVENTS_TABLE)
+    .select("updated_at")
+    .eq("group_id", membership.groupId)
+    .eq("id", id)
+    .maybeSingle();
+
+  if (error) {
+    return { ok: false, failure: toSyncFailure(error) };
+  }
+  return { ok: true, version: (data as EventRow | null)?.updated_at ?? null };
+};
+
+// 일정을 저장하고 새 버전(`updated_at`)을 돌려준다.
+export const upsertEvent = async (
+  supabase: SupabaseClient,
+  event: CalendarEvent
+): Promise<SyncWriteResult<string>> => {
+  const membership = await fetchActiveMembership(supabase);
+  if (!membership) {
+    return { ok: false, failure: NO_MEMBERSHIP_SYNC_FAILURE };
+  }
+
+  const { data, error } = await supabase
+    .from(EVENTS_TABLE)
+    .upsert(eventToRow(event, membership.groupId, membership.userId), {
+      onConflict: "id"
+    })
+    .select("updated_at")
+    .single();
+
+  if (error) {
+    return { ok: false, failure: toSyncFailure(error) };
+  }
+  const version = (data as EventRow | null)?.updated_at;
+  return version ? { ok: true, value: version } : { ok: false, failure: RETRY_SYNC_FAILURE };
+};
+
+export const deleteEvent = async (
+  supabase: SupabaseClient,
+  id: string
+): Promise<SyncFailure | null> => {
+  const membership = await fetchActiveMembership(supabase);
+  if (!membership) {
+    return NO_MEMBERSHIP_SYNC_FAILURE;
+  }
+
+  const { error } = await supabase
+    .from(EVENTS_TABLE)
+    .delete()
+    .eq("group_id", membership.groupId)
+    .eq("id", id);
+
+  return error ? toSyncFailure(error) : null;
+};
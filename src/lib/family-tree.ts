@@ -0,0 +1,155 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+const FAMILY_BRANCHES_TABLE = "family_branches";
+const FAMILY_TREE_MEMBERS_TABLE = "family_tree_members";
+
+export type FamilyTreeMember = {
+  id: string;
+  branchId: string;
+  name: string;
+  relation: string;
+  userId: string | null; // 가입한 계정과 연결되면 auth.users id
+};
+
+export type FamilyBranch = {
+  id: string;
+  title: string;
+  members: FamilyTreeMember[];
+};
+
+type FamilyBranchRow = {
+  id?: string | null;
+  title?: string | null;
+};
+
+type FamilyTreeMemberRow = {
+  id?: string | null;
+  branch_id?: string | null;
+  name?: string | null;
+  relation?: string | null;
+  user_id?: string | null;
+};
+
+const rowToMember = (row: FamilyTreeMemberRow): FamilyTreeMember | null =>
+  row.id && row.branch_id && row.name
+    ? {
+        id: row.id,
+        branchId: row.branch_id,
+        name: row.name,
+        relation: row.relation ?? "",
+        userId: row.user_id ?? null
+      }
+    : null;
+
+// 그룹의 가족 구성을 가지(branch) 순서대로 읽는다.
+export const fetchFamilyTree = async (
+  supabase: SupabaseClient,
+  groupId: string
+): Promise<FamilyBranch[] | null> => {
+  const [branchResult, memberResult] = await Promise.all([
+    supabase
+      .from(FAMILY_BRANCHES_TABLE)
+      .select("id, title")
+      .eq("group_id", groupId)
+      .order("sort_order", { ascending: true })
+      .order("created_at", { ascending: true }),
+    supabase
+      .from(FAMILY_TREE_MEMBERS_TABLE)
+      .select("id, branch_id, name, relation, user_id")
+      .eq("group_id", groupId)
+      .order("sort_order", { ascending: true })
+      .order("created_at", { ascending: true })
+  ]);
+
+  if (branchResult.error || memberResult.error) {
+    return null;
+  }
+
+  const members = ((memberResult.data ?? []) as FamilyTreeMemberRow[])
+    .map(rowToMember)
+    .filter((member): member is FamilyTreeMember => Boolean(member));
+
+  return ((branchResult.data ?? []) as FamilyBranchRow[])
+    .filter((row): row is { id: string; title: string } => Boolean(row.id && row.title))
+    .map((row) => ({
+      id: row.id,
+      title: row.title,
+      members: members.filter((member) => member.branchId === row.id)
+    }));
+};
+
+export const addFamilyBranch = async (
+  supabase: SupabaseClient,
+  input: { groupId: string; title: string; sortOrder: number }
+): Promise<string | null> => {
+  const { error } = await supabase.from(FAMILY_BRANCHES_TABLE).insert({
+    group_id: input.groupId,
+    title: input.title.trim(),
+    sort_order: input.sortOrder
+  });
+  return error ? error.message : null;
+};
+
+export const renameFamilyBranch = async (
+  supabase: SupabaseClient,
+  branchId: string,
+  title: string
+): Promise<string | null> => {
+  const { error } = await supabase
+    .from(FAMILY_BRANCHES_TABLE)
+    .update({ title: title.trim() })
+    .eq("id", branchId);
+  return error ? error.message : null;
+};
+
+// 가지를 지우면 그 안의 구성원도 함께 지워진다(on delete cascade).
+export const removeFamilyBranch = async (
+  supabase: SupabaseClient,
+  branchId: string
+): Promise<string | null> => {
+  const { error } = await supabase.from(FAMILY_BRANCHES_TABLE).delete().eq("id", branchId);
+  return error ? error.message : null;
+};
+
+export const addFamilyTreeMember = async (
+  supabase: SupabaseClient,
+  input: {
+    groupId: string;
+    branchId: string;
+    name: string;
+    relation: string;
+    userId: string | null;
+    sortOrder: number;
+  }
+): Promise<string | null> => {
+  const { error } = await supabase.from(FAMILY_TREE_MEMBERS_TABLE).insert({
+    group_id: input.groupId,
+    branch_id: input.branchId,
+    name: input.name.trim(),
+    relation: input.relation.trim(),
+    user_id: input.userId,
+    sort_order: input.sortOrder
+  });
+  return error ? error.message : null;
+};
+
+// 구성원을 가입한 계정과 연결하거나(userId) 연결을 끊는다(null).
+export const linkFamilyTreeMember = async (
+  supabase: SupabaseClient,
+  memberId: string,
+  userId: string | null
+): Promise<string | null> => {
+  const { error } = await supabase
+    .from(FAMILY_TREE_MEMBERS_TABLE)
+    .update({ user_id: userId })
+    .eq("id", memberId);
+  return error ? error.message : null;
+};
+
+export const removeFamilyTreeMember = async (
+  supabase: SupabaseClient,
+  memberId: string
+): Promise<string | null> => {
+  const { error } = await supabase.from(FAMILY_TREE_MEMBERS_TABLE).delete().eq("id", memberId);
+  return error ? error.message : null;
+};
@@ -0,0 +1,174 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { fetchActiveMembership, isGroupRole, type GroupRole } from "./group-membership";
+
+export const PENDING_INVITE_STORAGE_KEY = "pending_group_invite_v1";
+const GROUP_INVITES_TABLE = "group_invites";
+// 이메일 인증을 거쳐 다른 기기에서 처음 로그인해도 참여할 수 있도록 가입 정보에도 남겨 둔다.
+const INVITE_METADATA_KEY = "invite_code";
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const INVITE_EXPIRY_OPTIONS = [
+  { days: 1, label: "1일" },
+  { days: 7, label: "7일" },
+  { days: 30, label: "30일" }
+];
+
+export type GroupInvite = {
+  code: string;
+  role: GroupRole;
+  expiresAt: string;
+};
+
+export type GroupActionResult<T> = { ok: true; value: T } | { ok: false; message: string };
+
+type GroupInviteRow = {
+  code?: string | null;
+  role?: string | null;
+  expires_at?: string | null;
+};
+
+type AcceptedInviteRow = {
+  group_id?: string | null;
+  role?: string | null;
+};
+
+export const normalizeInviteCode = (value: string) =>
+  value.replace(/[^0-9a-z]/gi, "").toUpperCase();
+
+export const buildInviteLink = (code: string) => {
+  const origin = typeof window === "undefined" ? "" : window.location.origin;
+  return `${origin}/login?mode=signup&invite=${encodeURIComponent(code)}`;
+};
+
+const rowToInvite = (row: GroupInviteRow): GroupInvite | null =>
+  row.code && isGroupRole(row.role) && row.expires_at
+    ? { code: row.code, role: row.role, expiresAt: row.expires_at }
+    : null;
+
+export const createFamilyGroup = async (
+  supabase: SupabaseClient,
+  input: { groupName: string; grandmaName: string }
+): Promise<GroupActionResult<string>> => {
+  const { data, error } = await supabase.rpc("create_family_group", {
+    group_name: input.groupName.trim(),
+    grandma_name: input.grandmaName.trim()
+  });
+  if (error || typeof data !== "string") {
+    return { ok: false, message: error?.message ?? "가족 그룹을 만들지 못했습니다." };
+  }
+  await fetchActiveMembership(supabase);
+  return { ok: true, value: data };
+};
+
+// 아직 만료되지 않은 초대만 보여준다.
+export const fetchGroupInvites = async (
+  supabase: SupabaseClient,
+  groupId: string
+): Promise<GroupInvite[] | null> => {
+  const { data, error } = await supabase
+    .from(GROUP_INVITES_TABLE)
+    .select("code, role, expires_at")
+    .eq("group_id", groupId)
+    .gt("expires_at", new Date().toISOString())
+    .order("created_at", { ascending: false });
+
+  if (error) {
+    return null;
+  }
+  return ((data ?? []) as GroupInviteRow[])
+    .map(rowToInvite)
+    .filter((invite): invite is GroupInvite => Boolean(invite));
+};
+
+export const createGroupInvite = async (
+  supabase: SupabaseClient,
+  input: { groupId: string; userId: string; role: GroupRole; expiresInDays: number }
+): Promise<GroupActionResult<GroupInvite>> => {
+  const expiresAt = new Date(Date.now() + input.expiresInDays * DAY_MS).toISOString();
+  const { data, error } = await supabase
+    .from(GROUP_INVITES_TABLE)
+    .insert({
+      group_id: input.groupId,
+      role: input.role,
+      expires_at: expiresAt,
+      created_by: input.userId
+    })
+    .select("code, role, expires_at")
+    .single();
+
+  const invite = data ? rowToInvite(data as GroupInviteRow) : null;
+  if (error || !invite) {
+    return { ok: false, message: error?.message ?? "초대 코드를 만들지 못했습니다." };
+  }
+  return { ok: true, value: invite };
+};
+
+export const revokeGroupInvite = async (
+  supabase: SupabaseClient,
+  code: string
+): Promise<string | null> => {
+  const { error } = await supabase.from(GROUP_INVITES_TABLE).delete().eq("code", code);
+  return error ? error.message : null;
+};
+
+export const acceptGroupInvite = async (
+  supabase: SupabaseClient,
+  code: string
+): Promise<GroupActionResult<GroupRole>> => {
+  const { data, error } = await supabase.rpc("accept_group_invite", {
+    invite_code: normalizeInviteCode(code)
+  });
+  if (error) {
+    return { ok: false, message: error.message };
+  }
+  // 틀린 코드는 실패 횟수를 남기려고 예외 대신 빈 결과로 온다.
+  const row = ((data ?? []) as AcceptedInviteRow[])[0];
+  if (!row) {
+    return { ok: false, message: "초대 코드를 찾을 수 없습니다." };
+  }
+  if (!isGroupRole(row.role)) {
+    return { ok: false, message: "초대 코드로 참여하지 못했습니다." };
+  }
+  await fetchActiveMembership(supabase);
+  return { ok: true, value: row.role };
+};
+
+export const savePendingInvite = (code: string) => {
+  if (typeof window === "undefined") {
+    return;
+  }
+  window.localStorage.setItem(PENDING_INVITE_STORAGE_KEY, normalizeInviteCode(code));
+};
+
+export const buildInviteMetadata = (code: string) => ({
+  [INVITE_METADATA_KEY]: normalizeInviteCode(code)
+});
+
+// 가입할 때 받은 초대 코드가 남아 있으면 로그인한 뒤 한 번 참여시킨다.
+// 코드가 만료됐거나 틀렸어도 다시 시도하지 않도록 지운다.
+export const acceptPendingInvite = async (
+  supabase: SupabaseClient
+): Promise<GroupActionResult<GroupRole> | null> => {
+  if (typeof window === "undefined" || navigator.onLine === false) {
+    return null;
+  }
+  const { data } = await supabase.auth.getUser();
+  const user = data.user;
+  if (!user) {
+    return null;
+  }
+  const metadataCode = user.user_metadata?.[INVITE_METADATA_KEY];
+  const code =
+    window.localStorage.getItem(PENDING_INVITE_STORAGE_KEY) ||
+    (typeof metadataCode === "string" ? metadataCode : "");
+  if (!code) {
+    return null;
+  }
+
+  const result = await acceptGroupInvite(supabase, code);
+  window.localStorage.removeItem(PENDING_INVITE_STORAGE_KEY);
+  if (typeof metadataCode === "string") {
+    await supabase.auth.updateUser({ data: { [INVITE_METADATA_KEY]: null } });
+  }
+  return result;
+};
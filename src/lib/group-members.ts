@@ -0,0 +1,127 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { isGroupRole, type GroupRole } from "./group-membership";
+
+const GROUPS_TABLE = "groups";
+const GROUP_MEMBERS_TABLE = "group_members";
+const REGISTERED_MEMBERS_TABLE = "family_member_registrations";
+
+export type GroupMember = {
+  userId: string;
+  role: GroupRole;
+  name: string;
+  relation: string;
+};
+
+type GroupMemberRow = {
+  user_id?: string | null;
+  role?: string | null;
+};
+
+type RegistrationRow = {
+  user_id?: string | null;
+  name?: string | null;
+  relation?: string | null;
+};
+
+// 관리자는 그룹 구성원 전체를, 그 밖의 구성원은 자기 자신만 읽을 수 있다(RLS).
+export const fetchGroupMembers = async (
+  supabase: SupabaseClient,
+  groupId: string
+): Promise<GroupMember[] | null> => {
+  const { data, error } = await supabase
+    .from(GROUP_MEMBERS_TABLE)
+    .select("user_id, role")
+    .eq("group_id", groupId)
+    .order("created_at", { ascending: true });
+
+  if (error) {
+    return null;
+  }
+
+  const rows = ((data ?? []) as GroupMemberRow[]).filter(
+    (row): row is { user_id: string; role: GroupRole } =>
+      Boolean(row.user_id) && isGroupRole(row.role)
+  );
+  if (rows.length === 0) {
+    return [];
+  }
+
+  const { data: registrations } = await supabase
+    .from(REGISTERED_MEMBERS_TABLE)
+    .select("user_id, name, relation")
+    .in(
+      "user_id",
+      rows.map((row) => row.user_id)
+    );
+  const profiles = new Map(
+    ((registrations ?? []) as RegistrationRow[])
+      .filter((row) => row.user_id)
+      .map((row) => [row.user_id as string, row])
+  );
+
+  return rows.map((row) => {
+    const profile = profiles.get(row.user_id);
+    return {
+      userId: row.user_id,
+      role: row.role,
+      name: profile?.name?.trim() || "이름 없는 가족",
+      relation: profile?.relation?.trim() ?? ""
+    };
+  });
+};
+
+export const updateMemberRole = async (
+  supabase: SupabaseClient,
+  groupId: string,
+  userId: string,
+  role: GroupRole
+): Promise<string | null> => {
+  const { error } = await supabase
+    .from(GROUP_MEMBERS_TABLE)
+    .update({ role })
+    .eq("group_id", groupId)
+    .eq("user_id", userId);
+
+  return error ? error.message : null;
+};
+
+export const removeGroupMember = async (
+  supabase: SupabaseClient,
+  groupId: string,
+  userId: string
+): Promise<string | null> => {
+  const { error } = await supabase
+    .from(GROUP_MEMBERS_TABLE)
+    .delete()
+    .eq("group_id", groupId)
+    .eq("user_id", userId);
+
+  return error ? error.message : null;
+};
+
+// 놓친 할 일을 가족 모두보다 먼저 받을 대표 보호자. 정하지 않았으면 null.
+export const fetchPrimaryCaregiver = async (
+  supabase: SupabaseClient,
+  groupId: string
+): Promise<string | null> => {
+  const { data } = await supabase
+    .from(GROUPS_TABLE)
+    .select("primary_caregiver_id")
+    .eq("id", groupId)
+    .maybeSingle();
+
+  return (data as { primary_caregiver_id?: string | null } | null)?.primary_caregiver_id ?? null;
+};
+
+export const updatePrimaryCaregiver = async (
+  supabase: SupabaseClient,
+  groupId: string,
+  userId: string | null
+): Promise<string | null> => {
+  const { error } = await supabase
+    .from(GROUPS_TABLE)
+    .update({ primary_caregiver_id: userId })
+    .eq("id", groupId);
+
+  return error ? error.message : null;
+};
@@ -0,0 +1,96 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+export const GROUP_MEMBERSHIP_STORAGE_KEY = "group_membership_v1";
+const GROUP_MEMBERS_TABLE = "group_members";
+
+export type GroupRole = "admin" | "editor" | "viewer";
+
+export type GroupMembership = {
+  groupId: string;
+  userId: string;
+  role: GroupRole;
+};
+
+type GroupMemberRow = {
+  group_id?: string | null;
+  role?: string | null;
+};
+
+const GROUP_ROLES = new Set<string>(["admin", "editor", "viewer"]);
+
+export const isGroupRole = (value: unknown): value is GroupRole =>
+  typeof value === "string" && GROUP_ROLES.has(value);
+
+const normalizeMembership = (value: unknown): GroupMembership | null => {
+  if (!value || typeof value !== "object") {
+    return null;
+  }
+  const record = value as Record<string, unknown>;
+  const groupId = typeof record.groupId === "string" ? record.groupId.trim() : "";
+  const userId = typeof record.userId === "string" ? record.userId.trim() : "";
+  if (!groupId || !userId || !isGroupRole(record.role)) {
+    return null;
+  }
+  return { groupId, userId, role: record.role };
+};
+
+export const loadCachedMembership = (): GroupMembership | null => {
+  if (typeof window === "undefined") {
+    return null;
+  }
+  const raw = window.localStorage.getItem(GROUP_MEMBERSHIP_STORAGE_KEY);
+  if (!raw) {
+    return null;
+  }
+  try {
+    return normalizeMembership(JSON.parse(raw));
+  } catch {
+    return null;
+  }
+};
+
+const persistMembership = (membership: GroupMembership | null) => {
+  if (typeof window === "undefined") {
+    return;
+  }
+  if (!membership) {
+    window.localStorage.removeItem(GROUP_MEMBERSHIP_STORAGE_KEY);
+    return;
+  }
+  window.localStorage.setItem(
+    GROUP_MEMBERSHIP_STORAGE_KEY,
+    JSON.stringify(membership)
+  );
+};
+
+// 로그인한 사용자가 속한 첫 번째 그룹을 찾는다. 오프라인이면 마지막으로 확인한 값을 쓴다.
+export const fetchActiveMembership = async (
+  supabase: SupabaseClient
+): Promise<GroupMembership | null> => {
+  const { data: sessionData } = await supabase.auth.getSession();
+  const userId = sessionData.session?.user.id;
+  if (!userId) {
+    persistMembership(null);
+    return null;
+  }
+
+  const cached = loadCachedMembership();
+  const { data, error } = await supabase
+    .from(GROUP_MEMBERS_TABLE)
+    .select("group_id, role")
+    .eq("user_id", userId)
+    .order("created_at", { ascending: true })
+    .limit(1);
+
+  if (error) {
+    return cached && cached.userId === userId ? cached : null;
+  }
+
+  const row = (data ?? [])[0] as GroupMemberRow | undefined;
+  const membership =
+    row && row.group_id && isGroupRole(row.role)
+      ? { groupId: row.group_id, userId, role: row.role }
+      : null;
+  persistMembership(membership);
+  return membership;
+};
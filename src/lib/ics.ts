@@ -0,0 +1,601 @@
+import type { CalendarEvent, EventOccurrenceOverride } from "./types";
+import { getLunarOccurrenceKey, toLunarDate } from "./lunar";
+import { formatRRule, getEventRecurrence, getRuleLastDate, parseRRule } from "./recurrence";
+import { normalizeEvent } from "./storage";
+import { addDays, getDateKey, pad2, parseDateKey, toMinutes } from "./time";
+
+// 가족 일정은 모두 한국 시간으로 저장한다.
+export const ICS_TIME_ZONE = "Asia/Seoul";
+const ICS_DOMAIN = "grandma-todo";
+const MAX_LINE_OCTETS = 75;
+// 음력 반복은 RRULE로 나타낼 수 없어 이 범위의 회차를 하나씩 펼친다(올해 기준).
+const LUNAR_YEARS_BEFORE = 1;
+const LUNAR_YEARS_AFTER = 5;
+
+const encoder = new TextEncoder();
+
+// RFC 5545 3.1: 75옥텟이 넘는 줄은 CRLF + 공백으로 접는다. 한글은 글자당 3옥텟이다.
+const foldLine = (line: string) => {
+  const parts: string[] = [];
+  let current = "";
+  let octets = 0;
+  Array.from(line).forEach((char) => {
+    const size = encoder.encode(char).length;
+    if (octets + size > MAX_LINE_OCTETS) {
+      parts.push(current);
+      current = " ";
+      octets = 1;
+    }
+    current += char;
+    octets += size;
+  });
+  parts.push(current);
+  return parts.join("\r\n");
+};
+
+const escapeText = (value: string) =>
+  value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+
+const compactDate = (dateKey: string) => dateKey.replace(/-/g, "");
+
+const nextDateKey = (dateKey: string) => {
+  const date = parseDateKey(dateKey);
+  return date ? getDateKey(addDays(date, 1)) : dateKey;
+};
+
+const formatUtcStamp = (date: Date) =>
+  date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+
+// "24:00"은 다음 날 0시로 쓴다.
+const formatLocalDateTime = (dateKey: string, time: string) =>
+  time === "24:00"
+    ? `${compactDate(nextDateKey(dateKey))}T000000`
+    : `${compactDate(dateKey)}T${time.replace(":", "")}00`;
+
+type Timing = Pick<CalendarEvent, "startDate" | "endDate" | "start" | "end" | "allDay">;
+
+const timingLines = (timing: Timing) =>
+  timing.allDay
+    ? [
+        `DTSTART;VALUE=DATE:${compactDate(timing.startDate)}`,
+        `DTEND;VALUE=DATE:${compactDate(nextDateKey(timing.endDate))}`
+      ]
+    : [
+        `DTSTART;TZID=${ICS_TIME_ZONE}:${formatLocalDateTime(timing.startDate, timing.start)}`,
+        `DTEND;TZID=${ICS_TIME_ZONE}:${formatLocalDateTime(timing.endDate, timing.end)}`
+      ];
+
+// 원래 회차를 가리키는 값(RECURRENCE-ID, EXDATE). 시리즈의 DTSTART와 같은 형식이어야 한다.
+const occurrenceValue = (event: CalendarEvent, dateKey: string) =>
+  event.allDay
+    ? `;VALUE=DATE:${compactDate(dateKey)}`
+    : `;TZID=${ICS_TIME_ZONE}:${formatLocalDateTime(dateKey, event.start)}`;
+
+// repeatUntil(이후 모든 일정 삭제)은 UNTIL로 옮긴다. RRULE에 COUNT와 UNTIL을 함께 쓸 수 없으므로
+// COUNT가 있는 규칙은 repeatUntil이 COUNT의 마지막 회차보다 앞설 때만 COUNT 대신 UNTIL을 쓴다.
+const buildRRule = (event: CalendarEvent) => {
+  const rule = getEventRecurrence(event);
+  if (!rule) {
+    return null;
+  }
+  let until: string | null;
+  if (rule.count === null) {
+    until =
+      [rule.until, event.repeatUntil]
+        .filter((value): value is string => Boolean(value))
+        .sort()[0] ?? null;
+  } else {
+    const countEnd = getRuleLastDate(rule, event.startDate);
+    until =
+      event.repeatUntil && (!countEnd || event.repeatUntil < countEnd) ? event.repeatUntil : null;
+  }
+  const base = formatRRule({ ...rule, count: until ? null : rule.count, until: null });
+  if (!until) {
+    return base;
+  }
+  // 시각이 있는 일정의 UNTIL은 UTC로 쓴다. 한국 시간 그날 23:59:59는 UTC 14:59:59다.
+  return `${base};UNTIL=${compactDate(until)}${event.allDay ? "" : "T145959Z"}`;
+};
+
+const veventLines = (
+  uid: string,
+  stamp: string,
+  timing: Timing,
+  summary: string,
+  extra: string[]
+) => [
+  "BEGIN:VEVENT",
+  `UID:${uid}`,
+  `DTSTAMP:${stamp}`,
+  ...timingLines(timing),
+  `SUMMARY:${escapeText(summary)}`,
+  ...extra,
+  "END:VEVENT"
+];
+
+const overrideTiming = (event: CalendarEvent, override: EventOccurrenceOverride): Timing => ({
+  startDate: override.date,
+  endDate: override.date,
+  start: override.start,
+  end: override.end,
+  allDay: override.allDay ?? event.allDay
+});
+
+const lunarEventLines = (event: CalendarEvent, stamp: string, baseYear: number) => {
+  const lunar = toLunarDate(event.startDate);
+  if (!lunar) {
+    return [];
+  }
+  const exdates = new Set(event.exdates ?? []);
+  const lines: string[] = [];
+  for (let year = baseYear - LUNAR_YEARS_BEFORE; year <= baseYear + LUNAR_YEARS_AFTER; year += 1) {
+    const dateKey = getLunarOccurrenceKey(lunar, year);
+    if (
+      !dateKey ||
+      dateKey < event.startDate ||
+      (event.repeatUntil && dateKey > event.repeatUntil) ||
+      exdates.has(dateKey)
+    ) {
+      continue;
+    }
+    const override = event.overrides?.[dateKey];
+    lines.push(
+      ...veventLines(
+        `${event.id}-${dateKey}@${ICS_DOMAIN}`,
+        stamp,
+        override
+          ? overrideTiming(event, override)
+          : { ...event, startDate: dateKey, endDate: dateKey },
+        override?.label ?? event.label,
+        []
+      )
+    );
+  }
+  return lines;
+};
+
+const eventLines = (event: CalendarEvent, stamp: string, baseYear: number) => {
+  if (event.repeat === "lunarYearly") {
+    return lunarEventLines(event, stamp, baseYear);
+  }
+  const uid = `${event.id}@${ICS_DOMAIN}`;
+  const rrule = buildRRule(event);
+  if (!rrule) {
+    return veventLines(uid, stamp, event, event.label, []);
+  }
+  const exdates = event.exdates ?? [];
+  const lines = veventLines(uid, stamp, event, event.label, [
+    `RRULE:${rrule}`,
+    ...exdates.map((dateKey) => `EXDATE${occurrenceValue(event, dateKey)}`)
+  ]);
+  // "이 일정만 수정"한 회차는 같은 UID에 RECURRENCE-ID를 붙인 VEVENT로 덮어쓴다.
+  Object.entries(event.overrides ?? {})
+    .filter(([occurrenceDate]) => !exdates.includes(occurrenceDate))
+    .forEach(([occurrenceDate, override]) => {
+      lines.push(
+        ...veventLines(uid, stamp, overrideTiming(event, override), override.label, [
+          `RECURRENCE-ID${occurrenceValue(event, occurrenceDate)}`
+        ])
+      );
+    });
+  return lines;
+};
+
+// 가족 일정을 iCalendar(RFC 5545) 문서로 만든다. 캘린더 앱은 한 시간마다 다시 읽는다.
+export const buildIcsCalendar = (
+  events: CalendarEvent[],
+  options: { name: string; now?: Date }
+) => {
+  const now = options.now ?? new Date();
+  const stamp = formatUtcStamp(now);
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//Grandma Todo//Family Calendar//KO",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(options.name)}`,
+    `X-WR-TIMEZONE:${ICS_TIME_ZONE}`,
+    "REFRESH-INTERVAL;VALUE=DURATION:PT1H",
+    "X-PUBLISHED-TTL:PT1H",
+    "BEGIN:VTIMEZONE",
+    `TZID:${ICS_TIME_ZONE}`,
+    "BEGIN:STANDARD",
+    "DTSTART:19700101T000000",
+    "TZOFFSETFROM:+0900",
+    "TZOFFSETTO:+0900",
+    "TZNAME:KST",
+    "END:STANDARD",
+    "END:VTIMEZONE",
+    ...events.flatMap((event) => eventLines(event, stamp, now.getFullYear())),
+    "END:VCALENDAR"
+  ];
+  return `${lines.map(foldLine).join("\r\n")}\r\n`;
+};
+
+export type IcsImportItem = {
+  event: CalendarEvent;
+  repeatDropped: boolean; // 읽을 수 없는 RRULE이라 첫 회차만 가져온다
+};
+
+export type IcsImportResult = {
+  items: IcsImportItem[];
+  skipped: number; // 날짜가 없거나 normalizeEvent를 통과하지 못한 VEVENT 수
+};
+
+type ContentLine = {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+};
+
+type IcsDateTime = {
+  dateKey: string;
+  time: string | null; // null이면 날짜만(종일)
+  dayShift: number; // 한국 시간으로 옮기며 바뀐 날짜 수. 반복 규칙의 요일을 맞출 때 쓴다
+};
+
+type RawVEvent = {
+  uid: string;
+  recurrenceId: IcsDateTime | null;
+  start: IcsDateTime;
+  end: IcsDateTime | null;
+  summary: string;
+  rrule: string | null;
+  exdates: IcsDateTime[];
+  cancelled: boolean;
+};
+
+const SEOUL_OFFSET_MINUTES = 9 * 60;
+
+const unescapeText = (value: string) =>
+  value.replace(/\\([\\;,nN])/g, (_, char: string) =>
+    char === "n" || char === "N" ? "\n" : char
+  );
+
+// "DTSTART;TZID=America/New_York:20260101T090000"을 이름, 매개변수, 값으로 나눈다.
+// 따옴표로 감싼 매개변수 안의 ; : 는 구분자로 보지 않는다.
+const parseContentLine = (line: string): ContentLine | null => {
+  const parts: string[] = [];
+  let current = "";
+  let quoted = false;
+  for (let index = 0; index < line.length; index += 1) {
+    const char = line[index];
+    if (char === '"') {
+      quoted = !quoted;
+    } else if (!quoted && char === ":") {
+      parts.push(current);
+      const [name, ...rawParams] = parts;
+      const params: Record<string, string> = {};
+      rawParams.forEach((param) => {
+        const [key, ...rest] = param.split("=");
+        params[key.toUpperCase()] = rest.join("=");
+      });
+      return { name: name.toUpperCase(), params, value: line.slice(index + 1) };
+    } else if (!quoted && char === ";") {
+      parts.push(current);
+      current = "";
+      continue;
+    }
+    current += char;
+  }
+  return null;
+};
+
+const shiftMinutes = (dateKey: string, minutes: number, delta: number) => {
+  const date = parseDateKey(dateKey);
+  if (!date) {
+    return null;
+  }
+  const total = minutes + delta;
+  const dayShift = Math.floor(total / (24 * 60));
+  const rest = total - dayShift * 24 * 60;
+  return {
+    dateKey: getDateKey(addDays(date, dayShift)),
+    time: `${pad2(Math.floor(rest / 60))}:${pad2(rest % 60)}`,
+    dayShift
+  };
+};
+
+// 그 시간대의 벽시계 시각에서 UTC를 빼 오프셋(분)을 구한다. 모르는 TZID면 null.
+const getZoneOffsetMinutes = (timeZone: string, utcMs: number) => {
+  try {
+    const parts = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit"
+    }).formatToParts(new Date(utcMs));
+    const get = (type: string) => Number(parts.find((part) => part.type === type)?.value);
+    const wall = Date.UTC(get("year"), get("month") - 1, get("day"), get("hour"), get("minute"));
+    return Math.round((wall - utcMs) / 60000);
+  } catch {
+    return null;
+  }
+};
+
+// 날짜·시각을 한국 시간으로 옮긴다. UTC(Z)와 다른 시간대(TZID)는 바꾸고,
+// 시간대가 없거나 알 수 없는 TZID는 한국 시간으로 본다.
+const parseIcsDateTime = (value: string, params: Record<string, string>): IcsDateTime | null => {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})\d{2}(Z)?)?$/.exec(value.trim());
+  if (!match) {
+    return null;
+  }
+  const [, year, month, day, hour, minute, utc] = match;
+  const dateKey = `${year}-${month}-${day}`;
+  if (!parseDateKey(dateKey)) {
+    return null;
+  }
+  if (!hour || params.VALUE === "DATE") {
+    return { dateKey, time: null, dayShift: 0 };
+  }
+  const minutes = Number(hour) * 60 + Number(minute);
+  const tzid = params.TZID?.replace(/"/g, "");
+  let offset = SEOUL_OFFSET_MINUTES;
+  if (utc) {
+    offset = 0;
+  } else if (tzid && tzid !== ICS_TIME_ZONE) {
+    const guess = Date.UTC(Number(year), Number(month) - 1, Number(day), 0, minutes);
+    offset = getZoneOffsetMinutes(tzid, guess) ?? SEOUL_OFFSET_MINUTES;
+  }
+  return shiftMinutes(dateKey, minutes, SEOUL_OFFSET_MINUTES - offset);
+};
+
+// DURATION:P1D, PT1H30M 처럼 DTEND 대신 길이만 있는 일정.
+const applyDuration = (start: IcsDateTime, value: string): IcsDateTime | null => {
+  const match = /^\+?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:\d+S)?)?$/.exec(
+    value.trim()
+  );
+  if (!match) {
+    return null;
+  }
+  const [weeks, days, hours, minutes] = match.slice(1).map((part) => Number(part ?? 0));
+  const totalDays = weeks * 7 + days;
+  if (start.time === null) {
+    const date = parseDateKey(start.dateKey);
+    return date
+      ? { dateKey: getDateKey(addDays(date, totalDays)), time: null, dayShift: 0 }
+      : null;
+  }
+  return shiftMinutes(
+    start.dateKey,
+    toMinutes(start.time),
+    totalDays * 24 * 60 + hours * 60 + minutes
+  );
+};
+
+const previousDateKey = (dateKey: string) => {
+  const date = parseDateKey(dateKey);
+  return date ? getDateKey(addDays(date, -1)) : dateKey;
+};
+
+// 캘린더 일정은 시작/끝 날짜와 하루 안의 시각 범위로 나타낸다.
+// 자정에 끝나면 전날 24:00으로 쓰고, 시각 범위로 나타낼 수 없으면 그 기간의 종일 일정으로 가져온다.
+const toTiming = (start: IcsDateTime, end: IcsDateTime | null): Timing => {
+  if (start.time === null) {
+    const endDate = end ? previousDateKey(end.dateKey) : start.dateKey;
+    return {
+      startDate: start.dateKey,
+      endDate: endDate < start.dateKey ? start.dateKey : endDate,
+      start: "00:00",
+      end: "23:59",
+      allDay: true
+    };
+  }
+  let endDate = end?.dateKey ?? start.dateKey;
+  let endTime = end?.time ?? start.time;
+  if (endTime === "00:00" && endDate > start.dateKey) {
+    endDate = previousDateKey(endDate);
+    endTime = "24:00";
+  }
+  if (endTime > start.time && endDate >= start.dateKey) {
+    return { startDate: start.dateKey, endDate, start: start.time, end: endTime, allDay: false };
+  }
+  if (endDate > start.dateKey) {
+    return { startDate: start.dateKey, endDate, start: "00:00", end: "23:59", allDay: true };
+  }
+  // 끝 시각이 없거나 시작보다 빠르면 한 시간짜리로 둔다.
+  const fallback = shiftMinutes(start.dateKey, toMinutes(start.time), 60);
+  return {
+    startDate: start.dateKey,
+    endDate: start.dateKey,
+    start: start.time,
+    end: fallback && fallback.dateKey === start.dateKey ? fallback.time : "24:00",
+    allDay: false
+  };
+};
+
+const readVEvents = (text: string) => {
+  const lines = text.replace(/\r\n/g, "\n").replace(/\n[ \t]/g, "").split("\n");
+  const events: RawVEvent[] = [];
+  let skipped = 0;
+  let current: Partial<RawVEvent> | null = null;
+  // VEVENT 안의 VALARM 같은 하위 구성 요소의 속성은 건너뛴다.
+  let depth = 0;
+
+  lines.forEach((raw) => {
+    const line = parseContentLine(raw);
+    if (!line) {
+      return;
+    }
+    const value = line.value.toUpperCase();
+    if (line.name === "BEGIN") {
+      if (value === "VEVENT" && !current) {
+        current = { exdates: [], cancelled: false, rrule: null, recurrenceId: null, summary: "" };
+        depth = 0;
+      } else if (current) {
+        depth += 1;
+      }
+      return;
+    }
+    if (line.name === "END") {
+      if (!current) {
+        return;
+      }
+      if (depth > 0) {
+        depth -= 1;
+        return;
+      }
+      if (value === "VEVENT") {
+        if (current.start) {
+          events.push({ uid: "", end: null, ...current } as RawVEvent);
+        } else {
+          skipped += 1;
+        }
+        current = null;
+      }
+      return;
+    }
+    if (!current || depth > 0) {
+      return;
+    }
+    switch (line.name) {
+      case "UID":
+        current.uid = line.value.trim();
+        break;
+      case "SUMMARY":
+        current.summary = unescapeText(line.value).replace(/\s+/g, " ").trim();
+        break;
+      case "DTSTART":
+        current.start = parseIcsDateTime(line.value, line.params) ?? undefined;
+        break;
+      case "DTEND":
+        current.end = parseIcsDateTime(line.value, line.params);
+        break;
+      case "DURATION":
+        if (current.start && !current.end) {
+          current.end = applyDuration(current.start, line.value);
+        }
+        break;
+      case "RRULE":
+        current.rrule = line.value;
+        break;
+      case "EXDATE":
+        line.value.split(",").forEach((item) => {
+          const exdate = parseIcsDateTime(item, line.params);
+          if (exdate) {
+            current?.exdates?.push(exdate);
+          }
+        });
+        break;
+      case "RECURRENCE-ID":
+        current.recurrenceId = parseIcsDateTime(line.value, line.params);
+        break;
+      case "STATUS":
+        current.cancelled = value === "CANCELLED";
+        break;
+      default:
+        break;
+    }
+  });
+  return { events, skipped };
+};
+
+// UNTIL은 UTC로 오는 경우가 많아 한국 날짜로 다시 맞춘다. 시작이 한국 시간으로 하루 밀리면
+// (예: 뉴욕 화요일 저녁 → 한국 수요일 아침) BYDAY, BYMONTHDAY도 같이 민다.
+// 지원하지 않거나 옮길 수 없는 규칙이면 null.
+const toRRule = (value: string, dayShift: number) => {
+  const rule = parseRRule(value);
+  if (!rule) {
+    return null;
+  }
+  const until = /(?:^|;)UNTIL=([^;]+)/i.exec(value)?.[1];
+  const untilDate = until ? parseIcsDateTime(until, {}) : null;
+  const byMonthDay = rule.byMonthDay.map((day) => day + dayShift);
+  const movable = rule.byMonthDay.every(
+    (day) => day > 0 && day + dayShift >= 1 && day + dayShift <= 31
+  );
+  if (dayShift !== 0 && !movable) {
+    return null;
+  }
+  return formatRRule({
+    ...rule,
+    byDay: rule.byDay.map((item) => ({ ...item, weekday: (item.weekday + dayShift + 7) % 7 })),
+    byMonthDay,
+    until: untilDate?.dateKey ?? rule.until
+  });
+};
+
+const createImportId = () =>
+  typeof crypto !== "undefined" && typeof crypto.randomUUID === "function"
+    ? crypto.randomUUID()
+    : `event_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+
+// 다른 캘린더에서 내보낸 .ics를 가족 일정으로 바꾼다. 반복 일정의 "이 회차만 수정"
+// (RECURRENCE-ID)은 overrides로, 취소된 회차와 EXDATE는 exdates로 옮긴다.
+// 캘린더는 하루짜리 일정만 반복하므로 반복 일정은 시작 날짜 하루로 가져온다.
+// 다른 그룹과 겹치지 않도록 UID 대신 새 id를 쓴다.
+export const parseIcsCalendar = (text: string): IcsImportResult => {
+  const { events: rawEvents, skipped: unreadable } = readVEvents(text);
+  const masters = rawEvents.filter((item) => !item.recurrenceId);
+  const exceptions = rawEvents.filter((item) => item.recurrenceId);
+  const items: IcsImportItem[] = [];
+  const usedExceptions = new Set<RawVEvent>();
+  let skipped = unreadable;
+
+  masters.forEach((raw) => {
+    if (raw.cancelled) {
+      return;
+    }
+    const timing = toTiming(raw.start, raw.end);
+    const rrule = raw.rrule ? toRRule(raw.rrule, raw.start.dayShift) : null;
+    const repeating = Boolean(rrule);
+    const exdates = new Set(raw.exdates.map((item) => item.dateKey));
+    const overrides: Record<string, EventOccurrenceOverride> = {};
+    if (repeating && raw.uid) {
+      exceptions
+        .filter((item) => item.uid === raw.uid && item.recurrenceId)
+        .forEach((item) => {
+          usedExceptions.add(item);
+          const occurrenceDate = item.recurrenceId?.dateKey ?? "";
+          if (item.cancelled) {
+            exdates.add(occurrenceDate);
+            return;
+          }
+          const override = toTiming(item.start, item.end);
+          overrides[occurrenceDate] = {
+            date: override.startDate,
+            start: override.start,
+            end: override.startDate === override.endDate ? override.end : "24:00",
+            label: item.summary || raw.summary,
+            allDay: override.allDay
+          };
+        });
+    }
+    const event = normalizeEvent({
+      id: createImportId(),
+      ...timing,
+      endDate: repeating ? timing.startDate : timing.endDate,
+      label: raw.summary || "제목 없는 일정",
+      repeat: repeating ? "custom" : "none",
+      rrule: rrule ?? undefined,
+      exdates: [...exdates],
+      overrides
+    });
+    if (!event) {
+      skipped += 1;
+      return;
+    }
+    items.push({
+      event: { ...event, source: "user" },
+      repeatDropped: Boolean(raw.rrule) && !repeating
+    });
+  });
+
+  // 원래 일정이 파일에 없는 회차 수정은 붙일 곳이 없다.
+  skipped += exceptions.filter((item) => !usedExceptions.has(item)).length;
+
+  items.sort((a, b) =>
+    a.event.startDate === b.event.startDate
+      ? a.event.start.localeCompare(b.event.start)
+      : a.event.startDate.localeCompare(b.event.startDate)
+  );
+  return { items, skipped };
+};
@@ -0,0 +1,119 @@
+import KoreanLunarCalendar from "korean-lunar-calendar";
+import { pad2, parseDateKey } from "./time";
+
+export type LunarDate = {
+  year: number;
+  month: number;
+  day: number;
+  leap: boolean; // 윤달
+};
+
+// korean-lunar-calendar가 다루는 범위를 벗어나면 변환하지 않는다.
+const MIN_LUNAR_YEAR = 1391;
+const MAX_LUNAR_YEAR = 2050;
+
+const occurrenceCache = new Map<string, string | null>();
+
+export function toLunarDate(dateKey: string): LunarDate | null {
+  const date = parseDateKey(dateKey);
+  if (!date) {
+    return null;
+  }
+  try {
+    const calendar = new KoreanLunarCalendar();
+    if (!calendar.setSolarDate(date.getFullYear(), date.getMonth() + 1, date.getDate())) {
+      return null;
+    }
+    const lunar = calendar.getLunarCalendar();
+    if (!lunar || !lunar.year || !lunar.month || !lunar.day) {
+      return null;
+    }
+    return {
+      year: lunar.year,
+      month: lunar.month,
+      day: lunar.day,
+      leap: lunar.intercalation === true
+    };
+  } catch {
+    return null;
+  }
+}
+
+const convertToSolarKey = (year: number, month: number, day: number, leap: boolean) => {
+  try {
+    const calendar = new KoreanLunarCalendar();
+    if (!calendar.setLunarDate(year, month, day, leap)) {
+      return null;
+    }
+    const solar = calendar.getSolarCalendar();
+    if (!solar || !solar.year || !solar.month || !solar.day) {
+      return null;
+    }
+    return `${solar.year}-${pad2(solar.month)}-${pad2(solar.day)}`;
+  } catch {
+    return null;
+  }
+};
+
+// 그 음력 해에 맞는 양력 날짜를 구한다.
+// 윤달 일정은 윤달이 없는 해에는 같은 달(평달)에 지내고, 30일 일정은 29일까지인 달에는 그믐(29일)에 지낸다.
+export function getLunarOccurrenceKey(
+  lunar: Pick<LunarDate, "month" | "day" | "leap">,
+  lunarYear: number
+): string | null {
+  if (lunarYear < MIN_LUNAR_YEAR || lunarYear > MAX_LUNAR_YEAR) {
+    return null;
+  }
+  const cacheKey = `${lunarYear}-${lunar.month}-${lunar.day}-${lunar.leap ? 1 : 0}`;
+  const cached = occurrenceCache.get(cacheKey);
+  if (cached !== undefined) {
+    return cached;
+  }
+  let result: string | null = null;
+  for (let day = lunar.day; day >= Math.min(lunar.day, 29) && !result; day -= 1) {
+    result = convertToSolarKey(lunarYear, lunar.month, day, lunar.leap);
+  }
+  occurrenceCache.set(cacheKey, result);
+  return result;
+}
+
+// 시작일(양력)의 음력 날짜를 기준으로 매년 같은 음력 날짜에 반복한다.
+export function lunarOccursOnDate(startDate: string, dateKey: string): boolean {
+  if (dateKey < startDate) {
+    return false;
+  }
+  const base = toLunarDate(startDate);
+  const target = toLunarDate(dateKey);
+  if (!base || !target) {
+    return false;
+  }
+  return getLunarOccurrenceKey(base, target.year) === dateKey;
+}
+
+// 음력 월/일로 입력하면 기준 해(없으면 가까운 윤달이 있는 해)의 양력 날짜를 찾아 시작일로 쓴다.
+export function findSolarDateForLunar(
+  lunar: Pick<LunarDate, "month" | "day" | "leap">,
+  preferredYear: number
+): string | null {
+  const candidates = [preferredYear];
+  if (lunar.leap) {
+    for (let offset = 1; offset <= 60; offset += 1) {
+      candidates.push(preferredYear - offset);
+    }
+  }
+  for (const year of candidates) {
+    const key = convertToSolarKey(year, lunar.month, lunar.day, lunar.leap);
+    if (!key) {
+      continue;
+    }
+    const converted = toLunarDate(key);
+    if (converted && converted.leap === lunar.leap && converted.day === lunar.day) {
+      return key;
+    }
+  }
+  return null;
+}
+
+export function formatLunarDate(lunar: Pick<LunarDate, "month" | "day" | "leap">): string {
+  return `음력 ${lunar.leap ? "윤" : ""}${lunar.month}월 ${lunar.day}일`;
+}
@@ -0,0 +1,64 @@
+import { mkdir, writeFile } from "node:fs/promises";
+import path from "node:path";
+
+// 서버 작업에서만 쓴다. 받는 사람마다 한 통씩 보낸다.
+export type MailMessage = {
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+};
+
+export type Mailer = {
+  name: string;
+  send: (message: MailMessage) => Promise<void>;
+};
+
+const RESEND_API_URL = "https://api.resend.com/emails";
+
+export const createResendMailer = (apiKey: string, from: string): Mailer => ({
+  name: "resend",
+  send: async (message) => {
+    const response = await fetch(RESEND_API_URL, {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${apiKey}`,
+        "Content-Type": "application/json"
+      },
+      body: JSON.stringify({ from, ...message })
+    });
+    if (!response.ok) {
+      throw new Error(`Resend ${response.status}: ${await response.text()}`);
+    }
+  }
+});
+
+// 개발용. 디렉터리를 주면 메일마다 HTML 파일로 남기고, 없으면 콘솔에 본문을 찍는다.
+export const createLocalMailer = (outboxDir: string | null): Mailer => ({
+  name: outboxDir ? "file" : "console",
+  send: async (message) => {
+    if (!outboxDir) {
+      console.info(`[mail] to=${message.to} subject=${message.subject}\n${message.text}`);
+      return;
+    }
+    await mkdir(outboxDir, { recursive: true });
+    const safeTo = message.to.replace(/[^a-zA-Z0-9@._-]/g, "_");
+    await writeFile(
+      path.join(outboxDir, `${Date.now()}-${safeTo}.html`),
+      `<!-- to: ${message.to} -->\n<!-- subject: ${message.subject} -->\n${message.html}`
+    );
+  }
+});
+
+// RESEND_API_KEY가 있으면 Resend로 보내고(MAIL_FROM 필수), 없으면 MAIL_OUTBOX_DIR 또는 콘솔로 남긴다.
+export const createMailerFromEnv = (): Mailer => {
+  const apiKey = process.env.RESEND_API_KEY;
+  if (!apiKey) {
+    return createLocalMailer(process.env.MAIL_OUTBOX_DIR || null);
+  }
+  const from = process.env.MAIL_FROM;
+  if (!from) {
+    throw new Error("Missing MAIL_FROM environment variable.");
+  }
+  return createResendMailer(apiKey, from);
+};
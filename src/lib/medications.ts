@@ -0,0 +1,263 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { GroupActionResult } from "./group-invites";
+import { fetchActiveMembership } from "./group-membership";
+import { toSyncFailure, type SyncFailure } from "./sync-state";
+
+// 오프라인에서도 어르신 화면에 약이 보이도록 마지막으로 읽은 목록을 어르신 id와 함께 둔다.
+export const MEDICATIONS_STORAGE_KEY = "medications_v1";
+const MEDICATIONS_TABLE = "medications";
+const MEDICATION_DOSES_TABLE = "medication_doses";
+const MEDICATION_COLUMNS =
+  "id, elder_id, name, dose, photo_path, times_per_day, pills_per_dose, stock, refill_days";
+// 약 사진. 경로는 `${groupId}/${elderId}/${시각}.${확장자}`
+export const MEDICATION_PHOTO_BUCKET = "medication-photos";
+const MEDICATION_PHOTO_URL_SECONDS = 24 * 60 * 60;
+export const DEFAULT_REFILL_DAYS = 7;
+
+export type Medication = {
+  id: string;
+  elderId: string;
+  name: string;
+  dose: string; // 예: "1정", "5mg"
+  photoPath: string | null;
+  timesPerDay: number;
+  pillsPerDose: number;
+  stock: number; // 남은 알 수
+  refillDays: number; // 남은 양이 이 날수 이하이면 가족에게 채울 때라고 알린다
+};
+
+export type MedicationInput = Omit<Medication, "id" | "elderId">;
+
+type MedicationRow = {
+  id?: string | null;
+  elder_id?: string | null;
+  name?: string | null;
+  dose?: string | null;
+  photo_path?: string | null;
+  times_per_day?: number | null;
+  pills_per_dose?: number | string | null;
+  stock?: number | string | null;
+  refill_days?: number | null;
+};
+
+type MedicationDoseRow = {
+  medication_id?: string | null;
+  block_id?: string | null;
+};
+
+const rowToMedication = (row: MedicationRow): Medication | null =>
+  row.id && row.elder_id && row.name
+    ? {
+        id: row.id,
+        elderId: row.elder_id,
+        name: row.name,
+        dose: row.dose ?? "",
+        photoPath: row.photo_path ?? null,
+        timesPerDay: Number(row.times_per_day) || 1,
+        pillsPerDose: Number(row.pills_per_dose) || 1,
+        stock: Number(row.stock) || 0,
+        refillDays: row.refill_days ?? DEFAULT_REFILL_DAYS
+      }
+    : null;
+
+const toRow = (input: MedicationInput) => ({
+  name: input.name.trim(),
+  dose: input.dose.trim(),
+  photo_path: input.photoPath,
+  times_per_day: input.timesPerDay,
+  pills_per_dose: input.pillsPerDose,
+  stock: input.stock,
+  refill_days: input.refillDays,
+  updated_at: new Date().toISOString()
+});
+
+export const loadCachedMedications = (elderId: string | null): Medication[] => {
+  if (typeof window === "undefined" || !elderId) {
+    return [];
+  }
+  try {
+    const parsed = JSON.parse(window.localStorage.getItem(MEDICATIONS_STORAGE_KEY) ?? "null");
+    return parsed?.elderId === elderId && Array.isArray(parsed.medications)
+      ? (parsed.medications as Medication[])
+      : [];
+  } catch {
+    return [];
+  }
+};
+
+const persistMedications = (elderId: string, medications: Medication[]) => {
+  window.localStorage.setItem(
+    MEDICATIONS_STORAGE_KEY,
+    JSON.stringify({ elderId, medications })
+  );
+};
+
+export const fetchMedications = async (
+  supabase: SupabaseClient,
+  elderId: string | null
+): Promise<Medication[]> => {
+  if (!elderId) {
+    return [];
+  }
+  const { data, error } = await supabase
+    .from(MEDICATIONS_TABLE)
+    .select(MEDICATION_COLUMNS)
+    .eq("elder_id", elderId)
+    .order("created_at", { ascending: true });
+
+  if (error) {
+    return loadCachedMedications(elderId);
+  }
+  const medications = ((data ?? []) as MedicationRow[])
+    .map(rowToMedication)
+    .filter((item): item is Medication => Boolean(item));
+  persistMedications(elderId, medications);
+  return medications;
+};
+
+export const addMedication = async (
+  supabase: SupabaseClient,
+  elderId: string,
+  input: MedicationInput
+): Promise<string | null> => {
+  const { error } = await supabase
+    .from(MEDICATIONS_TABLE)
+    .insert({ elder_id: elderId, ...toRow(input) });
+  return error ? error.message : null;
+};
+
+export const updateMedication = async (
+  supabase: SupabaseClient,
+  medicationId: string,
+  input: MedicationInput
+): Promise<string | null> => {
+  const { error } = await supabase
+    .from(MEDICATIONS_TABLE)
+    .update(toRow(input))
+    .eq("id", medicationId);
+  return error ? error.message : null;
+};
+
+// 약을 지우면 복용 기록도 함께 지워진다(on delete cascade). 블록에 남은 연결은 화면에서 무시한다.
+export const removeMedication = async (
+  supabase: SupabaseClient,
+  medicationId: string
+): Promise<string | null> => {
+  const { error } = await supabase.from(MEDICATIONS_TABLE).delete().eq("id", medicationId);
+  return error ? error.message : null;
+};
+
+export const refillMedication = async (
+  supabase: SupabaseClient,
+  medication: Medication,
+  amount: number
+): Promise<string | null> => {
+  const { error } = await supabase
+    .from(MEDICATIONS_TABLE)
+    .update({ stock: medication.stock + amount, updated_at: new Date().toISOString() })
+    .eq("id", medication.id);
+  return error ? error.message : null;
+};
+
+// 같은 블록에서 같은 약은 하루 한 번. 블록을 할 일 여럿으로 나눠도 blockId로 묶는다.
+export const getDoseKey = (medicationId: string, blockId: string) => `${medicationId}:${blockId}`;
+
+export const recordDose = async (
+  supabase: SupabaseClient,
+  input: { medicationId: string; dateKey: string; blockId: string }
+): Promise<SyncFailure | null> => {
+  const { error } = await supabase.rpc("record_dose", {
+    medication: input.medicationId,
+    dose_date: input.dateKey,
+    block: input.blockId
+  });
+  return error ? toSyncFailure(error) : null;
+};
+
+// 서버 기록을 확인할 수 없으면 null을 돌려 호출한 쪽이 로컬 상태를 유지하게 한다.
+export const fetchTakenDoses = async (
+  supabase: SupabaseClient,
+  elderId: string | null,
+  dateKey: string
+): Promise<Set<string> | null> => {
+  if (!elderId) {
+    return null;
+  }
+  const { data, error } = await supabase
+    .from(MEDICATION_DOSES_TABLE)
+    .select("medication_id, block_id")
+    .eq("elder_id", elderId)
+    .eq("date_key", dateKey);
+  if (error) {
+    return null;
+  }
+  return new Set(
+    ((data ?? []) as MedicationDoseRow[])
+      .filter((row) => row.medication_id && row.block_id)
+      .map((row) => getDoseKey(row.medication_id as string, row.block_id as string))
+  );
+};
+
+// 완료 체크 캐시와 같은 `done_` 접두어라 어르신을 바꾸면 함께 지워진다.
+const takenDosesKey = (dateKey: string) => `done_doses_${dateKey}`;
+
+export const loadTakenDoses = (dateKey: string): Set<string> => {
+  if (typeof window === "undefined") {
+    return new Set();
+  }
+  try {
+    const parsed = JSON.parse(window.localStorage.getItem(takenDosesKey(dateKey)) ?? "[]");
+    return new Set(Array.isArray(parsed) ? parsed.map(String) : []);
+  } catch {
+    return new Set();
+  }
+};
+
+export const saveTakenDoses = (dateKey: string, doses: Set<string>) => {
+  window.localStorage.setItem(takenDosesKey(dateKey), JSON.stringify([...doses]));
+};
+
+// 하루에 먹는 양으로 남은 날수를 센다.
+export const getDaysLeft = (medication: Medication) =>
+  Math.floor(medication.stock / (medication.pillsPerDose * medication.timesPerDay));
+
+export const needsRefill = (medication: Medication) =>
+  getDaysLeft(medication) <= medication.refillDays;
+
+export const uploadMedicationPhoto = async (
+  supabase: SupabaseClient,
+  input: { elderId: string; photo: File }
+): Promise<GroupActionResult<string>> => {
+  const membership = await fetchActiveMembership(supabase);
+  if (!membership) {
+    return { ok: false, message: "가족 그룹에 참여한 뒤 사진을 올릴 수 있어요." };
+  }
+  const extension = input.photo.name.split(".").pop()?.toLowerCase() || "jpg";
+  const path = `${membership.groupId}/${input.elderId}/${Date.now()}.${extension}`;
+  const { error } = await supabase.storage
+    .from(MEDICATION_PHOTO_BUCKET)
+    .upload(path, input.photo, { contentType: input.photo.type || "image/jpeg" });
+  return error ? { ok: false, message: error.message } : { ok: true, value: path };
+};
+
+export const fetchMedicationPhotoUrls = async (
+  supabase: SupabaseClient,
+  paths: string[]
+): Promise<Record<string, string>> => {
+  if (paths.length === 0) {
+    return {};
+  }
+  const { data, error } = await supabase.storage
+    .from(MEDICATION_PHOTO_BUCKET)
+    .createSignedUrls(paths, MEDICATION_PHOTO_URL_SECONDS);
+  if (error || !data) {
+    return {};
+  }
+  const urls: Record<string, string> = {};
+  data.forEach((item) => {
+    if (item.path && item.signedUrl) {
+      urls[item.path] = item.signedUrl;
+    }
+  });
+  return urls;
+};
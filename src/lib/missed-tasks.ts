@@ -0,0 +1,400 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import webpush from "web-push";
+import type { BuiltBlock } from "./types";
+import { isCompletionForTask } from "./completions";
+import { getDueStage, isStageAfter, type EscalationStage } from "./escalation";
+import {
+  NOTIFICATION_TIME_ZONE,
+  isWithinQuietHours,
+  rowToPreferences,
+  type NotificationPreferenceRow
+} from "./push-notifications";
+import { resolveScheduleForDate } from "./schedule-templates";
+import { parseSchedule, parseScheduleVariants } from "./storage";
+import { addDays, buildBlocks, getDateKey } from "./time";
+
+// 끝난 지 이만큼 지난 할 일은 새로 알리기 시작하지 않는다. 작업이 한동안 돌지 않았다가
+// 다시 돌 때 하루치 알림이 한꺼번에 가지 않게 한다. 이미 시작한 단계별 알림은 계속 진행한다.
+const MISSED_LOOKBACK_MINUTES = 60;
+// 자정 전후에 끝난 할 일(24:00에 끝나는 블록 포함)을 놓치지 않도록 어제 할 일도 이만큼 더 본다.
+const PREVIOUS_DAY_WINDOW_MINUTES = 6 * 60;
+const DAY_MINUTES = 24 * 60;
+const PUSH_TTL_SECONDS = 60 * 60;
+
+type ScheduleRow = {
+  elder_id?: string | null;
+  group_id?: string | null;
+  blocks?: unknown;
+  variants?: unknown;
+  grandma_profiles?: { display_name?: string | null } | null;
+};
+
+type EscalationRow = {
+  elder_id: string;
+  date_key: string;
+  task_id: string;
+  stage: EscalationStage;
+};
+
+type PushSubscriptionRow = {
+  endpoint: string;
+  user_id: string;
+  p256dh: string;
+  auth: string;
+};
+
+type GroupRecipients = {
+  primary: PushSubscriptionRow[];
+  everyone: PushSubscriptionRow[];
+};
+
+export type EndedTask = {
+  elderId: string;
+  groupId: string;
+  elderName: string;
+  dateKey: string;
+  block: BuiltBlock;
+  elapsed: number; // 끝난 뒤 지난 시간(분)
+  completed: boolean;
+};
+
+export type MissedTaskRunResult = {
+  escalated: number;
+  resolved: number;
+  sent: number;
+  failed: number;
+};
+
+// 서버 시간대와 관계없이 한국 시간의 날짜/시각을 담은 Date를 만든다.
+// getHours(), getDateKey() 등이 그대로 한국 시간을 돌려준다.
+export const getZonedNow = (now: Date, timeZone = NOTIFICATION_TIME_ZONE) => {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23"
+  }).formatToParts(now);
+  const part = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(parts.find((item) => item.type === type)?.value ?? 0);
+  return new Date(part("year"), part("month") - 1, part("day"), part("hour"), part("minute"));
+};
+
+const configureWebPush = () => {
+  const publicKey = process.env.NEXT_PUBLIC_VAPID_PUBLIC_KEY;
+  const privateKey = process.env.VAPID_PRIVATE_KEY;
+  const subject = process.env.VAPID_SUBJECT;
+  if (!publicKey || !privateKey || !subject) {
+    throw new Error("Missing VAPID environment variables.");
+  }
+  webpush.setVapidDetails(subject, publicKey, privateKey);
+};
+
+// 오늘 이미 끝난 할 일과 어제 늦게 끝난 할 일을 어르신마다 모으고 완료 체크 여부를 붙인다.
+// 스케줄을 한 번도 저장하지 않은 어르신은 기본 일정을 쓰고 있다고 보지 않고 건너뛴다.
+export const findEndedTasks = async (
+  admin: SupabaseClient,
+  localNow: Date
+): Promise<EndedTask[]> => {
+  const nowMinutes = localNow.getHours() * 60 + localNow.getMinutes();
+  // 어제 할 일은 하루를 더해 지난 시간을 센다. 24:00에 끝나는 블록은 자정에 끝난 것으로 본다.
+  const days = [
+    { date: localNow, offset: 0 },
+    { date: addDays(localNow, -1), offset: DAY_MINUTES }
+  ];
+  const { data, error } = await admin
+    .from("schedules")
+    .select("elder_id, group_id, blocks, variants, grandma_profiles(display_name)");
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  const ended: EndedTask[] = [];
+  ((data ?? []) as ScheduleRow[]).forEach((row) => {
+    const blocks = parseSchedule(row.blocks);
+    if (!row.elder_id || !row.group_id || !blocks) {
+      return;
+    }
+    const schedule = { blocks, variants: parseScheduleVariants(row.variants) };
+    days.forEach(({ date, offset }) => {
+      buildBlocks(resolveScheduleForDate(schedule, date)).forEach((block) => {
+        const elapsed = nowMinutes + offset - block.endMin;
+        if (
+          !block.label ||
+          block.startMin >= block.endMin ||
+          elapsed < 0 ||
+          (offset > 0 && elapsed > PREVIOUS_DAY_WINDOW_MINUTES)
+        ) {
+          return;
+        }
+        ended.push({
+          elderId: row.elder_id as string,
+          groupId: row.group_id as string,
+          elderName: row.grandma_profiles?.display_name?.trim() || "어르신",
+          dateKey: getDateKey(date),
+          block,
+          elapsed,
+          completed: false
+        });
+      });
+    });
+  });
+  if (ended.length === 0) {
+    return [];
+  }
+
+  const elderIds = Array.from(new Set(ended.map((task) => task.elderId)));
+  const { data: completions, error: completionError } = await admin
+    .from("task_completions")
+    .select("elder_id, date_key, task_id")
+    .in("elder_id", elderIds)
+    .in("date_key", Array.from(new Set(ended.map((task) => task.dateKey))));
+  if (completionError) {
+    throw new Error(completionError.message);
+  }
+  const done = (completions ?? []) as { elder_id: string; date_key: string; task_id: string }[];
+  return ended.map((task) => ({
+    ...task,
+    completed: done.some(
+      (row) =>
+        row.elder_id === task.elderId &&
+        row.date_key === task.dateKey &&
+        isCompletionForTask({ taskId: row.task_id }, task.block)
+    )
+  }));
+};
+
+const escalationKey = (elderId: string, dateKey: string, taskId: string) =>
+  `${elderId}|${dateKey}|${taskId}`;
+
+const fetchOpenEscalations = async (admin: SupabaseClient, tasks: EndedTask[]) => {
+  const { data, error } = await admin
+    .from("task_escalations")
+    .select("elder_id, date_key, task_id, stage")
+    .in("elder_id", Array.from(new Set(tasks.map((task) => task.elderId))))
+    .in("date_key", Array.from(new Set(tasks.map((task) => task.dateKey))));
+  if (error) {
+    throw new Error(error.message);
+  }
+  return new Map(
+    ((data ?? []) as EscalationRow[]).map((row) => [
+      escalationKey(row.elder_id, row.date_key, row.task_id),
+      row
+    ])
+  );
+};
+
+// 단계를 한 칸(또는 여러 칸) 올린다. 작업이 겹쳐 돌아도 지금 단계가 그대로일 때만
+// 바뀌므로 같은 단계의 알림은 한 번만 나간다. 올렸으면 true.
+const claimStage = async (
+  admin: SupabaseClient,
+  task: EndedTask,
+  current: EscalationStage | null,
+  next: EscalationStage
+) => {
+  const now = new Date().toISOString();
+  const changes = {
+    stage: next,
+    updated_at: now,
+    ...(next === "primary" ? { primary_notified_at: now } : {}),
+    ...(next === "everyone" ? { everyone_notified_at: now } : {}),
+    ...(next === "resolved" ? { resolved_at: now } : {})
+  };
+  if (current === null) {
+    const { data, error } = await admin
+      .from("task_escalations")
+      .upsert(
+        {
+          elder_id: task.elderId,
+          date_key: task.dateKey,
+          task_id: task.block.id,
+          group_id: task.groupId,
+          title: task.block.label,
+          ...changes
+        },
+        { onConflict: "elder_id,date_key,task_id", ignoreDuplicates: true }
+      )
+      .select("task_id");
+    return !error && (data ?? []).length > 0;
+  }
+  const { data, error } = await admin
+    .from("task_escalations")
+    .update(changes)
+    .eq("elder_id", task.elderId)
+    .eq("date_key", task.dateKey)
+    .eq("task_id", task.block.id)
+    .eq("stage", current)
+    .select("task_id");
+  return !error && (data ?? []).length > 0;
+};
+
+// 알림을 켠 가족의 구독을 그룹별로 모은다. 대표 보호자가 없으면 관리자가 대신 받는다.
+// 연결 코드로 들어온 어르신 태블릿과 지금 방해 금지 시간인 가족은 뺀다.
+const fetchRecipients = async (
+  admin: SupabaseClient,
+  groupIds: string[],
+  nowMinutes: number
+) => {
+  const [{ data: groups }, { data: members }, { data: devices }, { data: preferences }] =
+    await Promise.all([
+      admin.from("groups").select("id, primary_caregiver_id").in("id", groupIds),
+      admin.from("group_members").select("group_id, user_id, role").in("group_id", groupIds),
+      admin.from("paired_devices").select("user_id").in("group_id", groupIds),
+      admin
+        .from("notification_preferences")
+        .select("user_id, push_enabled, quiet_start, quiet_end")
+        .eq("push_enabled", true)
+    ]);
+  const deviceIds = new Set(((devices ?? []) as { user_id: string }[]).map((row) => row.user_id));
+  const available = new Set(
+    ((preferences ?? []) as NotificationPreferenceRow[])
+      .filter(
+        (row) => row.user_id && !isWithinQuietHours(rowToPreferences(row).quietHours, nowMinutes)
+      )
+      .map((row) => row.user_id as string)
+  );
+  const familyMembers = (
+    (members ?? []) as { group_id: string; user_id: string; role: string }[]
+  ).filter((row) => !deviceIds.has(row.user_id));
+  const { data: subscriptions } = await admin
+    .from("push_subscriptions")
+    .select("endpoint, user_id, p256dh, auth")
+    .in(
+      "user_id",
+      familyMembers.filter((row) => available.has(row.user_id)).map((row) => row.user_id)
+    );
+  const subscriptionsOf = (userIds: string[]) =>
+    ((subscriptions ?? []) as PushSubscriptionRow[]).filter(
+      (row) => userIds.includes(row.user_id) && available.has(row.user_id)
+    );
+
+  const byGroup = new Map<string, GroupRecipients>();
+  ((groups ?? []) as { id: string; primary_caregiver_id: string | null }[]).forEach((group) => {
+    const groupMembers = familyMembers.filter((row) => row.group_id === group.id);
+    const caregiver = groupMembers.find((row) => row.user_id === group.primary_caregiver_id);
+    const primaryIds = caregiver
+      ? [caregiver.user_id]
+      : groupMembers.filter((row) => row.role === "admin").map((row) => row.user_id);
+    byGroup.set(group.id, {
+      primary: subscriptionsOf(primaryIds),
+      everyone: subscriptionsOf(groupMembers.map((row) => row.user_id))
+    });
+  });
+  return byGroup;
+};
+
+const buildPayload = (task: EndedTask, stage: EscalationStage, escalatedBefore: boolean) =>
+  JSON.stringify({
+    title: `${task.elderName}님이 할 일을 놓치셨어요`,
+    body:
+      stage === "everyone" && escalatedBefore
+        ? `${task.block.start}~${task.block.end} ${task.block.label} · 대표 보호자에게 알린 뒤에도 아직 완료되지 않았어요`
+        : `${task.block.start}~${task.block.end} ${task.block.label}`,
+    tag: `missed:${task.elderId}:${task.dateKey}:${task.block.id}`,
+    url: "/mypage"
+  });
+
+// 서버 작업 한 번. 끝났는데 체크되지 않은 할 일의 알림 단계를 올리고, 단계에 맞는 가족에게
+// Web Push를 보낸다. 늦게라도 체크된 할 일은 resolved로 닫는다. 만료된 구독(404/410)은 지운다.
+export const runMissedTaskAlerts = async (
+  admin: SupabaseClient,
+  now = new Date()
+): Promise<MissedTaskRunResult> => {
+  configureWebPush();
+  const localNow = getZonedNow(now);
+  const nowMinutes = localNow.getHours() * 60 + localNow.getMinutes();
+  const result: MissedTaskRunResult = { escalated: 0, resolved: 0, sent: 0, failed: 0 };
+  const tasks = await findEndedTasks(admin, localNow);
+  if (tasks.length === 0) {
+    return result;
+  }
+  const escalations = await fetchOpenEscalations(admin, tasks);
+
+  const candidates: { task: EndedTask; current: EscalationStage | null; due: EscalationStage }[] =
+    [];
+  for (const task of tasks) {
+    const current =
+      escalations.get(escalationKey(task.elderId, task.dateKey, task.block.id))?.stage ?? null;
+    if (task.completed) {
+      if (current && current !== "resolved" && (await claimStage(admin, task, current, "resolved"))) {
+        result.resolved += 1;
+      }
+      continue;
+    }
+    if (current === null && task.elapsed > MISSED_LOOKBACK_MINUTES) {
+      continue;
+    }
+    const due = getDueStage(task.block.escalation, task.elapsed);
+    if (isStageAfter(due, current)) {
+      candidates.push({ task, current, due });
+    }
+  }
+  if (candidates.length === 0) {
+    return result;
+  }
+  const notifyGroupIds = candidates
+    .filter(({ due }) => due === "primary" || due === "everyone")
+    .map(({ task }) => task.groupId);
+
+  const recipients =
+    notifyGroupIds.length > 0
+      ? await fetchRecipients(admin, Array.from(new Set(notifyGroupIds)), nowMinutes)
+      : new Map<string, GroupRecipients>();
+  const notifications: {
+    task: EndedTask;
+    stage: EscalationStage;
+    escalatedBefore: boolean;
+    subscriptions: PushSubscriptionRow[];
+  }[] = [];
+  for (const { task, current, due } of candidates) {
+    const notifies = due === "primary" || due === "everyone";
+    const groupRecipients = recipients.get(task.groupId);
+    const subscriptions =
+      (due === "primary" ? groupRecipients?.primary : groupRecipients?.everyone) ?? [];
+    // 받을 사람이 없으면(모두 방해 금지 시간이거나 구독이 없으면) 알림 단계를 올리지 않고
+    // 다음 작업에서 다시 본다. 처음 놓친 할 일은 reminding으로 남겨 되돌아보는 시간이 지나도 잊지 않는다.
+    const stage = notifies && subscriptions.length === 0 ? "reminding" : due;
+    if (!isStageAfter(stage, current) || !(await claimStage(admin, task, current, stage))) {
+      continue;
+    }
+    result.escalated += 1;
+    if (stage === "primary" || stage === "everyone") {
+      notifications.push({ task, stage, escalatedBefore: current === "primary", subscriptions });
+    }
+  }
+
+  const expired = new Set<string>();
+  for (const { task, stage, escalatedBefore, subscriptions } of notifications) {
+    const payload = buildPayload(task, stage, escalatedBefore);
+    await Promise.all(
+      subscriptions
+        .filter((subscription) => !expired.has(subscription.endpoint))
+        .map(async (subscription) => {
+          try {
+            await webpush.sendNotification(
+              {
+                endpoint: subscription.endpoint,
+                keys: { p256dh: subscription.p256dh, auth: subscription.auth }
+              },
+              payload,
+              { TTL: PUSH_TTL_SECONDS }
+            );
+            result.sent += 1;
+          } catch (error) {
+            const statusCode = (error as { statusCode?: number }).statusCode;
+            if (statusCode === 404 || statusCode === 410) {
+              expired.add(subscription.endpoint);
+            }
+            result.failed += 1;
+          }
+        })
+    );
+  }
+
+  if (expired.size > 0) {
+    await admin.from("push_subscriptions").delete().in("endpoint", Array.from(expired));
+  }
+  return result;
+};
@@ -0,0 +1,436 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { BuiltBlock, CalendarEvent, ScheduleSet } from "./types";
+import { recordAlertResponse, type AlertResponseInput } from "./alert-responses";
+import { recordCompletion, removeCompletion } from "./completions";
+import { fetchActiveElderId } from "./elders";
+import { deleteEvent, fetchEventVersion, upsertEvent } from "./event-sync";
+import { recordDose } from "./medications";
+import { OUTBOX_STORE, runTransaction } from "./idb";
+import { notifyLocalChange, type SyncTopic } from "./realtime";
+import { fetchScheduleVersion, pushSchedule, type RemoteVersion } from "./schedule-sync";
+import {
+  SYNC_PENDING_STORAGE_KEY,
+  alertResponseResource,
+  completionResource,
+  doseResource,
+  eventResource,
+  isOwnVersion,
+  loadKnownVersion,
+  rememberOwnVersion,
+  replacePendingCounts,
+  saveKnownVersion,
+  scheduleResource,
+  updatePendingCount,
+  type SyncFailure,
+  type SyncResource
+} from "./sync-state";
+
+const OUTBOX_CHANGE_EVENT = "grandma-todo-outbox";
+const OUTBOX_LOCK_NAME = "grandma-todo-outbox";
+const RETRY_INTERVAL_MS = 30 * 1000;
+
+// 스케줄과 완료 기록은 수정할 때 고른 어르신(elderId)에게 보낸다.
+export type OutboxMutation =
+  | { kind: "schedule.save"; elderId: string; schedule: ScheduleSet }
+  | { kind: "event.upsert"; event: CalendarEvent }
+  | { kind: "event.delete"; eventId: string }
+  | {
+      kind: "completion.record";
+      elderId: string;
+      input: { dateKey: string; taskId: string; title: string; completedAt: string };
+    }
+  | {
+      kind: "completion.remove";
+      elderId: string;
+      dateKey: string;
+      block: Pick<BuiltBlock, "id" | "start" | "end" | "label">;
+    }
+  | { kind: "alert.respond"; elderId: string; input: AlertResponseInput }
+  | { kind: "dose.record"; input: { medicationId: string; dateKey: string; blockId: string } };
+
+export type OutboxEntry = {
+  seq?: number;
+  resource: SyncResource;
+  mutation: OutboxMutation;
+  // 수정할 때 알고 있던 서버 버전. 서버 버전이 달라졌으면 충돌로 본다.
+  baseVersion: string | null;
+  createdAt: string;
+  // rejected는 다시 보내도 실패하는 항목이다. 차례에서 빼 두고 사용자가 버릴 때까지 보여준다.
+  status: "pending" | "conflict" | "rejected";
+  // 충돌을 "내 변경"으로 해결하면 버전 확인 없이 덮어쓴다.
+  force?: boolean;
+  error?: string;
+};
+
+// failed는 아웃박스에 넣지도, 서버에 올리지도 못한 경우다. 이 기기에만 반영되어 있다.
+export type SubmitResult = "synced" | "queued" | "conflict" | "rejected" | "failed";
+
+type ApplyResult = "synced" | "conflict" | SyncFailure;
+
+const ELDER_MISSING_FAILURE: SyncFailure = {
+  permanent: true,
+  message: "보낼 어르신을 찾을 수 없습니다."
+};
+
+const getResource = (mutation: OutboxMutation): SyncResource => {
+  switch (mutation.kind) {
+    case "schedule.save":
+      return scheduleResource(mutation.elderId);
+    case "event.upsert":
+      return eventResource(mutation.event.id);
+    case "event.delete":
+      return eventResource(mutation.eventId);
+    case "completion.record":
+      return completionResource(mutation.elderId, mutation.input.dateKey, mutation.input.taskId);
+    case "completion.remove":
+      return completionResource(mutation.elderId, mutation.dateKey, mutation.block.id);
+    case "alert.respond":
+      return alertResponseResource(mutation.elderId, mutation.input.dateKey, mutation.input.taskId);
+    case "dose.record":
+      return doseResource(
+        mutation.input.medicationId,
+        mutation.input.dateKey,
+        mutation.input.blockId
+      );
+  }
+};
+
+const getTopic = (mutation: OutboxMutation): SyncTopic => {
+  if (mutation.kind === "schedule.save") {
+    return "schedule";
+  }
+  if (mutation.kind === "event.upsert" || mutation.kind === "event.delete") {
+    return "events";
+  }
+  return "completions";
+};
+
+const isOnline = () => typeof navigator === "undefined" || navigator.onLine !== false;
+
+const emitOutboxChange = () => {
+  if (typeof window === "undefined") {
+    return;
+  }
+  window.dispatchEvent(new CustomEvent(OUTBOX_CHANGE_EVENT));
+};
+
+export const listOutbox = async (): Promise<OutboxEntry[]> => {
+  try {
+    const entries = await runTransaction<OutboxEntry[]>(OUTBOX_STORE, "readonly", (store) =>
+      store.getAll()
+    );
+    return entries.sort((a, b) => (a.seq ?? 0) - (b.seq ?? 0));
+  } catch {
+    return [];
+  }
+};
+
+const putEntry = (entry: OutboxEntry) =>
+  runTransaction<IDBValidKey>(OUTBOX_STORE, "readwrite", (store) => store.put(entry));
+
+const removeEntry = async (entry: OutboxEntry) => {
+  if (entry.seq === undefined) {
+    return;
+  }
+  const seq = entry.seq;
+  await runTransaction<undefined>(OUTBOX_STORE, "readwrite", (store) => store.delete(seq));
+  // rejected 항목은 빼 둘 때 이미 대기 건수에서 뺐다.
+  if (entry.status !== "rejected") {
+    updatePendingCount(entry.resource, -1);
+  }
+};
+
+const fetchRemoteVersion = (
+  supabase: SupabaseClient,
+  mutation: OutboxMutation
+): Promise<RemoteVersion> => {
+  if (mutation.kind === "schedule.save") {
+    return fetchScheduleVersion(supabase, mutation.elderId);
+  }
+  if (mutation.kind === "event.upsert") {
+    return fetchEventVersion(supabase, mutation.event.id);
+  }
+  if (mutation.kind === "event.delete") {
+    return fetchEventVersion(supabase, mutation.eventId);
+  }
+  return Promise.resolve({ ok: true, version: null });
+};
+
+// 어르신을 여러 분 두기 전에 쌓인 항목에는 elderId가 없으므로 지금 고른 어르신에게 보낸다.
+const withElder = async (
+  supabase: SupabaseClient,
+  mutation: OutboxMutation
+): Promise<OutboxMutation | null> => {
+  if (!("elderId" in mutation) || mutation.elderId) {
+    return mutation;
+  }
+  const elderId = await fetchActiveElderId(supabase);
+  return elderId ? { ...mutation, elderId } : null;
+};
+
+const applyEntry = async (
+  supabase: SupabaseClient,
+  entry: OutboxEntry
+): Promise<ApplyResult> => {
+  const { resource } = entry;
+  const mutation = await withElder(supabase, entry.mutation);
+  if (!mutation) {
+    return ELDER_MISSING_FAILURE;
+  }
+
+  // 완료 기록은 할 일마다 한 줄이고 마지막 기록이 맞으므로 버전을 비교하지 않는다.
+  if (mutation.kind === "completion.record") {
+    return (await recordCompletion(supabase, mutation.elderId, mutation.input)) ?? "synced";
+  }
+  if (mutation.kind === "completion.remove") {
+    return (
+      (await removeCompletion(supabase, mutation.elderId, mutation.dateKey, mutation.block)) ??
+      "synced"
+    );
+  }
+  // 복용 기록은 서버가 하루 한 번만 남은 양을 줄이므로 다시 보내도 된다.
+  if (mutation.kind === "dose.record") {
+    return (await recordDose(supabase, mutation.input)) ?? "synced";
+  }
+  // 알림 응답은 쌓기만 하는 기록이라 비교할 버전이 없다.
+  if (mutation.kind === "alert.respond") {
+    return (await recordAlertResponse(supabase, mutation.elderId, mutation.input)) ?? "synced";
+  }
+
+  const remote = await fetchRemoteVersion(supabase, mutation);
+  if (!remote.ok) {
+    return remote.failure;
+  }
+  if (
+    !entry.force &&
+    remote.version &&
+    remote.version !== entry.baseVersion &&
+    !isOwnVersion(resource, remote.version)
+  ) {
+    return "conflict";
+  }
+
+  if (mutation.kind === "event.delete") {
+    if (!remote.version) {
+      saveKnownVersion(resource, null);
+      return "synced";
+    }
+    const failure = await deleteEvent(supabase, mutation.eventId);
+    if (failure) {
+      return failure;
+    }
+    saveKnownVersion(resource, null);
+    return "synced";
+  }
+
+  const written =
+    mutation.kind === "schedule.save"
+      ? await pushSchedule(supabase, mutation.elderId, mutation.schedule)
+      : await upsertEvent(supabase, mutation.event);
+  if (!written.ok) {
+    return written.failure;
+  }
+  rememberOwnVersion(resource, written.value);
+  return "synced";
+};
+
+const runExclusive = async <T>(task: () => Promise<T>): Promise<T> => {
+  if (typeof navigator !== "undefined" && navigator.locks) {
+    return navigator.locks.request(OUTBOX_LOCK_NAME, task);
+  }
+  return task();
+};
+
+let flushing: Promise<void> | null = null;
+let followUp: Promise<void> | null = null;
+
+// 대기 중인 수정을 들어온 순서대로 서버에 보낸다.
+// 충돌한 항목과 그 뒤에 쌓인 같은 대상의 수정은 사용자가 정할 때까지 남겨 둔다.
+// 네트워크 오류처럼 다시 보낼 만한 실패에서는 멈추고, 다시 보내도 안 되는 항목은 rejected로 빼 둔다.
+export const flushOutbox = (supabase: SupabaseClient): Promise<void> => {
+  if (flushing) {
+    // 보내는 중에 들어온 수정은 지금 차례가 끝나면 한 번 더 돌려 바로 보낸다.
+    if (!followUp) {
+      followUp = flushing.then(() => {
+        followUp = null;
+        return flushOutbox(supabase);
+      });
+    }
+    return followUp;
+  }
+  if (!isOnline()) {
+    return Promise.resolve();
+  }
+
+  flushing = runExclusive(async () => {
+    const entries = await listOutbox();
+    const blocked = new Set<SyncResource>();
+    const syncedTopics = new Set<SyncTopic>();
+    let changed = false;
+
+    for (const entry of entries) {
+      if (entry.status === "rejected") {
+        continue;
+      }
+      if (entry.status === "conflict" || blocked.has(entry.resource)) {
+        blocked.add(entry.resource);
+        continue;
+      }
+      const result = await applyEntry(supabase, entry);
+      if (typeof result !== "string") {
+        if (!result.permanent) {
+          break;
+        }
+        changed = true;
+        await putEntry({ ...entry, status: "rejected", error: result.message });
+        updatePendingCount(entry.resource, -1);
+        continue;
+      }
+      changed = true;
+      if (result === "conflict") {
+        blocked.add(entry.resource);
+        await putEntry({ ...entry, status: "conflict" });
+        continue;
+      }
+      await removeEntry(entry);
+      syncedTopics.add(getTopic(entry.mutation));
+    }
+
+    syncedTopics.forEach((topic) => notifyLocalChange(topic));
+    if (changed) {
+      emitOutboxChange();
+    }
+  })
+    .catch(() => undefined)
+    .finally(() => {
+      flushing = null;
+    });
+
+  return flushing;
+};
+
+// 수정을 아웃박스에 먼저 넣고 바로 보내 본다.
+// 호출한 쪽은 localStorage에 이미 반영해 두었으므로 결과는 안내 문구에만 쓴다.
+export const submitMutation = async (
+  supabase: SupabaseClient,
+  mutation: OutboxMutation
+): Promise<SubmitResult> => {
+  const resource = getResource(mutation);
+  const entry: OutboxEntry = {
+    resource,
+    mutation,
+    baseVersion: loadKnownVersion(resource),
+    createdAt: new Date().toISOString(),
+    status: "pending"
+  };
+
+  let seq: number;
+  try {
+    seq = Number(await putEntry(entry));
+  } catch {
+    // IndexedDB를 쓸 수 없으면(사생활 보호 모드, 용량 초과) 쌓아 두지 못하므로 바로 보내 본다.
+    if (!isOnline()) {
+      return "failed";
+    }
+    const result = await applyEntry(supabase, entry).catch(() => null);
+    if (result !== "synced") {
+      return "failed";
+    }
+    notifyLocalChange(getTopic(mutation));
+    return "synced";
+  }
+  updatePendingCount(resource, 1);
+  emitOutboxChange();
+
+  await flushOutbox(supabase);
+  const remaining = (await listOutbox()).find((item) => item.seq === seq);
+  if (!remaining) {
+    return "synced";
+  }
+  return remaining.status === "pending" ? "queued" : remaining.status;
+};
+
+// "mine"은 서버 내용을 이 기기의 수정으로 덮어쓰고, "theirs"는 이 대상의 대기 중인 수정을 버린다.
+export const resolveConflict = async (
+  supabase: SupabaseClient,
+  seq: number,
+  choice: "mine" | "theirs"
+) => {
+  const entries = await listOutbox();
+  const target = entries.find((entry) => entry.seq === seq);
+  if (!target) {
+    return;
+  }
+
+  if (choice === "mine") {
+    await putEntry({ ...target, status: "pending", force: true });
+  } else {
+    for (const entry of entries) {
+      if (entry.resource === target.resource) {
+        await removeEntry(entry);
+      }
+    }
+    saveKnownVersion(target.resource, null);
+  }
+  emitOutboxChange();
+  await flushOutbox(supabase);
+  notifyLocalChange(getTopic(target.mutation));
+};
+
+// 다시 보내도 실패하는 항목을 버린다. 이 기기에만 남아 있던 내용은 서버 내용으로 다시 불러온다.
+export const discardRejected = async (seq: number) => {
+  const target = (await listOutbox()).find((entry) => entry.seq === seq);
+  if (!target || target.status !== "rejected") {
+    return;
+  }
+  await removeEntry(target);
+  emitOutboxChange();
+  notifyLocalChange(getTopic(target.mutation));
+};
+
+export const subscribeOutbox = (onChange: () => void) => {
+  if (typeof window === "undefined") {
+    return () => undefined;
+  }
+  const handleStorage = (event: StorageEvent) => {
+    if (event.key === SYNC_PENDING_STORAGE_KEY) {
+      onChange();
+    }
+  };
+  window.addEventListener(OUTBOX_CHANGE_EVENT, onChange);
+  window.addEventListener("storage", handleStorage);
+  return () => {
+    window.removeEventListener(OUTBOX_CHANGE_EVENT, onChange);
+    window.removeEventListener("storage", handleStorage);
+  };
+};
+
+// 연결이 돌아오면, 그리고 주기적으로 대기 중인 수정을 다시 보낸다.
+export const startOutboxSync = (supabase: SupabaseClient) => {
+  if (typeof window === "undefined") {
+    return () => undefined;
+  }
+
+  void listOutbox().then((entries) => {
+    const counts: Record<SyncResource, number> = {};
+    entries
+      .filter((entry) => entry.status !== "rejected")
+      .forEach((entry) => {
+        counts[entry.resource] = (counts[entry.resource] ?? 0) + 1;
+      });
+    replacePendingCounts(counts);
+    emitOutboxChange();
+    void flushOutbox(supabase);
+  });
+
+  const handleOnline = () => {
+    void flushOutbox(supabase);
+  };
+  window.addEventListener("online", handleOnline);
+  const timer = window.setInterval(handleOnline, RETRY_INTERVAL_MS);
+
+  return () => {
+    window.removeEventListener("online", handleOnline);
+    window.clearInterval(timer);
+  };
+};
@@ -0,0 +1,90 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import {
+  fetchActiveMembership,
+  loadCachedMembership,
+  type GroupRole
+} from "./group-membership";
+
+export type GroupPermission =
+  | "completeTasks"
+  | "editSchedule"
+  | "editEvents"
+  | "manageElders"
+  | "removeElders"
+  | "manageMembers";
+
+// supabase/schema.sql의 RLS 정책과 같은 규칙이다. 화면에서 미리 막고, 서버에서 한 번 더 막는다.
+const ROLE_PERMISSIONS: Record<GroupRole, GroupPermission[]> = {
+  admin: [
+    "completeTasks",
+    "editSchedule",
+    "editEvents",
+    "manageElders",
+    "removeElders",
+    "manageMembers"
+  ],
+  editor: ["completeTasks", "editSchedule", "editEvents", "manageElders"],
+  viewer: ["completeTasks"]
+};
+
+export const ROLE_LABELS: Record<GroupRole, string> = {
+  admin: "관리자",
+  editor: "편집 가능",
+  viewer: "보기 전용"
+};
+
+export const hasPermission = (role: GroupRole | null, permission: GroupPermission) =>
+  role !== null && ROLE_PERMISSIONS[role].includes(permission);
+
+export type GroupAccess = {
+  role: GroupRole | null;
+  loading: boolean;
+  can: (permission: GroupPermission) => boolean;
+};
+
+// 로그인한 사용자의 그룹 권한을 읽는다.
+// Supabase 없이 이 기기에서만 쓸 때는 나눌 가족이 없으므로 제한하지 않는다.
+export const useGroupAccess = (supabase: SupabaseClient | null): GroupAccess => {
+  const [role, setRole] = useState<GroupRole | null>(null);
+  const [loading, setLoading] = useState(Boolean(supabase));
+
+  useEffect(() => {
+    if (!supabase) {
+      setLoading(false);
+      return;
+    }
+    let cancelled = false;
+    // 오프라인에서도 바로 보이도록 마지막으로 확인한 권한부터 쓴다.
+    const cached = loadCachedMembership();
+    if (cached) {
+      setRole(cached.role);
+      setLoading(false);
+    }
+    const refresh = async () => {
+      const membership = await fetchActiveMembership(supabase);
+      if (cancelled) {
+        return;
+      }
+      setRole(membership?.role ?? null);
+      setLoading(false);
+    };
+
+    void refresh();
+    const { data } = supabase.auth.onAuthStateChange(() => {
+      void refresh();
+    });
+    return () => {
+      cancelled = true;
+      data.subscription.unsubscribe();
+    };
+  }, [supabase]);
+
+  return {
+    role,
+    loading,
+    can: (permission) => !supabase || (!loading && hasPermission(role, permission))
+  };
+};
@@ -0,0 +1,164 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { minutesToTime, toMinutes } from "./time";
+
+const PUSH_SUBSCRIPTIONS_TABLE = "push_subscriptions";
+const NOTIFICATION_PREFERENCES_TABLE = "notification_preferences";
+export const SERVICE_WORKER_PATH = "/sw.js";
+// 알림 시각과 방해 금지 시간은 가족이 어디 있든 어르신이 계신 한국 시간으로 계산한다.
+export const NOTIFICATION_TIME_ZONE = "Asia/Seoul";
+
+export type QuietHours = { start: string; end: string }; // "HH:MM"
+
+export type NotificationPreferences = {
+  pushEnabled: boolean;
+  quietHours: QuietHours | null;
+  weeklyDigest: boolean;
+};
+
+export type NotificationPreferenceRow = {
+  user_id?: string | null;
+  push_enabled?: boolean | null;
+  weekly_digest?: boolean | null;
+  quiet_start?: number | null;
+  quiet_end?: number | null;
+};
+
+export const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferences = {
+  pushEnabled: false,
+  quietHours: null,
+  weeklyDigest: true
+};
+
+export const rowToPreferences = (row: NotificationPreferenceRow): NotificationPreferences => ({
+  pushEnabled: Boolean(row.push_enabled),
+  quietHours:
+    typeof row.quiet_start === "number" && typeof row.quiet_end === "number"
+      ? { start: minutesToTime(row.quiet_start), end: minutesToTime(row.quiet_end) }
+      : null,
+  weeklyDigest: row.weekly_digest !== false
+});
+
+// 방해 금지 시간이 22:00~07:00처럼 자정을 넘기면 시작 이후 또는 끝 이전이 모두 포함된다.
+export const isWithinQuietHours = (quietHours: QuietHours | null, minutes: number) => {
+  if (!quietHours) {
+    return false;
+  }
+  const start = toMinutes(quietHours.start);
+  const end = toMinutes(quietHours.end);
+  if (Number.isNaN(start) || Number.isNaN(end) || start === end) {
+    return false;
+  }
+  return start < end
+    ? minutes >= start && minutes < end
+    : minutes >= start || minutes < end;
+};
+
+export const isPushSupported = () =>
+  typeof window !== "undefined" &&
+  "serviceWorker" in navigator &&
+  "PushManager" in window &&
+  "Notification" in window;
+
+const decodeBase64Url = (value: string) => {
+  const padded = `${value}${"=".repeat((4 - (value.length % 4)) % 4)}`
+    .replace(/-/g, "+")
+    .replace(/_/g, "/");
+  const raw = window.atob(padded);
+  return Uint8Array.from(raw, (char) => char.charCodeAt(0));
+};
+
+const getCurrentSubscription = async () => {
+  const registration = await navigator.serviceWorker.getRegistration(SERVICE_WORKER_PATH);
+  return registration ? registration.pushManager.getSubscription() : null;
+};
+
+export const hasPushSubscription = async () =>
+  isPushSupported() ? Boolean(await getCurrentSubscription()) : false;
+
+// 이 기기에서 알림 권한을 받고 Web Push를 구독해 Supabase에 저장한다. 실패하면 안내 문구를 돌려준다.
+export const subscribeThisDevice = async (
+  supabase: SupabaseClient,
+  userId: string
+): Promise<string | null> => {
+  const vapidPublicKey = process.env.NEXT_PUBLIC_VAPID_PUBLIC_KEY;
+  if (!isPushSupported() || !vapidPublicKey) {
+    return "이 브라우저에서는 푸시 알림을 받을 수 없습니다.";
+  }
+  const permission = await Notification.requestPermission();
+  if (permission !== "granted") {
+    return "브라우저 설정에서 이 사이트의 알림을 허용해 주세요.";
+  }
+
+  const registration = await navigator.serviceWorker.register(SERVICE_WORKER_PATH);
+  await navigator.serviceWorker.ready;
+  const subscription =
+    (await registration.pushManager.getSubscription()) ??
+    (await registration.pushManager.subscribe({
+      userVisibleOnly: true,
+      applicationServerKey: decodeBase64Url(vapidPublicKey)
+    }));
+  const { endpoint, keys } = subscription.toJSON();
+  if (!endpoint || !keys?.p256dh || !keys.auth) {
+    return "푸시 구독 정보를 읽지 못했습니다.";
+  }
+
+  const { error } = await supabase.from(PUSH_SUBSCRIPTIONS_TABLE).upsert(
+    { endpoint, user_id: userId, p256dh: keys.p256dh, auth: keys.auth },
+    { onConflict: "endpoint" }
+  );
+  return error ? error.message : null;
+};
+
+export const unsubscribeThisDevice = async (supabase: SupabaseClient): Promise<string | null> => {
+  if (!isPushSupported()) {
+    return null;
+  }
+  const subscription = await getCurrentSubscription();
+  if (!subscription) {
+    return null;
+  }
+  const { error } = await supabase
+    .from(PUSH_SUBSCRIPTIONS_TABLE)
+    .delete()
+    .eq("endpoint", subscription.endpoint);
+  await subscription.unsubscribe();
+  return error ? error.message : null;
+};
+
+export const fetchNotificationPreferences = async (
+  supabase: SupabaseClient,
+  userId: string
+): Promise<NotificationPreferences | null> => {
+  const { data, error } = await supabase
+    .from(NOTIFICATION_PREFERENCES_TABLE)
+    .select("push_enabled, quiet_start, quiet_end, weekly_digest")
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (error) {
+    return null;
+  }
+  return data
+    ? rowToPreferences(data as NotificationPreferenceRow)
+    : DEFAULT_NOTIFICATION_PREFERENCES;
+};
+
+export const saveNotificationPreferences = async (
+  supabase: SupabaseClient,
+  userId: string,
+  preferences: NotificationPreferences
+): Promise<string | null> => {
+  const { quietHours } = preferences;
+  const { error } = await supabase.from(NOTIFICATION_PREFERENCES_TABLE).upsert(
+    {
+      user_id: userId,
+      push_enabled: preferences.pushEnabled,
+      quiet_start: quietHours ? toMinutes(quietHours.start) : null,
+      quiet_end: quietHours ? toMinutes(quietHours.end) : null,
+      weekly_digest: preferences.weeklyDigest,
+      updated_at: new Date().toISOString()
+    },
+    { onConflict: "user_id" }
+  );
+  return error ? error.message : null;
+};
@@ -0,0 +1,146 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { fetchActiveMembership } from "./group-membership";
+import {
+  DONE_ACTIVITY_STORAGE_KEY,
+  EVENTS_STORAGE_KEY,
+  SCHEDULE_STORAGE_KEY,
+  SCHEDULE_VARIANTS_STORAGE_KEY
+} from "./storage";
+
+export type SyncTopic = "schedule" | "events" | "completions";
+
+export type ChangeChannel = {
+  subscribe: (
+    topics: SyncTopic[],
+    onChange: (topic: SyncTopic) => void
+  ) => () => void;
+};
+
+const BROADCAST_CHANNEL_NAME = "grandma-todo-sync";
+
+const TOPIC_TABLES: Record<SyncTopic, string> = {
+  schedule: "schedules",
+  events: "events",
+  completions: "task_completions"
+};
+
+const TOPIC_STORAGE_KEYS: Record<SyncTopic, string[]> = {
+  schedule: [SCHEDULE_STORAGE_KEY, SCHEDULE_VARIANTS_STORAGE_KEY],
+  events: [EVENTS_STORAGE_KEY],
+  completions: [DONE_ACTIVITY_STORAGE_KEY]
+};
+
+const isSyncTopic = (value: unknown): value is SyncTopic =>
+  value === "schedule" || value === "events" || value === "completions";
+
+// 같은 브라우저 안의 다른 탭/창에 변경을 알린다. Supabase 없이도 동작하는 로컬 대체 채널이다.
+export const createLocalChangeChannel = (): ChangeChannel => ({
+  subscribe: (topics, onChange) => {
+    if (typeof window === "undefined") {
+      return () => undefined;
+    }
+    const handleStorage = (event: StorageEvent) => {
+      const topic = topics.find(
+        (item) => event.key !== null && TOPIC_STORAGE_KEYS[item].includes(event.key)
+      );
+      if (topic) {
+        onChange(topic);
+      }
+    };
+    window.addEventListener("storage", handleStorage);
+
+    const broadcast =
+      typeof BroadcastChannel === "undefined"
+        ? null
+        : new BroadcastChannel(BROADCAST_CHANNEL_NAME);
+    if (broadcast) {
+      broadcast.onmessage = (event: MessageEvent) => {
+        if (isSyncTopic(event.data) && topics.includes(event.data)) {
+          onChange(event.data);
+        }
+      };
+    }
+
+    return () => {
+      window.removeEventListener("storage", handleStorage);
+      broadcast?.close();
+    };
+  }
+});
+
+// Supabase Realtime으로 같은 가족 그룹의 테이블 변경을 받는다.
+export const createSupabaseChangeChannel = (
+  supabase: SupabaseClient,
+  groupId: string
+): ChangeChannel => ({
+  subscribe: (topics, onChange) => {
+    let channel = supabase.channel(`group-sync-${groupId}`);
+    topics.forEach((topic) => {
+      channel = channel.on(
+        "postgres_changes",
+        {
+          event: "*",
+          schema: "public",
+          table: TOPIC_TABLES[topic],
+          filter: `group_id=eq.${groupId}`
+        },
+        () => onChange(topic)
+      );
+    });
+    channel.subscribe();
+    return () => {
+      void supabase.removeChannel(channel);
+    };
+  }
+});
+
+export const notifyLocalChange = (topic: SyncTopic) => {
+  if (typeof BroadcastChannel === "undefined") {
+    return;
+  }
+  const broadcast = new BroadcastChannel(BROADCAST_CHANNEL_NAME);
+  broadcast.postMessage(topic);
+  broadcast.close();
+};
+
+// 로컬 채널은 항상, Supabase 채널은 그룹이 확인되면 함께 구독한다.
+// 화면이 다시 보일 때도 한 번 갱신해 잠든 동안 놓친 변경을 채운다.
+export const subscribeGroupChanges = (
+  supabase: SupabaseClient | null,
+  topics: SyncTopic[],
+  onChange: (topic: SyncTopic) => void
+) => {
+  const unsubscribers = [createLocalChangeChannel().subscribe(topics, onChange)];
+  let cancelled = false;
+
+  if (supabase) {
+    void fetchActiveMembership(supabase).then((membership) => {
+      if (cancelled || !membership) {
+        return;
+      }
+      unsubscribers.push(
+        createSupabaseChangeChannel(supabase, membership.groupId).subscribe(
+          topics,
+          onChange
+        )
+      );
+    });
+  }
+
+  const handleVisibility = () => {
+    if (document.visibilityState === "visible") {
+      topics.forEach((topic) => onChange(topic));
+    }
+  };
+  if (typeof document !== "undefined") {
+    document.addEventListener("visibilitychange", handleVisibility);
+  }
+
+  return () => {
+    cancelled = true;
+    unsubscribers.forEach((unsubscribe) => unsubscribe());
+    if (typeof document !== "undefined") {
+      document.removeEventListener("visibilitychange", handleVisibility);
+    }
+  };
+};
@@ -0,0 +1,567 @@
+import type { CalendarEvent, EventOccurrence, EventOccurrenceOverride } from "./types";
+import { WEEKDAY_THEMES } from "./constants";
+import { formatLunarDate, lunarOccursOnDate, toLunarDate } from "./lunar";
+import { getDateKey, parseDateKey } from "./time";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// COUNT의 마지막 회차를 찾을 때 살펴볼 최대 주기 수. 맞는 날이 없는 규칙에서 끝없이 돌지 않게 한다.
+const MAX_COUNT_PERIODS = 5000;
+
+export type RecurrenceFrequency = "DAILY" | "WEEKLY" | "MONTHLY" | "YEARLY";
+
+// weekday는 WEEKDAY_THEMES와 같은 순서(0=일 ~ 6=토). nth가 있으면 "2번째 화요일", -1이면 "마지막 화요일"
+export type WeekdayRule = {
+  weekday: number;
+  nth: number | null;
+};
+
+// RFC 5545 RRULE 중 가족 일정에 쓰는 부분만 다룬다. BYSETPOS, 시간 단위 반복은 지원하지 않는다.
+export type RecurrenceRule = {
+  freq: RecurrenceFrequency;
+  interval: number;
+  byDay: WeekdayRule[];
+  byMonthDay: number[];
+  byMonth: number[];
+  count: number | null;
+  until: string | null; // YYYY-MM-DD
+};
+
+export const RRULE_WEEKDAYS = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+
+const FREQUENCIES: RecurrenceFrequency[] = ["DAILY", "WEEKLY", "MONTHLY", "YEARLY"];
+
+const NTH_LABELS: Record<number, string> = {
+  1: "첫째",
+  2: "둘째",
+  3: "셋째",
+  4: "넷째",
+  5: "다섯째",
+  [-1]: "마지막"
+};
+
+export function createRecurrenceRule(
+  freq: RecurrenceFrequency,
+  overrides: Partial<RecurrenceRule> = {}
+): RecurrenceRule {
+  return {
+    freq,
+    interval: 1,
+    byDay: [],
+    byMonthDay: [],
+    byMonth: [],
+    count: null,
+    until: null,
+    ...overrides
+  };
+}
+
+function parseIntegerList(value: string, min: number, max: number): number[] | null {
+  const list = value.split(",").map((part) => Number(part));
+  const valid = list.every(
+    (item) =>
+      Number.isInteger(item) && item !== 0 && Math.abs(item) >= min && Math.abs(item) <= max
+  );
+  return valid ? list : null;
+}
+
+function parseWeekdayList(value: string): WeekdayRule[] | null {
+  const result: WeekdayRule[] = [];
+  for (const part of value.split(",")) {
+    const match = /^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/.exec(part);
+    if (!match) {
+      return null;
+    }
+    const nth = match[1] ? Number(match[1]) : null;
+    if (nth !== null && (nth === 0 || Math.abs(nth) > 53)) {
+      return null;
+    }
+    result.push({ weekday: RRULE_WEEKDAYS.indexOf(match[2]), nth });
+  }
+  return result;
+}
+
+// "FREQ=MONTHLY;BYDAY=2TU;COUNT=10" 같은 값을 읽는다. 앞의 "RRULE:"은 있어도 된다.
+// 모르는 항목이나 잘못된 값이 있으면 null을 돌려 반복하지 않는 일정으로 다루게 한다.
+export function parseRRule(value: string): RecurrenceRule | null {
+  const text = value.trim().toUpperCase().replace(/^RRULE:/, "");
+  if (!text) {
+    return null;
+  }
+  const rule = createRecurrenceRule("DAILY");
+  let hasFreq = false;
+
+  for (const part of text.split(";")) {
+    if (!part) {
+      continue;
+    }
+    const [key, raw = ""] = part.split("=");
+    switch (key) {
+      case "FREQ": {
+        if (!FREQUENCIES.includes(raw as RecurrenceFrequency)) {
+          return null;
+        }
+        rule.freq = raw as RecurrenceFrequency;
+        hasFreq = true;
+        break;
+      }
+      case "INTERVAL": {
+        const interval = Number(raw);
+        if (!Number.isInteger(interval) || interval < 1) {
+          return null;
+        }
+        rule.interval = interval;
+        break;
+      }
+      case "COUNT": {
+        const count = Number(raw);
+        if (!Number.isInteger(count) || count < 1) {
+          return null;
+        }
+        rule.count = count;
+        break;
+      }
+      case "UNTIL": {
+        const match = /^(\d{4})(\d{2})(\d{2})(T\d{6}Z?)?$/.exec(raw);
+        if (!match) {
+          return null;
+        }
+        rule.until = `${match[1]}-${match[2]}-${match[3]}`;
+        break;
+      }
+      case "BYDAY": {
+        const byDay = parseWeekdayList(raw);
+        if (!byDay) {
+          return null;
+        }
+        rule.byDay = byDay;
+        break;
+      }
+      case "BYMONTHDAY": {
+        const byMonthDay = parseIntegerList(raw, 1, 31);
+        if (!byMonthDay) {
+          return null;
+        }
+        rule.byMonthDay = byMonthDay;
+        break;
+      }
+      case "BYMONTH": {
+        const byMonth = parseIntegerList(raw, 1, 12);
+        if (!byMonth || byMonth.some((month) => month < 0)) {
+          return null;
+        }
+        rule.byMonth = byMonth;
+        break;
+      }
+      case "WKST":
+        break;
+      default:
+        return null;
+    }
+  }
+
+  if (!hasFreq || (rule.count !== null && rule.until !== null)) {
+    return null;
+  }
+  return rule;
+}
+
+export function formatRRule(rule: RecurrenceRule): string {
+  const parts = [`FREQ=${rule.freq}`];
+  if (rule.interval > 1) {
+    parts.push(`INTERVAL=${rule.interval}`);
+  }
+  if (rule.byMonth.length > 0) {
+    parts.push(`BYMONTH=${rule.byMonth.join(",")}`);
+  }
+  if (rule.byMonthDay.length > 0) {
+    parts.push(`BYMONTHDAY=${rule.byMonthDay.join(",")}`);
+  }
+  if (rule.byDay.length > 0) {
+    const days = rule.byDay.map(
+      (item) => `${item.nth ?? ""}${RRULE_WEEKDAYS[item.weekday]}`
+    );
+    parts.push(`BYDAY=${days.join(",")}`);
+  }
+  if (rule.count !== null) {
+    parts.push(`COUNT=${rule.count}`);
+  }
+  if (rule.until) {
+    parts.push(`UNTIL=${rule.until.replace(/-/g, "")}`);
+  }
+  return parts.join(";");
+}
+
+const describeWeekday = (item: WeekdayRule) => {
+  const name = `${WEEKDAY_THEMES[item.weekday]?.name ?? ""}요일`;
+  if (item.nth === null) {
+    return name;
+  }
+  return `${NTH_LABELS[item.nth] ?? `${item.nth}번째`} ${name}`;
+};
+
+// 예: "2주마다 화·목요일", "매월 둘째 화요일, 10회"
+export function describeRRule(rule: RecurrenceRule): string {
+  const unit = { DAILY: "일", WEEKLY: "주", MONTHLY: "개월", YEARLY: "년" }[rule.freq];
+  const every = { DAILY: "매일", WEEKLY: "매주", MONTHLY: "매월", YEARLY: "매년" }[rule.freq];
+  const parts = [rule.interval > 1 ? `${rule.interval}${unit}마다` : every];
+
+  if (rule.byMonth.length > 0) {
+    parts.push(rule.byMonth.map((month) => `${month}월`).join("·"));
+  }
+  if (rule.byMonthDay.length > 0) {
+    const describeMonthDay = (day: number) =>
+      day === -1 ? "마지막 날" : day < 0 ? `끝에서 ${-day}번째 날` : `${day}일`;
+    parts.push(rule.byMonthDay.map(describeMonthDay).join("·"));
+  }
+  if (rule.byDay.length > 0) {
+    const names = rule.byDay.map((item) => WEEKDAY_THEMES[item.weekday]?.name ?? "");
+    parts.push(
+      rule.byDay.every((item) => item.nth === null)
+        ? `${names.join("·")}요일`
+        : rule.byDay.map(describeWeekday).join("·")
+    );
+  }
+
+  let text = parts.join(" ");
+  if (rule.count !== null) {
+    text += `, ${rule.count}회`;
+  }
+  if (rule.until) {
+    text += `, ${rule.until}까지`;
+  }
+  return text;
+}
+
+export function getEventRecurrence(event: CalendarEvent): RecurrenceRule | null {
+  switch (event.repeat ?? "none") {
+    case "daily":
+      return createRecurrenceRule("DAILY");
+    case "weekly":
+      return createRecurrenceRule("WEEKLY");
+    case "yearly":
+      return createRecurrenceRule("YEARLY");
+    case "custom":
+      return event.rrule ? parseRRule(event.rrule) : null;
+    default:
+      return null;
+  }
+}
+
+const toDayNumber = (date: Date) =>
+  Math.round(Date.UTC(date.getFullYear(), date.getMonth(), date.getDate()) / DAY_MS);
+
+const fromDayNumber = (value: number) => {
+  const utc = new Date(value * DAY_MS);
+  return new Date(utc.getUTCFullYear(), utc.getUTCMonth(), utc.getUTCDate());
+};
+
+// 주의 시작은 RRULE 기본값(WKST=MO)처럼 월요일로 본다.
+const getWeekStartDayNumber = (date: Date) => toDayNumber(date) - ((date.getDay() + 6) % 7);
+
+const getPeriodIndex = (freq: RecurrenceFrequency, start: Date, date: Date) => {
+  switch (freq) {
+    case "DAILY":
+      return toDayNumber(date) - toDayNumber(start);
+    case "WEEKLY":
+      return (getWeekStartDayNumber(date) - getWeekStartDayNumber(start)) / 7;
+    case "MONTHLY":
+      return (
+        (date.getFullYear() - start.getFullYear()) * 12 + date.getMonth() - start.getMonth()
+      );
+    case "YEARLY":
+      return date.getFullYear() - start.getFullYear();
+  }
+};
+
+const expandWeekdays = (byDay: WeekdayRule[], first: number, last: number) => {
+  const result: number[] = [];
+  byDay.forEach((item) => {
+    const matches: number[] = [];
+    for (let day = first; day <= last; day += 1) {
+      if (fromDayNumber(day).getDay() === item.weekday) {
+        matches.push(day);
+      }
+    }
+    if (item.nth === null) {
+      result.push(...matches);
+      return;
+    }
+    const picked = item.nth > 0 ? matches[item.nth - 1] : matches[matches.length + item.nth];
+    if (picked !== undefined) {
+      result.push(picked);
+    }
+  });
+  return result;
+};
+
+const expandMonth = (rule: RecurrenceRule, start: Date, year: number, month: number) => {
+  const first = toDayNumber(new Date(year, month, 1));
+  const total = new Date(year, month + 1, 0).getDate();
+  // 31일처럼 그 달에 없는 날짜는 건너뛴다(RFC 5545와 같다).
+  const monthDays = (rule.byMonthDay.length > 0 ? rule.byMonthDay : [start.getDate()])
+    .map((day) => (day > 0 ? day : total + day + 1))
+    .filter((day) => day >= 1 && day <= total)
+    .map((day) => first + day - 1);
+  if (rule.byDay.length === 0) {
+    return monthDays;
+  }
+  const weekdays = expandWeekdays(rule.byDay, first, first + total - 1);
+  return rule.byMonthDay.length > 0
+    ? monthDays.filter((day) => weekdays.includes(day))
+    : weekdays;
+};
+
+// 한 주기(하루/한 주/한 달/한 해) 안에서 규칙에 맞는 날짜를 day number로 모은다.
+const expandPeriod = (rule: RecurrenceRule, start: Date, index: number): number[] => {
+  let candidates: number[] = [];
+  switch (rule.freq) {
+    case "DAILY": {
+      const day = toDayNumber(start) + index;
+      const date = fromDayNumber(day);
+      const matchesMonthDay =
+        rule.byMonthDay.length === 0 ||
+        expandMonth(rule, start, date.getFullYear(), date.getMonth()).includes(day);
+      const matchesWeekday =
+        rule.byDay.length === 0 || rule.byDay.some((item) => item.weekday === date.getDay());
+      candidates = matchesMonthDay && matchesWeekday ? [day] : [];
+      break;
+    }
+    case "WEEKLY": {
+      const weekStart = getWeekStartDayNumber(start) + index * 7;
+      const weekdays =
+        rule.byDay.length > 0 ? rule.byDay.map((item) => item.weekday) : [start.getDay()];
+      candidates = weekdays.map((weekday) => weekStart + ((weekday + 6) % 7));
+      break;
+    }
+    case "MONTHLY": {
+      const monthStart = new Date(start.getFullYear(), start.getMonth() + index, 1);
+      candidates = expandMonth(rule, start, monthStart.getFullYear(), monthStart.getMonth());
+      break;
+    }
+    case "YEARLY": {
+      const year = start.getFullYear() + index;
+      if (rule.byMonth.length === 0 && rule.byDay.length > 0 && rule.byMonthDay.length === 0) {
+        // BYMONTH 없이 "20MO"처럼 쓰면 한 해 전체에서 센다.
+        candidates = expandWeekdays(
+          rule.byDay,
+          toDayNumber(new Date(year, 0, 1)),
+          toDayNumber(new Date(year, 11, 31))
+        );
+        break;
+      }
+      const months =
+        rule.byMonth.length > 0 ? rule.byMonth.map((month) => month - 1) : [start.getMonth()];
+      candidates = months.flatMap((month) => expandMonth(rule, start, year, month));
+      break;
+    }
+  }
+
+  if (rule.byMonth.length > 0 && rule.freq !== "YEARLY") {
+    candidates = candidates.filter((day) =>
+      rule.byMonth.includes(fromDayNumber(day).getMonth() + 1)
+    );
+  }
+  const startDay = toDayNumber(start);
+  return Array.from(new Set(candidates))
+    .filter((day) => day >= startDay)
+    .sort((a, b) => a - b);
+};
+
+export function ruleOccursOnDate(
+  rule: RecurrenceRule,
+  startDate: string,
+  dateKey: string
+): boolean {
+  const start = parseDateKey(startDate);
+  const date = parseDateKey(dateKey);
+  if (!start || !date || dateKey < startDate) {
+    return false;
+  }
+  if (rule.until && dateKey > rule.until) {
+    return false;
+  }
+  const index = getPeriodIndex(rule.freq, start, date);
+  if (index % rule.interval !== 0) {
+    return false;
+  }
+  const position = expandPeriod(rule, start, index).indexOf(toDayNumber(date));
+  if (position < 0) {
+    return false;
+  }
+  if (rule.count === null) {
+    return true;
+  }
+  // COUNT는 첫 회차부터 세어야 하므로 앞선 주기의 횟수를 더한다.
+  let seen = position;
+  for (let previous = 0; previous < index && seen < rule.count; previous += rule.interval) {
+    seen += expandPeriod(rule, start, previous).length;
+  }
+  return seen < rule.count;
+}
+
+// COUNT가 있는 규칙의 마지막 회차 날짜. COUNT가 없거나 찾지 못하면 null.
+export function getRuleLastDate(rule: RecurrenceRule, startDate: string): string | null {
+  const start = parseDateKey(startDate);
+  if (!start || rule.count === null) {
+    return null;
+  }
+  let remaining = rule.count;
+  for (let index = 0; index < MAX_COUNT_PERIODS * rule.interval; index += rule.interval) {
+    const days = expandPeriod(rule, start, index);
+    if (days.length >= remaining) {
+      return getDateKey(fromDayNumber(days[remaining - 1]));
+    }
+    remaining -= days.length;
+  }
+  return null;
+}
+
+export function isRepeatingEvent(event: CalendarEvent): boolean {
+  return event.repeat === "lunarYearly" || getEventRecurrence(event) !== null;
+}
+
+// 반복 일정은 시작일 하루짜리로 저장하므로(`endDate === startDate`) 회차 날짜만 확인한다.
+// 예외(건너뛴 회차, 옮긴 회차)는 보지 않는다.
+function seriesOccursOnDate(event: CalendarEvent, dateKey: string): boolean {
+  if (event.repeatUntil && dateKey > event.repeatUntil) {
+    return false;
+  }
+  if (event.repeat === "lunarYearly") {
+    return lunarOccursOnDate(event.startDate, dateKey);
+  }
+  const rule = getEventRecurrence(event);
+  if (!rule) {
+    return dateKey >= event.startDate && dateKey <= event.endDate;
+  }
+  return ruleOccursOnDate(rule, event.startDate, dateKey);
+}
+
+// 그날 보여줄 회차를 펼친다. 건너뛴 회차는 빼고, 바꾼 회차는 바꾼 날짜와 내용으로 보여준다.
+export function getEventOccurrencesOnDate(
+  event: CalendarEvent,
+  dateKey: string
+): EventOccurrence[] {
+  if (!isRepeatingEvent(event)) {
+    return seriesOccursOnDate(event, dateKey)
+      ? [{ ...event, occurrenceDate: event.startDate }]
+      : [];
+  }
+  const exdates = new Set(event.exdates ?? []);
+  const overrides = event.overrides ?? {};
+  const occurrences: EventOccurrence[] = [];
+  Object.entries(overrides).forEach(([occurrenceDate, override]) => {
+    if (
+      override.date === dateKey &&
+      !exdates.has(occurrenceDate) &&
+      seriesOccursOnDate(event, occurrenceDate)
+    ) {
+      occurrences.push({
+        ...event,
+        startDate: dateKey,
+        endDate: dateKey,
+        start: override.start,
+        end: override.end,
+        label: override.label,
+        allDay: override.allDay === true,
+        occurrenceDate
+      });
+    }
+  });
+  if (!overrides[dateKey] && !exdates.has(dateKey) && seriesOccursOnDate(event, dateKey)) {
+    occurrences.push({ ...event, startDate: dateKey, endDate: dateKey, occurrenceDate: dateKey });
+  }
+  return occurrences;
+}
+
+export function expandEventsOnDate(events: CalendarEvent[], dateKey: string): EventOccurrence[] {
+  return events.flatMap((event) => getEventOccurrencesOnDate(event, dateKey));
+}
+
+export function eventOccursOnDate(event: CalendarEvent, dateKey: string): boolean {
+  return getEventOccurrencesOnDate(event, dateKey).length > 0;
+}
+
+// 한 회차만 건너뛴다. 그 회차를 바꿔 둔 내용이 있으면 함께 지운다.
+export function skipOccurrence(event: CalendarEvent, occurrenceDate: string): CalendarEvent {
+  const overrides = { ...(event.overrides ?? {}) };
+  delete overrides[occurrenceDate];
+  const exdates = Array.from(new Set([...(event.exdates ?? []), occurrenceDate])).sort();
+  return { ...event, exdates, overrides };
+}
+
+export function overrideOccurrence(
+  event: CalendarEvent,
+  occurrenceDate: string,
+  override: EventOccurrenceOverride
+): CalendarEvent {
+  return { ...event, overrides: { ...(event.overrides ?? {}), [occurrenceDate]: override } };
+}
+
+// "이후 모든 일정": 그 회차 전날까지로 반복을 끊고, 그 뒤의 예외도 정리한다.
+// 첫 회차부터 끊으면 남는 회차가 없으므로 null을 돌려준다.
+export function truncateSeries(event: CalendarEvent, occurrenceDate: string): CalendarEvent | null {
+  if (occurrenceDate <= event.startDate) {
+    return null;
+  }
+  const date = parseDateKey(occurrenceDate);
+  if (!date) {
+    return event;
+  }
+  date.setDate(date.getDate() - 1);
+  const overrides: Record<string, EventOccurrenceOverride> = {};
+  Object.entries(event.overrides ?? {}).forEach(([key, value]) => {
+    if (key < occurrenceDate) {
+      overrides[key] = value;
+    }
+  });
+  return {
+    ...event,
+    repeatUntil: getDateKey(date),
+    exdates: (event.exdates ?? []).filter((key) => key < occurrenceDate),
+    overrides
+  };
+}
+
+// 목록에 보여줄 반복 설명. 예: "매월 둘째 화요일", "매년 음력 8월 18일"
+export function describeEventRepeat(event: CalendarEvent): string {
+  let text = "";
+  if (event.repeat === "lunarYearly") {
+    const lunar = toLunarDate(event.startDate);
+    text = lunar ? `매년 ${formatLunarDate(lunar)}` : "매년 음력";
+  } else {
+    const rule = getEventRecurrence(event);
+    text = rule ? describeRRule(rule) : "";
+  }
+  return text && event.repeatUntil ? `${text} (${event.repeatUntil}까지)` : text;
+}
+
+// 편집기에서 시작 날짜를 기준으로 "매월 15일", "매월 셋째 화요일", "매월 마지막 화요일" 후보를 만든다.
+export function getMonthlyPatterns(
+  startDate: string
+): { key: string; label: string; rule: Pick<RecurrenceRule, "byDay" | "byMonthDay"> }[] {
+  const start = parseDateKey(startDate);
+  if (!start) {
+    return [];
+  }
+  const day = start.getDate();
+  const weekday = start.getDay();
+  const nth = Math.ceil(day / 7);
+  const isLastWeek =
+    day + 7 > new Date(start.getFullYear(), start.getMonth() + 1, 0).getDate();
+  const patterns = [
+    { key: "monthday", label: `${day}일`, rule: { byMonthDay: [day], byDay: [] } },
+    {
+      key: "nth",
+      label: describeWeekday({ weekday, nth }),
+      rule: { byMonthDay: [], byDay: [{ weekday, nth }] }
+    }
+  ];
+  if (isLastWeek) {
+    patterns.push({
+      key: "last",
+      label: describeWeekday({ weekday, nth: -1 }),
+      rule: { byMonthDay: [], byDay: [{ weekday, nth: -1 }] }
+    });
+  }
+  return patterns;
+}
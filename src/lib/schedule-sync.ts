@@ -0,0 +1,182 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { ScheduleSet } from "./types";
+import { fetchActiveMembership } from "./group-membership";
+import { loadScheduleSet } from "./schedule-templates";
+import {
+  parseSchedule,
+  parseScheduleVariants,
+  saveSchedule,
+  saveScheduleVariants
+} from "./storage";
+import { addDays, parseDateKey } from "./time";
+import {
+  NO_MEMBERSHIP_SYNC_FAILURE,
+  RETRY_SYNC_FAILURE,
+  hasPendingSync,
+  saveKnownVersion,
+  scheduleResource,
+  toSyncFailure,
+  type SyncFailure,
+  type SyncWriteResult
+} from "./sync-state";
+
+const SCHEDULES_TABLE = "schedules";
+const SCHEDULE_REVISIONS_TABLE = "schedule_revisions";
+
+type ScheduleRow = {
+  blocks?: unknown;
+  variants?: unknown;
+  updated_at?: string | null;
+};
+
+type ScheduleRevisionRow = ScheduleRow & {
+  saved_at?: string | null;
+};
+
+// 저장할 때마다 DB 트리거가 남긴 스케줄 사본(`schedule_revisions`).
+export type ScheduleRevision = {
+  savedAt: string;
+  schedule: ScheduleSet;
+};
+
+export type RemoteVersion =
+  | { ok: true; version: string | null }
+  | { ok: false; failure: SyncFailure };
+
+// Supabase에서 어르신의 스케줄(기본 일정과 요일/날짜별 템플릿)을 불러와
+// localStorage(`schedule_v1`, `schedule_variants_v1`)에 캐시한다.
+// 어르신이 없거나 네트워크가 끊기면, 또는 이 기기에 아직 올리지 못한 수정이 있으면 캐시를 그대로 돌려준다.
+export const fetchSchedule = async (
+  supabase: SupabaseClient,
+  elderId: string | null
+): Promise<ScheduleSet> => {
+  if (!elderId) {
+    return loadScheduleSet();
+  }
+  const resource = scheduleResource(elderId);
+  if (hasPendingSync(resource)) {
+    return loadScheduleSet();
+  }
+
+  const { data, error } = await supabase
+    .from(SCHEDULES_TABLE)
+    .select("blocks, variants, updated_at")
+    .eq("elder_id", elderId)
+    .maybeSingle();
+
+  if (error || !data) {
+    return loadScheduleSet();
+  }
+
+  const row = data as ScheduleRow;
+  const blocks = parseSchedule(row.blocks);
+  if (!blocks || blocks.length === 0 || hasPendingSync(resource)) {
+    return loadScheduleSet();
+  }
+  const variants = parseScheduleVariants(row.variants);
+  saveSchedule(blocks);
+  saveScheduleVariants(variants);
+  saveKnownVersion(resource, row.updated_at ?? null);
+  return { blocks, variants };
+};
+
+export const fetchScheduleVersion = async (
+  supabase: SupabaseClient,
+  elderId: string
+): Promise<RemoteVersion> => {
+  const { data, error } = await supabase
+    .from(SCHEDULES_TABLE)
+    .select("updated_at")
+    .eq("elder_id", elderId)
+    .maybeSingle();
+
+  if (error) {
+    return { ok: false, failure: toSyncFailure(error) };
+  }
+  return { ok: true, version: (data as ScheduleRow | null)?.updated_at ?? null };
+};
+
+// 어르신의 스케줄을 덮어쓰고 새 버전(`updated_at`)을 돌려준다.
+// group_id는 DB 트리거가 어르신 프로필에서 채운다.
+export const pushSchedule = async (
+  supabase: SupabaseClient,
+  elderId: string,
+  schedule: ScheduleSet
+): Promise<SyncWriteResult<string>> => {
+  const membership = await fetchActiveMembership(supabase);
+  if (!membership) {
+    return { ok: false, failure: NO_MEMBERSHIP_SYNC_FAILURE };
+  }
+
+  const { data, error } = await supabase
+    .from(SCHEDULES_TABLE)
+    .upsert(
+      {
+        elder_id: elderId,
+        group_id: membership.groupId,
+        blocks: schedule.blocks,
+        variants: schedule.variants,
+        updated_by: membership.userId,
+        updated_at: new Date().toISOString()
+      },
+      { onConflict: "elder_id" }
+    )
+    .select("updated_at")
+    .single();
+
+  if (error) {
+    return { ok: false, failure: toSyncFailure(error) };
+  }
+  const version = (data as ScheduleRow | null)?.updated_at;
+  return version ? { ok: true, value: version } : { ok: false, failure: RETRY_SYNC_FAILURE };
+};
+
+const rowToRevision = (row: ScheduleRevisionRow): ScheduleRevision | null => {
+  const blocks = parseSchedule(row.blocks);
+  if (!row.saved_at || !blocks) {
+    return null;
+  }
+  return {
+    savedAt: row.saved_at,
+    schedule: { blocks, variants: parseScheduleVariants(row.variants) }
+  };
+};
+
+// 기간 안에 저장된 사본과, 기간 첫날에 쓰고 있던 사본(그 전 마지막 저장)을 저장 순서대로 돌려준다.
+// 읽지 못하면 null.
+export const fetchScheduleRevisions = async (
+  supabase: SupabaseClient,
+  elderId: string,
+  fromKey: string,
+  toKey: string
+): Promise<ScheduleRevision[] | null> => {
+  const from = parseDateKey(fromKey);
+  const to = parseDateKey(toKey);
+  if (!from || !to) {
+    return null;
+  }
+  const fromIso = from.toISOString();
+  const [before, within] = await Promise.all([
+    supabase
+      .from(SCHEDULE_REVISIONS_TABLE)
+      .select("blocks, variants, saved_at")
+      .eq("elder_id", elderId)
+      .lt("saved_at", fromIso)
+      .order("saved_at", { ascending: false })
+      .limit(1),
+    supabase
+      .from(SCHEDULE_REVISIONS_TABLE)
+      .select("blocks, variants, saved_at")
+      .eq("elder_id", elderId)
+      .gte("saved_at", fromIso)
+      .lt("saved_at", addDays(to, 1).toISOString())
+      .order("saved_at", { ascending: true })
+  ]);
+
+  if (before.error || within.error) {
+    return null;
+  }
+  return [...(before.data ?? []), ...(within.data ?? [])]
+    .map((row: ScheduleRevisionRow) => rowToRevision(row))
+    .filter((item): item is ScheduleRevision => Boolean(item));
+};
@@ -0,0 +1,70 @@
+import type { ScheduleSet, ScheduleVariants, TimeBlock } from "./types";
+import { TIME_BLOCKS } from "./constants";
+import { createBlockId, loadSchedule, loadScheduleVariants } from "./storage";
+import { getDateKey } from "./time";
+
+export function createTemplateId(): string {
+  if (typeof crypto !== "undefined" && typeof crypto.randomUUID === "function") {
+    return `template_${crypto.randomUUID()}`;
+  }
+  return `template_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+}
+
+// 템플릿을 만들 때 원본 블록을 복사한다. 완료 기록이 섞이지 않게 id는 새로 붙인다.
+export function cloneBlocks(blocks: TimeBlock[]): TimeBlock[] {
+  return blocks.map((block) => ({
+    ...block,
+    id: createBlockId(),
+    ...(block.tasks
+      ? { tasks: block.tasks.map((task) => ({ ...task, id: createBlockId() })) }
+      : {})
+  }));
+}
+
+export function loadScheduleSet(): ScheduleSet {
+  const stored = loadSchedule();
+  return {
+    blocks: stored && stored.length > 0 ? stored : TIME_BLOCKS,
+    variants: loadScheduleVariants()
+  };
+}
+
+// 날짜 지정 > 요일 지정 > 기본 일정 순으로 그날의 템플릿 id를 고른다. null이면 기본 일정.
+export function getTemplateIdForDate(
+  variants: ScheduleVariants,
+  date: Date
+): string | null {
+  const dateTemplateId = variants.dateTemplates[getDateKey(date)];
+  if (dateTemplateId) {
+    return dateTemplateId;
+  }
+  return variants.weekdayTemplates[date.getDay()] ?? null;
+}
+
+export function resolveScheduleForDate(schedule: ScheduleSet, date: Date): TimeBlock[] {
+  const templateId = getTemplateIdForDate(schedule.variants, date);
+  const template = templateId
+    ? schedule.variants.templates.find((item) => item.id === templateId)
+    : null;
+  return template ? template.blocks : schedule.blocks;
+}
+
+// 템플릿을 지우면 그 템플릿을 쓰던 요일/날짜는 기본 일정으로 돌아간다.
+export function removeTemplate(
+  variants: ScheduleVariants,
+  templateId: string
+): ScheduleVariants {
+  const dateTemplates: Record<string, string> = {};
+  Object.entries(variants.dateTemplates).forEach(([dateKey, value]) => {
+    if (value !== templateId) {
+      dateTemplates[dateKey] = value;
+    }
+  });
+  return {
+    templates: variants.templates.filter((item) => item.id !== templateId),
+    weekdayTemplates: variants.weekdayTemplates.map((value) =>
+      value === templateId ? null : value
+    ),
+    dateTemplates
+  };
+}
@@ -1,20 +1,36 @@
-import type { CalendarEvent, TimeBlock } from "./types";
+import type {
+  BlockTask,
+  BuiltBlock,
+  CalendarEvent,
+  EventOccurrenceOverride,
+  ScheduleVariants,
+  TimeBlock
+} from "./types";
+import { parseEscalationPolicy } from "./escalation";
+import { formatRRule, parseRRule } from "./recurrence";
 import { toMinutes, validateSchedule } from "./time";
 
 export const SCHEDULE_STORAGE_KEY = "schedule_v1";
+export const SCHEDULE_VARIANTS_STORAGE_KEY = "schedule_variants_v1";
 export const EVENTS_STORAGE_KEY = "events_v1";
 export const DONE_ACTIVITY_STORAGE_KEY = "done_activity_v1";
 
+// done: 완료 체크, acknowledged: 알림에 "확인했어요", snoozed: 알림에 "나중에"
+export type ActivityKind = "done" | "acknowledged" | "snoozed";
+
 export type DoneActivityItem = {
   id: string;
+  taskId?: string;
+  kind?: ActivityKind; // 없으면 완료 체크
   title: string;
-  completedAt: string; // ISO datetime
+  completedAt: string; // ISO datetime. 알림 응답이면 누른 시각
   dateKey: string; // YYYY-MM-DD
 };
 
 const MAX_DONE_ACTIVITY_ITEMS = 200;
 
-export function loadDoneSet(dateKey: string): Set<number> {
+// 예전에는 블록 순번(number)을 저장했으므로, 그날의 블록 목록으로 할 일 id에 옮겨 담는다.
+export function loadDoneSet(dateKey: string, blocks: BuiltBlock[] = []): Set<string> {
   if (typeof window === "undefined") {
     return new Set();
   }
@@ -24,13 +40,23 @@ export function loadDoneSet(dateKey: string): Set<number> {
   }
   try {
     const list = JSON.parse(raw);
-    return new Set(Array.isArray(list) ? list : []);
+    const result = new Set<string>();
+    (Array.isArray(list) ? list : []).forEach((entry) => {
+      if (typeof entry === "string" && entry) {
+        result.add(entry);
+        return;
+      }
+      if (typeof entry === "number" && blocks[entry]) {
+        result.add(blocks[entry].id);
+      }
+    });
+    return result;
   } catch (err) {
     return new Set();
   }
 }
 
-export function saveDoneSet(dateKey: string, set: Set<number>): void {
+export function saveDoneSet(dateKey: string, set: Set<string>): void {
   if (typeof window === "undefined") {
     return;
   }
@@ -51,7 +77,17 @@ function normalizeDoneActivity(
   if (Number.isNaN(new Date(completedAt).getTime())) {
     return null;
   }
-  return { id, title, completedAt, dateKey };
+  const taskId = typeof item.taskId === "string" ? item.taskId.trim() : "";
+  const kind =
+    item.kind === "acknowledged" || item.kind === "snoozed" ? item.kind : undefined;
+  return {
+    id,
+    ...(taskId ? { taskId } : {}),
+    ...(kind ? { kind } : {}),
+    title,
+    completedAt,
+    dateKey
+  };
 }
 
 export function loadDoneActivities(): DoneActivityItem[] {
@@ -95,6 +131,141 @@ export function appendDoneActivity(
   return nextItem;
 }
 
+export function createBlockId(): string {
+  if (typeof crypto !== "undefined" && typeof crypto.randomUUID === "function") {
+    return crypto.randomUUID();
+  }
+  return `block_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+}
+
+// id가 없던 예전 스케줄은 시간대로 id를 만든다. 블록끼리 겹칠 수 없으니 기기마다 같은 id가 나온다.
+function getLegacyBlockId(start: string, end: string): string {
+  return `legacy-${start.replace(":", "")}-${end.replace(":", "")}`;
+}
+
+// 예전 할 일 목록(문자열 배열)은 id 없이 순서로만 구분했다. 그때 쓰던 id(`${blockId}:${순번}`,
+// 할 일이 하나면 블록 id)를 그대로 붙여 옮겨야 오늘의 완료 체크와 기록이 이어진다.
+function parseBlockTasks(blockId: string, data: unknown): BlockTask[] | null {
+  if (!Array.isArray(data)) {
+    return null;
+  }
+  const items = data
+    .map((item) => {
+      if (typeof item === "string") {
+        return { id: "", label: item.trim() };
+      }
+      if (!item || typeof item !== "object") {
+        return null;
+      }
+      const record = item as Record<string, unknown>;
+      return {
+        id: typeof record.id === "string" ? record.id.trim() : "",
+        label: typeof record.label === "string" ? record.label.trim() : ""
+      };
+    })
+    .filter((item): item is BlockTask => Boolean(item && item.label));
+  if (items.length === 0) {
+    return null;
+  }
+  const seenIds = new Set<string>();
+  return items.map((item, index) => {
+    const id =
+      item.id && !seenIds.has(item.id)
+        ? item.id
+        : items.length === 1
+          ? blockId
+          : `${blockId}:${index}`;
+    seenIds.add(id);
+    return { id, label: item.label };
+  });
+}
+
+function needsScheduleMigration(data: unknown): boolean {
+  return (
+    Array.isArray(data) &&
+    data.some((item) => {
+      if (!item || typeof item !== "object") {
+        return true;
+      }
+      const record = item as Record<string, unknown>;
+      return (
+        typeof record.id !== "string" ||
+        Array.isArray(record.label) ||
+        (Array.isArray(record.tasks) && record.tasks.some((task) => typeof task === "string"))
+      );
+    })
+  );
+}
+
+export function parseSchedule(data: unknown): TimeBlock[] | null {
+  if (!Array.isArray(data)) {
+    return null;
+  }
+
+  const seenIds = new Set<string>();
+  const blocks: TimeBlock[] = data
+    .map((item) => {
+      if (!item || typeof item !== "object") {
+        return null;
+      }
+      const record = item as Record<string, unknown>;
+      if (typeof record.start !== "string" || typeof record.end !== "string") {
+        return null;
+      }
+      const rawId = typeof record.id === "string" ? record.id.trim() : "";
+      const id =
+        rawId && !seenIds.has(rawId)
+          ? rawId
+          : getLegacyBlockId(record.start, record.end);
+      seenIds.add(id);
+      const block: TimeBlock = {
+        id,
+        start: record.start,
+        end: record.end
+      };
+      if (typeof record.label === "string") {
+        block.label = record.label;
+      }
+      const tasks = parseBlockTasks(
+        id,
+        Array.isArray(record.tasks) ? record.tasks : record.label
+      );
+      if (tasks) {
+        block.tasks = tasks;
+      }
+      if (record.alertTarget === "start" || record.alertTarget === "end") {
+        block.alertTarget = record.alertTarget;
+      }
+      if (Array.isArray(record.alertMinutes)) {
+        const minutes = record.alertMinutes
+          .map((value) => Number(value))
+          .filter((value) => Number.isFinite(value) && value > 0)
+          .map((value) => Math.round(value));
+        if (minutes.length > 0) {
+          block.alertMinutes = minutes;
+        }
+      }
+      const escalation = parseEscalationPolicy(record.escalation);
+      if (escalation) {
+        block.escalation = escalation;
+      }
+      if (typeof record.voiceClip === "string" && record.voiceClip) {
+        block.voiceClip = record.voiceClip;
+      }
+      if (Array.isArray(record.medicationIds) && record.medicationIds.length > 0) {
+        block.medicationIds = record.medicationIds.map((id) => String(id));
+      }
+      return block;
+    })
+    .filter((block): block is TimeBlock => Boolean(block));
+
+  const validation = validateSchedule(blocks);
+  if (!validation.ok) {
+    return null;
+  }
+  return blocks;
+}
+
 export function loadSchedule(): TimeBlock[] | null {
   if (typeof window === "undefined") {
     return null;
@@ -105,48 +276,9 @@ export function loadSchedule(): TimeBlock[] | null {
   }
   try {
     const data = JSON.parse(raw);
-    if (!Array.isArray(data)) {
-      return null;
-    }
-
-    const blocks: TimeBlock[] = data
-      .map((item) => {
-        if (!item || typeof item !== "object") {
-          return null;
-        }
-        const record = item as Record<string, unknown>;
-        if (typeof record.start !== "string" || typeof record.end !== "string") {
-          return null;
-        }
-        const block: TimeBlock = {
-          start: record.start,
-          end: record.end
-        };
-        if (typeof record.label === "string" || Array.isArray(record.label)) {
-          block.label = record.label as TimeBlock["label"];
-        }
-        if (Array.isArray(record.tasks)) {
-          block.tasks = record.tasks.map((task) => String(task));
-        }
-        if (record.alertTarget === "start" || record.alertTarget === "end") {
-          block.alertTarget = record.alertTarget;
-        }
-        if (Array.isArray(record.alertMinutes)) {
-          const minutes = record.alertMinutes
-            .map((value) => Number(value))
-            .filter((value) => Number.isFinite(value) && value > 0)
-            .map((value) => Math.round(value));
-          if (minutes.length > 0) {
-            block.alertMinutes = minutes;
-          }
-        }
-        return block;
-      })
-      .filter((block): block is TimeBlock => Boolean(block));
-
-    const validation = validateSchedule(blocks);
-    if (!validation.ok) {
-      return null;
+    const blocks = parseSchedule(data);
+    if (blocks && needsScheduleMigration(data)) {
+      saveSchedule(blocks);
     }
     return blocks;
   } catch (err) {
@@ -162,9 +294,77 @@ export function saveSchedule(blocks: TimeBlock[]): void {
 }
 
 const DATE_REGEX = /^\d{4}-\d{2}-\d{2}$/;
-const REPEAT_VALUES = new Set(["none", "daily", "weekly", "yearly"]);
 
-function normalizeEvent(item: Record<string, unknown>): CalendarEvent | null {
+export function createEmptyScheduleVariants(): ScheduleVariants {
+  return { templates: [], weekdayTemplates: Array(7).fill(null), dateTemplates: {} };
+}
+
+// 잘못된 템플릿은 버리고, 없는 템플릿을 가리키는 요일/날짜 지정은 기본 일정으로 되돌린다.
+export function parseScheduleVariants(data: unknown): ScheduleVariants {
+  const variants = createEmptyScheduleVariants();
+  if (!data || typeof data !== "object" || Array.isArray(data)) {
+    return variants;
+  }
+  const record = data as Record<string, unknown>;
+  const seenIds = new Set<string>();
+  if (Array.isArray(record.templates)) {
+    record.templates.forEach((item) => {
+      if (!item || typeof item !== "object") {
+        return;
+      }
+      const template = item as Record<string, unknown>;
+      const id = typeof template.id === "string" ? template.id.trim() : "";
+      const name = typeof template.name === "string" ? template.name.trim() : "";
+      const blocks = parseSchedule(template.blocks);
+      if (!id || seenIds.has(id) || !name || !blocks || blocks.length === 0) {
+        return;
+      }
+      seenIds.add(id);
+      variants.templates.push({ id, name, blocks });
+    });
+  }
+  if (Array.isArray(record.weekdayTemplates)) {
+    variants.weekdayTemplates = variants.weekdayTemplates.map((_, day) => {
+      const value = (record.weekdayTemplates as unknown[])[day];
+      return typeof value === "string" && seenIds.has(value) ? value : null;
+    });
+  }
+  if (record.dateTemplates && typeof record.dateTemplates === "object") {
+    Object.entries(record.dateTemplates as Record<string, unknown>).forEach(
+      ([dateKey, value]) => {
+        if (DATE_REGEX.test(dateKey) && typeof value === "string" && seenIds.has(value)) {
+          variants.dateTemplates[dateKey] = value;
+        }
+      }
+    );
+  }
+  return variants;
+}
+
+export function loadScheduleVariants(): ScheduleVariants {
+  if (typeof window === "undefined") {
+    return createEmptyScheduleVariants();
+  }
+  const raw = localStorage.getItem(SCHEDULE_VARIANTS_STORAGE_KEY);
+  if (!raw) {
+    return createEmptyScheduleVariants();
+  }
+  try {
+    return parseScheduleVariants(JSON.parse(raw));
+  } catch (err) {
+    return createEmptyScheduleVariants();
+  }
+}
+
+export function saveScheduleVariants(variants: ScheduleVariants): void {
+  if (typeof window === "undefined") {
+    return;
+  }
+  localStorage.setItem(SCHEDULE_VARIANTS_STORAGE_KEY, JSON.stringify(variants));
+}
+const REPEAT_VALUES = new Set(["none", "daily", "weekly", "yearly", "lunarYearly", "custom"]);
+
+export function normalizeEvent(item: Record<string, unknown>): CalendarEvent | null {
   const rawStartDate =
     typeof item.startDate === "string"
       ? item.startDate
@@ -179,9 +379,14 @@ function normalizeEvent(item: Record<string, unknown>): CalendarEvent | null {
         : "";
   const label = typeof item.label === "string" ? item.label.trim() : "";
   const allDay = item.allDay === true;
+  // 읽을 수 없는 RRULE은 반복하지 않는 일정으로 다룬다.
+  const rule =
+    item.repeat === "custom" && typeof item.rrule === "string" ? parseRRule(item.rrule) : null;
   const repeat =
     typeof item.repeat === "string" && REPEAT_VALUES.has(item.repeat)
-      ? (item.repeat as CalendarEvent["repeat"])
+      ? item.repeat === "custom" && !rule
+        ? "none"
+        : (item.repeat as CalendarEvent["repeat"])
       : "none";
   const startValue =
     typeof item.start === "string" ? item.start : allDay ? "00:00" : "";
@@ -210,7 +415,58 @@ function normalizeEvent(item: Record<string, unknown>): CalendarEvent | null {
       ? item.id
       : `${startDate}_${endDate}_${start}_${end}_${label}`;
 
-  return { id, startDate, endDate, start, end, label, allDay, repeat };
+  const event: CalendarEvent = rule
+    ? { id, startDate, endDate, start, end, label, allDay, repeat, rrule: formatRRule(rule) }
+    : { id, startDate, endDate, start, end, label, allDay, repeat };
+  if (repeat === "none") {
+    return event;
+  }
+  if (typeof item.repeatUntil === "string" && DATE_REGEX.test(item.repeatUntil)) {
+    event.repeatUntil = item.repeatUntil;
+  }
+  const exdates = Array.isArray(item.exdates)
+    ? item.exdates.filter(
+        (value): value is string => typeof value === "string" && DATE_REGEX.test(value)
+      )
+    : [];
+  if (exdates.length > 0) {
+    event.exdates = Array.from(new Set(exdates)).sort();
+  }
+  const overrides = normalizeOccurrenceOverrides(item.overrides);
+  if (Object.keys(overrides).length > 0) {
+    event.overrides = overrides;
+  }
+  return event;
+}
+
+function normalizeOccurrenceOverrides(
+  value: unknown
+): Record<string, EventOccurrenceOverride> {
+  const result: Record<string, EventOccurrenceOverride> = {};
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return result;
+  }
+  Object.entries(value as Record<string, unknown>).forEach(([occurrenceDate, raw]) => {
+    if (!DATE_REGEX.test(occurrenceDate) || !raw || typeof raw !== "object") {
+      return;
+    }
+    const item = raw as Record<string, unknown>;
+    const allDay = item.allDay === true;
+    const date = typeof item.date === "string" ? item.date : "";
+    const label = typeof item.label === "string" ? item.label.trim() : "";
+    const start = allDay ? "00:00" : typeof item.start === "string" ? item.start : "";
+    const end = allDay ? "23:59" : typeof item.end === "string" ? item.end : "";
+    const startMin = toMinutes(start);
+    const endMin = toMinutes(end);
+    if (!DATE_REGEX.test(date) || !label) {
+      return;
+    }
+    if (Number.isNaN(startMin) || Number.isNaN(endMin) || startMin >= endMin) {
+      return;
+    }
+    result[occurrenceDate] = { date, start, end, label, allDay };
+  });
+  return result;
 }
 
 export function loadEvents(): CalendarEvent[] {
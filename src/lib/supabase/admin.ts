@@ -0,0 +1,15 @@
+import { createClient } from "@supabase/supabase-js";
+
+// 서버 작업(알림 발송 등)에서만 쓰는 service role 클라이언트. RLS를 거치지 않으므로
+// 브라우저 코드에서 가져오면 안 된다.
+export function createSupabaseAdminClient() {
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!supabaseUrl || !serviceRoleKey) {
+    throw new Error("Missing Supabase service role environment variables.");
+  }
+
+  return createClient(supabaseUrl, serviceRoleKey, {
+    auth: { persistSession: false, autoRefreshToken: false }
+  });
+}
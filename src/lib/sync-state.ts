@@ -0,0 +1,141 @@
+export const SYNC_PENDING_STORAGE_KEY = "sync_pending_v1";
+const SYNC_VERSIONS_STORAGE_KEY = "sync_versions_v1";
+const SYNC_OWN_VERSIONS_STORAGE_KEY = "sync_own_versions_v1";
+
+const MAX_OWN_VERSIONS = 10;
+
+// 동기화 대상 구분 키. 예: "schedule:<elderId>", "event:<id>", "completion:<elderId>:<date>:<taskId>",
+// "alert:<elderId>:<date>:<taskId>", "dose:<medicationId>:<date>:<blockId>"
+export type SyncResource = string;
+
+const readMap = <T>(key: string): Record<string, T> => {
+  if (typeof window === "undefined") {
+    return {};
+  }
+  const raw = window.localStorage.getItem(key);
+  if (!raw) {
+    return {};
+  }
+  try {
+    const parsed = JSON.parse(raw);
+    return parsed && typeof parsed === "object" && !Array.isArray(parsed)
+      ? (parsed as Record<string, T>)
+      : {};
+  } catch {
+    return {};
+  }
+};
+
+const writeMap = <T>(key: string, map: Record<string, T>) => {
+  if (typeof window === "undefined") {
+    return;
+  }
+  window.localStorage.setItem(key, JSON.stringify(map));
+};
+
+export const scheduleResource = (elderId: string): SyncResource => `schedule:${elderId}`;
+
+export const eventResource = (eventId: string): SyncResource => `event:${eventId}`;
+
+export const completionResource = (
+  elderId: string,
+  dateKey: string,
+  taskId: string
+): SyncResource => `completion:${elderId}:${dateKey}:${taskId}`;
+
+export const alertResponseResource = (
+  elderId: string,
+  dateKey: string,
+  taskId: string
+): SyncResource => `alert:${elderId}:${dateKey}:${taskId}`;
+
+export const doseResource = (
+  medicationId: string,
+  dateKey: string,
+  blockId: string
+): SyncResource => `dose:${medicationId}:${dateKey}:${blockId}`;
+
+// 서버에서 마지막으로 확인한 `updated_at`. 오프라인 수정의 기준 버전이 된다.
+export const loadKnownVersion = (resource: SyncResource): string | null => {
+  const value = readMap<unknown>(SYNC_VERSIONS_STORAGE_KEY)[resource];
+  return typeof value === "string" ? value : null;
+};
+
+export const saveKnownVersion = (resource: SyncResource, version: string | null) => {
+  const map = readMap<string>(SYNC_VERSIONS_STORAGE_KEY);
+  if (version) {
+    map[resource] = version;
+  } else {
+    delete map[resource];
+  }
+  writeMap(SYNC_VERSIONS_STORAGE_KEY, map);
+};
+
+// 이 기기가 직접 써 넣은 버전. 대기 중이던 수정이 연달아 재생될 때 충돌로 오인하지 않게 한다.
+export const rememberOwnVersion = (resource: SyncResource, version: string) => {
+  const map = readMap<string[]>(SYNC_OWN_VERSIONS_STORAGE_KEY);
+  const current = Array.isArray(map[resource]) ? map[resource] : [];
+  map[resource] = [version, ...current.filter((item) => item !== version)].slice(
+    0,
+    MAX_OWN_VERSIONS
+  );
+  writeMap(SYNC_OWN_VERSIONS_STORAGE_KEY, map);
+  saveKnownVersion(resource, version);
+};
+
+export const isOwnVersion = (resource: SyncResource, version: string) => {
+  const list = readMap<string[]>(SYNC_OWN_VERSIONS_STORAGE_KEY)[resource];
+  return Array.isArray(list) && list.includes(version);
+};
+
+export const updatePendingCount = (resource: SyncResource, delta: number) => {
+  const map = readMap<number>(SYNC_PENDING_STORAGE_KEY);
+  const next = Math.max(0, (Number(map[resource]) || 0) + delta);
+  if (next > 0) {
+    map[resource] = next;
+  } else {
+    delete map[resource];
+  }
+  writeMap(SYNC_PENDING_STORAGE_KEY, map);
+};
+
+export const hasPendingSync = (resource: SyncResource) =>
+  (Number(readMap<number>(SYNC_PENDING_STORAGE_KEY)[resource]) || 0) > 0;
+
+export const listPendingResources = (prefix = ""): SyncResource[] =>
+  Object.keys(readMap<number>(SYNC_PENDING_STORAGE_KEY)).filter((resource) =>
+    resource.startsWith(prefix)
+  );
+
+// 아웃박스에 실제로 남은 항목으로 대기 건수를 다시 맞춘다.
+export const replacePendingCounts = (counts: Record<SyncResource, number>) => {
+  writeMap(SYNC_PENDING_STORAGE_KEY, counts);
+};
+
+// 서버에 쓰지 못한 이유. permanent이면 다시 보내도 같은 이유(권한 없음, 제약 조건 위반,
+// 그룹에서 빠짐)로 실패하므로 아웃박스 차례에서 빼고 사용자에게 보여준다.
+export type SyncFailure = {
+  permanent: boolean;
+  message: string;
+};
+
+export type SyncWriteResult<T> = { ok: true; value: T } | { ok: false; failure: SyncFailure };
+
+// PostgreSQL 오류 코드 22(잘못된 값), 23(제약 조건), 42(권한, 없는 열), P0(함수의 raise exception)
+// 계열은 다시 보내도 안 된다. 코드가 없는 네트워크 오류나 서버 오류는 다시 보낸다.
+const PERMANENT_ERROR_PREFIXES = ["22", "23", "42", "P0"];
+
+export const toSyncFailure = (error: { code?: string; message: string }): SyncFailure => ({
+  permanent: PERMANENT_ERROR_PREFIXES.some((prefix) => (error.code ?? "").startsWith(prefix)),
+  message: error.message
+});
+
+export const RETRY_SYNC_FAILURE: SyncFailure = {
+  permanent: false,
+  message: "서버에 연결하지 못했습니다."
+};
+
+export const NO_MEMBERSHIP_SYNC_FAILURE: SyncFailure = {
+  permanent: true,
+  message: "가족 그룹에 속해 있지 않아 올릴 수 없습니다."
+};
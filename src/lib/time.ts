@@ -17,6 +17,14 @@ export function getDateKey(date: Date): string {
   return `${date.getFullYear()}-${pad2(date.getMonth() + 1)}-${pad2(date.getDate())}`;
 }
 
+export function parseDateKey(value: string): Date | null {
+  const [year, month, day] = value.split("-").map((part) => Number(part));
+  if (!year || !month || !day) {
+    return null;
+  }
+  return new Date(year, month - 1, day);
+}
+
 export function formatKoreanTime(date: Date): string {
   const hours = date.getHours();
   const minutes = date.getMinutes();
@@ -65,27 +73,29 @@ export function buildBlocks(blocks: TimeBlock[]): BuiltBlock[] {
       ? [...block.alertMinutes]
       : undefined;
     const alertTarget = block.alertTarget ?? DEFAULT_ALERT_TARGET;
+    const escalation = block.escalation;
+    const voiceClip = block.voiceClip;
+    const medicationIds = block.medicationIds;
 
-    const tasks = Array.isArray(block.tasks)
-      ? block.tasks
-      : Array.isArray(block.label)
-        ? block.label
-        : [block.label ?? ""];
-    const normalized = tasks
-      .filter((task) => typeof task === "string")
-      .map((task) => task.trim())
-      .filter((task) => task.length > 0);
-    const list = normalized.length > 0 ? normalized : [""];
+    const list =
+      block.tasks && block.tasks.length > 0
+        ? block.tasks
+        : [{ id: block.id, label: block.label?.trim() ?? "" }];
 
     if (list.length <= 1) {
       result.push({
+        id: list[0].id,
+        blockId: block.id,
         startMin,
         endMin,
         start: block.start,
         end: block.end,
-        label: list[0],
+        label: list[0].label,
         alertMinutes,
-        alertTarget
+        alertTarget,
+        escalation,
+        voiceClip,
+        medicationIds
       });
       return;
     }
@@ -102,13 +112,18 @@ export function buildBlocks(blocks: TimeBlock[]): BuiltBlock[] {
       const subEnd = cursor + slice;
       cursor = subEnd;
       result.push({
+        id: task.id,
+        blockId: block.id,
         startMin: subStart,
         endMin: subEnd,
         start: minutesToTime(subStart),
         end: minutesToTime(subEnd),
-        label: task,
+        label: task.label,
         alertMinutes,
-        alertTarget
+        alertTarget,
+        escalation,
+        voiceClip,
+        medicationIds
       });
     });
   });
@@ -196,12 +211,8 @@ export function validateSchedule(blocks: TimeBlock[]): { ok: true } | { ok: fals
   const normalized = blocks.map((block, index) => {
     const start = String(block.start ?? "").trim();
     const end = String(block.end ?? "").trim();
-    const label = Array.isArray(block.label)
-      ? block.label.join(" / ").trim()
-      : String(block.label ?? "").trim();
-    const tasks = Array.isArray(block.tasks)
-      ? block.tasks.map((task) => String(task).trim()).filter((task) => task.length > 0)
-      : [];
+    const label = String(block.label ?? "").trim();
+    const tasks = (block.tasks ?? []).filter((task) => task.label.trim().length > 0);
     const startMin = toMinutes(start);
     const endMin = toMinutes(end);
 
@@ -1,13 +1,50 @@
 export type TimeBlock = {
+  id: string;
   start: string;
   end: string;
-  label?: string | string[];
-  tasks?: string[];
+  label?: string;
+  tasks?: BlockTask[]; // 한 블록을 여러 할 일로 나눌 때. 있으면 label 대신 쓴다
   alertMinutes?: number[];
   alertTarget?: AlertTarget;
+  escalation?: EscalationPolicy;
+  voiceClip?: string; // 가족이 녹음한 안내(voice-clips 버킷 경로). 있으면 음성 합성 대신 재생한다
+  medicationIds?: string[]; // 이 시간에 드실 약(medications.id)
+};
+
+// 블록 안의 할 일. id는 순서를 바꾸거나 할 일을 더하고 빼도 그대로 남는다.
+export type BlockTask = {
+  id: string;
+  label: string;
+};
+
+// 할 일을 끝 시각까지 체크하지 않았을 때의 단계별 알림 규칙(src/lib/escalation.ts).
+export type EscalationPolicy = {
+  remindEvery: number; // 어르신 화면 재알림 간격(분)
+  remindCount: number; // 재알림 횟수. 다 울린 뒤 한 간격이 더 지나면 대표 보호자에게 알린다
+  everyoneAfter: number | null; // 대표 보호자에게 알린 뒤 가족 모두에게 알리기까지(분). null이면 대표 보호자까지만
+};
+
+export type ScheduleTemplate = {
+  id: string;
+  name: string;
+  blocks: TimeBlock[];
+};
+
+// 기본 일정 대신 쓸 템플릿. 날짜 지정이 요일 지정보다 우선한다.
+export type ScheduleVariants = {
+  templates: ScheduleTemplate[];
+  weekdayTemplates: (string | null)[]; // WEEKDAY_THEMES 순서(일~토)의 템플릿 id, null이면 기본 일정
+  dateTemplates: Record<string, string>; // YYYY-MM-DD -> 템플릿 id
+};
+
+export type ScheduleSet = {
+  blocks: TimeBlock[]; // 기본 일정
+  variants: ScheduleVariants;
 };
 
 export type BuiltBlock = {
+  id: string; // 할 일 식별자. 할 일이 나뉜 블록은 `BlockTask.id`, 아니면 블록 id
+  blockId: string;
   start: string;
   end: string;
   startMin: number;
@@ -15,6 +52,9 @@ export type BuiltBlock = {
   label: string;
   alertMinutes?: number[];
   alertTarget?: AlertTarget;
+  escalation?: EscalationPolicy;
+  voiceClip?: string;
+  medicationIds?: string[];
 };
 
 export type AlertTarget = "start" | "end";
@@ -27,10 +67,28 @@ export type CalendarEvent = {
   end: string;
   label: string;
   allDay?: boolean;
-  repeat?: "none" | "daily" | "weekly" | "yearly";
+  repeat?: "none" | "daily" | "weekly" | "yearly" | "lunarYearly" | "custom";
+  rrule?: string; // repeat이 "custom"일 때의 RFC 5545 RRULE. 예: FREQ=MONTHLY;BYDAY=2TU
+  repeatUntil?: string; // YYYY-MM-DD. "이후 모든 일정"을 지우거나 바꾸면 반복을 이 날짜까지로 끊는다.
+  exdates?: string[]; // 건너뛴 회차의 원래 날짜(YYYY-MM-DD)
+  overrides?: Record<string, EventOccurrenceOverride>; // 원래 회차 날짜 → 그 회차만 바꾼 내용
   source?: "user" | "system";
 };
 
+// "이 일정만 수정"으로 바꾼 한 회차. date를 바꾸면 다른 날로 옮겨 보여준다.
+export type EventOccurrenceOverride = {
+  date: string; // YYYY-MM-DD
+  start: string;
+  end: string;
+  label: string;
+  allDay?: boolean;
+};
+
+// 반복을 펼친 한 회차. occurrenceDate는 예외를 찾을 때 쓰는 원래 회차 날짜다.
+export type EventOccurrence = CalendarEvent & {
+  occurrenceDate: string;
+};
+
 export type WeekdayTheme = {
   name: string;
   color: string;
@@ -0,0 +1,172 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { GroupActionResult } from "./group-invites";
+import { fetchActiveMembership } from "./group-membership";
+
+// 어르신 화면의 음성 안내 설정. 태블릿마다 스피커와 설치된 음성이 달라 기기에 저장한다.
+export const VOICE_SETTINGS_STORAGE_KEY = "voice_settings_v1";
+// 가족이 녹음한 할 일 안내. 경로는 `${groupId}/${elderId}/${시각}.webm`
+export const VOICE_CLIP_BUCKET = "voice-clips";
+export const VOICE_CLIP_MAX_SECONDS = 15;
+// 태블릿이 하루 종일 켜져 있어도 다시 받지 않도록 넉넉히 잡는다. 스케줄이 바뀌면 새로 받는다.
+const VOICE_CLIP_URL_SECONDS = 24 * 60 * 60;
+
+export const VOICE_RATE_OPTIONS = [
+  { value: 0.7, label: "천천히" },
+  { value: 0.9, label: "보통" },
+  { value: 1.1, label: "빠르게" }
+];
+
+export type VoiceSettings = {
+  enabled: boolean;
+  voiceURI: string | null; // null이면 브라우저의 기본 한국어 음성
+  rate: number;
+  volume: number; // 0~1
+};
+
+export const DEFAULT_VOICE_SETTINGS: VoiceSettings = {
+  enabled: true,
+  voiceURI: null,
+  rate: 0.9,
+  volume: 1
+};
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+export const loadVoiceSettings = (): VoiceSettings => {
+  if (typeof window === "undefined") {
+    return DEFAULT_VOICE_SETTINGS;
+  }
+  try {
+    const raw = window.localStorage.getItem(VOICE_SETTINGS_STORAGE_KEY);
+    const record = raw ? (JSON.parse(raw) as Record<string, unknown>) : null;
+    if (!record || typeof record !== "object") {
+      return DEFAULT_VOICE_SETTINGS;
+    }
+    const rate = Number(record.rate);
+    const volume = Number(record.volume);
+    return {
+      enabled: record.enabled !== false,
+      voiceURI: typeof record.voiceURI === "string" ? record.voiceURI : null,
+      rate: Number.isFinite(rate) ? clamp(rate, 0.5, 1.5) : DEFAULT_VOICE_SETTINGS.rate,
+      volume: Number.isFinite(volume) ? clamp(volume, 0, 1) : DEFAULT_VOICE_SETTINGS.volume
+    };
+  } catch (err) {
+    return DEFAULT_VOICE_SETTINGS;
+  }
+};
+
+export const saveVoiceSettings = (settings: VoiceSettings) => {
+  window.localStorage.setItem(VOICE_SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+};
+
+export const isSpeechSupported = () =>
+  typeof window !== "undefined" && "speechSynthesis" in window;
+
+// 음성 목록은 브라우저가 늦게 채우기도 해서, 비어 있으면 voiceschanged를 한 번 기다린다.
+export const listKoreanVoices = async (): Promise<SpeechSynthesisVoice[]> => {
+  if (!isSpeechSupported()) {
+    return [];
+  }
+  const pick = () =>
+    window.speechSynthesis.getVoices().filter((voice) => voice.lang.toLowerCase().startsWith("ko"));
+  const voices = pick();
+  if (voices.length > 0) {
+    return voices;
+  }
+  return new Promise((resolve) => {
+    const timerId = window.setTimeout(() => resolve(pick()), 1000);
+    window.speechSynthesis.addEventListener(
+      "voiceschanged",
+      () => {
+        window.clearTimeout(timerId);
+        resolve(pick());
+      },
+      { once: true }
+    );
+  });
+};
+
+// 알림 문구는 화면용으로 줄을 나눠 두었으므로 읽을 때는 쉼표로 잇는다.
+// 예: "10분 전이에요\n점심 식사" → "10분 전이에요, 점심 식사"
+export const toSpokenText = (message: string) =>
+  message
+    .split("\n")
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .join(", ");
+
+export const speak = async (text: string, settings: VoiceSettings) => {
+  if (!isSpeechSupported() || !text.trim()) {
+    return;
+  }
+  const voices = await listKoreanVoices();
+  const utterance = new SpeechSynthesisUtterance(text);
+  utterance.lang = "ko-KR";
+  utterance.voice =
+    voices.find((voice) => voice.voiceURI === settings.voiceURI) ?? voices[0] ?? null;
+  utterance.rate = settings.rate;
+  utterance.volume = settings.volume;
+  window.speechSynthesis.cancel();
+  window.speechSynthesis.speak(utterance);
+};
+
+export const stopSpeaking = () => {
+  if (isSpeechSupported()) {
+    window.speechSynthesis.cancel();
+  }
+};
+
+// 녹음 파일을 재생한다. 받지 못했거나 재생이 막히면 false를 돌려 음성 합성으로 대신 읽게 한다.
+export const playVoiceClip = async (url: string, volume: number) => {
+  const audio = new Audio(url);
+  audio.volume = volume;
+  try {
+    await audio.play();
+    return true;
+  } catch (err) {
+    return false;
+  }
+};
+
+export const isRecordingSupported = () =>
+  typeof window !== "undefined" &&
+  typeof MediaRecorder !== "undefined" &&
+  Boolean(navigator.mediaDevices?.getUserMedia);
+
+export const uploadVoiceClip = async (
+  supabase: SupabaseClient,
+  input: { elderId: string; clip: Blob }
+): Promise<GroupActionResult<string>> => {
+  const membership = await fetchActiveMembership(supabase);
+  if (!membership) {
+    return { ok: false, message: "가족 그룹에 참여한 뒤 녹음할 수 있어요." };
+  }
+  const extension = input.clip.type.includes("mp4") ? "m4a" : "webm";
+  const path = `${membership.groupId}/${input.elderId}/${Date.now()}.${extension}`;
+  const { error } = await supabase.storage
+    .from(VOICE_CLIP_BUCKET)
+    .upload(path, input.clip, { contentType: input.clip.type || "audio/webm" });
+  return error ? { ok: false, message: error.message } : { ok: true, value: path };
+};
+
+export const fetchVoiceClipUrls = async (
+  supabase: SupabaseClient,
+  paths: string[]
+): Promise<Record<string, string>> => {
+  if (paths.length === 0) {
+    return {};
+  }
+  const { data, error } = await supabase.storage
+    .from(VOICE_CLIP_BUCKET)
+    .createSignedUrls(paths, VOICE_CLIP_URL_SECONDS);
+  if (error || !data) {
+    return {};
+  }
+  const urls: Record<string, string> = {};
+  data.forEach((item) => {
+    if (item.path && item.signedUrl) {
+      urls[item.path] = item.signedUrl;
+    }
+  });
+  return urls;
+};
@@ -0,0 +1,362 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { CalendarEvent, EventOccurrence } from "./types";
+import {
+  buildAdherenceRecords,
+  listDateKeys,
+  summarizeAdherence,
+  type AdherenceRecord
+} from "./adherence";
+import { fetchCompletionsInRange } from "./completions";
+import { fetchEventsForGroups } from "./event-sync";
+import { getLunarOccurrenceKey } from "./lunar";
+import type { Mailer } from "./mailer";
+import { getZonedNow } from "./missed-tasks";
+import { expandEventsOnDate } from "./recurrence";
+import { fetchScheduleRevisions } from "./schedule-sync";
+import { parseSchedule, parseScheduleVariants } from "./storage";
+import { addDays, getDateKey, parseDateKey, toMinutes } from "./time";
+
+const DIGEST_DAYS = 7;
+const MISSED_TASK_LIMIT = 5;
+const WEEKDAY_LABELS = ["일", "월", "화", "수", "목", "금", "토"];
+
+type GroupRow = { id: string; name: string };
+
+type ElderRow = {
+  id: string;
+  group_id: string;
+  display_name: string;
+  birth_lunar_month: number | null;
+  birth_lunar_day: number | null;
+};
+
+type ScheduleRow = {
+  elder_id: string;
+  blocks?: unknown;
+  variants?: unknown;
+};
+
+type Member = {
+  email: string | null;
+  wantsDigest: boolean;
+  name: string;
+  relation: string;
+  birthdate: string;
+};
+
+type ElderWeek = {
+  name: string;
+  records: AdherenceRecord[] | null; // 기록을 읽지 못했으면 null. 잘못된 완료율을 보내지 않는다
+};
+
+type DigestDay = {
+  dateKey: string;
+  events: EventOccurrence[];
+};
+
+export type WeeklyDigestResult = {
+  groups: number;
+  sent: number;
+  failed: number;
+};
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+const formatDay = (dateKey: string) => {
+  const date = parseDateKey(dateKey);
+  return date
+    ? `${date.getMonth() + 1}/${date.getDate()}(${WEEKDAY_LABELS[date.getDay()]})`
+    : dateKey;
+};
+
+const formatEventTime = (event: EventOccurrence) =>
+  event.allDay ? "종일" : `${event.start}~${event.end}`;
+
+const isBirthday = (event: CalendarEvent) => event.source === "system";
+
+// 캘린더와 같은 방식으로 생신(음력)과 가족 생일(양력)을 매년 반복 일정으로 만든다.
+const buildBirthdayEvents = (
+  elders: ElderRow[],
+  members: Member[],
+  year: number
+): CalendarEvent[] => [
+  ...elders.flatMap((elder) => {
+    const startDate =
+      elder.birth_lunar_month && elder.birth_lunar_day
+        ? getLunarOccurrenceKey(
+            { month: elder.birth_lunar_month, day: elder.birth_lunar_day, leap: false },
+            year - 1
+          )
+        : null;
+    return startDate
+      ? [
+          {
+            id: `elder-birthday-${elder.id}`,
+            startDate,
+            endDate: startDate,
+            start: "00:00",
+            end: "23:59",
+            label: `${elder.display_name}님 생신(음력)`,
+            allDay: true,
+            repeat: "lunarYearly" as const,
+            source: "system" as const
+          }
+        ]
+      : [];
+  }),
+  ...members
+    .filter((member) => member.name && parseDateKey(member.birthdate))
+    .map((member) => ({
+      id: `birthday-${member.name}-${member.birthdate}`,
+      startDate: member.birthdate,
+      endDate: member.birthdate,
+      start: "00:00",
+      end: "23:59",
+      label: member.relation ? `${member.name}(${member.relation}) 생일` : `${member.name} 생일`,
+      allDay: true,
+      repeat: "yearly" as const,
+      source: "system" as const
+    }))
+];
+
+const listMissedTasks = (records: AdherenceRecord[]) => {
+  const counts = new Map<string, number>();
+  records
+    .filter((record) => !record.done)
+    .forEach((record) => counts.set(record.label, (counts.get(record.label) ?? 0) + 1));
+  return [...counts.entries()].sort((a, b) => b[1] - a[1]).slice(0, MISSED_TASK_LIMIT);
+};
+
+const buildDigestLines = (elders: ElderWeek[], days: DigestDay[]) => {
+  const lines: { heading: string; items: string[] }[] = [];
+  elders.forEach((elder) => {
+    if (!elder.records) {
+      lines.push({
+        heading: `${elder.name}님의 지난주`,
+        items: ["기록을 불러오지 못해 이번 주에는 요약을 건너뛰었어요."]
+      });
+      return;
+    }
+    const summary = summarizeAdherence(elder.records);
+    const items = [
+      summary.rate === null
+        ? "지난주에 셀 할 일이 없었어요."
+        : `완료 ${summary.done}개 · 놓침 ${summary.total - summary.done}개 (완료율 ${summary.rate}%)`,
+      ...listMissedTasks(elder.records).map(([label, count]) => `놓친 할 일: ${label} ${count}번`)
+    ];
+    lines.push({ heading: `${elder.name}님의 지난주`, items });
+  });
+
+  const birthdays = days.flatMap((day) =>
+    day.events.filter(isBirthday).map((event) => `${formatDay(day.dateKey)} ${event.label}`)
+  );
+  lines.push({
+    heading: "다가오는 생일·생신",
+    items: birthdays.length > 0 ? birthdays : ["이번 주에는 없어요."]
+  });
+
+  const events = days.flatMap((day) =>
+    day.events
+      .filter((event) => !isBirthday(event))
+      .sort((a, b) => toMinutes(a.start) - toMinutes(b.start))
+      .map((event) => `${formatDay(day.dateKey)} ${formatEventTime(event)} ${event.label}`)
+  );
+  lines.push({
+    heading: "이번 주 일정",
+    items: events.length > 0 ? events : ["등록된 일정이 없어요."]
+  });
+  return lines;
+};
+
+const renderDigest = (
+  groupName: string,
+  range: string,
+  sections: { heading: string; items: string[] }[]
+) => {
+  const title = `${groupName} 주간 요약 (${range})`;
+  const text = [
+    title,
+    ...sections.flatMap((section) => [
+      "",
+      `[${section.heading}]`,
+      ...section.items.map((item) => `- ${item}`)
+    ]),
+    "",
+    "알림 설정은 마이페이지의 \"알림\"에서 바꿀 수 있어요."
+  ].join("\n");
+  const html = [
+    `<h1 style="font-size:20px">${escapeHtml(title)}</h1>`,
+    ...sections.map(
+      (section) =>
+        `<h2 style="font-size:16px;margin-top:20px">${escapeHtml(section.heading)}</h2><ul>${section.items
+          .map((item) => `<li>${escapeHtml(item)}</li>`)
+          .join("")}</ul>`
+    ),
+    `<p style="color:#6b7280;font-size:12px">알림 설정은 마이페이지의 "알림"에서 바꿀 수 있어요.</p>`
+  ].join("\n");
+  return { subject: `[할머니 투두] ${title}`, text, html };
+};
+
+// 그룹의 가족 계정. 어르신 태블릿(연결 코드로 들어온 익명 계정)은 뺀다.
+// 요약 메일을 끈 가족도 생일은 다른 가족의 메일에 나온다.
+const fetchMembers = async (admin: SupabaseClient, groupIds: string[]) => {
+  const [membersResult, devicesResult, optedOutResult] = await Promise.all([
+    admin.from("group_members").select("group_id, user_id").in("group_id", groupIds),
+    admin.from("paired_devices").select("user_id").in("group_id", groupIds),
+    admin.from("notification_preferences").select("user_id").eq("weekly_digest", false)
+  ]);
+  // 메일을 끈 가족을 읽지 못하면 그 가족에게도 보내게 되므로 함께 실패시킨다.
+  const error = membersResult.error ?? devicesResult.error ?? optedOutResult.error;
+  if (error) {
+    throw new Error(error.message);
+  }
+  const members = membersResult.data;
+  const devices = devicesResult.data;
+  const optedOut = optedOutResult.data;
+  const deviceIds = new Set(((devices ?? []) as { user_id: string }[]).map((row) => row.user_id));
+  const optedOutIds = new Set(
+    ((optedOut ?? []) as { user_id: string }[]).map((row) => row.user_id)
+  );
+  const rows = ((members ?? []) as { group_id: string; user_id: string }[]).filter(
+    (row) => !deviceIds.has(row.user_id)
+  );
+
+  const users = new Map<string, Member | null>();
+  for (const userId of new Set(rows.map((row) => row.user_id))) {
+    const { data } = await admin.auth.admin.getUserById(userId);
+    const user = data.user;
+    const metadata = (user?.user_metadata ?? {}) as Record<string, unknown>;
+    const text = (key: string) =>
+      typeof metadata[key] === "string" ? (metadata[key] as string).trim() : "";
+    users.set(
+      userId,
+      user
+        ? {
+            email: user.email ?? null,
+            wantsDigest: !optedOutIds.has(userId),
+            name: text("name") || text("nickname"),
+            relation: text("relation"),
+            birthdate: text("birthdate")
+          }
+        : null
+    );
+  }
+
+  const byGroup = new Map<string, Member[]>();
+  rows.forEach((row) => {
+    const member = users.get(row.user_id);
+    if (member) {
+      byGroup.set(row.group_id, [...(byGroup.get(row.group_id) ?? []), member]);
+    }
+  });
+  return byGroup;
+};
+
+// 서버 작업 한 번. 그룹마다 지난 7일(어제까지)의 완료/놓침, 오늘부터 7일 동안의 일정과
+// 생일·생신을 모아 구성원에게 한 통씩 보낸다. 날짜는 한국 시간으로 센다.
+// 서버 시간대가 다르면 스케줄 사본을 고르는 날짜 경계가 몇 시간 어긋날 수 있다.
+export const runWeeklyDigest = async (
+  admin: SupabaseClient,
+  mailer: Mailer,
+  now = new Date()
+): Promise<WeeklyDigestResult> => {
+  const localNow = getZonedNow(now);
+  const todayKey = getDateKey(localNow);
+  const fromKey = getDateKey(addDays(localNow, -DIGEST_DAYS));
+  const toKey = getDateKey(addDays(localNow, -1));
+  const upcomingKeys = listDateKeys(todayKey, getDateKey(addDays(localNow, DIGEST_DAYS - 1)));
+  const result: WeeklyDigestResult = { groups: 0, sent: 0, failed: 0 };
+
+  const [groupsResult, eldersResult, schedulesResult] = await Promise.all([
+    admin.from("groups").select("id, name"),
+    admin
+      .from("grandma_profiles")
+      .select("id, group_id, display_name, birth_lunar_month, birth_lunar_day")
+      .order("created_at", { ascending: true }),
+    admin.from("schedules").select("elder_id, blocks, variants")
+  ]);
+  const error = groupsResult.error ?? eldersResult.error ?? schedulesResult.error;
+  if (error) {
+    throw new Error(error.message);
+  }
+  const groupRows = (groupsResult.data ?? []) as GroupRow[];
+  if (groupRows.length === 0) {
+    return result;
+  }
+  const groupIds = groupRows.map((group) => group.id);
+  const [membersByGroup, eventsByGroup] = await Promise.all([
+    fetchMembers(admin, groupIds),
+    fetchEventsForGroups(admin, groupIds)
+  ]);
+  const elderRows = (eldersResult.data ?? []) as ElderRow[];
+  const scheduleRows = (schedulesResult.data ?? []) as ScheduleRow[];
+
+  for (const group of groupRows) {
+    const members = membersByGroup.get(group.id) ?? [];
+    const recipients = members
+      .filter((member) => member.wantsDigest)
+      .map((member) => member.email)
+      .filter((email): email is string => Boolean(email));
+    if (recipients.length === 0) {
+      continue;
+    }
+    const groupElders = elderRows.filter((elder) => elder.group_id === group.id);
+    const elderWeeks: ElderWeek[] = [];
+    for (const elder of groupElders) {
+      const row = scheduleRows.find((item) => item.elder_id === elder.id);
+      const blocks = parseSchedule(row?.blocks);
+      // 스케줄을 한 번도 저장하지 않은 어르신은 셀 할 일이 없다.
+      if (!blocks) {
+        continue;
+      }
+      const [revisions, completions] = await Promise.all([
+        fetchScheduleRevisions(admin, elder.id, fromKey, toKey),
+        fetchCompletionsInRange(admin, elder.id, fromKey, toKey)
+      ]);
+      elderWeeks.push({
+        name: elder.display_name,
+        records:
+          revisions && completions
+            ? buildAdherenceRecords({
+                revisions,
+                fallback: { blocks, variants: parseScheduleVariants(row?.variants) },
+                completions,
+                fromKey,
+                toKey,
+                now: localNow
+              })
+            : null
+      });
+    }
+
+    const events = [
+      ...(eventsByGroup.get(group.id) ?? []),
+      ...buildBirthdayEvents(groupElders, members, localNow.getFullYear())
+    ];
+    const days = upcomingKeys.map((dateKey) => ({
+      dateKey,
+      events: expandEventsOnDate(events, dateKey)
+    }));
+    const message = renderDigest(
+      group.name,
+      `${formatDay(fromKey)}~${formatDay(toKey)}`,
+      buildDigestLines(elderWeeks, days)
+    );
+
+    result.groups += 1;
+    for (const email of recipients) {
+      try {
+        await mailer.send({ to: email, ...message });
+        result.sent += 1;
+      } catch {
+        result.failed += 1;
+      }
+    }
+  }
+  return result;
+};
@@ -3,6 +3,8 @@ create extension if not exists "pgcrypto";
 create table if not exists public.groups (
   id uuid primary key default gen_random_uuid(),
   name text not null,
+  -- 놓친 할 일을 가족 모두보다 먼저 알릴 대표 보호자. 비어 있으면 관리자에게 알린다.
+  primary_caregiver_id uuid references auth.users (id) on delete set null,
   created_at timestamptz not null default now()
 );
 
@@ -14,12 +16,77 @@ create table if not exists public.group_members (
   primary key (group_id, user_id)
 );
 
+-- 가족 그룹이 돌보는 어르신. 한 그룹에 여러 분을 둘 수 있고, 스케줄과 완료 기록은 어르신마다 따로 둔다.
 create table if not exists public.grandma_profiles (
-  group_id uuid primary key references public.groups (id) on delete cascade,
-  display_name text not null,
+  id uuid primary key default gen_random_uuid(),
+  group_id uuid not null references public.groups (id) on delete cascade,
+  display_name text not null check (char_length(btrim(display_name)) > 0),
+  -- 캘린더에 음력 생신을 보여줄 때 쓴다. 모르면 비워 둔다.
+  birth_lunar_month smallint check (birth_lunar_month between 1 and 12),
+  birth_lunar_day smallint check (birth_lunar_day between 1 and 30),
+  created_at timestamptz not null default now(),
+  check ((birth_lunar_month is null) = (birth_lunar_day is null))
+);
+
+-- 관리자가 만든 초대 코드. 만료 전까지 여러 가족이 같은 코드로 참여할 수 있다.
+create table if not exists public.group_invites (
+  code text primary key default upper(substr(encode(gen_random_bytes(6), 'hex'), 1, 8)),
+  group_id uuid not null references public.groups (id) on delete cascade,
+  role text not null default 'editor' check (role in ('admin', 'editor', 'viewer')),
+  expires_at timestamptz not null,
+  created_by uuid references auth.users (id) on delete set null,
+  created_at timestamptz not null default now()
+);
+
+-- 틀린 초대 코드를 넣은 기록. 코드를 마구 넣어 보는 것을 막는다(accept_group_invite).
+create table if not exists public.group_invite_failures (
+  id bigint generated always as identity primary key,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  attempted_at timestamptz not null default now()
+);
+
+-- 어르신 태블릿 연결 코드. 관리자가 만들고, 태블릿이 한 번 입력하면 지워진다.
+create table if not exists public.device_pairings (
+  code text primary key default upper(substr(encode(gen_random_bytes(6), 'hex'), 1, 8)),
+  group_id uuid not null references public.groups (id) on delete cascade,
+  elder_id uuid not null references public.grandma_profiles (id) on delete cascade,
+  expires_at timestamptz not null,
+  created_by uuid references auth.users (id) on delete set null,
+  created_at timestamptz not null default now()
+);
+
+-- 연결 코드로 들어온 기기. 기기마다 익명 계정(user_id)이 하나씩 있고, 그룹에는 viewer로 들어간다.
+create table if not exists public.paired_devices (
+  user_id uuid primary key references auth.users (id) on delete cascade,
+  group_id uuid not null references public.groups (id) on delete cascade,
+  elder_id uuid not null references public.grandma_profiles (id) on delete cascade,
+  label text not null default '',
+  paired_by uuid references auth.users (id) on delete set null,
+  created_at timestamptz not null default now()
+);
+
+-- /mypage 가족 그룹 카드에 보여주는 가족 구성(예: 첫째 딸 가족)과 그 구성원.
+-- user_id가 있으면 가입한 계정과 연결된 구성원이다.
+create table if not exists public.family_branches (
+  id uuid primary key default gen_random_uuid(),
+  group_id uuid not null references public.groups (id) on delete cascade,
+  title text not null check (char_length(btrim(title)) > 0),
+  sort_order integer not null default 0,
   created_at timestamptz not null default now()
 );
 
+create table if not exists public.family_tree_members (
+  id uuid primary key default gen_random_uuid(),
+  group_id uuid not null references public.groups (id) on delete cascade,
+  branch_id uuid not null references public.family_branches (id) on delete cascade,
+  name text not null check (char_length(btrim(name)) > 0),
+  relation text not null default '',
+  user_id uuid references auth.users (id) on delete set null,
+  sort_order integer not null default 0,
+  created_at timestamptz not null default now(),
+  unique (group_id, user_id)
+);
+
 create table if not exists public.family_member_registrations (
   user_id uuid primary key references auth.users (id) on delete cascade,
   name text not null unique,
@@ -28,12 +95,391 @@ create table if not exists public.family_member_registrations (
   created_at timestamptz not null default now()
 );
 
+create table if not exists public.schedules (
+  elder_id uuid primary key references public.grandma_profiles (id) on delete cascade,
+  group_id uuid not null references public.groups (id) on delete cascade,
+  blocks jsonb not null default '[]'::jsonb check (jsonb_typeof(blocks) = 'array'),
+  -- 요일/날짜별 템플릿: { templates, weekdayTemplates, dateTemplates }
+  variants jsonb not null default '{}'::jsonb check (jsonb_typeof(variants) = 'object'),
+  updated_by uuid references auth.users (id) on delete set null,
+  updated_at timestamptz not null default now()
+);
+
+-- 스케줄을 저장할 때마다 남기는 사본. 통계는 날마다 그날 쓰던 스케줄로 완료율을 계산한다.
+-- schedules 트리거만 쓴다.
+create table if not exists public.schedule_revisions (
+  id bigint generated always as identity primary key,
+  elder_id uuid not null references public.grandma_profiles (id) on delete cascade,
+  group_id uuid not null references public.groups (id) on delete cascade,
+  blocks jsonb not null check (jsonb_typeof(blocks) = 'array'),
+  variants jsonb not null default '{}'::jsonb check (jsonb_typeof(variants) = 'object'),
+  saved_by uuid references auth.users (id) on delete set null,
+  saved_at timestamptz not null default now()
+);
+
+create table if not exists public.events (
+  id text primary key,
+  group_id uuid not null references public.groups (id) on delete cascade,
+  start_date date not null,
+  end_date date not null,
+  start_time text not null check (start_time ~ '^([01][0-9]|2[0-3]):[0-5][0-9]$|^24:00$'),
+  end_time text not null check (end_time ~ '^([01][0-9]|2[0-3]):[0-5][0-9]$|^24:00$'),
+  label text not null check (char_length(btrim(label)) > 0),
+  all_day boolean not null default false,
+  repeat text not null default 'none'
+    check (repeat in ('none', 'daily', 'weekly', 'yearly', 'lunarYearly', 'custom')),
+  -- repeat = 'custom'일 때의 RFC 5545 RRULE (예: FREQ=MONTHLY;BYDAY=2TU)
+  rrule text check (rrule is null or rrule ~ '^FREQ=(DAILY|WEEKLY|MONTHLY|YEARLY)(;[A-Z]+=[-+0-9A-Z,]+)*$'),
+  -- 반복 일정의 예외: 이 날짜까지만 반복, 건너뛴 회차, 회차별로 바꾼 내용({ "원래 날짜": { date, start, end, label, allDay } })
+  repeat_until date,
+  exdates date[] not null default '{}',
+  overrides jsonb not null default '{}'::jsonb check (jsonb_typeof(overrides) = 'object'),
+  created_by uuid references auth.users (id) on delete set null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  check (end_date >= start_date),
+  check (start_time < end_time),
+  check (repeat <> 'custom' or rrule is not null)
+);
+
+create table if not exists public.task_completions (
+  id uuid primary key default gen_random_uuid(),
+  group_id uuid not null references public.groups (id) on delete cascade,
+  elder_id uuid not null references public.grandma_profiles (id) on delete cascade,
+  date_key date not null,
+  task_id text not null check (char_length(task_id) > 0),
+  title text not null default '',
+  completed_at timestamptz not null default now(),
+  completed_by uuid references auth.users (id) on delete set null,
+  device_id text not null default '',
+  unique (elder_id, date_key, task_id)
+);
+
+-- 어르신 화면의 알림에 "확인했어요" 또는 "나중에"를 누른 기록. 최근 활동에 완료 체크와 함께 보인다.
+create table if not exists public.alert_responses (
+  id uuid primary key default gen_random_uuid(),
+  group_id uuid not null references public.groups (id) on delete cascade,
+  elder_id uuid not null references public.grandma_profiles (id) on delete cascade,
+  date_key date not null,
+  task_id text not null check (char_length(task_id) > 0),
+  title text not null default '',
+  alert_type text not null default '',
+  action text not null check (action in ('acknowledged', 'snoozed')),
+  snooze_minutes smallint check (snooze_minutes > 0),
+  responded_at timestamptz not null default now(),
+  responded_by uuid references auth.users (id) on delete set null,
+  device_id text not null default '',
+  check ((action = 'snoozed') = (snooze_minutes is not null))
+);
+
+-- 어르신이 드시는 약. 스케줄 블록과의 연결은 블록 쪽(TimeBlock.medicationIds)에 두어 템플릿을 복사해도 따라간다.
+-- 남은 양(stock)은 복용을 확인할 때마다 record_dose가 한 번 먹는 양만큼 줄인다.
+create table if not exists public.medications (
+  id uuid primary key default gen_random_uuid(),
+  group_id uuid not null references public.groups (id) on delete cascade,
+  elder_id uuid not null references public.grandma_profiles (id) on delete cascade,
+  name text not null check (char_length(btrim(name)) > 0),
+  dose text not null default '',
+  photo_path text,
+  times_per_day smallint not null default 1 check (times_per_day between 1 and 12),
+  pills_per_dose numeric(4, 1) not null default 1 check (pills_per_dose > 0),
+  stock numeric(6, 1) not null default 0 check (stock >= 0),
+  refill_days smallint not null default 7 check (refill_days >= 0),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+-- 복용 확인. 같은 날 같은 블록의 약은 한 번만 기록된다.
+create table if not exists public.medication_doses (
+  id uuid primary key default gen_random_uuid(),
+  group_id uuid not null references public.groups (id) on delete cascade,
+  elder_id uuid not null references public.grandma_profiles (id) on delete cascade,
+  medication_id uuid not null references public.medications (id) on delete cascade,
+  date_key date not null,
+  block_id text not null check (char_length(block_id) > 0),
+  taken_at timestamptz not null default now(),
+  taken_by uuid references auth.users (id) on delete set null,
+  unique (medication_id, date_key, block_id)
+);
+
+-- 가족 기기의 Web Push 구독. 한 사람이 여러 기기(휴대폰, PC)에서 받을 수 있다.
+create table if not exists public.push_subscriptions (
+  endpoint text primary key,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  p256dh text not null,
+  auth text not null,
+  created_at timestamptz not null default now()
+);
+
+-- 가족마다 푸시 알림을 받을지와 방해 금지 시간(분 단위, 한국 시간). 시작이 끝보다 크면 자정을 넘긴다.
+-- 주간 요약 메일(/api/cron/weekly-digest)은 행이 없어도 받고, weekly_digest를 끄면 받지 않는다.
+create table if not exists public.notification_preferences (
+  user_id uuid primary key references auth.users (id) on delete cascade,
+  push_enabled boolean not null default false,
+  weekly_digest boolean not null default true,
+  quiet_start smallint check (quiet_start between 0 and 1439),
+  quiet_end smallint check (quiet_end between 0 and 1439),
+  updated_at timestamptz not null default now(),
+  check ((quiet_start is null) = (quiet_end is null))
+);
+
+-- 캘린더 앱에서 구독할 /api/calendar.ics 주소의 비밀 토큰. 한 사람에 하나이며, 다시 만들면 이전 주소는 막힌다.
+create table if not exists public.calendar_feed_tokens (
+  user_id uuid primary key references auth.users (id) on delete cascade,
+  token text not null unique,
+  created_at timestamptz not null default now()
+);
+
+-- 놓친 할 일의 단계별 알림 상태. 서버 작업(/api/cron/missed-tasks)만 service role로 쓰고,
+-- 단계는 reminding → primary → everyone 순으로만 나아가며 완료 체크가 들어오면 resolved가 된다.
+create table if not exists public.task_escalations (
+  elder_id uuid not null references public.grandma_profiles (id) on delete cascade,
+  date_key date not null,
+  task_id text not null,
+  group_id uuid not null references public.groups (id) on delete cascade,
+  title text not null default '',
+  stage text not null default 'reminding'
+    check (stage in ('reminding', 'primary', 'everyone', 'resolved')),
+  started_at timestamptz not null default now(),
+  primary_notified_at timestamptz,
+  everyone_notified_at timestamptz,
+  resolved_at timestamptz,
+  updated_at timestamptz not null default now(),
+  primary key (elder_id, date_key, task_id)
+);
+
 create index if not exists group_members_user_id_idx on public.group_members (user_id);
+create index if not exists events_group_id_idx on public.events (group_id);
+create index if not exists group_invites_group_id_idx on public.group_invites (group_id);
+create index if not exists group_invite_failures_user_idx
+  on public.group_invite_failures (user_id, attempted_at);
+create index if not exists device_pairings_group_id_idx on public.device_pairings (group_id);
+create index if not exists paired_devices_group_id_idx on public.paired_devices (group_id);
+create index if not exists family_branches_group_id_idx on public.family_branches (group_id);
+create index if not exists family_tree_members_branch_id_idx
+  on public.family_tree_members (branch_id);
+create index if not exists grandma_profiles_group_id_idx on public.grandma_profiles (group_id);
+create index if not exists schedules_group_id_idx on public.schedules (group_id);
+create index if not exists schedule_revisions_elder_saved_idx
+  on public.schedule_revisions (elder_id, saved_at desc);
+create index if not exists push_subscriptions_user_id_idx on public.push_subscriptions (user_id);
+create index if not exists task_escalations_group_date_idx
+  on public.task_escalations (group_id, date_key);
+create index if not exists task_completions_elder_completed_idx
+  on public.task_completions (elder_id, completed_at desc);
+
+create index if not exists alert_responses_elder_responded_idx
+  on public.alert_responses (elder_id, responded_at desc);
+
+-- 아웃박스가 같은 응답을 다시 보내도 한 줄만 남긴다. 이미 쌓인 중복은 먼저 지운다.
+delete from public.alert_responses a
+using public.alert_responses b
+where a.elder_id = b.elder_id
+  and a.date_key = b.date_key
+  and a.task_id = b.task_id
+  and a.action = b.action
+  and a.responded_at = b.responded_at
+  and a.id > b.id;
+
+create unique index if not exists alert_responses_response_key
+  on public.alert_responses (elder_id, date_key, task_id, action, responded_at);
+
+create index if not exists medications_elder_idx
+  on public.medications (elder_id);
+
+create index if not exists medication_doses_elder_date_idx
+  on public.medication_doses (elder_id, date_key);
+
+-- src/lib/storage.ts의 normalizeEvent와 같은 규칙으로 일정을 정리한다.
+create or replace function public.normalize_event()
+returns trigger
+language plpgsql
+as $$
+declare
+  swapped date;
+begin
+  new.label := btrim(new.label);
+  if new.end_date < new.start_date then
+    swapped := new.start_date;
+    new.start_date := new.end_date;
+    new.end_date := swapped;
+  end if;
+  if new.all_day then
+    new.start_time := '00:00';
+    new.end_time := coalesce(nullif(new.end_time, ''), '23:59');
+  end if;
+  new.repeat := coalesce(new.repeat, 'none');
+  if new.repeat = 'custom' then
+    new.rrule := upper(btrim(new.rrule));
+  else
+    new.rrule := null;
+  end if;
+  if new.repeat = 'none' then
+    new.repeat_until := null;
+    new.exdates := '{}';
+    new.overrides := '{}'::jsonb;
+  end if;
+  new.updated_at := now();
+  return new;
+end;
+$$;
+
+drop trigger if exists events_normalize on public.events;
+create trigger events_normalize
+  before insert or update on public.events
+  for each row execute function public.normalize_event();
+
+-- 스케줄과 완료 기록의 group_id는 어르신 프로필에서 가져와, 다른 그룹의 어르신에게 쓰지 못하게 한다.
+-- 읽을 수 없는 어르신이면 group_id가 비어 not null 제약에 걸린다.
+create or replace function public.set_group_from_elder()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.group_id := (
+    select gp.group_id
+    from public.grandma_profiles gp
+    where gp.id = new.elder_id
+  );
+  return new;
+end;
+$$;
+
+drop trigger if exists schedules_set_group on public.schedules;
+create trigger schedules_set_group
+  before insert or update on public.schedules
+  for each row execute function public.set_group_from_elder();
+
+-- 블록이나 템플릿이 바뀐 저장만 기록한다. 기록은 RLS를 거치지 않고 트리거가 남긴다.
+create or replace function public.record_schedule_revision()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if tg_op = 'UPDATE'
+    and new.blocks is not distinct from old.blocks
+    and new.variants is not distinct from old.variants
+  then
+    return new;
+  end if;
+  insert into public.schedule_revisions (elder_id, group_id, blocks, variants, saved_by, saved_at)
+  values (new.elder_id, new.group_id, new.blocks, new.variants, new.updated_by, new.updated_at);
+  return new;
+end;
+$$;
+
+drop trigger if exists schedules_record_revision on public.schedules;
+create trigger schedules_record_revision
+  after insert or update on public.schedules
+  for each row execute function public.record_schedule_revision();
+
+-- 기록을 남기기 전부터 있던 스케줄은 지금 스케줄을 첫 사본으로 둔다.
+insert into public.schedule_revisions (elder_id, group_id, blocks, variants, saved_by, saved_at)
+select s.elder_id, s.group_id, s.blocks, s.variants, s.updated_by, s.updated_at
+from public.schedules s
+where not exists (
+  select 1 from public.schedule_revisions r where r.elder_id = s.elder_id
+);
+
+drop trigger if exists task_completions_set_group on public.task_completions;
+create trigger task_completions_set_group
+  before insert or update on public.task_completions
+  for each row execute function public.set_group_from_elder();
+
+drop trigger if exists medications_set_group on public.medications;
+create trigger medications_set_group
+  before insert or update on public.medications
+  for each row execute function public.set_group_from_elder();
+
+drop trigger if exists alert_responses_set_group on public.alert_responses;
+create trigger alert_responses_set_group
+  before insert or update on public.alert_responses
+  for each row execute function public.set_group_from_elder();
+
+-- group_members 정책 안에서 group_members를 다시 읽으면 RLS가 무한히 재귀하므로,
+-- 구성원/권한 확인은 RLS를 거치지 않는 security definer 함수로 한다.
+create or replace function public.has_group_role(target_group uuid, roles text[])
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1
+    from public.group_members gm
+    where gm.group_id = target_group
+      and gm.user_id = auth.uid()
+      and gm.role = any (roles)
+  );
+$$;
+
+-- 어르신 태블릿의 익명 계정도 authenticated 역할을 받는다. 익명 계정은 연결 코드를 쓰고
+-- 자기 그룹을 읽는 것만 하도록, 가입한 계정에만 열어 둘 정책과 함수는 이것으로 확인한다.
+create or replace function public.is_signed_up_user()
+returns boolean
+language sql
+stable
+as $$
+  select coalesce((auth.jwt() ->> 'is_anonymous')::boolean, false) = false;
+$$;
+
+-- 앱에서 권한을 바꾸거나 내보낼 때 그룹에는 관리자가 한 명 이상 남아 있어야 한다.
+-- 그룹이나 계정을 지워 함께 지워지는 경우는 막지 않는다.
+create or replace function public.ensure_group_admin()
+returns trigger
+language plpgsql
+as $$
+begin
+  if auth.uid() is not null
+    and old.role = 'admin'
+    and exists (select 1 from public.groups g where g.id = old.group_id)
+    and (tg_op = 'DELETE' or new.role <> 'admin')
+    and not exists (
+      select 1
+      from public.group_members gm
+      where gm.group_id = old.group_id
+        and gm.user_id <> old.user_id
+        and gm.role = 'admin'
+    )
+  then
+    raise exception '그룹에는 관리자가 한 명 이상 있어야 합니다.';
+  end if;
+  if tg_op = 'DELETE' then
+    return old;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists group_members_keep_admin on public.group_members;
+create trigger group_members_keep_admin
+  before update or delete on public.group_members
+  for each row execute function public.ensure_group_admin();
 
 alter table public.groups enable row level security;
 alter table public.group_members enable row level security;
 alter table public.grandma_profiles enable row level security;
+alter table public.group_invites enable row level security;
+alter table public.group_invite_failures enable row level security;
+alter table public.device_pairings enable row level security;
+alter table public.paired_devices enable row level security;
+alter table public.family_branches enable row level security;
+alter table public.family_tree_members enable row level security;
 alter table public.family_member_registrations enable row level security;
+alter table public.schedules enable row level security;
+alter table public.schedule_revisions enable row level security;
+alter table public.events enable row level security;
+alter table public.task_completions enable row level security;
+alter table public.alert_responses enable row level security;
+alter table public.medications enable row level security;
+alter table public.medication_doses enable row level security;
+alter table public.push_subscriptions enable row level security;
+alter table public.notification_preferences enable row level security;
+alter table public.task_escalations enable row level security;
+alter table public.calendar_feed_tokens enable row level security;
 
 create policy "groups_select_for_members"
   on public.groups
@@ -54,30 +500,704 @@ create policy "group_members_select_for_self_or_admin"
   to authenticated
   using (
     user_id = auth.uid()
-    or exists (
+    or public.has_group_role(group_id, array['admin'])
+  );
+
+-- 구성원 추가, 권한 변경, 내보내기는 관리자만 할 수 있다. 스스로 그룹을 나가는 것은 누구나 할 수 있다.
+create policy "group_members_insert_for_admins"
+  on public.group_members
+  for insert
+  to authenticated
+  with check (public.has_group_role(group_id, array['admin']));
+
+create policy "group_members_update_for_admins"
+  on public.group_members
+  for update
+  to authenticated
+  using (public.has_group_role(group_id, array['admin']))
+  with check (public.has_group_role(group_id, array['admin']));
+
+create policy "group_members_delete_for_admins_or_self"
+  on public.group_members
+  for delete
+  to authenticated
+  using (
+    user_id = auth.uid()
+    or public.has_group_role(group_id, array['admin'])
+  );
+
+create policy "groups_update_for_admins"
+  on public.groups
+  for update
+  to authenticated
+  using (public.has_group_role(id, array['admin']))
+  with check (public.has_group_role(id, array['admin']));
+
+create policy "groups_delete_for_admins"
+  on public.groups
+  for delete
+  to authenticated
+  using (public.has_group_role(id, array['admin']));
+
+create policy "group_invites_select_for_admins"
+  on public.group_invites
+  for select
+  to authenticated
+  using (public.has_group_role(group_id, array['admin']));
+
+create policy "group_invites_insert_for_admins"
+  on public.group_invites
+  for insert
+  to authenticated
+  with check (
+    public.has_group_role(group_id, array['admin'])
+    and created_by = auth.uid()
+    and expires_at > now()
+  );
+
+create policy "group_invites_delete_for_admins"
+  on public.group_invites
+  for delete
+  to authenticated
+  using (public.has_group_role(group_id, array['admin']));
+
+create policy "device_pairings_select_for_admins"
+  on public.device_pairings
+  for select
+  to authenticated
+  using (public.has_group_role(group_id, array['admin']));
+
+create policy "device_pairings_insert_for_admins"
+  on public.device_pairings
+  for insert
+  to authenticated
+  with check (
+    public.has_group_role(group_id, array['admin'])
+    and created_by = auth.uid()
+    and expires_at > now()
+    and exists (
       select 1
-      from public.group_members gm
-      where gm.group_id = group_members.group_id
-        and gm.user_id = auth.uid()
-        and gm.role = 'admin'
+      from public.grandma_profiles gp
+      where gp.id = device_pairings.elder_id
+        and gp.group_id = device_pairings.group_id
     )
   );
 
+create policy "device_pairings_delete_for_admins"
+  on public.device_pairings
+  for delete
+  to authenticated
+  using (public.has_group_role(group_id, array['admin']));
+
+-- 연결과 해제는 claim_device_pairing, revoke_paired_device 함수로만 한다.
+create policy "paired_devices_select_for_admins_or_self"
+  on public.paired_devices
+  for select
+  to authenticated
+  using (
+    user_id = auth.uid()
+    or public.has_group_role(group_id, array['admin'])
+  );
+
+create policy "family_branches_select_for_members"
+  on public.family_branches
+  for select
+  to authenticated
+  using (public.has_group_role(group_id, array['admin', 'editor', 'viewer']));
+
+create policy "family_branches_write_for_admins"
+  on public.family_branches
+  for all
+  to authenticated
+  using (public.has_group_role(group_id, array['admin']))
+  with check (public.has_group_role(group_id, array['admin']));
+
+create policy "family_tree_members_select_for_members"
+  on public.family_tree_members
+  for select
+  to authenticated
+  using (public.has_group_role(group_id, array['admin', 'editor', 'viewer']));
+
+-- 구성원은 같은 그룹의 가지에만 넣을 수 있고, 연결할 계정도 그 그룹 구성원이어야 한다.
+create policy "family_tree_members_write_for_admins"
+  on public.family_tree_members
+  for all
+  to authenticated
+  using (public.has_group_role(group_id, array['admin']))
+  with check (
+    public.has_group_role(group_id, array['admin'])
+    and exists (
+      select 1
+      from public.family_branches fb
+      where fb.id = family_tree_members.branch_id
+        and fb.group_id = family_tree_members.group_id
+    )
+    and (
+      family_tree_members.user_id is null
+      or exists (
+        select 1
+        from public.group_members gm
+        where gm.group_id = family_tree_members.group_id
+          and gm.user_id = family_tree_members.user_id
+      )
+    )
+  );
+
+create policy "grandma_profiles_select_for_members"
+  on public.grandma_profiles
+  for select
+  to authenticated
+  using (public.has_group_role(group_id, array['admin', 'editor', 'viewer']));
+
+create policy "grandma_profiles_insert_for_editors"
+  on public.grandma_profiles
+  for insert
+  to authenticated
+  with check (public.has_group_role(group_id, array['admin', 'editor']));
+
+create policy "grandma_profiles_update_for_editors"
+  on public.grandma_profiles
+  for update
+  to authenticated
+  using (public.has_group_role(group_id, array['admin', 'editor']))
+  with check (public.has_group_role(group_id, array['admin', 'editor']));
+
+-- 프로필을 지우면 스케줄과 완료 기록까지 함께 지워지므로 관리자만 지운다.
+create policy "grandma_profiles_delete_for_admins"
+  on public.grandma_profiles
+  for delete
+  to authenticated
+  using (public.has_group_role(group_id, array['admin']));
+
 create policy "family_member_registrations_select_for_authenticated"
   on public.family_member_registrations
   for select
   to authenticated
-  using (true);
+  using (public.is_signed_up_user());
 
 create policy "family_member_registrations_insert_for_signup"
   on public.family_member_registrations
   for insert
   to anon, authenticated
-  with check (char_length(btrim(name)) > 0);
+  with check (char_length(btrim(name)) > 0 and public.is_signed_up_user());
 
 create policy "family_member_registrations_update_for_self"
   on public.family_member_registrations
   for update
   to authenticated
+  using (user_id = auth.uid() and public.is_signed_up_user())
+  with check (user_id = auth.uid());
+
+create policy "schedules_select_for_members"
+  on public.schedules
+  for select
+  to authenticated
+  using (public.has_group_role(group_id, array['admin', 'editor', 'viewer']));
+
+create policy "schedules_insert_for_editors"
+  on public.schedules
+  for insert
+  to authenticated
+  with check (public.has_group_role(group_id, array['admin', 'editor']));
+
+create policy "schedules_update_for_editors"
+  on public.schedules
+  for update
+  to authenticated
+  using (public.has_group_role(group_id, array['admin', 'editor']))
+  with check (public.has_group_role(group_id, array['admin', 'editor']));
+
+create policy "events_select_for_members"
+  on public.events
+  for select
+  to authenticated
+  using (public.has_group_role(group_id, array['admin', 'editor', 'viewer']));
+
+create policy "events_insert_for_editors"
+  on public.events
+  for insert
+  to authenticated
+  with check (public.has_group_role(group_id, array['admin', 'editor']));
+
+create policy "events_update_for_editors"
+  on public.events
+  for update
+  to authenticated
+  using (public.has_group_role(group_id, array['admin', 'editor']))
+  with check (public.has_group_role(group_id, array['admin', 'editor']));
+
+create policy "events_delete_for_editors"
+  on public.events
+  for delete
+  to authenticated
+  using (public.has_group_role(group_id, array['admin', 'editor']));
+
+-- 할머니(viewer)도 완료 체크를 남겨야 하므로 그룹 구성원이면 누구나 기록할 수 있다.
+create policy "task_completions_select_for_members"
+  on public.task_completions
+  for select
+  to authenticated
+  using (public.has_group_role(group_id, array['admin', 'editor', 'viewer']));
+
+create policy "task_completions_insert_for_members"
+  on public.task_completions
+  for insert
+  to authenticated
+  with check (public.has_group_role(group_id, array['admin', 'editor', 'viewer']));
+
+create policy "task_completions_update_for_members"
+  on public.task_completions
+  for update
+  to authenticated
+  using (public.has_group_role(group_id, array['admin', 'editor', 'viewer']))
+  with check (public.has_group_role(group_id, array['admin', 'editor', 'viewer']));
+
+create policy "task_completions_delete_for_members"
+  on public.task_completions
+  for delete
+  to authenticated
+  using (public.has_group_role(group_id, array['admin', 'editor', 'viewer']));
+
+-- 푸시 구독과 알림 설정은 본인 것만 읽고 쓴다. 알림을 보낼 때는 서버가 service role로 읽는다.
+create policy "push_subscriptions_all_for_self"
+  on public.push_subscriptions
+  for all
+  to authenticated
   using (user_id = auth.uid())
   with check (user_id = auth.uid());
+
+create policy "notification_preferences_all_for_self"
+  on public.notification_preferences
+  for all
+  to authenticated
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+
+create policy "schedule_revisions_select_for_members"
+  on public.schedule_revisions
+  for select
+  to authenticated
+  using (public.has_group_role(group_id, array['admin', 'editor', 'viewer']));
+
+-- 토큰은 issue_calendar_feed_token으로만 만든다. 본인 것만 보고 지울 수 있다.
+create policy "calendar_feed_tokens_select_for_self"
+  on public.calendar_feed_tokens
+  for select
+  to authenticated
+  using (user_id = auth.uid());
+
+create policy "calendar_feed_tokens_delete_for_self"
+  on public.calendar_feed_tokens
+  for delete
+  to authenticated
+  using (user_id = auth.uid());
+
+-- 완료 체크처럼 할머니(viewer) 기기도 남기므로 그룹 구성원이면 누구나 기록할 수 있다.
+create policy "alert_responses_select_for_members"
+  on public.alert_responses
+  for select
+  to authenticated
+  using (public.has_group_role(group_id, array['admin', 'editor', 'viewer']));
+
+create policy "alert_responses_insert_for_members"
+  on public.alert_responses
+  for insert
+  to authenticated
+  with check (public.has_group_role(group_id, array['admin', 'editor', 'viewer']));
+
+-- 약 정보는 스케줄처럼 편집 권한이 있는 가족만 고친다. 복용 기록은 record_dose로만 쓴다.
+create policy "medications_select_for_members"
+  on public.medications
+  for select
+  to authenticated
+  using (public.has_group_role(group_id, array['admin', 'editor', 'viewer']));
+
+create policy "medications_insert_for_editors"
+  on public.medications
+  for insert
+  to authenticated
+  with check (public.has_group_role(group_id, array['admin', 'editor']));
+
+create policy "medications_update_for_editors"
+  on public.medications
+  for update
+  to authenticated
+  using (public.has_group_role(group_id, array['admin', 'editor']))
+  with check (public.has_group_role(group_id, array['admin', 'editor']));
+
+create policy "medications_delete_for_editors"
+  on public.medications
+  for delete
+  to authenticated
+  using (public.has_group_role(group_id, array['admin', 'editor']));
+
+create policy "medication_doses_select_for_members"
+  on public.medication_doses
+  for select
+  to authenticated
+  using (public.has_group_role(group_id, array['admin', 'editor', 'viewer']));
+
+create policy "task_escalations_select_for_members"
+  on public.task_escalations
+  for select
+  to authenticated
+  using (public.has_group_role(group_id, array['admin', 'editor', 'viewer']));
+
+-- Storage 경로의 첫 폴더를 그룹 id로 읽는다. uuid 모양이 아니면 null이라 정책이 오류 없이 막는다.
+create or replace function public.storage_object_group(object_name text)
+returns uuid
+language sql
+stable
+as $$
+  select case
+    when (storage.foldername(object_name))[1]
+      ~* '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$'
+    then ((storage.foldername(object_name))[1])::uuid
+  end;
+$$;
+
+-- 가족이 녹음한 할 일 안내(Storage). 경로의 첫 폴더가 그룹 id이며,
+-- 어르신 기기를 포함한 구성원은 듣고 스케줄을 고칠 수 있는 사람만 올리고 지운다.
+insert into storage.buckets (id, name, public)
+values ('voice-clips', 'voice-clips', false)
+on conflict (id) do nothing;
+
+create policy "voice_clips_select_for_members"
+  on storage.objects
+  for select
+  to authenticated
+  using (
+    bucket_id = 'voice-clips'
+    and public.has_group_role(
+      public.storage_object_group(name),
+      array['admin', 'editor', 'viewer']
+    )
+  );
+
+create policy "voice_clips_insert_for_editors"
+  on storage.objects
+  for insert
+  to authenticated
+  with check (
+    bucket_id = 'voice-clips'
+    and public.has_group_role(public.storage_object_group(name), array['admin', 'editor'])
+  );
+
+create policy "voice_clips_delete_for_editors"
+  on storage.objects
+  for delete
+  to authenticated
+  using (
+    bucket_id = 'voice-clips'
+    and public.has_group_role(public.storage_object_group(name), array['admin', 'editor'])
+  );
+
+-- 약 사진(Storage). 녹음과 같은 규칙으로 경로의 첫 폴더가 그룹 id다.
+insert into storage.buckets (id, name, public)
+values ('medication-photos', 'medication-photos', false)
+on conflict (id) do nothing;
+
+create policy "medication_photos_select_for_members"
+  on storage.objects
+  for select
+  to authenticated
+  using (
+    bucket_id = 'medication-photos'
+    and public.has_group_role(
+      public.storage_object_group(name),
+      array['admin', 'editor', 'viewer']
+    )
+  );
+
+create policy "medication_photos_insert_for_editors"
+  on storage.objects
+  for insert
+  to authenticated
+  with check (
+    bucket_id = 'medication-photos'
+    and public.has_group_role(public.storage_object_group(name), array['admin', 'editor'])
+  );
+
+create policy "medication_photos_delete_for_editors"
+  on storage.objects
+  for delete
+  to authenticated
+  using (
+    bucket_id = 'medication-photos'
+    and public.has_group_role(public.storage_object_group(name), array['admin', 'editor'])
+  );
+
+-- 새 가족 그룹을 만들고 만든 사람을 관리자로 넣는다.
+-- 그룹이 없는 사용자는 group_members에 쓸 수 없으므로 security definer 함수로 한 번에 처리한다.
+create or replace function public.create_family_group(group_name text, grandma_name text)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  new_group_id uuid;
+begin
+  if auth.uid() is null or not public.is_signed_up_user() then
+    raise exception '로그인이 필요합니다.';
+  end if;
+  if char_length(btrim(coalesce(group_name, ''))) = 0
+    or char_length(btrim(coalesce(grandma_name, ''))) = 0
+  then
+    raise exception '그룹 이름과 어르신 이름을 입력해 주세요.';
+  end if;
+
+  insert into public.groups (name)
+  values (btrim(group_name))
+  returning id into new_group_id;
+
+  insert into public.group_members (group_id, user_id, role)
+  values (new_group_id, auth.uid(), 'admin');
+
+  insert into public.grandma_profiles (group_id, display_name)
+  values (new_group_id, btrim(grandma_name));
+
+  return new_group_id;
+end;
+$$;
+
+-- 초대 코드로 그룹에 참여한다. 이미 구성원이면 권한은 그대로 둔다.
+-- 틀린 코드는 10분에 5번까지 받는다. 틀리면 예외 대신 빈 결과를 돌려 실패 기록이 남게 한다.
+create or replace function public.accept_group_invite(invite_code text)
+returns table (group_id uuid, role text)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  invite public.group_invites%rowtype;
+begin
+  if auth.uid() is null or not public.is_signed_up_user() then
+    raise exception '로그인이 필요합니다.';
+  end if;
+  if (
+    select count(*)
+    from public.group_invite_failures f
+    where f.user_id = auth.uid()
+      and f.attempted_at > now() - interval '10 minutes'
+  ) >= 5 then
+    raise exception '초대 코드를 너무 여러 번 틀렸습니다. 10분 뒤에 다시 시도해 주세요.';
+  end if;
+
+  select *
+  into invite
+  from public.group_invites gi
+  where gi.code = upper(btrim(invite_code));
+
+  if not found then
+    insert into public.group_invite_failures (user_id) values (auth.uid());
+    return;
+  end if;
+  if invite.expires_at <= now() then
+    raise exception '만료된 초대 코드입니다.';
+  end if;
+
+  insert into public.group_members (group_id, user_id, role)
+  values (invite.group_id, auth.uid(), invite.role)
+  on conflict on constraint group_members_pkey do nothing;
+
+  return query
+  select gm.group_id, gm.role
+  from public.group_members gm
+  where gm.group_id = invite.group_id
+    and gm.user_id = auth.uid();
+end;
+$$;
+
+-- 태블릿이 연결 코드를 쓴다. 태블릿은 먼저 익명 로그인을 하고 이 함수를 부른다.
+-- 기기 계정을 그룹에 viewer로 넣고 어르신 프로필에 묶은 뒤, 코드는 다시 쓸 수 없게 지운다.
+-- 가입한 가족 계정은 기기로 묶지 않는다(연결 해제 때 그룹에서 빠지지 않도록).
+create or replace function public.claim_device_pairing(pairing_code text, device_label text)
+returns table (group_id uuid, elder_id uuid)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  pairing public.device_pairings%rowtype;
+begin
+  if auth.uid() is null then
+    raise exception '로그인이 필요합니다.';
+  end if;
+  if public.is_signed_up_user() then
+    raise exception '가족 계정으로는 기기를 연결할 수 없습니다. 로그아웃한 뒤 다시 시도해 주세요.';
+  end if;
+
+  delete from public.device_pairings dp
+  where dp.code = upper(btrim(pairing_code))
+  returning * into pairing;
+
+  if not found then
+    raise exception '연결 코드를 찾을 수 없습니다.';
+  end if;
+  if pairing.expires_at <= now() then
+    raise exception '만료된 연결 코드입니다.';
+  end if;
+
+  insert into public.group_members (group_id, user_id, role)
+  values (pairing.group_id, auth.uid(), 'viewer')
+  on conflict on constraint group_members_pkey do nothing;
+
+  insert into public.paired_devices (user_id, group_id, elder_id, label, paired_by)
+  values (
+    auth.uid(),
+    pairing.group_id,
+    pairing.elder_id,
+    left(btrim(coalesce(device_label, '')), 60),
+    pairing.created_by
+  )
+  on conflict on constraint paired_devices_pkey do update
+    set group_id = excluded.group_id,
+        elder_id = excluded.elder_id,
+        label = excluded.label,
+        paired_by = excluded.paired_by,
+        created_at = now();
+
+  return query select pairing.group_id, pairing.elder_id;
+end;
+$$;
+
+-- 관리자가 기기 연결을 끊는다. 익명 기기 계정은 그룹에서 빠져 더 이상 아무것도 읽지 못한다.
+-- 예전에 가족 계정으로 연결된 기기라면 연결만 지우고 구성원 자격은 그대로 둔다.
+create or replace function public.revoke_paired_device(device_user uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  device public.paired_devices%rowtype;
+begin
+  select *
+  into device
+  from public.paired_devices pd
+  where pd.user_id = device_user;
+
+  if not found then
+    raise exception '연결된 기기를 찾을 수 없습니다.';
+  end if;
+  if not public.has_group_role(device.group_id, array['admin']) then
+    raise exception '기기 연결을 끊을 권한이 없습니다.';
+  end if;
+
+  delete from public.group_members gm
+  where gm.group_id = device.group_id
+    and gm.user_id = device_user
+    and exists (
+      select 1
+      from auth.users u
+      where u.id = device_user
+        and u.is_anonymous
+    );
+  delete from public.paired_devices pd
+  where pd.user_id = device_user;
+end;
+$$;
+
+-- 어르신 화면에서 복용을 확인한다. 처음 확인할 때만 남은 양을 한 번 먹는 양만큼 줄이고,
+-- 같은 날 같은 블록을 다시 확인하면(다른 기기, 아웃박스 재전송) 그대로 둔다. 남은 양을 돌려준다.
+create or replace function public.record_dose(medication uuid, dose_date date, block text)
+returns numeric
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  target public.medications%rowtype;
+  remaining numeric;
+begin
+  if auth.uid() is null then
+    raise exception '로그인이 필요합니다.';
+  end if;
+
+  select * into target
+  from public.medications m
+  where m.id = medication;
+  if not found
+    or not public.has_group_role(target.group_id, array['admin', 'editor', 'viewer'])
+  then
+    raise exception '약을 찾을 수 없습니다.';
+  end if;
+
+  insert into public.medication_doses (group_id, elder_id, medication_id, date_key, block_id, taken_by)
+  values (target.group_id, target.elder_id, target.id, dose_date, block, auth.uid())
+  on conflict (medication_id, date_key, block_id) do nothing;
+  if not found then
+    return target.stock;
+  end if;
+
+  update public.medications m
+  set stock = greatest(m.stock - m.pills_per_dose, 0),
+      updated_at = now()
+  where m.id = target.id
+  returning m.stock into remaining;
+  return remaining;
+end;
+$$;
+
+-- 로그인한 가족의 캘린더 구독 토큰을 새로 만든다. 이미 있으면 바꿔서 이전 주소를 막는다.
+create or replace function public.issue_calendar_feed_token()
+returns text
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  issued text := encode(gen_random_bytes(24), 'hex');
+begin
+  if auth.uid() is null or not public.is_signed_up_user() then
+    raise exception '로그인이 필요합니다.';
+  end if;
+
+  insert into public.calendar_feed_tokens (user_id, token)
+  values (auth.uid(), issued)
+  on conflict (user_id) do update
+  set token = excluded.token,
+      created_at = now();
+  return issued;
+end;
+$$;
+
+revoke execute on function public.create_family_group(text, text) from public, anon;
+revoke execute on function public.accept_group_invite(text) from public, anon;
+grant execute on function public.create_family_group(text, text) to authenticated;
+grant execute on function public.accept_group_invite(text) to authenticated;
+revoke execute on function public.claim_device_pairing(text, text) from public, anon;
+revoke execute on function public.revoke_paired_device(uuid) from public, anon;
+grant execute on function public.claim_device_pairing(text, text) to authenticated;
+grant execute on function public.revoke_paired_device(uuid) to authenticated;
+revoke execute on function public.record_dose(uuid, date, text) from public, anon;
+grant execute on function public.record_dose(uuid, date, text) to authenticated;
+revoke execute on function public.issue_calendar_feed_token() from public, anon;
+grant execute on function public.issue_calendar_feed_token() to authenticated;
+
+-- /elder, /mypage 화면이 Supabase Realtime으로 스케줄/일정/완료 변경을 받을 수 있도록 게시에 추가한다.
+do $$
+begin
+  if exists (select 1 from pg_publication where pubname = 'supabase_realtime') then
+    if not exists (
+      select 1 from pg_publication_tables
+      where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = 'schedules'
+    ) then
+      alter publication supabase_realtime add table public.schedules;
+    end if;
+    if not exists (
+      select 1 from pg_publication_tables
+      where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = 'events'
+    ) then
+      alter publication supabase_realtime add table public.events;
+    end if;
+    if not exists (
+      select 1 from pg_publication_tables
+      where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = 'task_completions'
+    ) then
+      alter publication supabase_realtime add table public.task_completions;
+    end if;
+  end if;
+end;
+$$;